@@ -20,6 +20,12 @@ import { existsSync } from 'fs'
 import type {
   ImageFormat,
   RotationAngle,
+  ScaleFactor,
+  ResampleFilter,
+  RawBitOrder,
+  ChangedRegionMode,
+  DitherMatrix,
+  ColorDistance,
   ContentTypeMap,
   ColorPaletteDefinition,
   GrayscalePaletteDefinition,
@@ -48,6 +54,7 @@ import {
   isNetworkError,
   parseOptionsFile,
   resolveNavigationTimeout,
+  resolveBrowserPoolSize,
   OptionsParseError,
   type Options,
   NETWORK_ERROR_PATTERNS as SCHEDULER_NETWORK_ERROR_PATTERNS_IMPORT,
@@ -136,6 +143,14 @@ const options: Options = {
     process.env['TIMESTAMP_12H'] !== undefined
       ? process.env['TIMESTAMP_12H'] === 'true'
       : fileOptions.timestamp_12h,
+  native_image_pipeline:
+    process.env['NATIVE_IMAGE_PIPELINE'] !== undefined
+      ? process.env['NATIVE_IMAGE_PIPELINE'] === 'true'
+      : fileOptions.native_image_pipeline,
+  allow_script_actions:
+    process.env['ALLOW_SCRIPT_ACTIONS'] !== undefined
+      ? process.env['ALLOW_SCRIPT_ACTIONS'] === 'true'
+      : fileOptions.allow_script_actions,
   debug_logging:
     process.env['DEBUG_LOGGING'] !== undefined
       ? process.env['DEBUG_LOGGING'] === 'true'
@@ -145,6 +160,7 @@ const options: Options = {
       ? parseInt(process.env['SERVER_PORT'], 10)
       : fileOptions.server_port,
   navigation_timeout_ms: fileOptions.navigation_timeout_ms,
+  browser_pool_size: fileOptions.browser_pool_size,
 }
 
 // Log configuration source for debugging
@@ -304,6 +320,23 @@ export const TIMESTAMP_OVERLAY: boolean = options.timestamp_overlay ?? false
  */
 export const TIMESTAMP_12H: boolean = options.timestamp_12h ?? false
 
+/**
+ * Process captures in process (decode, dither, encode PNG/BMP) instead of
+ * spawning ImageMagick for each step. Set via the native_image_pipeline
+ * add-on option or the NATIVE_IMAGE_PIPELINE environment variable.
+ */
+export const NATIVE_IMAGE_PIPELINE: boolean =
+  options.native_image_pipeline ?? false
+
+/**
+ * Let schedules run `evaluate` page actions. Off by default: the schedule
+ * API is as unauthenticated as the screenshot URL, and a script runs in a
+ * page logged in to Home Assistant. Set via the allow_script_actions
+ * add-on option or the ALLOW_SCRIPT_ACTIONS environment variable.
+ */
+export const ALLOW_SCRIPT_ACTIONS: boolean =
+  options.allow_script_actions ?? false
+
 /**
  * Enable debug logging (from HA add-on configuration)
  * When true, sets log level to 'debug' for verbose output
@@ -361,6 +394,16 @@ export const NAVIGATION_TIMEOUT: number = resolveNavigationTimeout(
   process.env['NAVIGATION_TIMEOUT'],
 )
 
+/**
+ * Number of browser pages that capture concurrently
+ * Configurable via the `browser_pool_size` option or BROWSER_POOL_SIZE
+ * environment variable. 1 keeps the original one-capture-at-a-time behavior.
+ */
+export const BROWSER_POOL_SIZE: number = resolveBrowserPoolSize(
+  options.browser_pool_size,
+  process.env['BROWSER_POOL_SIZE'],
+)
+
 /**
  * Maximum screenshots before proactive browser restart (memory cleanup)
  * Prevents gradual memory accumulation in long-running sessions (auto-refresh, scheduled jobs)
@@ -377,6 +420,73 @@ export const MAX_SCREENSHOTS_BEFORE_RESTART: number = parseInt(
  */
 export const MAX_NEXT_REQUESTS: number = 100
 
+/**
+ * Maximum HTTP screenshot requests waiting for a browser page
+ * Further requests get 429 with Retry-After; scheduled captures are exempt
+ * Configurable via REQUEST_QUEUE_MAX_DEPTH environment variable
+ */
+export const REQUEST_QUEUE_MAX_DEPTH: number = parseInt(
+  process.env['REQUEST_QUEUE_MAX_DEPTH'] || '10',
+)
+
+/**
+ * Memory budget for cached on-demand renders (bytes)
+ * Every good render is kept, as the fallback for a rejected capture; only
+ * requests carrying a max_age param are answered from the cache
+ * Configurable via RENDER_CACHE_MAX_BYTES environment variable
+ */
+export const RENDER_CACHE_MAX_BYTES: number = parseInt(
+  process.env['RENDER_CACHE_MAX_BYTES'] || String(32 * 1024 * 1024),
+)
+
+/**
+ * Share of the dashboard's entities reporting `unavailable` above which a
+ * capture is rejected (HA restarting, integrations down)
+ * Default for schedules without max_unavailable and for the HTTP API
+ * Configurable via CAPTURE_UNAVAILABLE_RATIO environment variable; 1 disables
+ */
+export const CAPTURE_UNAVAILABLE_RATIO: number = parseFloat(
+  process.env['CAPTURE_UNAVAILABLE_RATIO'] || '0.5',
+)
+
+/**
+ * Share of pixels within a few levels of the most common brightness at
+ * which a capture counts as blank
+ */
+export const CAPTURE_BLANK_SHARE: number = 0.999
+
+/**
+ * Retry-After (seconds) sent with the 503 for a rejected capture that has
+ * no earlier good render to fall back on
+ */
+export const CAPTURE_REJECTED_RETRY_AFTER: number = 60
+
+/**
+ * Frames kept to diff changed regions against, one per schedule or request
+ * URL (least recently used dropped first)
+ * Configurable via FRAME_HISTORY_MAX_FRAMES environment variable
+ */
+export const FRAME_HISTORY_MAX_FRAMES: number = parseInt(
+  process.env['FRAME_HISTORY_MAX_FRAMES'] || '16',
+)
+
+/**
+ * Unchanged rows needed between two changed areas to report them as
+ * separate regions
+ */
+export const CHANGED_REGION_GAP: number = 16
+
+/**
+ * Most changed regions reported per frame; the closest ones are merged
+ */
+export const CHANGED_REGION_MAX: number = 4
+
+/**
+ * Changed regions' left and right edges snap to multiples of this many
+ * pixels, a whole byte of a 1-bit panel row
+ */
+export const CHANGED_REGION_ALIGN: number = 8
+
 // =============================================================================
 // SCREENSHOT CONFIGURATION
 // =============================================================================
@@ -388,6 +498,24 @@ export const VALID_FORMATS: readonly ImageFormat[] = [
   'png',
   'jpeg',
   'bmp',
+  'raw',
+  'h',
+] as const
+
+/**
+ * Valid bit orders for raw output
+ */
+export const VALID_RAW_BIT_ORDERS: readonly RawBitOrder[] = [
+  'msb',
+  'lsb',
+] as const
+
+/**
+ * Valid changed-region modes
+ */
+export const VALID_CHANGED_REGION_MODES: readonly ChangedRegionMode[] = [
+  'report',
+  'window',
 ] as const
 
 /**
@@ -395,6 +523,41 @@ export const VALID_FORMATS: readonly ImageFormat[] = [
  */
 export const VALID_ROTATIONS: readonly RotationAngle[] = [90, 180, 270] as const
 
+/**
+ * Valid supersampling factors (1 = no supersampling)
+ */
+export const VALID_SCALE_FACTORS: readonly ScaleFactor[] = [1, 2, 3] as const
+
+/**
+ * Valid filters for resampling supersampled captures
+ */
+export const VALID_RESAMPLE_FILTERS: readonly ResampleFilter[] = [
+  'lanczos',
+  'mitchell',
+  'box',
+] as const
+
+/**
+ * Valid threshold matrices for ordered dithering
+ */
+export const VALID_DITHER_MATRICES: readonly DitherMatrix[] = [
+  '2x2',
+  '4x4',
+  '8x8',
+  'halftone-4x4',
+  'halftone-6x6',
+  'halftone-8x8',
+] as const
+
+/**
+ * Valid color matching modes for discrete color palettes
+ */
+export const VALID_COLOR_DISTANCES: readonly ColorDistance[] = [
+  'rgb',
+  'cie94',
+  'ciede2000',
+] as const
+
 /**
  * Unified palette definitions - SINGLE SOURCE OF TRUTH
  *
@@ -508,6 +671,8 @@ export const CONTENT_TYPES: ContentTypeMap = {
   jpeg: 'image/jpeg',
   bmp: 'image/bmp',
   png: 'image/png',
+  raw: 'application/octet-stream',
+  h: 'text/x-c',
 }
 
 // =============================================================================
@@ -551,7 +716,7 @@ export const SCHEDULER_RETENTION_MULTIPLIER: number = 2
 /**
  * Regular expression pattern for image file extensions
  */
-export const SCHEDULER_IMAGE_FILE_PATTERN: RegExp = /\.(png|jpeg|jpg|bmp)$/i
+export const SCHEDULER_IMAGE_FILE_PATTERN: RegExp = /\.(png|jpeg|jpg|bmp|raw|h)$/i
 
 /**
  * Output directory name for scheduler screenshots
@@ -575,3 +740,13 @@ export const SCHEDULER_NETWORK_ERROR_PATTERNS: readonly string[] =
  * Re-exported from config-helpers for backward compatibility
  */
 export const isSchedulerNetworkError = isNetworkError
+
+// =============================================================================
+// DEVICE API CONFIGURATION
+// =============================================================================
+
+/**
+ * Refresh rate (seconds) sent to polling devices when the schedule has no
+ * interval equivalent (cron-mode) or no schedule is available yet
+ */
+export const DEVICE_DEFAULT_REFRESH_RATE_S: number = 900 // 15 minutes
@@ -3,6 +3,8 @@
  * @module error
  */
 
+import type { CaptureProblem, CaptureRejection } from './types/domain.js'
+
 /**
  * Error thrown when a page cannot be opened in the browser
  * Used for navigation failures, 404s, DNS errors, or authentication issues
@@ -77,3 +79,82 @@ export class BrowserRecoveryFailedError extends Error {
     this.name = 'BrowserRecoveryFailedError'
   }
 }
+
+/**
+ * Error thrown when the request queue is at its maximum depth
+ * Surfaced as HTTP 429 so clients back off instead of piling up
+ */
+export class QueueFullError extends Error {
+  readonly depth: number
+  readonly retryAfterSeconds: number
+
+  constructor(depth: number, retryAfterSeconds: number) {
+    super(`Request queue full (${depth} waiting)`)
+    this.depth = depth
+    this.retryAfterSeconds = retryAfterSeconds
+    this.name = 'QueueFullError'
+  }
+}
+
+/**
+ * Error thrown when a capture selector matches nothing on the page
+ * Surfaced as HTTP 404 - the page opened, but the element isn't there
+ */
+export class ElementNotFoundError extends Error {
+  readonly selector: string
+
+  constructor(selector: string) {
+    super(`No visible element matches selector: ${selector}`)
+    this.selector = selector
+    this.name = 'ElementNotFoundError'
+  }
+}
+
+/**
+ * Error thrown when a scripted page action fails or times out
+ * Classified like CannotOpenPageError: the browser is fine, the page isn't
+ * in the state the schedule expects, so no recovery is attempted
+ */
+export class PageActionError extends Error {
+  /** Zero-based position of the failing step */
+  readonly step: number
+  readonly action: string
+
+  constructor(step: number, action: string, reason: string) {
+    super(`Page action ${step + 1} (${action}) failed: ${reason}`)
+    this.step = step
+    this.action = action
+    this.name = 'PageActionError'
+  }
+}
+
+/**
+ * Error thrown when a schedule's entity condition never holds and the
+ * schedule asked to skip rather than capture a stale dashboard
+ * The scheduler records the run as skipped instead of failed
+ */
+export class EntityConditionTimeoutError extends Error {
+  readonly entityId: string
+  readonly timeout: number
+
+  constructor(entityId: string, timeout: number) {
+    super(`Entity condition on ${entityId} not met within ${timeout}ms`)
+    this.entityId = entityId
+    this.timeout = timeout
+    this.name = 'EntityConditionTimeoutError'
+  }
+}
+
+/**
+ * Error thrown when a scheduled capture shows a login, error or blank page
+ * The run delivers nothing, so devices keep the last good image
+ */
+export class CaptureRejectedError extends Error {
+  readonly problem: CaptureProblem
+
+  constructor({ problem, detail }: CaptureRejection) {
+    super(`Capture rejected (${problem}): ${detail}`)
+    this.problem = problem
+    this.name = 'CaptureRejectedError'
+  }
+}
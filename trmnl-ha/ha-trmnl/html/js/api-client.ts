@@ -8,6 +8,8 @@
  */
 
 import type {
+  CustomPalette,
+  CustomPaletteInput,
   Schedule,
   ScheduleInput,
   ScheduleUpdate,
@@ -146,6 +148,81 @@ export class LoadPalettes {
   }
 }
 
+/**
+ * Creates a custom palette
+ */
+export class CreatePalette {
+  baseUrl: string
+
+  constructor(baseUrl = './api/palettes') {
+    this.baseUrl = baseUrl
+  }
+
+  async call(input: CustomPaletteInput): Promise<CustomPalette> {
+    const response = await fetch(this.baseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    })
+
+    if (!response.ok) {
+      const data = (await response.json()) as { error?: string }
+      throw new Error(data.error ?? `Failed to create palette: ${response.statusText}`)
+    }
+
+    return response.json()
+  }
+}
+
+/**
+ * Replaces the name and colors of a custom palette
+ */
+export class UpdatePalette {
+  baseUrl: string
+
+  constructor(baseUrl = './api/palettes') {
+    this.baseUrl = baseUrl
+  }
+
+  async call(id: string, input: CustomPaletteInput): Promise<CustomPalette> {
+    const response = await fetch(`${this.baseUrl}/${id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    })
+
+    if (!response.ok) {
+      const data = (await response.json()) as { error?: string }
+      throw new Error(data.error ?? `Failed to update palette: ${response.statusText}`)
+    }
+
+    return response.json()
+  }
+}
+
+/**
+ * Deletes a custom palette
+ */
+export class DeletePalette {
+  baseUrl: string
+
+  constructor(baseUrl = './api/palettes') {
+    this.baseUrl = baseUrl
+  }
+
+  async call(id: string): Promise<{ success: boolean }> {
+    const response = await fetch(`${this.baseUrl}/${id}`, {
+      method: 'DELETE',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete palette: ${response.statusText}`)
+    }
+
+    return response.json()
+  }
+}
+
 /**
  * Triggers immediate execution of a schedule.
  * Takes screenshot and optionally uploads to webhook.
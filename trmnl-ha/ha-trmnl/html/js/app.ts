@@ -26,6 +26,9 @@ import { DevicePresetsManager } from './device-presets.js'
 import {
   SendSchedule,
   LoadPalettes,
+  CreatePalette,
+  UpdatePalette,
+  DeletePalette,
   ByosLogin,
   ImportSchedules,
 } from './api-client.js'
@@ -39,8 +42,21 @@ import type {
   WebhookFormatConfig,
   ByosAuthConfig,
   ByosDeliveryMode,
+  PageAction,
+  EntityCondition,
+  EntityConditionOperator,
+  FullPageMode,
+  ScaleFactor,
+  ResampleFilter,
+  ImageFormat,
+  RawBitOrder,
+  ChangedRegionMode,
+  DitherMatrix,
+  ColorDistance,
+  EnhanceConfig,
 } from '../../types/domain.js'
 import { BYOS_DEFAULT_DELIVERY_MODE } from '../shared/byos-constants.js'
+import { parsePaletteColors } from '../shared/custom-palettes.js'
 
 // =============================================================================
 // FORM PARSING HELPERS
@@ -320,7 +336,15 @@ class App {
       return
     }
 
+    if (result.skipped) {
+      console.log(`${logPrefix} Skipped: ${result.skipped}`)
+      return
+    }
+
     console.log(`${logPrefix} Screenshot saved: ${result.savedPath}`)
+    if (result.changes) {
+      console.log(`${logPrefix} Changed regions:`, result.changes)
+    }
 
     if (!result.webhook) {
       console.log(`${logPrefix} No webhook configured`)
@@ -347,6 +371,19 @@ class App {
     buttonText: string
     buttonColor: string
   } {
+    // Captured a login, error or blank page; the device keeps its image
+    if (result.rejected) {
+      return {
+        title: 'Capture Rejected',
+        message: `Nothing was sent, so the device keeps its last good image:\n${
+          result.error ?? result.rejected
+        }`,
+        type: 'warning',
+        buttonText: 'Rejected',
+        buttonColor: '#f59e0b',
+      }
+    }
+
     // Screenshot capture failed
     if (!result.success) {
       return {
@@ -360,6 +397,17 @@ class App {
       }
     }
 
+    // Entity condition never held and the schedule skips in that case
+    if (result.skipped) {
+      return {
+        title: 'Skipped',
+        message: `Nothing was captured or sent:\n${result.skipped}`,
+        type: 'warning',
+        buttonText: 'Skipped',
+        buttonColor: '#f59e0b',
+      }
+    }
+
     // No webhook configured - just screenshot saved
     if (!result.webhook) {
       return {
@@ -481,16 +529,54 @@ class App {
           schedule.viewport.height,
         ),
       },
-      format: (select('s_format') as 'png' | 'jpeg' | 'bmp') || schedule.format,
+      selector: input('s_selector')?.trim() || null,
+      selector_padding: Math.max(0, parseIntOrDefault(input('s_selector_padding'), 0)),
+      full_page: (select('s_full_page') || null) as FullPageMode | null,
+      full_page_tile: Math.max(1, parseIntOrDefault(input('s_full_page_tile'), 1)),
+      custom_css: input('s_custom_css')?.trim() || null,
+      hide_selectors: (input('s_hide_selectors') ?? '')
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean),
+      actions: this.#parseActions(input('s_actions'), schedule.actions),
+      format: (select('s_format') as ImageFormat) || schedule.format,
+      raw_bit_order: (select('s_raw_bit_order') ||
+        schedule.raw_bit_order) as RawBitOrder | null,
+      raw_planes: document.getElementById('s_raw_planes')
+        ? checkbox('s_raw_planes')
+        : schedule.raw_planes,
+      skip_unchanged: checkbox('s_skip_unchanged'),
+      unchanged_tolerance: document.getElementById('s_unchanged_tolerance')
+        ? Math.min(
+            100,
+            Math.max(0, parseFloatOrDefault(input('s_unchanged_tolerance'), 0)),
+          ) || null
+        : schedule.unchanged_tolerance,
+      force_every: document.getElementById('s_force_every')
+        ? Math.max(0, parseIntOrDefault(input('s_force_every'), 0)) || null
+        : schedule.force_every,
+      header_symbol: document.getElementById('s_header_symbol')
+        ? input('s_header_symbol')?.trim() || null
+        : schedule.header_symbol,
+      changed_region: (select('s_changed_region') ||
+        null) as ChangedRegionMode | null,
       rotate: this.#parseRotation(select('s_rotate')),
       zoom: parseFloatOrDefault(input('s_zoom'), 1),
+      scale_factor: parseIntOrDefault(select('s_scale_factor'), 1) as ScaleFactor,
+      resample_filter: (select('s_resample_filter') || null) as ResampleFilter | null,
       wait: this.#parseWait(input('s_wait')),
       invert: checkbox('s_invert'),
       timestamp: checkbox('s_timestamp'),
       dithering: {
         enabled: checkbox('s_dithering'),
         method: select('s_method') || 'floyd-steinberg',
+        matrix: (select('s_dither_matrix') || '8x8') as DitherMatrix,
+        serpentine:
+          (document.getElementById('s_serpentine') as HTMLInputElement | null)
+            ?.checked ?? true,
+        errorClamp: parseIntOrDefault(input('s_error_clamp'), 0) || undefined,
         palette: select('s_palette') || 'gray-4',
+        colorDistance: (select('s_color_distance') || 'rgb') as ColorDistance,
         gammaCorrection:
           (document.getElementById('s_gamma') as HTMLInputElement | null)
             ?.checked ?? true,
@@ -499,6 +585,7 @@ class App {
         whiteLevel: parseIntOrDefault(input('s_white'), 100),
         normalize: checkbox('s_normalize'),
         saturationBoost: checkbox('s_saturation'),
+        enhance: this.#parseEnhance(input, checkbox),
         compressionLevel: parseIntOrDefault(select('s_compression'), 9) as
           | 1
           | 2
@@ -509,6 +596,7 @@ class App {
           | 7
           | 8
           | 9,
+        maxBytes: parseIntOrDefault(input('s_max_bytes'), 0) || undefined,
       },
 
       // Mode-specific fields: only update when in that mode, otherwise preserve existing
@@ -519,6 +607,17 @@ class App {
       theme: isHAMode ? select('s_theme') || null : schedule.theme,
       dark: isHAMode ? checkbox('s_dark') : schedule.dark,
       lang: isHAMode ? input('s_lang') || null : schedule.lang,
+      entity_condition: isHAMode
+        ? this.#buildEntityCondition(select, input, checkbox)
+        : schedule.entity_condition,
+      max_unavailable: isHAMode
+        ? input('s_max_unavailable')?.trim()
+          ? Math.min(
+              100,
+              Math.max(0, parseFloatOrDefault(input('s_max_unavailable'), 0)),
+            )
+          : null
+        : schedule.max_unavailable,
 
       // Generic mode fields - only read from form when in generic mode
       target_url: isHAMode ? undefined : input('s_target_url') || undefined,
@@ -533,6 +632,62 @@ class App {
     return value ? parseInt(value) : null
   }
 
+  /** Reads the enhancement fields; blank fields stay unset */
+  #parseEnhance(
+    input: (id: string) => string | undefined,
+    checkbox: (id: string) => boolean,
+  ): EnhanceConfig {
+    const number = (id: string) => parseFloatOrDefault(input(id), NaN)
+    const optional = (value: number) => (isNaN(value) ? undefined : value)
+    return {
+      sharpenAmount: optional(number('s_sharpen_amount')),
+      sharpenRadius: optional(number('s_sharpen_radius')),
+      gamma: optional(number('s_enhance_gamma')),
+      contrast: optional(number('s_contrast')),
+      contrastMidpoint: optional(number('s_contrast_midpoint')),
+      clahe: checkbox('s_clahe') || undefined,
+    }
+  }
+
+  /** Keeps the saved actions while the JSON being typed doesn't parse */
+  #parseActions(
+    value: string | undefined,
+    current: PageAction[] | undefined,
+  ): PageAction[] | undefined {
+    if (!value?.trim()) return []
+    try {
+      const parsed: unknown = JSON.parse(value)
+      return Array.isArray(parsed) ? (parsed as PageAction[]) : current
+    } catch {
+      return current
+    }
+  }
+
+  /** Reads the entity condition fields; null when no entity is set */
+  #buildEntityCondition(
+    select: (id: string) => string | undefined,
+    input: (id: string) => string | undefined,
+    checkbox: (id: string) => boolean,
+  ): EntityCondition | null {
+    const entityId = input('s_condition_entity')?.trim()
+    if (!entityId) return null
+
+    const operator = (select('s_condition_operator') ||
+      'updated_within') as EntityConditionOperator
+    const operand = input('s_condition_value')?.trim() ?? ''
+    const timeout = input('s_condition_timeout')
+
+    return {
+      entity_id: entityId,
+      operator,
+      ...(operator === 'updated_within'
+        ? { seconds: parseIntOrDefault(operand, 60) }
+        : { value: operand }),
+      ...(timeout ? { timeout: parseInt(timeout) } : {}),
+      on_timeout: checkbox('s_condition_skip') ? 'skip' : 'capture',
+    }
+  }
+
   /**
    * Builds webhook format config from form inputs.
    * Returns null for 'raw' format so JSON.stringify includes it (clears existing value).
@@ -578,6 +733,83 @@ class App {
     return null
   }
 
+  // =============================================================================
+  // CUSTOM PALETTES
+  // =============================================================================
+
+  /**
+   * Saves the palette editor as a new custom palette, or over the selected
+   * one, and selects it for the active schedule.
+   */
+  async saveCustomPalette(update: boolean): Promise<void> {
+    const schedule = this.#scheduleManager.activeSchedule
+    if (!schedule) return
+
+    const name =
+      (document.getElementById('palette_name') as HTMLInputElement | null)
+        ?.value ?? ''
+    const text =
+      (document.getElementById('palette_colors') as HTMLTextAreaElement | null)
+        ?.value ?? ''
+
+    try {
+      const input = { name, colors: parsePaletteColors(text) }
+      const palette = update
+        ? await new UpdatePalette().call(schedule.dithering.palette, input)
+        : await new CreatePalette().call(input)
+
+      this.#paletteOptions = await new LoadPalettes().call()
+      await this.updateField('dithering', {
+        ...schedule.dithering,
+        palette: palette.id,
+      })
+      this.#renderScheduleContent()
+    } catch (err) {
+      await this.#confirmModal.alert({
+        title: 'Palette Not Saved',
+        message: (err as Error).message,
+        type: 'error',
+      })
+    }
+  }
+
+  /**
+   * Deletes the selected custom palette. The active schedule falls back to
+   * gray-4; other schedules using it do the same at capture time.
+   */
+  async deleteCustomPalette(): Promise<void> {
+    const schedule = this.#scheduleManager.activeSchedule
+    if (!schedule) return
+
+    const confirmed = await this.#confirmModal.show({
+      title: 'Delete Palette',
+      message:
+        'Delete this custom palette? Schedules using it switch to 2-bit grayscale.',
+      confirmText: 'Delete',
+      cancelText: 'Cancel',
+      confirmClass: 'bg-red-600 hover:bg-red-700',
+    })
+
+    if (!confirmed) return
+
+    try {
+      await new DeletePalette().call(schedule.dithering.palette)
+      this.#paletteOptions = await new LoadPalettes().call()
+      await this.updateField('dithering', {
+        ...schedule.dithering,
+        palette: 'gray-4',
+      })
+      this.#renderScheduleContent()
+    } catch (err) {
+      console.error('Error deleting palette:', err)
+      await this.#confirmModal.alert({
+        title: 'Error',
+        message: 'Failed to delete palette. Please try again.',
+        type: 'error',
+      })
+    }
+  }
+
   // =============================================================================
   // EXPORT / IMPORT
   // =============================================================================
@@ -14,7 +14,7 @@
  */
 
 import { LoadPresets } from './api-client.js'
-import type { PresetsConfig } from '../../types/domain.js'
+import type { EnhanceConfig, PresetsConfig } from '../../types/domain.js'
 
 /** Home Assistant config structure */
 interface HassConfig {
@@ -189,6 +189,8 @@ export class DevicePresetsManager {
       }
     }
 
+    this.#applyEnhancePreset(device.dithering?.enhance ?? {})
+
     const infoDiv = document.getElementById('deviceInfo')
     const infoPara = infoDiv?.querySelector('p')
     if (infoPara) {
@@ -201,6 +203,30 @@ export class DevicePresetsManager {
     return true
   }
 
+  /**
+   * Fills the enhancement fields with a preset's suggested values. Fields
+   * the preset leaves out are cleared, which turns those steps off.
+   */
+  #applyEnhancePreset(enhance: EnhanceConfig): void {
+    const fields: [string, number | undefined][] = [
+      ['s_sharpen_amount', enhance.sharpenAmount],
+      ['s_sharpen_radius', enhance.sharpenRadius],
+      ['s_enhance_gamma', enhance.gamma],
+      ['s_contrast', enhance.contrast],
+      ['s_contrast_midpoint', enhance.contrastMidpoint],
+    ]
+    for (const [id, value] of fields) {
+      const input = document.getElementById(id) as HTMLInputElement | null
+      if (input) input.value = value === undefined ? '' : String(value)
+    }
+
+    const clahe = document.getElementById('s_clahe') as HTMLInputElement | null
+    if (clahe) {
+      clahe.checked = Boolean(enhance.clahe)
+      clahe.dispatchEvent(new Event('change'))
+    }
+  }
+
   /**
    * Populates theme dropdown from Home Assistant themes.
    */
@@ -0,0 +1,22 @@
+/**
+ * HTML escaping for user input rendered into templates
+ *
+ * Palette names, selectors, custom CSS and page actions are typed by the
+ * user and end up in text content and quoted attribute values alike, so
+ * every character with a meaning in either place is escaped.
+ *
+ * @module html/js/escape-html
+ */
+
+const ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+}
+
+/** Escapes text for use in HTML content or a quoted attribute value */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => ENTITIES[char]!)
+}
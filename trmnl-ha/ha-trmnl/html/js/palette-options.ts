@@ -8,9 +8,13 @@
  * @module html/js/palette-options
  */
 
+import type { CustomPaletteColor } from '../../types/domain.js'
+
 export interface PaletteOption {
   value: string
   label: string
+  /** Colors of a custom palette, for the palette editor */
+  colors?: CustomPaletteColor[]
 }
 
 /** Grayscale palette options */
@@ -55,6 +55,7 @@ export class PreviewGenerator {
     const loadTime = document.getElementById('loadTime')
     const dimensions = document.getElementById('previewDimensions')
     const fileSize = document.getElementById('previewFileSize')
+    const download = document.getElementById('previewDownload')
     const targetUrl = document.getElementById('previewTargetUrl')
 
     if (loading) {
@@ -62,6 +63,7 @@ export class PreviewGenerator {
       image?.classList.add('hidden')
       dimensions?.classList.add('hidden')
       fileSize?.classList.add('hidden')
+      download?.classList.add('hidden')
       targetUrl?.classList.add('hidden')
       error?.classList.add('hidden')
       loadingEl?.classList.remove('hidden')
@@ -86,12 +88,15 @@ export class PreviewGenerator {
 
   /**
    * Displays loaded image with metadata including file size and target URL.
+   * Formats a browser can't show (raw bytes, C headers) only get the
+   * download link.
    */
   #displayImage(
     imageUrl: string,
     loadTimeMs: number,
     sizeBytes: number,
-    targetUrl: string
+    targetUrl: string,
+    { format, header_symbol }: Schedule
   ): void {
     const image = document.getElementById(
       'previewImage'
@@ -99,6 +104,9 @@ export class PreviewGenerator {
     const loadTime = document.getElementById('loadTime')
     const dimensions = document.getElementById('previewDimensions')
     const fileSize = document.getElementById('previewFileSize')
+    const download = document.getElementById(
+      'previewDownload'
+    ) as HTMLAnchorElement | null
     const urlDisplay = document.getElementById('previewTargetUrl')
 
     if (!image) return
@@ -118,6 +126,13 @@ export class PreviewGenerator {
       fileSize.classList.remove('hidden')
     }
 
+    if (download) {
+      download.href = imageUrl
+      download.download =
+        format === 'h' ? `${header_symbol || 'image'}.h` : `preview.${format}`
+      download.classList.remove('hidden')
+    }
+
     // Display target URL
     if (urlDisplay) {
       urlDisplay.textContent = targetUrl
@@ -125,6 +140,9 @@ export class PreviewGenerator {
       urlDisplay.classList.remove('hidden')
     }
 
+    this.#currentBlobUrl = imageUrl
+    if (format === 'raw' || format === 'h') return
+
     const img = new Image()
     img.onload = () => {
       if (dimensions) {
@@ -136,8 +154,6 @@ export class PreviewGenerator {
 
     image.src = imageUrl
     image.classList.remove('hidden')
-
-    this.#currentBlobUrl = imageUrl
   }
 
   /**
@@ -173,7 +189,7 @@ export class PreviewGenerator {
       const endTime = performance.now()
       const loadTimeMs = endTime - startTime
 
-      this.#displayImage(imageUrl, loadTimeMs, blob.size, displayUrl)
+      this.#displayImage(imageUrl, loadTimeMs, blob.size, displayUrl, schedule)
       this.#updateLoadingState(false)
     } catch (err) {
       console.error('Error loading preview:', err)
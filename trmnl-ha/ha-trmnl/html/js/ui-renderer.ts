@@ -18,7 +18,13 @@
 import type { Schedule } from '../../types/domain.js'
 import { BYOS_DEFAULT_DELIVERY_MODE } from '../shared/byos-constants.js'
 import type { PaletteOption } from './palette-options.js'
+import { escapeHtml } from './escape-html.js'
 import { buildScreenshotParams } from '../shared/build-screenshot-params.js'
+import { isErrorDiffusionMethod } from '../shared/dithering-methods.js'
+import {
+  formatPaletteColors,
+  isCustomPaletteId,
+} from '../shared/custom-palettes.js'
 import { resolveScreenshotTarget } from '../shared/screenshot-target.js'
 
 /**
@@ -252,6 +258,8 @@ export class RenderScheduleContent {
             }
           </div>
 
+          ${this.#renderUnchangedSettings()}
+
           ${this.#renderWebhookFormatSettings()}
         </div>
       </div>
@@ -268,6 +276,10 @@ export class RenderScheduleContent {
     if (target.fullUrl) {
       params.append('url', target.fullUrl)
     }
+    // Only for pulling devices; previews always need the full frame
+    if (s.changed_region) {
+      params.append('changed_region', s.changed_region)
+    }
 
     const path = target.isHAMode ? target.path : '/'
     const queryString = params.toString()
@@ -303,6 +315,46 @@ export class RenderScheduleContent {
     `
   }
 
+  #renderUnchangedSettings(): string {
+    const s = this.schedule
+
+    return `
+      <div>
+        <label class="flex items-center" title="Don't call the webhook when the capture matches the last one delivered">
+          <input type="checkbox" id="s_skip_unchanged" ${s.skip_unchanged ? 'checked' : ''}
+            class="h-4 w-4 border-gray-300 rounded"
+            onchange="window.app.updateScheduleFromForm()" />
+          <span class="ml-2 text-sm text-gray-700">Skip unchanged frames</span>
+        </label>
+        ${
+          s.skip_unchanged
+            ? `
+        <div class="grid grid-cols-2 gap-2 mt-2">
+          <div>
+            <label class="block text-sm font-medium text-gray-700 mb-1">Tolerance (%)</label>
+            <input type="number" id="s_unchanged_tolerance" min="0" max="100" step="0.1"
+              value="${s.unchanged_tolerance ?? ''}" placeholder="exact"
+              class="w-full px-3 py-2 border rounded-md" style="border-color: var(--primary-light)"
+              onchange="window.app.updateScheduleFromForm()"
+              title="Share of pixels that may differ and still count as unchanged" />
+          </div>
+          <div>
+            <label class="block text-sm font-medium text-gray-700 mb-1">Force Every N Runs</label>
+            <input type="number" id="s_force_every" min="2" step="1"
+              value="${s.force_every ?? ''}" placeholder="never"
+              class="w-full px-3 py-2 border rounded-md" style="border-color: var(--primary-light)"
+              onchange="window.app.updateScheduleFromForm()"
+              title="Deliver at least once every this many runs, changed or not" />
+          </div>
+        </div>
+        `
+            : ''
+        }
+        <p class="text-xs text-gray-500 mt-1">Saves a device refresh when the dashboard hasn't changed since the last delivery. Send Now always delivers.</p>
+      </div>
+    `
+  }
+
   #renderWebhookFormatSettings(): string {
     const s = this.schedule
     const currentFormat = s.webhook_format?.format ?? 'raw'
@@ -572,13 +624,20 @@ export class RenderScheduleContent {
           <p class="text-xs text-gray-500 mt-1">Viewport dimensions in pixels - should match your e-ink display resolution</p>
 
           ${this.#renderCropSettings()}
+          ${this.#renderSelectorSettings()}
+          ${this.#renderFullPageSettings()}
+          ${this.#renderStyleSettings()}
+          ${this.#renderActionSettings()}
           ${this.#renderFormatSettings()}
           ${this.#renderZoomWaitSettings()}
+          ${this.#renderSupersampleSettings()}
 
           <!-- HA-specific theme settings (hidden when HA mode is off) -->
           <div id="haThemeSection" class="${haOptionsHidden}">
             ${this.#renderThemeSettings()}
             ${this.#renderDarkModeToggle()}
+            ${this.#renderEntityConditionSettings()}
+            ${this.#renderUnavailableSettings()}
           </div>
 
           <!-- Invert toggle (always visible, works for any display) -->
@@ -677,6 +736,113 @@ export class RenderScheduleContent {
     `
   }
 
+  #renderSelectorSettings(): string {
+    const s = this.schedule
+    // Selectors often quote attribute values
+    const selector = escapeHtml(s.selector || '')
+
+    return `
+      <div class="grid grid-cols-4 gap-2 mt-4">
+        <div class="col-span-3">
+          <label class="block text-sm font-medium text-gray-700 mb-1">Capture Element</label>
+          <input type="text" id="s_selector" value="${selector}"
+            class="w-full px-3 py-2 border rounded-md" style="border-color: var(--primary-light)"
+            placeholder="e.g. hui-entities-card or title=Living Room"
+            onchange="window.app.updateScheduleFromForm()"
+            title="CSS selector or title=<card title> of the card to capture" />
+        </div>
+        <div>
+          <label class="block text-sm font-medium text-gray-700 mb-1">Padding</label>
+          <input type="number" id="s_selector_padding" value="${
+            s.selector_padding || 0
+          }" min="0" max="200"
+            class="w-full px-3 py-2 border rounded-md" style="border-color: var(--primary-light)"
+            onchange="window.app.updateScheduleFromForm()"
+            title="Extra pixels captured around the element" />
+        </div>
+      </div>
+      <p class="text-xs text-gray-500 mt-1">Captures just that card, wherever it moves on the dashboard. Overrides the crop region when set.</p>
+    `
+  }
+
+  #renderFullPageSettings(): string {
+    const s = this.schedule
+    const mode = s.full_page ?? ''
+
+    return `
+      <div class="grid grid-cols-4 gap-2 mt-4">
+        <div class="col-span-3">
+          <label class="block text-sm font-medium text-gray-700 mb-1">Full Page</label>
+          <select id="s_full_page" class="w-full px-3 py-2 border rounded-md" style="border-color: var(--primary-light)"
+            onchange="window.app.updateScheduleFromForm()"
+            title="Capture content below the fold">
+            <option value="" ${mode === '' ? 'selected' : ''}>Off (viewport only)</option>
+            <option value="scale" ${mode === 'scale' ? 'selected' : ''}>Scale to fit</option>
+            <option value="tile" ${mode === 'tile' ? 'selected' : ''}>Tile into pages</option>
+          </select>
+        </div>
+        <div>
+          <label class="block text-sm font-medium text-gray-700 mb-1">First Page</label>
+          <input type="number" id="s_full_page_tile" value="${
+            s.full_page_tile || 1
+          }" min="1"
+            class="w-full px-3 py-2 border rounded-md" style="border-color: var(--primary-light)"
+            ${mode === 'tile' ? '' : 'disabled'}
+            onchange="window.app.updateScheduleFromForm()"
+            title="Display-sized page the schedule starts at in tile mode; each run sends the next" />
+        </div>
+      </div>
+      <p class="text-xs text-gray-500 mt-1">For dashboards taller than the display. Overrides the crop region when set.</p>
+    `
+  }
+
+  #renderStyleSettings(): string {
+    const s = this.schedule
+    // Textarea content is HTML, so CSS like `a > b` must be escaped
+    return `
+      <div class="mt-4">
+        <label class="block text-sm font-medium text-gray-700 mb-1">Hide Elements</label>
+        <textarea id="s_hide_selectors" rows="2"
+          class="w-full px-3 py-2 text-sm font-mono border rounded-md" style="border-color: var(--primary-light)"
+          placeholder="One selector per line, e.g. .header"
+          onchange="window.app.updateScheduleFromForm()"
+          title="Elements hidden before capture, matched inside Home Assistant's shadow roots">${escapeHtml(
+            (s.hide_selectors ?? []).join('\n'),
+          )}</textarea>
+      </div>
+      <div class="mt-2">
+        <label class="block text-sm font-medium text-gray-700 mb-1">Custom CSS</label>
+        <textarea id="s_custom_css" rows="3"
+          class="w-full px-3 py-2 text-sm font-mono border rounded-md" style="border-color: var(--primary-light)"
+          placeholder="ha-card { border: 2px solid black; }"
+          onchange="window.app.updateScheduleFromForm()"
+          title="Stylesheet injected into the page and its shadow roots">${escapeHtml(
+            s.custom_css || '',
+          )}</textarea>
+      </div>
+      <p class="text-xs text-gray-500 mt-1">Hide the header, sidebar or badges without a kiosk plugin, or restyle cards for e-ink</p>
+    `
+  }
+
+  #renderActionSettings(): string {
+    const s = this.schedule
+    const actions = s.actions?.length ? JSON.stringify(s.actions, null, 2) : ''
+
+    return `
+      <div class="mt-4">
+        <label class="block text-sm font-medium text-gray-700 mb-1">Page Actions (JSON)</label>
+        <textarea id="s_actions" rows="3"
+          class="w-full px-3 py-2 text-sm font-mono border rounded-md" style="border-color: var(--primary-light)"
+          placeholder='[{ "type": "click", "selector": "paper-tab:nth-of-type(2)" }]'
+          onchange="window.app.updateScheduleFromForm()"
+          title="Steps run after the page loads: click, type, scroll, wait_for, wait, evaluate (needs the allow_script_actions option)">${escapeHtml(
+            actions,
+          )}</textarea>
+      </div>
+      <p class="text-xs text-gray-500 mt-1">Run in order before capture, e.g. to switch a tab or expand a card. Each step accepts a <code>timeout</code> in ms (default 5000).</p>
+    `
+  }
+
   #renderFormatSettings(): string {
     const s = this.schedule
 
@@ -696,6 +862,12 @@ export class RenderScheduleContent {
             <option value="bmp" ${
               s.format === 'bmp' ? 'selected' : ''
             }>BMP</option>
+            <option value="raw" ${
+              s.format === 'raw' ? 'selected' : ''
+            }>Raw (panel bytes)</option>
+            <option value="h" ${
+              s.format === 'h' ? 'selected' : ''
+            }>C header (Arduino)</option>
           </select>
         </div>
         <div>
@@ -714,7 +886,74 @@ export class RenderScheduleContent {
           </select>
         </div>
       </div>
-      <p class="text-xs text-gray-500 mt-1">PNG (lossless), JPEG (smaller files), or BMP (raw) | Rotate for portrait/landscape displays</p>
+      <p class="text-xs text-gray-500 mt-1">PNG (lossless), JPEG (smaller files), BMP, raw framebuffer bytes for ESPHome/Inkplate/Waveshare, or a C header for GxEPD2/Adafruit GFX sketches | Rotate for portrait/landscape displays</p>
+      ${s.format === 'raw' || s.format === 'h' ? this.#renderRawSettings() : ''}
+      ${s.format === 'h' ? this.#renderHeaderSettings() : ''}
+      ${this.#renderChangedRegionSettings()}
+    `
+  }
+
+  #renderChangedRegionSettings(): string {
+    const s = this.schedule
+    const mode = s.changed_region ?? ''
+
+    return `
+      <div class="mt-2">
+        <label class="block text-sm font-medium text-gray-700 mb-1">Changed Region</label>
+        <select id="s_changed_region" class="w-full px-3 py-2 border rounded-md" style="border-color: var(--primary-light)"
+          onchange="window.app.updateScheduleFromForm()"
+          title="Diff each frame against the previous one for partial refresh">
+          <option value="" ${mode === '' ? 'selected' : ''}>Off</option>
+          <option value="report" ${mode === 'report' ? 'selected' : ''}>Report changed area (full frame)</option>
+          <option value="window" ${mode === 'window' ? 'selected' : ''}>Send only the changed window</option>
+        </select>
+      </div>
+      <p class="text-xs text-gray-500 mt-1">X-Changed-Region headers tell partial-refresh firmware which area to redraw; the preview always shows the full frame</p>
+    `
+  }
+
+  #renderRawSettings(): string {
+    const s = this.schedule
+    const bitOrder = s.raw_bit_order ?? 'msb'
+
+    return `
+      <div class="grid grid-cols-2 gap-2 mt-2">
+        <div>
+          <label class="block text-sm font-medium text-gray-700 mb-1">Bit Order</label>
+          <select id="s_raw_bit_order" class="w-full px-3 py-2 border rounded-md" style="border-color: var(--primary-light)"
+            onchange="window.app.updateScheduleFromForm()"
+            title="Which end of each byte holds the leftmost pixel">
+            <option value="msb" ${bitOrder === 'msb' ? 'selected' : ''}>MSB first</option>
+            <option value="lsb" ${bitOrder === 'lsb' ? 'selected' : ''}>LSB first</option>
+          </select>
+        </div>
+        <div class="flex items-end pb-2">
+          <label class="flex items-center" title="One 1-bit plane per color (e.g. black, then red) or per gray bit">
+            <input type="checkbox" id="s_raw_planes" ${s.raw_planes ? 'checked' : ''}
+              class="h-4 w-4 border-gray-300 rounded"
+              onchange="window.app.updateScheduleFromForm()" />
+            <span class="ml-2 text-sm text-gray-700">Separate planes</span>
+          </label>
+        </div>
+      </div>
+    `
+  }
+
+  #renderHeaderSettings(): string {
+    const s = this.schedule
+
+    return `
+      <div class="mt-2">
+        <label class="block text-sm font-medium text-gray-700 mb-1">Array Name</label>
+        <input type="text" id="s_header_symbol" value="${
+          s.header_symbol || ''
+        }" placeholder="image"
+          class="w-full px-3 py-2 border rounded-md font-mono"
+          style="border-color: var(--primary-light)"
+          onchange="window.app.updateScheduleFromForm()"
+          title="C identifier for the array and its _WIDTH/_HEIGHT defines" />
+      </div>
+      <p class="text-xs text-gray-500 mt-1">Use the preview's download link or the Fetch URL to save the .h file</p>
     `
   }
 
@@ -748,6 +987,218 @@ export class RenderScheduleContent {
     `
   }
 
+  #renderSupersampleSettings(): string {
+    const s = this.schedule
+    const factor = s.scale_factor ?? 1
+    const filter = s.resample_filter ?? 'lanczos'
+
+    return `
+      <div class="grid grid-cols-2 gap-2 mt-4">
+        <div>
+          <label class="block text-sm font-medium text-gray-700 mb-1">Supersampling</label>
+          <select id="s_scale_factor" class="w-full px-3 py-2 border rounded-md" style="border-color: var(--primary-light)"
+            onchange="window.app.updateScheduleFromForm()"
+            title="Render at a higher resolution, then scale down before dithering">
+            <option value="1" ${factor === 1 ? 'selected' : ''}>Off (1x)</option>
+            <option value="2" ${factor === 2 ? 'selected' : ''}>2x</option>
+            <option value="3" ${factor === 3 ? 'selected' : ''}>3x</option>
+          </select>
+        </div>
+        <div>
+          <label class="block text-sm font-medium text-gray-700 mb-1">Resample Filter</label>
+          <select id="s_resample_filter" class="w-full px-3 py-2 border rounded-md" style="border-color: var(--primary-light)"
+            ${factor > 1 ? '' : 'disabled'}
+            onchange="window.app.updateScheduleFromForm()"
+            title="How the high-resolution render is scaled down">
+            <option value="lanczos" ${filter === 'lanczos' ? 'selected' : ''}>Lanczos (sharp)</option>
+            <option value="mitchell" ${filter === 'mitchell' ? 'selected' : ''}>Mitchell</option>
+            <option value="box" ${filter === 'box' ? 'selected' : ''}>Box (soft)</option>
+          </select>
+        </div>
+      </div>
+      <p class="text-xs text-gray-500 mt-1">Smoother text on 1-bit and 2-bit palettes. Captures take longer at higher factors.</p>
+    `
+  }
+
+  #renderDitherMatrixSettings(): string {
+    const s = this.schedule
+    const matrix = s.dithering?.matrix ?? '8x8'
+    const matrices = [
+      ['2x2', 'Bayer 2x2 (coarse)'],
+      ['4x4', 'Bayer 4x4'],
+      ['8x8', 'Bayer 8x8 (fine)'],
+      ['halftone-4x4', 'Halftone 4x4'],
+      ['halftone-6x6', 'Halftone 6x6'],
+      ['halftone-8x8', 'Halftone 8x8'],
+    ]
+
+    return `
+      <div>
+        <label class="block text-sm font-medium text-gray-700 mb-1">Matrix</label>
+        <select id="s_dither_matrix" class="w-full px-3 py-2 border rounded-md" style="border-color: var(--primary-light)"
+          ${s.dithering?.method === 'ordered' ? '' : 'disabled'}
+          onchange="window.app.updateScheduleFromForm()"
+          title="Threshold pattern used by ordered dithering">
+          ${matrices
+            .map(
+              ([value, label]) =>
+                `<option value="${value}" ${matrix === value ? 'selected' : ''}>${label}</option>`,
+            )
+            .join('\n          ')}
+        </select>
+        <p class="text-xs text-gray-500 mt-1">Ordered only. Bayer gives an even crosshatch; halftone clusters dots like newsprint.</p>
+      </div>
+    `
+  }
+
+  #renderErrorDiffusionSettings(): string {
+    const s = this.schedule
+    const enabled = isErrorDiffusionMethod(s.dithering?.method)
+
+    return `
+      <div class="grid grid-cols-2 gap-3">
+        <div class="flex items-center">
+          <input type="checkbox" id="s_serpentine" ${
+            s.dithering?.serpentine !== false ? 'checked' : ''
+          } ${enabled ? '' : 'disabled'}
+            class="h-4 w-4 border-gray-300 rounded"
+            onchange="window.app.updateScheduleFromForm()"
+            title="Alternate the scan direction on every row" />
+          <label for="s_serpentine" class="ml-2 text-sm text-gray-700">Serpentine Scanning</label>
+        </div>
+        <div>
+          <label class="block text-sm font-medium text-gray-700 mb-1">Error Clamp</label>
+          <input type="number" id="s_error_clamp" min="1" max="255"
+            value="${s.dithering?.errorClamp ?? ''}" placeholder="Unlimited"
+            ${enabled ? '' : 'disabled'}
+            class="w-full px-3 py-2 border rounded-md" style="border-color: var(--primary-light)"
+            onchange="window.app.updateScheduleFromForm()"
+            title="Largest error one pixel passes to its neighbours (1-255)" />
+        </div>
+      </div>
+      <p class="text-xs text-gray-500 mt-1">Atkinson, Stucki, Sierra, Burkes and Jarvis only. A lower clamp stops dark and light areas bleeding into each other.</p>
+    `
+  }
+
+  #renderEnhanceSettings(): string {
+    const e = this.schedule.dithering?.enhance ?? {}
+    const field = (
+      id: string,
+      label: string,
+      value: number | undefined,
+      attrs: string,
+      title: string,
+    ) => `
+        <div>
+          <label class="block text-sm font-medium text-gray-700 mb-1">${label}</label>
+          <input type="number" id="${id}" ${attrs} value="${value ?? ''}"
+            class="w-full px-3 py-2 border rounded-md" style="border-color: var(--primary-light)"
+            onchange="window.app.updateScheduleFromForm()"
+            title="${title}" />
+        </div>`
+
+    return `
+      <div class="grid grid-cols-3 gap-2">
+        ${field('s_sharpen_amount', 'Sharpen', e.sharpenAmount, 'min="0" max="5" step="0.1" placeholder="Off"', 'Unsharp mask strength (0-5)')}
+        ${field('s_sharpen_radius', 'Sharpen Radius', e.sharpenRadius, 'min="0.1" max="10" step="0.1" placeholder="1"', 'Unsharp mask radius in pixels')}
+        ${field('s_enhance_gamma', 'Gamma', e.gamma, 'min="0.1" max="5" step="0.05" placeholder="1.0"', 'Above 1 brightens midtones, below 1 darkens them')}
+        ${field('s_contrast', 'Contrast', e.contrast, 'min="0" max="20" step="0.5" placeholder="Off"', 'Sigmoidal contrast strength (0-20)')}
+        ${field('s_contrast_midpoint', 'Contrast Midpoint %', e.contrastMidpoint, 'min="0" max="100" step="1" placeholder="50"', 'Brightness the contrast curve pivots around')}
+        <div class="flex items-end pb-2">
+          <input type="checkbox" id="s_clahe" ${e.clahe ? 'checked' : ''}
+            class="h-4 w-4 border-gray-300 rounded"
+            onchange="window.app.updateScheduleFromForm()"
+            title="Equalize contrast per region (CLAHE)" />
+          <label for="s_clahe" class="ml-2 text-sm text-gray-700">Local Contrast</label>
+        </div>
+      </div>
+      <p class="text-xs text-gray-500 mt-1">Applied before dithering. Sharpen keeps small text legible on 1-bit panels; gamma and contrast compensate for dark or washed-out panels. Device presets fill in suggested values.</p>
+    `
+  }
+
+  #renderColorDistanceSettings(): string {
+    const s = this.schedule
+    const palette = s.dithering?.palette
+    const distance = s.dithering?.colorDistance ?? 'rgb'
+    // Only palettes with a fixed set of colors pick a nearest color
+    const enabled =
+      isCustomPaletteId(palette) ||
+      (palette.startsWith('color-') &&
+        palette !== 'color-12bit' &&
+        palette !== 'color-24bit')
+    const distances = [
+      ['rgb', 'RGB (fastest)'],
+      ['cie94', 'CIE94'],
+      ['ciede2000', 'CIEDE2000 (most accurate)'],
+    ]
+
+    return `
+      <div>
+        <label class="block text-sm font-medium text-gray-700 mb-1">Color Matching</label>
+        <select id="s_color_distance" class="w-full px-3 py-2 border rounded-md" style="border-color: var(--primary-light)"
+          ${enabled ? '' : 'disabled'}
+          onchange="window.app.updateScheduleFromForm()"
+          title="How each pixel's nearest palette color is chosen">
+          ${distances
+            .map(
+              ([value, label]) =>
+                `<option value="${value}" ${distance === value ? 'selected' : ''}>${label}</option>`,
+            )
+            .join('\n          ')}
+        </select>
+        <p class="text-xs text-gray-500 mt-1">Color palettes only. CIE94 and CIEDE2000 compare colors the way the eye does, keeping skin tones and dark blues from landing on the wrong ink.</p>
+      </div>
+    `
+  }
+
+  /**
+   * Editor for custom palettes. Opens on the selected palette when it is a
+   * custom one; its fields aren't schedule settings, so they have no s_ prefix.
+   */
+  #renderCustomPaletteEditor(): string {
+    const selected = this.paletteOptions.find(
+      (p) => p.colors && p.value === this.schedule.dithering?.palette,
+    )
+
+    return `
+      <details ${selected ? 'open' : ''}>
+        <summary class="text-sm font-medium text-gray-700 cursor-pointer">Custom Palette</summary>
+        <div class="mt-2 space-y-2">
+          <input type="text" id="palette_name" value="${escapeHtml(selected?.label ?? '')}"
+            placeholder="Palette name, e.g. Spectra 6 (measured)"
+            class="w-full px-3 py-2 border rounded-md" style="border-color: var(--primary-light)" />
+          <textarea id="palette_colors" rows="4"
+            class="w-full px-3 py-2 text-sm font-mono border rounded-md" style="border-color: var(--primary-light)"
+            placeholder="#1F1A24 #000000&#10;#B8B3A8 #FFFFFF&#10;#A02C24 #FF0000"
+            title="Color the panel shows, then the color to write if different">${formatPaletteColors(
+              selected?.colors ?? [],
+            )}</textarea>
+          <p class="text-xs text-gray-500">One color per line: how it looks on the panel, then the value the display expects. Dithering uses the first color, the file gets the second.</p>
+          <div class="flex gap-2">
+            <button type="button" onclick="window.app.saveCustomPalette(false)"
+              class="px-3 py-1.5 text-sm text-white rounded-md transition hover:opacity-90"
+              style="background-color: var(--primary)">
+              Save as New
+            </button>
+            ${
+              selected
+                ? `<button type="button" onclick="window.app.saveCustomPalette(true)"
+              class="px-3 py-1.5 text-sm border-2 rounded-md transition hover:bg-gray-100"
+              style="border-color: var(--primary); color: var(--primary)">
+              Update
+            </button>
+            <button type="button" onclick="window.app.deleteCustomPalette()"
+              class="px-3 py-1.5 text-sm text-red-700 bg-red-100 rounded-md hover:bg-red-200 transition">
+              Delete
+            </button>`
+                : ''
+            }
+          </div>
+        </div>
+      </details>
+    `
+  }
+
   #renderThemeSettings(): string {
     const s = this.schedule
 
@@ -791,6 +1242,85 @@ export class RenderScheduleContent {
     `
   }
 
+  #renderEntityConditionSettings(): string {
+    const c = this.schedule.entity_condition
+    const operator = c?.operator ?? 'updated_within'
+    // One input serves both the compared state and the age in seconds
+    const operand =
+      operator === 'updated_within' ? (c?.seconds ?? '') : (c?.value ?? '')
+
+    return `
+      <div class="grid grid-cols-4 gap-2 mt-4">
+        <div class="col-span-2">
+          <label class="block text-sm font-medium text-gray-700 mb-1">Wait for Entity</label>
+          <input type="text" id="s_condition_entity" value="${c?.entity_id ?? ''}"
+            class="w-full px-3 py-2 border rounded-md" style="border-color: var(--primary-light)"
+            placeholder="e.g. camera.driveway"
+            onchange="window.app.updateScheduleFromForm()"
+            title="Entity that must meet the condition before capture" />
+        </div>
+        <div>
+          <label class="block text-sm font-medium text-gray-700 mb-1">Condition</label>
+          <select id="s_condition_operator" class="w-full px-3 py-2 border rounded-md" style="border-color: var(--primary-light)"
+            onchange="window.app.updateScheduleFromForm()">
+            <option value="updated_within" ${
+              operator === 'updated_within' ? 'selected' : ''
+            }>Updated within (s)</option>
+            <option value="eq" ${operator === 'eq' ? 'selected' : ''}>Equals</option>
+            <option value="neq" ${operator === 'neq' ? 'selected' : ''}>Not equals</option>
+          </select>
+        </div>
+        <div>
+          <label class="block text-sm font-medium text-gray-700 mb-1">Value</label>
+          <input type="text" id="s_condition_value" value="${escapeHtml(String(operand))}"
+            class="w-full px-3 py-2 border rounded-md" style="border-color: var(--primary-light)"
+            onchange="window.app.updateScheduleFromForm()"
+            title="State to compare, or the maximum age in seconds" />
+        </div>
+      </div>
+      <div class="grid grid-cols-2 gap-2 mt-2">
+        <div>
+          <label class="block text-sm font-medium text-gray-700 mb-1">Timeout (ms)</label>
+          <input type="number" id="s_condition_timeout" value="${
+            c?.timeout ?? ''
+          }" min="0" max="300000" placeholder="30000"
+            class="w-full px-3 py-2 border rounded-md" style="border-color: var(--primary-light)"
+            onchange="window.app.updateScheduleFromForm()"
+            title="How long to wait for the condition" />
+        </div>
+        <div class="flex items-end pb-2">
+          <label class="flex items-center" title="When the condition never holds, send nothing instead of the current dashboard">
+            <input type="checkbox" id="s_condition_skip" ${
+              c?.on_timeout === 'skip' ? 'checked' : ''
+            }
+              class="h-4 w-4 border-gray-300 rounded"
+              onchange="window.app.updateScheduleFromForm()" />
+            <span class="ml-2 text-sm text-gray-700">Skip if not met</span>
+          </label>
+        </div>
+      </div>
+      <p class="text-xs text-gray-500 mt-1">Holds the capture until a sensor has a fresh value or a camera has updated. Leave the entity empty to capture straight away.</p>
+    `
+  }
+
+  #renderUnavailableSettings(): string {
+    const s = this.schedule
+
+    return `
+      <div class="grid grid-cols-2 gap-2 mt-4">
+        <div>
+          <label class="block text-sm font-medium text-gray-700 mb-1">Max Unavailable (%)</label>
+          <input type="number" id="s_max_unavailable" min="0" max="100" step="1"
+            value="${s.max_unavailable ?? ''}" placeholder="default"
+            class="w-full px-3 py-2 border rounded-md" style="border-color: var(--primary-light)"
+            onchange="window.app.updateScheduleFromForm()"
+            title="Share of this dashboard's entities that may be unavailable before the capture is rejected" />
+        </div>
+      </div>
+      <p class="text-xs text-gray-500 mt-1">Keeps the last good screen while Home Assistant restarts. 100 never rejects.</p>
+    `
+  }
+
   #renderDitheringSettings(): string {
     const s = this.schedule
 
@@ -823,13 +1353,34 @@ export class RenderScheduleContent {
               <option value="ordered" ${
                 s.dithering?.method === 'ordered' ? 'selected' : ''
               }>Ordered</option>
+              <option value="atkinson" ${
+                s.dithering?.method === 'atkinson' ? 'selected' : ''
+              }>Atkinson</option>
+              <option value="stucki" ${
+                s.dithering?.method === 'stucki' ? 'selected' : ''
+              }>Stucki</option>
+              <option value="sierra" ${
+                s.dithering?.method === 'sierra' ? 'selected' : ''
+              }>Sierra</option>
+              <option value="burkes" ${
+                s.dithering?.method === 'burkes' ? 'selected' : ''
+              }>Burkes</option>
+              <option value="jarvis" ${
+                s.dithering?.method === 'jarvis' ? 'selected' : ''
+              }>Jarvis-Judice-Ninke</option>
+              <option value="hybrid" ${
+                s.dithering?.method === 'hybrid' ? 'selected' : ''
+              }>Hybrid (text-aware)</option>
               <option value="none" ${
                 s.dithering?.method === 'none' ? 'selected' : ''
               }>None</option>
             </select>
-            <p class="text-xs text-gray-500 mt-1">Floyd-Steinberg (best quality, smooth gradients) | Ordered (faster, crosshatch pattern) | None (hard edges)</p>
+            <p class="text-xs text-gray-500 mt-1">Floyd-Steinberg (best quality, smooth gradients) | Ordered (faster, crosshatch pattern) | Atkinson (crisp text on 1-bit) | Stucki, Sierra, Burkes, Jarvis (wider diffusion) | Hybrid (sharp text, dithered photos) | None (hard edges)</p>
           </div>
 
+          ${this.#renderDitherMatrixSettings()}
+          ${this.#renderErrorDiffusionSettings()}
+
           <div>
             <label class="block text-sm font-medium text-gray-700 mb-1">Palette</label>
             <select id="s_palette" class="w-full px-3 py-2 border rounded-md" style="border-color: var(--primary-light)"
@@ -838,15 +1389,18 @@ export class RenderScheduleContent {
               ${this.paletteOptions
                 .map(
                   (p) =>
-                    `<option value="${p.value}" ${
+                    `<option value="${escapeHtml(p.value)}" ${
                       s.dithering?.palette === p.value ? 'selected' : ''
-                    }>${p.label}</option>`,
+                    }>${escapeHtml(p.label)}</option>`,
                 )
                 .join('\n              ')}
             </select>
             <p class="text-xs text-gray-500 mt-1">Match your display: grayscale (TRMNL, classic e-ink) or color (Inky, Spectra, RTM1002)</p>
           </div>
 
+          ${this.#renderCustomPaletteEditor()}
+          ${this.#renderColorDistanceSettings()}
+
           <div class="flex items-center">
             <input type="checkbox" id="s_gamma" ${
               s.dithering?.gammaCorrection ? 'checked' : ''
@@ -901,6 +1455,8 @@ export class RenderScheduleContent {
             </div>
           </div>
 
+          ${this.#renderEnhanceSettings()}
+
           <div class="flex items-center gap-4">
             <label class="flex items-center" title="Stretches histogram so darkest pixel→black, brightest→white">
               <input type="checkbox" id="s_normalize" ${
@@ -946,6 +1502,16 @@ export class RenderScheduleContent {
             </select>
             <p class="text-xs text-gray-500 mt-1">Higher = smaller files but slower. Default 9 (max). Try 6-7 if processing is slow.</p>
           </div>
+
+          <div>
+            <label class="block text-sm font-medium text-gray-700 mb-1">Max File Size (bytes)</label>
+            <input type="number" id="s_max_bytes" min="1" step="1000"
+              value="${s.dithering?.maxBytes ?? ''}" placeholder="No limit"
+              class="w-full px-3 py-2 border rounded-md" style="border-color: var(--primary-light)"
+              onchange="window.app.updateScheduleFromForm()"
+              title="Retry with cheaper settings until the image is at most this size" />
+            <p class="text-xs text-gray-500 mt-1">Over the limit, compression, grays and dithering are stepped down until it fits. TRMNL firmware rejects images over about 50000 bytes.</p>
+          </div>
           </div>
         </div>
       </div>
@@ -1001,6 +1567,7 @@ export class RenderScheduleContent {
           <div class="flex justify-center gap-4">
             <span id="previewDimensions" class="text-xs text-gray-500 hidden"></span>
             <span id="previewFileSize" class="text-xs hidden"></span>
+            <a id="previewDownload" class="text-xs underline hidden" style="color: var(--primary)">Download</a>
           </div>
           <p id="previewTargetUrl" class="text-xs text-gray-400 font-mono truncate max-w-full hidden" title="Target URL"></p>
         </div>
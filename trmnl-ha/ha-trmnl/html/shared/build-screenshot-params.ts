@@ -9,6 +9,7 @@
  */
 
 import type { Schedule } from '../../types/domain.js'
+import { isErrorDiffusionMethod } from './dithering-methods.js'
 
 /**
  * Builds URLSearchParams from schedule configuration.
@@ -16,7 +17,10 @@ import type { Schedule } from '../../types/domain.js'
  * Handles all screenshot options including:
  * - Viewport, format, rotation, zoom, wait
  * - Crop region (optional, for preview only - crop-modal excludes this)
+ * - Element selector and padding (excluded along with crop)
  * - Theme, dark mode, language (HA mode)
+ * - Custom CSS and hidden elements
+ * - Scripted page actions (as JSON)
  * - Invert colors
  * - Full dithering configuration with levelsEnabled check
  *
@@ -42,6 +46,17 @@ export function buildScreenshotParams(
   if (schedule.format && schedule.format !== 'png') {
     params.append('format', schedule.format)
   }
+  if (schedule.format === 'raw' || schedule.format === 'h') {
+    if (schedule.raw_bit_order && schedule.raw_bit_order !== 'msb') {
+      params.append('bit_order', schedule.raw_bit_order)
+    }
+    if (schedule.raw_planes) {
+      params.append('planes', '')
+    }
+  }
+  if (schedule.format === 'h' && schedule.header_symbol) {
+    params.append('symbol', schedule.header_symbol)
+  }
 
   // Rotation
   if (schedule.rotate) {
@@ -61,6 +76,30 @@ export function buildScreenshotParams(
     params.append('crop_height', String(schedule.crop.height))
   }
 
+  // Element selector (replaces crop server-side, so crop-modal excludes it too)
+  if (includeCrop && schedule.selector) {
+    params.append('selector', schedule.selector)
+    if (schedule.selector_padding) {
+      params.append('selector_padding', String(schedule.selector_padding))
+    }
+  }
+
+  // Full page (also replaces crop server-side, so the crop modal skips it)
+  if (includeCrop && schedule.full_page) {
+    params.append('full_page', schedule.full_page)
+    if (schedule.full_page === 'tile' && schedule.full_page_tile) {
+      params.append('tile', String(schedule.full_page_tile))
+    }
+  }
+
+  // Supersampling
+  if (schedule.scale_factor && schedule.scale_factor > 1) {
+    params.append('scale_factor', String(schedule.scale_factor))
+    if (schedule.resample_filter) {
+      params.append('resample', schedule.resample_filter)
+    }
+  }
+
   // Wait time
   if (schedule.wait) {
     params.append('wait', String(schedule.wait))
@@ -81,6 +120,19 @@ export function buildScreenshotParams(
     params.append('lang', schedule.lang)
   }
 
+  // Injected styles (one hide param per selector)
+  if (schedule.custom_css) {
+    params.append('css', schedule.custom_css)
+  }
+  for (const selector of schedule.hide_selectors ?? []) {
+    params.append('hide', selector)
+  }
+
+  // Page actions
+  if (schedule.actions?.length) {
+    params.append('actions', JSON.stringify(schedule.actions))
+  }
+
   // Invert colors
   if (schedule.invert) {
     params.append('invert', '')
@@ -98,7 +150,24 @@ export function buildScreenshotParams(
       'dither_method',
       schedule.dithering.method || 'floyd-steinberg'
     )
+    if (schedule.dithering.method === 'ordered' && schedule.dithering.matrix) {
+      params.append('dither_matrix', schedule.dithering.matrix)
+    }
+    if (isErrorDiffusionMethod(schedule.dithering.method)) {
+      if (schedule.dithering.serpentine === false) {
+        params.append('no_serpentine', '')
+      }
+      if (schedule.dithering.errorClamp) {
+        params.append('error_clamp', String(schedule.dithering.errorClamp))
+      }
+    }
     params.append('palette', schedule.dithering.palette || 'gray-4')
+    if (
+      schedule.dithering.colorDistance &&
+      schedule.dithering.colorDistance !== 'rgb'
+    ) {
+      params.append('color_distance', schedule.dithering.colorDistance)
+    }
 
     // Gamma correction (default is enabled, so we send no_gamma when disabled)
     if (!schedule.dithering.gammaCorrection) {
@@ -126,6 +195,27 @@ export function buildScreenshotParams(
       params.append('saturation_boost', '')
     }
 
+    // Enhancement - only send the steps that are enabled
+    const enhance = schedule.dithering.enhance
+    if (enhance?.sharpenAmount) {
+      params.append('sharpen', String(enhance.sharpenAmount))
+      if (enhance.sharpenRadius) {
+        params.append('sharpen_radius', String(enhance.sharpenRadius))
+      }
+    }
+    if (enhance?.gamma && enhance.gamma !== 1) {
+      params.append('gamma', String(enhance.gamma))
+    }
+    if (enhance?.contrast) {
+      params.append('contrast', String(enhance.contrast))
+      if (enhance.contrastMidpoint !== undefined) {
+        params.append('contrast_midpoint', String(enhance.contrastMidpoint))
+      }
+    }
+    if (enhance?.clahe) {
+      params.append('clahe', '')
+    }
+
     // Compression level (only if not default 9)
     if (
       schedule.dithering.compressionLevel &&
@@ -136,6 +226,10 @@ export function buildScreenshotParams(
         String(schedule.dithering.compressionLevel)
       )
     }
+
+    if (schedule.dithering.maxBytes) {
+      params.append('max_bytes', String(schedule.dithering.maxBytes))
+    }
   }
 
   return params
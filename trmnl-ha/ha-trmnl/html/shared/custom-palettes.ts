@@ -0,0 +1,66 @@
+/**
+ * Custom palette shared helpers
+ *
+ * NOTE: Lives under html/shared/ so the frontend can import it at runtime,
+ * like byos-constants. The palette editor and the palette store parse and
+ * check colors the same way.
+ *
+ * @module shared/custom-palettes
+ */
+
+import type {
+  CustomPaletteColor,
+  CustomPaletteId,
+} from '../../types/domain.js'
+
+/** Prefix that marks a palette id as user-defined */
+export const CUSTOM_PALETTE_PREFIX = 'custom-'
+
+/** Fewest and most colors a custom palette may have */
+export const MIN_CUSTOM_PALETTE_COLORS = 2
+export const MAX_CUSTOM_PALETTE_COLORS = 16
+
+const HEX_COLOR = /^#[0-9A-F]{6}$/i
+
+/** Whether a palette value names a custom palette */
+export function isCustomPaletteId(
+  palette: string | undefined,
+): palette is CustomPaletteId {
+  return Boolean(palette?.startsWith(CUSTOM_PALETTE_PREFIX))
+}
+
+/** Whether a string is a #RRGGBB color */
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && HEX_COLOR.test(value)
+}
+
+/**
+ * Parses the editor's text form: one color per line, perceived color first,
+ * then the output color if it differs. Blank lines are skipped.
+ *
+ * @throws Error Naming the first line that isn't one or two hex colors
+ */
+export function parsePaletteColors(text: string): CustomPaletteColor[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line, index) => {
+      const [perceived = '', output = perceived, ...rest] = line.split(/\s+/)
+      if (!isHexColor(perceived) || !isHexColor(output) || rest.length) {
+        throw new Error(
+          `Line ${index + 1}: expected "#RRGGBB" or "#RRGGBB #RRGGBB"`,
+        )
+      }
+      return { perceived: perceived.toUpperCase(), output: output.toUpperCase() }
+    })
+}
+
+/** Formats colors for the editor, the inverse of parsePaletteColors() */
+export function formatPaletteColors(colors: CustomPaletteColor[]): string {
+  return colors
+    .map(({ perceived, output }) =>
+      perceived === output ? perceived : `${perceived} ${output}`,
+    )
+    .join('\n')
+}
@@ -0,0 +1,26 @@
+/**
+ * Dithering method shared constants
+ *
+ * NOTE: Lives under html/shared/ so the frontend can import it at runtime,
+ * like byos-constants.
+ *
+ * @module shared/dithering-methods
+ */
+
+import type { ErrorDiffusionMethod } from '../../types/domain.js'
+
+/** Methods run by the in-process error-diffusion engine */
+export const ERROR_DIFFUSION_METHODS: readonly ErrorDiffusionMethod[] = [
+  'atkinson',
+  'stucki',
+  'sierra',
+  'burkes',
+  'jarvis',
+]
+
+/** Whether serpentine scanning and the error clamp apply to a method */
+export function isErrorDiffusionMethod(
+  method: string | undefined,
+): method is ErrorDiffusionMethod {
+  return ERROR_DIFFUSION_METHODS.includes(method as ErrorDiffusionMethod)
+}
@@ -0,0 +1,207 @@
+/**
+ * Capture Validation - Catch Login, Error and Blank Pages
+ *
+ * A capture can succeed and still be useless: an expired token lands on the
+ * login page, an unreachable host shows Chromium's error page, and Home
+ * Assistant mid-restart draws a dashboard full of "Unavailable". Pushed to a
+ * device, any of these replaces a perfectly good screen.
+ *
+ * ValidateCapture classifies the page and the raw capture before image
+ * processing:
+ *
+ * | Problem       | Detected by                                          |
+ * |---------------|------------------------------------------------------|
+ * | `login`       | Page URL under `/auth/`                              |
+ * | `error-page`  | Page URL `chrome-error://`                           |
+ * | `unavailable` | Share of the dashboard's entities `unavailable`      |
+ * | `blank`       | Nearly all pixels within a few levels of one another |
+ *
+ * The `unavailable` check counts only entities the dashboard's cards and
+ * rows are configured with, so a view of healthy sensors passes even when
+ * entities elsewhere in Home Assistant are down. Its threshold is a
+ * schedule's `max_unavailable`, defaulting to CAPTURE_UNAVAILABLE_RATIO.
+ *
+ * @module lib/browser/capture-validation
+ */
+
+import type { Page } from 'puppeteer'
+import { CAPTURE_BLANK_SHARE, CAPTURE_UNAVAILABLE_RATIO } from '../../const.js'
+import { decodePng } from '../dithering/png.js'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+import type { CaptureRejection } from '../../types/domain.js'
+
+/** Brightness levels either side of the most common one that still match */
+const BLANK_LEVEL_SPREAD = 8
+
+/** What a capture is classified from */
+export interface CaptureInspection {
+  url: string
+  /**
+   * Share of the dashboard's entities reporting `unavailable`, null off
+   * Home Assistant or when no card names an entity
+   */
+  unavailableRatio: number | null
+  /** Decoded capture, null when it couldn't be decoded */
+  pixels: PixelBuffer | null
+  /** Ratio above which `unavailable` rejects (default CAPTURE_UNAVAILABLE_RATIO) */
+  maxUnavailable?: number
+}
+
+/**
+ * Share of the entities shown on the dashboard whose state is `unavailable`.
+ *
+ * Runs inside the browser via page.evaluate, so it must stay
+ * self-contained: no imports, no module scope, no closures over anything here.
+ *
+ * Lovelace cards and rows (`hui-*`) are found in any shadow root and their
+ * config read for `entity` and `entities` (ids or `{ entity }` objects).
+ * Each entity counts once, however many cards show it.
+ *
+ * @returns Ratio 0-1, or null when the page has no hass states or no card
+ *   names an entity
+ */
+export function unavailableEntityRatio(): number | null {
+  interface Config {
+    entity?: unknown
+    entities?: unknown
+  }
+  const haEl = document.querySelector('home-assistant') as
+    | (Element & {
+        hass?: { states?: Record<string, { state: string }> }
+      })
+    | null
+  const states = haEl?.hass?.states
+  if (!states) return null
+
+  const shown = new Set<string>()
+  const add = (entry: unknown): void => {
+    const id =
+      typeof entry === 'string'
+        ? entry
+        : (entry as { entity?: unknown } | null)?.entity
+    if (typeof id === 'string' && id in states) shown.add(id)
+  }
+
+  const walk = (root: ShadowRoot | Document): void => {
+    for (const el of Array.from(root.querySelectorAll('*'))) {
+      if (el.tagName.startsWith('HUI-')) {
+        const card = el as Element & { _config?: Config; config?: Config }
+        const config = card._config ?? card.config
+        add(config?.entity)
+        if (Array.isArray(config?.entities)) config.entities.forEach(add)
+      }
+      const shadow = (el as Element & { shadowRoot?: ShadowRoot | null })
+        .shadowRoot
+      if (shadow) walk(shadow)
+    }
+  }
+  walk(document)
+
+  if (shown.size === 0) return null
+  let unavailable = 0
+  for (const id of shown) {
+    if (states[id]!.state === 'unavailable') unavailable++
+  }
+  return unavailable / shown.size
+}
+
+/**
+ * Share of pixels whose brightness is within a few levels of the most
+ * common brightness. A real dashboard has text and icons on its
+ * background; a blank frame is one color throughout.
+ */
+export function uniformShare({ channels, data }: PixelBuffer): number {
+  const count = data.length / channels
+  if (count === 0) return 1
+
+  const histogram = new Uint32Array(256)
+  for (let p = 0; p < count; p++) {
+    const i = p * channels
+    const luma =
+      channels >= 3
+        ? Math.round(
+            0.2126 * data[i]! + 0.7152 * data[i + 1]! + 0.0722 * data[i + 2]!,
+          )
+        : data[i]!
+    histogram[luma]!++
+  }
+
+  let mode = 0
+  for (let v = 1; v < 256; v++) {
+    if (histogram[v]! > histogram[mode]!) mode = v
+  }
+
+  let near = 0
+  const from = Math.max(0, mode - BLANK_LEVEL_SPREAD)
+  const to = Math.min(255, mode + BLANK_LEVEL_SPREAD)
+  for (let v = from; v <= to; v++) near += histogram[v]!
+  return near / count
+}
+
+/**
+ * Decides whether a capture is fit to deliver.
+ *
+ * @returns The first problem found, or null for a good capture
+ */
+export function classifyCapture({
+  url,
+  unavailableRatio,
+  pixels,
+  maxUnavailable = CAPTURE_UNAVAILABLE_RATIO,
+}: CaptureInspection): CaptureRejection | null {
+  if (url.startsWith('chrome-error://')) {
+    return { problem: 'error-page', detail: 'browser error page' }
+  }
+  if (url.includes('/auth/')) {
+    return {
+      problem: 'login',
+      detail: 'redirected to the Home Assistant login page (check the access token)',
+    }
+  }
+  if (unavailableRatio !== null && unavailableRatio > maxUnavailable) {
+    const percent = Math.round(unavailableRatio * 100)
+    return {
+      problem: 'unavailable',
+      detail: `${percent}% of the dashboard's entities are unavailable`,
+    }
+  }
+  if (pixels && uniformShare(pixels) >= CAPTURE_BLANK_SHARE) {
+    return { problem: 'blank', detail: 'capture is a single flat color' }
+  }
+  return null
+}
+
+/**
+ * Checks the page and its capture for login, error and blank screens.
+ */
+export class ValidateCapture {
+  #page: Page
+
+  constructor(page: Page) {
+    this.#page = page
+  }
+
+  /**
+   * @param screenshot - PNG straight from page.screenshot()
+   * @param maxUnavailable - Ratio of unavailable entities tolerated
+   * @returns Why the capture shouldn't be delivered, or null
+   */
+  async call(
+    screenshot: Buffer,
+    maxUnavailable?: number,
+  ): Promise<CaptureRejection | null> {
+    let pixels: PixelBuffer | null = null
+    try {
+      pixels = decodePng(screenshot)
+    } catch {
+      // Leave the pixel check out rather than fail the capture
+    }
+
+    return classifyCapture({
+      url: this.#page.url(),
+      unavailableRatio: await this.#page.evaluate(unavailableEntityRatio),
+      pixels,
+      maxUnavailable,
+    })
+  }
+}
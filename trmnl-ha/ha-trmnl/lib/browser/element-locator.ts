@@ -0,0 +1,141 @@
+/**
+ * Element Locator - Capture a Single Card by Selector
+ *
+ * Finds an element on the page and returns the region to capture, so a
+ * screenshot can follow a card around instead of relying on a pixel crop
+ * that breaks whenever the dashboard layout shifts.
+ *
+ * Home Assistant renders almost everything inside nested shadow roots, which
+ * document.querySelector cannot see into, so the search walks every shadow
+ * root the same way isPageReadyForCapture does.
+ *
+ * @module lib/browser/element-locator
+ */
+
+import type { Page } from 'puppeteer'
+import { ElementNotFoundError } from '../../error.js'
+import type { CropRegion } from '../../types/domain.js'
+
+/** Page-space bounding box of a located element (fractional CSS pixels) */
+export interface ElementBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Finds the first visible element matching the selector, in any shadow root.
+ *
+ * Runs inside the browser via page.evaluate, so it must stay
+ * self-contained: no imports, no module scope, no closures over anything here.
+ *
+ * A selector starting with `title=` matches the `ha-card` whose header
+ * reads the given text (case-insensitive). Anything else is a CSS selector,
+ * tried against each shadow root in turn (outer roots first), so it can't
+ * combine parts that live on different sides of a shadow boundary.
+ *
+ * @param selector CSS selector, or `title=<card title>`
+ * @returns Bounding box relative to the document, or null when nothing matches
+ */
+export function locateElementBox(selector: string): ElementBox | null {
+  const title = selector.startsWith('title=')
+    ? selector.slice('title='.length).trim().toLowerCase()
+    : null
+
+  // Conditional cards and hidden views keep their elements in the tree.
+  const visible = (el: Element): boolean => {
+    const rect = el.getBoundingClientRect()
+    return rect.width > 0 && rect.height > 0
+  }
+
+  const hasTitle = (el: Element): boolean => {
+    if (el.tagName !== 'HA-CARD') return false
+    const header =
+      (el as Element & { header?: string }).header ??
+      el.getAttribute('header')
+    return header?.trim().toLowerCase() === title
+  }
+
+  const search = (root: ShadowRoot | Document): Element | null => {
+    if (title === null) {
+      for (const el of Array.from(root.querySelectorAll(selector))) {
+        if (visible(el)) return el
+      }
+    }
+
+    for (const el of Array.from(root.querySelectorAll('*'))) {
+      if (title !== null && hasTitle(el) && visible(el)) return el
+
+      const shadow = (el as Element & { shadowRoot?: ShadowRoot | null })
+        .shadowRoot
+      if (shadow) {
+        const found = search(shadow)
+        if (found) return found
+      }
+    }
+    return null
+  }
+
+  const el = search(document)
+  if (!el) return null
+
+  // A card below the fold has to be on screen to be painted. 'nearest' is a
+  // no-op for a card that is already fully visible.
+  el.scrollIntoView({ block: 'nearest', inline: 'nearest' })
+  const rect = el.getBoundingClientRect()
+  return {
+    x: rect.left + window.scrollX,
+    y: rect.top + window.scrollY,
+    width: rect.width,
+    height: rect.height,
+  }
+}
+
+/**
+ * Grows a box by padding on every side and snaps it to whole pixels.
+ * Rounds outwards so anti-aliased card edges are never cut off, and never
+ * extends past the top-left corner of the page.
+ */
+export function padElementBox(box: ElementBox, padding: number): CropRegion {
+  const x = Math.max(0, Math.floor(box.x - padding))
+  const y = Math.max(0, Math.floor(box.y - padding))
+  return {
+    x,
+    y,
+    width: Math.ceil(box.x + box.width + padding) - x,
+    height: Math.ceil(box.y + box.height + padding) - y,
+  }
+}
+
+/**
+ * Resolves a selector to the region screenshotPage() should clip to.
+ */
+export class LocateElement {
+  #page: Page
+
+  constructor(page: Page) {
+    this.#page = page
+  }
+
+  /**
+   * @param selector - CSS selector or `title=<card title>`
+   * @param padding - Extra pixels captured around the element
+   * @throws ElementNotFoundError When nothing visible matches (or the CSS is invalid)
+   */
+  async call(selector: string, padding: number = 0): Promise<CropRegion> {
+    let box: ElementBox | null
+    try {
+      box = await this.#page.evaluate(locateElementBox, selector)
+    } catch (err) {
+      // querySelectorAll throws a SyntaxError for malformed CSS
+      if ((err as Error).message?.includes('is not a valid selector')) {
+        throw new ElementNotFoundError(selector)
+      }
+      throw err
+    }
+
+    if (!box) throw new ElementNotFoundError(selector)
+    return padElementBox(box, padding)
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Full-Page Capture - Dashboards Taller Than the Display
+ *
+ * Home Assistant lays its views out in a container sized to the window and
+ * scrolls inside it, so a plain screenshot only ever holds one screenful and
+ * Puppeteer's own fullPage option sees a document no taller than the
+ * viewport. Instead the content height is measured in the page, the viewport
+ * is stretched to fit it, and the capture is then either scaled back down to
+ * the display (`scale`) or cut into display-sized pages (`tile`).
+ *
+ * A tile-mode capture holds one page; X-Tile and X-Tile-Count tell the
+ * client which one and how many there are, so it can fetch the rest.
+ *
+ * @module lib/browser/full-page
+ */
+
+import type { Page } from 'puppeteer'
+import type {
+  CropRegion,
+  FullPageMode,
+  FullPageTiles,
+  Viewport,
+} from '../../types/domain.js'
+import { WaitForPaintStability } from './navigation-commands.js'
+import { navigationLogger } from '../logger.js'
+
+const log = navigationLogger()
+
+/**
+ * Tallest page Chromium will reliably capture in one screenshot, in device
+ * pixels: a page rendered at scale factor 2 may be half as tall in CSS px
+ */
+export const MAX_FULL_PAGE_HEIGHT = 16384
+
+/** What screenshotPage() needs to capture a tall page */
+export interface FullPagePlan {
+  /** Viewport height that lets every part of the content render */
+  height: number
+  /** Region of the stretched page to capture */
+  clip: CropRegion
+  /** Size the capture is scaled down to fit (scale mode only) */
+  fit?: Viewport
+  /** Display-sized pages the content spans */
+  pageCount: number
+  /** 1-based page captured (tile mode only) */
+  tile?: number
+}
+
+/**
+ * Measures the height of the page content, in CSS pixels.
+ *
+ * Runs inside the browser via page.evaluate, so it must stay
+ * self-contained: no imports, no module scope, no closures over anything here.
+ *
+ * Lovelace views (`hui-view`, `hui-sections-view`, ...) are found in any
+ * shadow root and measured to their bottom edge, including whatever overflows
+ * the container they scroll in. Pages without them fall back to the height
+ * of the document.
+ */
+export function measureContentHeight(): number {
+  let height = Math.max(
+    document.documentElement.scrollHeight,
+    document.body?.scrollHeight ?? 0,
+  )
+
+  const isView = (el: Element): boolean =>
+    el.tagName === 'HUI-VIEW' ||
+    (el.tagName.startsWith('HUI-') && el.tagName.endsWith('-VIEW'))
+
+  const walk = (root: ShadowRoot | Document): void => {
+    for (const el of Array.from(root.querySelectorAll('*'))) {
+      if (isView(el)) {
+        const rect = el.getBoundingClientRect()
+        const bottom =
+          rect.top + window.scrollY + Math.max(rect.height, el.scrollHeight)
+        height = Math.max(height, bottom)
+      }
+      const shadow = (el as Element & { shadowRoot?: ShadowRoot | null })
+        .shadowRoot
+      if (shadow) walk(shadow)
+    }
+  }
+  walk(document)
+
+  return Math.ceil(height)
+}
+
+/**
+ * Works out how to capture content of the given height on a display.
+ *
+ * Content that fits the display needs nothing special. Otherwise `scale`
+ * captures all of it and shrinks it to fit, and `tile` captures one
+ * display-sized slice, padding the last page with the page background.
+ *
+ * @param tile - 1-based page to capture in tile mode (clamped to the range)
+ * @param scaleFactor - Device scale factor of the capture, which shrinks
+ *   the CSS height that fits under MAX_FULL_PAGE_HEIGHT
+ */
+export function planFullPage(
+  contentHeight: number,
+  viewport: Viewport,
+  mode: FullPageMode,
+  tile: number = 1,
+  scaleFactor: number = 1,
+): FullPagePlan {
+  const maxHeight = Math.max(
+    Math.floor(MAX_FULL_PAGE_HEIGHT / scaleFactor),
+    viewport.height,
+  )
+  const height = Math.min(Math.max(contentHeight, viewport.height), maxHeight)
+  const pageCount = Math.ceil(height / viewport.height)
+
+  if (mode === 'scale') {
+    return {
+      height,
+      clip: { x: 0, y: 0, width: viewport.width, height },
+      fit: height > viewport.height ? { ...viewport } : undefined,
+      pageCount,
+    }
+  }
+
+  // Whole pages only, so the padded last one stays under the cap too
+  const tileCount = Math.max(
+    1,
+    Math.min(pageCount, Math.floor(maxHeight / viewport.height)),
+  )
+  const index = Math.min(Math.max(Math.floor(tile), 1), tileCount) - 1
+  return {
+    height: tileCount * viewport.height,
+    clip: {
+      x: 0,
+      y: index * viewport.height,
+      width: viewport.width,
+      height: viewport.height,
+    },
+    pageCount: tileCount,
+    tile: index + 1,
+  }
+}
+
+/** Response headers naming the tile captured and how many there are */
+export function tileHeaders(tiles: FullPageTiles): Record<string, string> {
+  return {
+    'X-Tile': String(tiles.tile),
+    'X-Tile-Count': String(tiles.count),
+  }
+}
+
+/**
+ * Stretches the viewport to the content so a tall page can be captured.
+ * The caller restores the display viewport after capture.
+ */
+export class PrepareFullPage {
+  #page: Page
+
+  constructor(page: Page) {
+    this.#page = page
+  }
+
+  /**
+   * @param scaleFactor - Device scale factor the page was navigated with,
+   *   kept so a supersampled capture stays supersampled
+   */
+  async call(
+    viewport: Viewport,
+    mode: FullPageMode,
+    tile?: number,
+    scaleFactor: number = 1,
+  ): Promise<FullPagePlan> {
+    const contentHeight = await this.#page.evaluate(measureContentHeight)
+    const plan = planFullPage(contentHeight, viewport, mode, tile, scaleFactor)
+    log.debug`Full page: ${contentHeight}px of content, ${plan.pageCount} page(s), ${mode}`
+
+    if (plan.height !== viewport.height) {
+      await this.#page.setViewport({
+        ...viewport,
+        height: plan.height,
+        deviceScaleFactor: scaleFactor,
+      })
+      // Cards below the old fold only paint once they are on screen
+      await new WaitForPaintStability(this.#page).call()
+    }
+    return plan
+  }
+}
@@ -11,15 +11,21 @@
  * @module lib/browser/navigation-commands
  */
 
-import type { Page } from 'puppeteer'
+import { TimeoutError, type Page } from 'puppeteer'
 import {
   isAddOn,
   DEFAULT_WAIT_TIME,
   COLD_START_EXTRA_WAIT,
   NAVIGATION_TIMEOUT,
 } from '../../const.js'
-import { CannotOpenPageError } from '../../error.js'
-import type { NavigationResult } from '../../types/domain.js'
+import {
+  CannotOpenPageError,
+  EntityConditionTimeoutError,
+} from '../../error.js'
+import type {
+  EntityCondition,
+  NavigationResult,
+} from '../../types/domain.js'
 import { navigationLogger } from '../logger.js'
 
 const log = navigationLogger()
@@ -381,6 +387,83 @@ export class DismissToasts {
   }
 }
 
+/**
+ * Combines a custom stylesheet and a list of selectors to hide into one
+ * stylesheet. Each selector gets its own rule so a single invalid selector
+ * only drops itself, not the whole list.
+ *
+ * @returns Stylesheet text, or an empty string when there is nothing to inject
+ */
+export function buildInjectedCss(css?: string, hide: string[] = []): string {
+  const hideRules = hide
+    .map((selector) => selector.trim())
+    .filter(Boolean)
+    .map((selector) => `${selector} { display: none !important; }`)
+  return [css?.trim(), ...hideRules].filter(Boolean).join('\n')
+}
+
+/**
+ * Adopts the stylesheet into the document and every shadow root.
+ *
+ * Runs inside the browser via page.evaluate, so it must stay
+ * self-contained: no imports, no module scope, no closures over anything here.
+ *
+ * Styles from the document don't cross shadow boundaries, and Home Assistant
+ * draws the header, sidebar and cards inside shadow roots, so each root has
+ * to adopt the sheet itself. One sheet is shared per page and roots that
+ * already hold it are skipped, so calling this again only reaches roots
+ * created since.
+ *
+ * @param css Stylesheet text
+ * @returns Number of roots that adopted the sheet on this call
+ */
+export function injectStylesheet(css: string): number {
+  const store = window as unknown as { __trmnlStyles?: CSSStyleSheet }
+  const sheet = store.__trmnlStyles ?? new CSSStyleSheet()
+  store.__trmnlStyles = sheet
+  sheet.replaceSync(css)
+
+  let adopted = 0
+  const adopt = (root: ShadowRoot | Document): void => {
+    if (root.adoptedStyleSheets.includes(sheet)) return
+    root.adoptedStyleSheets = [...root.adoptedStyleSheets, sheet]
+    adopted++
+  }
+  const walk = (root: ShadowRoot | Document): void => {
+    for (const el of Array.from(root.querySelectorAll('*'))) {
+      const shadow = (el as Element & { shadowRoot?: ShadowRoot | null })
+        .shadowRoot
+      if (shadow) {
+        adopt(shadow)
+        walk(shadow)
+      }
+    }
+  }
+
+  adopt(document)
+  walk(document)
+  return adopted
+}
+
+/**
+ * Injects a custom stylesheet into the page and its shadow roots.
+ *
+ * Replaces the kiosk-mode plugin for hiding the header, sidebar and badges,
+ * and lets a schedule restyle cards for e-ink without touching the dashboard.
+ */
+export class InjectStyles {
+  #page: Page
+
+  constructor(page: Page) {
+    this.#page = page
+  }
+
+  /** @returns Number of roots that adopted the stylesheet */
+  async call(css: string): Promise<number> {
+    return this.#page.evaluate(injectStylesheet, css)
+  }
+}
+
 /**
  * Reports whether the Home Assistant fields isPageReadyForCapture depends on
  * are still there. They are private to the frontend and a release is free to
@@ -574,6 +657,89 @@ export class WaitForHassReady {
   }
 }
 
+/** Entity condition wait when the schedule doesn't set one (milliseconds) */
+const DEFAULT_ENTITY_CONDITION_TIMEOUT = 30000
+
+/** Longest entity condition wait, so a typo can't hold a browser worker */
+const MAX_ENTITY_CONDITION_TIMEOUT = 300000
+
+/**
+ * Checks a schedule's entity condition against the live `hass.states`.
+ *
+ * Runs inside the browser via page.waitForFunction, so it must stay
+ * self-contained: no imports, no module scope, no closures over anything here.
+ *
+ * `updated_within` compares against the browser clock, which is the add-on's
+ * clock; Home Assistant and the add-on share a host, so they agree.
+ */
+export function entityConditionHolds(condition: EntityCondition): boolean {
+  const haEl = document.querySelector('home-assistant') as
+    | (Element & {
+        hass?: {
+          states?: Record<string, { state: string; last_updated: string }>
+        }
+      })
+    | null
+  const entity = haEl?.hass?.states?.[condition.entity_id]
+  if (!entity) return false
+
+  switch (condition.operator) {
+    case 'eq':
+      return entity.state === condition.value
+    case 'neq':
+      return entity.state !== condition.value
+    case 'updated_within': {
+      const age = Date.now() - Date.parse(entity.last_updated)
+      return age <= (condition.seconds ?? 0) * 1000
+    }
+    default:
+      return false
+  }
+}
+
+/**
+ * Waits until a Home Assistant entity meets a schedule's condition, e.g. a
+ * sensor reporting a fresh value or a camera having updated. WaitForHassReady
+ * only proves that states exist; this proves the one that matters is current.
+ *
+ * When the wait times out the schedule decides: capture what is on screen
+ * (default), or raise EntityConditionTimeoutError so the run is skipped.
+ */
+export class WaitForEntityCondition {
+  #page: Page
+
+  constructor(page: Page) {
+    this.#page = page
+  }
+
+  /**
+   * @throws EntityConditionTimeoutError When the wait times out and the
+   *   condition's `on_timeout` is `skip`
+   */
+  async call(condition: EntityCondition): Promise<void> {
+    const timeout = Math.min(
+      Math.max(0, condition.timeout ?? DEFAULT_ENTITY_CONDITION_TIMEOUT),
+      MAX_ENTITY_CONDITION_TIMEOUT,
+    )
+
+    try {
+      await this.#page.waitForFunction(
+        entityConditionHolds,
+        { timeout, polling: 500 },
+        condition,
+      )
+      log.debug`Entity condition on ${condition.entity_id} met`
+    } catch (err) {
+      if (!(err instanceof TimeoutError)) throw err
+
+      if (condition.on_timeout === 'skip') {
+        throw new EntityConditionTimeoutError(condition.entity_id, timeout)
+      }
+      log.warn`Entity condition on ${condition.entity_id} not met within ${timeout}ms — capturing anyway`
+    }
+  }
+}
+
 /**
  * Updates Home Assistant UI language setting.
  */
@@ -0,0 +1,169 @@
+/**
+ * Scripted Page Actions - Interaction Before Capture
+ *
+ * Some pages only show the right state after a click: a tab switched, a card
+ * expanded, a section scrolled into view. A schedule carries these as an
+ * ordered list of steps, run once the readiness pipeline has finished.
+ *
+ * Actions come only from schedules, not the screenshot URL. That is not a
+ * security boundary: the schedule API is on the same unauthenticated port.
+ * `evaluate` runs any script in a page logged in to Home Assistant, so it
+ * is refused unless the allow_script_actions option is on.
+ *
+ * Each step has its own timeout. A failing step raises PageActionError, which
+ * main.ts treats like CannotOpenPageError: the browser is healthy, the page
+ * just isn't in the expected state, so no recovery is attempted.
+ *
+ * @module lib/browser/page-actions
+ */
+
+import type { ElementHandle, Page } from 'puppeteer'
+import { ALLOW_SCRIPT_ACTIONS } from '../../const.js'
+import { PageActionError } from '../../error.js'
+import type { PageAction } from '../../types/domain.js'
+import { navigationLogger } from '../logger.js'
+import { sleep } from '../sleep.js'
+
+const log = navigationLogger()
+
+/** Per-step timeout when an action doesn't set its own (milliseconds) */
+const DEFAULT_ACTION_TIMEOUT = 5000
+
+/** Longest fixed wait step, so a typo can't hold a browser worker for minutes */
+const MAX_WAIT_MS = 30000
+
+/** Selectors already using a Puppeteer query handler or deep combinator */
+const QUERY_HANDLER_PATTERN = /^(pierce|xpath|text|aria)\/|>>>|::-p-/
+
+/**
+ * Turns a plain CSS selector into one that reaches into shadow roots.
+ * Selectors that already use Puppeteer syntax (`>>>`, `::-p-text(...)`,
+ * `xpath/...`) are passed through untouched.
+ */
+export function toPageSelector(selector: string): string {
+  return QUERY_HANDLER_PATTERN.test(selector) ? selector : `pierce/${selector}`
+}
+
+/** Options for RunPageActions */
+export interface RunPageActionsOptions {
+  /** Run `evaluate` steps (default: the allow_script_actions option) */
+  allowScripts?: boolean
+}
+
+/**
+ * Runs a schedule's page actions in order.
+ */
+export class RunPageActions {
+  #page: Page
+  #allowScripts: boolean
+
+  constructor(
+    page: Page,
+    { allowScripts = ALLOW_SCRIPT_ACTIONS }: RunPageActionsOptions = {},
+  ) {
+    this.#page = page
+    this.#allowScripts = allowScripts
+  }
+
+  /**
+   * @throws PageActionError When a step fails or times out
+   */
+  async call(actions: PageAction[]): Promise<void> {
+    for (const [step, action] of actions.entries()) {
+      log.debug`Page action ${step + 1}/${actions.length}: ${action.type}`
+      try {
+        await this.#run(action)
+      } catch (err) {
+        const message = (err as Error).message ?? String(err)
+        // Leave browser failures to the caller's crash classification
+        if (
+          message.includes('Target closed') ||
+          message.includes('Session closed') ||
+          message.includes('Protocol error')
+        ) {
+          throw err
+        }
+        throw new PageActionError(step, action.type, message)
+      }
+    }
+  }
+
+  async #run(action: PageAction): Promise<void> {
+    switch (action.type) {
+      case 'click':
+        return this.#withElement(action.selector, action.timeout, (el) =>
+          el.click(),
+        )
+      case 'type':
+        return this.#withElement(action.selector, action.timeout, (el) =>
+          el.type(action.text),
+        )
+      case 'scroll':
+        return this.#withElement(action.selector, action.timeout, (el) =>
+          el.scrollIntoView(),
+        )
+      case 'wait_for':
+        return this.#withElement(
+          action.selector,
+          action.timeout,
+          async () => {},
+        )
+      case 'wait':
+        return sleep(Math.min(Math.max(0, action.ms), MAX_WAIT_MS))
+      case 'evaluate':
+        if (!this.#allowScripts) {
+          throw new Error('script actions are off (see allow_script_actions)')
+        }
+        await this.#withTimeout(
+          this.#page.evaluate(action.expression),
+          action.timeout,
+        )
+        return
+      default:
+        throw new Error(
+          `unknown action type "${String((action as { type: unknown }).type)}"`,
+        )
+    }
+  }
+
+  /** Waits for a visible element, hands it to `use`, then releases it. */
+  async #withElement(
+    selector: string,
+    timeout: number = DEFAULT_ACTION_TIMEOUT,
+    use: (el: ElementHandle) => Promise<void>,
+  ): Promise<void> {
+    if (typeof selector !== 'string' || !selector.trim()) {
+      throw new Error('selector is required')
+    }
+
+    const el = await this.#page.waitForSelector(toPageSelector(selector), {
+      visible: true,
+      timeout,
+    })
+    if (!el) throw new Error(`no element matches ${selector}`)
+
+    try {
+      await use(el)
+    } finally {
+      await el.dispose()
+    }
+  }
+
+  /** page.evaluate has no timeout of its own */
+  async #withTimeout<T>(
+    work: Promise<T>,
+    timeout: number = DEFAULT_ACTION_TIMEOUT,
+  ): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const expired = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(new Error(`timed out after ${timeout}ms`))
+      }, timeout)
+    })
+    try {
+      return await Promise.race([work, expired])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
@@ -12,11 +12,14 @@ import {
   WaitForPageLoad,
   UpdateLanguage,
   UpdateTheme,
+  InjectStyles,
 } from './navigation-commands.js'
 
 /** Options for page setup after navigation */
 export interface PageSetupOptions {
   zoom: number
+  /** Stylesheet injected into the page and its shadow roots */
+  css?: string
   theme?: string
   lang?: string
   dark?: boolean
@@ -44,13 +47,15 @@ export interface PageSetupStrategy {
  *
  * Handles HA-specific operations:
  * - Wait for shadow DOM loading flags
+ * - Inject custom styles into the shadow roots
  * - Dismiss notification toasts
  * - Update language settings
  * - Update theme/dark mode
  */
 export class HAPageSetup implements PageSetupStrategy {
   async setup(page: Page, options: PageSetupOptions): Promise<PageSetupResult> {
-    const { zoom, theme, lang, dark, lastTheme, lastLang, lastDarkMode } = options
+    const { zoom, css, theme, lang, dark, lastTheme, lastLang, lastDarkMode } =
+      options
     let waitTime = 0
     let themeChanged = false
     let langChanged = false
@@ -64,6 +69,9 @@ export class HAPageSetup implements PageSetupStrategy {
       document.body.style.zoom = String(zoomLevel)
     }, zoom)
 
+    // Shadow roots only exist once the panel has loaded
+    if (css) await new InjectStyles(page).call(css)
+
     // Update language if changed
     if (lang !== lastLang) {
       const langCmd = new UpdateLanguage(page)
@@ -92,17 +100,20 @@ export class HAPageSetup implements PageSetupStrategy {
  *
  * Minimal setup for non-HA pages:
  * - Just set zoom level via CSS
+ * - Inject custom styles
  * - No shadow DOM waits, no HA-specific features
  */
 export class GenericPageSetup implements PageSetupStrategy {
   async setup(page: Page, options: PageSetupOptions): Promise<PageSetupResult> {
-    const { zoom } = options
+    const { zoom, css } = options
 
     // Just set zoom via CSS - no HA-specific operations
     await page.evaluate((zoomLevel: number) => {
       document.body.style.zoom = String(zoomLevel)
     }, zoom)
 
+    if (css) await new InjectStyles(page).call(css)
+
     return { waitTime: 0, themeChanged: false, langChanged: false }
   }
 }
@@ -2,6 +2,10 @@
  * Browser Facade - Unified browser lifecycle management
  *
  * Combines health monitoring and crash recovery into single class.
+ * Health is tracked per pool worker so one page stuck on a broken dashboard
+ * shows up on /health without hiding the workers that still succeed. While
+ * the browser is still connected, a failing worker is recovered on its own,
+ * so captures running on the other workers are not cut off.
  *
  * @module lib/browserFacade
  */
@@ -14,7 +18,8 @@ const log = browserLogger()
 /** Browser instance interface (from screenshot.ts) */
 export interface BrowserInstance {
   cleanup(): Promise<void>
-  triggerInit(): Promise<void>
+  triggerInit(worker?: number): Promise<void>
+  recycleWorker(worker: number): Promise<void>
   isConnected(): boolean
 }
 
@@ -24,13 +29,23 @@ export interface HealthCheckResult {
   reason?: string
 }
 
+/** Health stats for one pool worker */
+export interface WorkerStats {
+  worker: number
+  lastSuccessfulRequest: string
+  consecutiveFailures: number
+}
+
 /** Combined stats for monitoring */
 export interface BrowserStats {
+  /** Most recent success across all workers */
   lastSuccessfulRequest: string
   timeSinceSuccess: number
+  /** Highest consecutive failure count of any worker */
   consecutiveFailures: number
   totalRecoveries: number
   recovering: boolean
+  workers: WorkerStats[]
 }
 
 /** Options for configuring BrowserFacade behavior */
@@ -39,6 +54,14 @@ export interface BrowserFacadeOptions {
   backoffBase?: number
   /** Maximum backoff delay in ms (default: 30000) */
   backoffMax?: number
+  /** Number of pool workers to track (default: 1) */
+  workers?: number
+}
+
+/** Per-worker health counters */
+interface WorkerHealth {
+  lastSuccess: number
+  failures: number
 }
 
 /**
@@ -46,8 +69,7 @@ export interface BrowserFacadeOptions {
  */
 export class BrowserFacade {
   #browser: BrowserInstance
-  #lastSuccess = Date.now()
-  #failures = 0
+  #workers: WorkerHealth[]
   #recoveries = 0
   #recovering = false
   #backoffBase: number
@@ -61,41 +83,74 @@ export class BrowserFacade {
     this.#browser = browser
     this.#backoffBase = options.backoffBase ?? 1000
     this.#backoffMax = options.backoffMax ?? 30000
+    this.#workers = Array.from(
+      { length: Math.max(1, options.workers ?? 1) },
+      () => ({ lastSuccess: Date.now(), failures: 0 })
+    )
   }
 
-  recordSuccess(): void {
-    this.#lastSuccess = Date.now()
-    this.#failures = 0
+  recordSuccess(worker: number = 0): void {
+    const health = this.#health(worker)
+    health.lastSuccess = Date.now()
+    health.failures = 0
   }
 
-  recordFailure(): boolean {
-    this.#failures++
-    return this.#failures >= BrowserFacade.MAX_FAILURES
+  /** @returns True when this worker has failed often enough to recover */
+  recordFailure(worker: number = 0): boolean {
+    const health = this.#health(worker)
+    health.failures++
+    return health.failures >= BrowserFacade.MAX_FAILURES
   }
 
-  checkHealth(): HealthCheckResult {
-    if (this.#failures >= BrowserFacade.MAX_FAILURES) {
+  /**
+   * Unhealthy as soon as any worker is unhealthy, or, given a worker, when
+   * that worker is.
+   */
+  checkHealth(worker?: number): HealthCheckResult {
+    for (const [index, health] of this.#workers.entries()) {
+      if (worker !== undefined && index !== worker) continue
+      const reason = this.#unhealthyReason(health)
+      if (!reason) continue
       return {
         healthy: false,
-        reason: `${this.#failures} consecutive failures`,
-      }
-    }
-    const stale = Date.now() - this.#lastSuccess
-    if (stale > BrowserFacade.STALE_MS && this.#failures > 0) {
-      return {
-        healthy: false,
-        reason: `No success in ${Math.floor(stale / 1000)}s`,
+        reason:
+          this.#workers.length > 1 ? `worker ${index}: ${reason}` : reason,
       }
     }
     return { healthy: true }
   }
 
-  async recover(): Promise<void> {
+  #unhealthyReason({ failures, lastSuccess }: WorkerHealth): string | null {
+    if (failures >= BrowserFacade.MAX_FAILURES) {
+      return `${failures} consecutive failures`
+    }
+    const stale = Date.now() - lastSuccess
+    if (stale > BrowserFacade.STALE_MS && failures > 0) {
+      return `No success in ${Math.floor(stale / 1000)}s`
+    }
+    return null
+  }
+
+  /**
+   * Recovers the browser. Given a worker and a browser that is still
+   * connected, only that worker's page and context are replaced; otherwise,
+   * or when that fails, the whole browser is restarted.
+   */
+  async recover(worker?: number): Promise<void> {
     if (this.#recovering) {
       while (this.#recovering) await this.#delay(500)
       return
     }
 
+    if (worker !== undefined && this.#browser.isConnected()) {
+      try {
+        await this.#recoverWorker(worker)
+        return
+      } catch (err) {
+        log.error`Worker ${worker} recovery failed: ${(err as Error).message}`
+      }
+    }
+
     this.#recovering = true
     let attempts = 0
     let lastError: Error | null = null
@@ -116,7 +171,8 @@ export class BrowserFacade {
 
           log.info`Recovery success after ${attempts} attempt(s)`
           this.#recoveries++
-          this.#failures = 0
+          // Recovery relaunches the browser, so every worker starts clean
+          for (const health of this.#workers) health.failures = 0
           return
         } catch (err) {
           lastError = err as Error
@@ -132,16 +188,41 @@ export class BrowserFacade {
     }
   }
 
+  async #recoverWorker(worker: number): Promise<void> {
+    const health = this.#health(worker)
+    log.info`Recovering browser worker ${worker}...`
+
+    await this.#browser.recycleWorker(worker)
+    await this.#browser.triggerInit(worker)
+    if (!this.#browser.isConnected()) throw new Error('Not connected')
+
+    log.info`Worker ${worker} recovered`
+    this.#recoveries++
+    health.failures = 0
+  }
+
   getStats(): BrowserStats {
+    const lastSuccess = Math.max(...this.#workers.map((w) => w.lastSuccess))
     return {
-      lastSuccessfulRequest: new Date(this.#lastSuccess).toISOString(),
-      timeSinceSuccess: Date.now() - this.#lastSuccess,
-      consecutiveFailures: this.#failures,
+      lastSuccessfulRequest: new Date(lastSuccess).toISOString(),
+      timeSinceSuccess: Date.now() - lastSuccess,
+      consecutiveFailures: Math.max(...this.#workers.map((w) => w.failures)),
       totalRecoveries: this.#recoveries,
       recovering: this.#recovering,
+      workers: this.#workers.map((w, worker) => ({
+        worker,
+        lastSuccessfulRequest: new Date(w.lastSuccess).toISOString(),
+        consecutiveFailures: w.failures,
+      })),
     }
   }
 
+  #health(worker: number): WorkerHealth {
+    const health = this.#workers[worker]
+    if (!health) throw new Error(`Unknown browser worker ${worker}`)
+    return health
+  }
+
   #backoff(attempt: number): number {
     return Math.min(this.#backoffBase * 2 ** attempt, this.#backoffMax)
   }
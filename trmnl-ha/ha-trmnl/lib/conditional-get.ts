@@ -0,0 +1,95 @@
+/**
+ * HTTP conditional GET (ETag / Last-Modified → 304).
+ *
+ * Devices poll the same URL on every wake; when the frame hasn't changed
+ * they only need the headers, not the bytes. Validators are derived from
+ * the image content so identical frames always compare equal, whether they
+ * were rendered on demand or read from a saved capture.
+ *
+ * @module lib/conditional-get
+ */
+
+import { createHash } from 'node:crypto'
+import type { IncomingHttpHeaders } from 'node:http'
+
+/** Rendered URLs whose validators are remembered (oldest evicted first) */
+const MAX_TRACKED_URLS = 100
+
+/** Validators describing one version of a resource */
+export interface Validators {
+  etag: string
+  lastModified: Date
+}
+
+/** Strong ETag for an image buffer (quoted, per RFC 9110) */
+export function computeEtag(content: Buffer): string {
+  return `"${createHash('sha1').update(content).digest('base64url')}"`
+}
+
+/** Response headers advertising the validators */
+export function validatorHeaders(
+  validators: Validators,
+): Record<string, string> {
+  return {
+    ETag: validators.etag,
+    'Last-Modified': validators.lastModified.toUTCString(),
+  }
+}
+
+/**
+ * Whether the client's cached copy is still current.
+ *
+ * If-None-Match wins when present (RFC 9110 §13.2.2); If-Modified-Since is
+ * only consulted without it. HTTP dates have second precision, so the
+ * modification time is truncated before comparing.
+ */
+export function isNotModified(
+  headers: IncomingHttpHeaders,
+  validators: Validators,
+): boolean {
+  const ifNoneMatch = headers['if-none-match']
+  if (ifNoneMatch) {
+    if (ifNoneMatch.trim() === '*') return true
+    return ifNoneMatch
+      .split(',')
+      .map((tag) => tag.trim().replace(/^W\//, ''))
+      .includes(validators.etag)
+  }
+
+  const ifModifiedSince = headers['if-modified-since']
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince)
+    if (Number.isNaN(since)) return false
+    const modified = Math.floor(validators.lastModified.getTime() / 1000) * 1000
+    return modified <= since
+  }
+
+  return false
+}
+
+/**
+ * Remembers validators per rendered URL.
+ *
+ * On-demand renders produce a fresh buffer every time, so Last-Modified
+ * must stay at the time the content last *changed* — otherwise
+ * If-Modified-Since would never match.
+ */
+export class RenderValidators {
+  #byKey = new Map<string, Validators>()
+
+  /** Returns validators for a freshly rendered image of the given URL */
+  track(key: string, image: Buffer, now: Date = new Date()): Validators {
+    const etag = computeEtag(image)
+    const previous = this.#byKey.get(key)
+    const validators =
+      previous?.etag === etag ? previous : { etag, lastModified: now }
+
+    // Re-insert so the most recently rendered URL is evicted last
+    this.#byKey.delete(key)
+    this.#byKey.set(key, validators)
+    if (this.#byKey.size > MAX_TRACKED_URLS) {
+      this.#byKey.delete(this.#byKey.keys().next().value!)
+    }
+    return validators
+  }
+}
@@ -18,9 +18,12 @@ export interface Options {
   keep_browser_open?: boolean
   timestamp_overlay?: boolean
   timestamp_12h?: boolean
+  native_image_pipeline?: boolean
+  allow_script_actions?: boolean
   debug_logging?: boolean
   server_port?: number
   navigation_timeout_ms?: number
+  browser_pool_size?: number
 }
 
 /**
@@ -121,6 +124,24 @@ export function resolveNavigationTimeout(
   return Number.isFinite(raw) ? raw : 30000
 }
 
+/**
+ * Resolves the number of concurrent browser workers.
+ *
+ * Each worker is a Chromium page (roughly 100-200 MB on a busy dashboard),
+ * so the pool is clamped to a range small hardware can survive.
+ *
+ * @param fileValue - browser_pool_size from the options file
+ * @param envValue - BROWSER_POOL_SIZE environment variable
+ * @returns Worker count between 1 and 4, defaulting to 1
+ */
+export function resolveBrowserPoolSize(
+  fileValue: number | undefined,
+  envValue: string | undefined,
+): number {
+  const raw = fileValue ?? parseInt(envValue || '1', 10)
+  return Number.isFinite(raw) ? Math.min(Math.max(raw, 1), 4) : 1
+}
+
 /**
  * Check if running with environment variable configuration
  * @param env - Environment variables object (defaults to process.env)
@@ -0,0 +1,193 @@
+/**
+ * Device Store Module
+ *
+ * Manages TRMNL device registrations for the built-in BYOS device API.
+ * Devices register themselves via /api/setup using their MAC address and
+ * authenticate later polls with the issued API key. Stored separately from
+ * the bundled devices.json presets.
+ *
+ * @module deviceStore
+ */
+
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { randomBytes } from 'node:crypto'
+import type { Device, DeviceUpdate } from '../types/domain.js'
+import { DATA_DIR } from '../const.js'
+import { schedulerLogger } from './logger.js'
+import { withLock } from './file-lock.js'
+
+const log = schedulerLogger()
+
+const DEFAULT_DEVICES_FILE = path.join(DATA_DIR, 'registered-devices.json')
+
+/**
+ * Normalizes a MAC address so "aa:bb:.." and "AA:BB:.." register once
+ */
+export function normalizeMac(mac: string): string {
+  return mac.trim().toUpperCase()
+}
+
+/**
+ * Load devices from JSON file
+ */
+export async function loadDevices(
+  filePath: string = DEFAULT_DEVICES_FILE
+): Promise<Device[]> {
+  try {
+    const data = await fs.readFile(filePath, 'utf-8')
+    return JSON.parse(data) as Device[]
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      log.error`Error loading devices: ${err}`
+    }
+  }
+  return []
+}
+
+async function saveDevices(filePath: string, devices: Device[]): Promise<void> {
+  try {
+    await fs.writeFile(filePath, JSON.stringify(devices, null, 2))
+  } catch (err) {
+    log.error`Error saving devices: ${err}`
+    throw err
+  }
+}
+
+/**
+ * Register a device by MAC address.
+ * Returns null when the MAC is already known: MACs are not secret, so the
+ * existing API key is never handed out again. A device that re-runs setup
+ * (e.g. after a factory reset) pairs again once its registration is deleted.
+ */
+export async function registerDevice(
+  filePath: string,
+  mac: string
+): Promise<Device | null>
+export async function registerDevice(mac: string): Promise<Device | null>
+export async function registerDevice(
+  filePathOrMac: string,
+  mac?: string
+): Promise<Device | null> {
+  const filePath =
+    typeof mac === 'string' ? filePathOrMac : DEFAULT_DEVICES_FILE
+  const normalizedMac = normalizeMac(
+    typeof mac === 'string' ? mac : filePathOrMac
+  )
+
+  return withLock(filePath, async () => {
+    const devices = await loadDevices(filePath)
+    if (devices.some((d) => d.mac === normalizedMac)) return null
+
+    const now = new Date().toISOString()
+    const friendlyId = generateFriendlyId()
+    const device: Device = {
+      id: generateId(),
+      mac: normalizedMac,
+      api_key: randomBytes(16).toString('hex'),
+      friendly_id: friendlyId,
+      name: `TRMNL ${friendlyId}`,
+      schedule_id: null,
+      last_seen_at: null,
+      battery_voltage: null,
+      rssi: null,
+      firmware_version: null,
+      createdAt: now,
+      updatedAt: now,
+    }
+    devices.push(device)
+    await saveDevices(filePath, devices)
+    log.info`Registered device ${device.friendly_id} (${normalizedMac})`
+    return device
+  })
+}
+
+/**
+ * Update an existing device
+ */
+export async function updateDevice(
+  filePath: string,
+  id: string,
+  updates: DeviceUpdate
+): Promise<Device | null>
+export async function updateDevice(
+  id: string,
+  updates: DeviceUpdate
+): Promise<Device | null>
+export async function updateDevice(
+  filePathOrId: string,
+  idOrUpdates: string | DeviceUpdate,
+  updates?: DeviceUpdate
+): Promise<Device | null> {
+  const filePath =
+    typeof updates !== 'undefined' ? filePathOrId : DEFAULT_DEVICES_FILE
+  const id =
+    typeof updates !== 'undefined' ? (idOrUpdates as string) : filePathOrId
+  const data =
+    typeof updates !== 'undefined' ? updates : (idOrUpdates as DeviceUpdate)
+
+  return withLock(filePath, async () => {
+    const devices = await loadDevices(filePath)
+    const index = devices.findIndex((d) => d.id === id)
+    if (index === -1) {
+      return null
+    }
+    // NOTE: Identity fields are never overwritten by an update
+    const current = devices[index]!
+    const updatedDevice: Device = {
+      ...current,
+      ...data,
+      id,
+      mac: current.mac,
+      api_key: current.api_key,
+      friendly_id: current.friendly_id,
+      createdAt: current.createdAt,
+      updatedAt: new Date().toISOString(),
+    }
+    devices[index] = updatedDevice
+    await saveDevices(filePath, devices)
+    return updatedDevice
+  })
+}
+
+/**
+ * Delete a device
+ */
+export async function deleteDevice(
+  filePath: string,
+  id: string
+): Promise<boolean>
+export async function deleteDevice(id: string): Promise<boolean>
+export async function deleteDevice(
+  filePathOrId: string,
+  id?: string
+): Promise<boolean> {
+  const filePath =
+    typeof id === 'string' ? filePathOrId : DEFAULT_DEVICES_FILE
+  const deviceId = typeof id === 'string' ? id : filePathOrId
+
+  return withLock(filePath, async () => {
+    const devices = await loadDevices(filePath)
+    const index = devices.findIndex((d) => d.id === deviceId)
+    if (index === -1) {
+      return false
+    }
+    devices.splice(index, 1)
+    await saveDevices(filePath, devices)
+    return true
+  })
+}
+
+/**
+ * Generate a unique ID
+ */
+function generateId(): string {
+  return `device_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+}
+
+/**
+ * Generate the 6-character code TRMNL firmware displays during setup
+ */
+function generateFriendlyId(): string {
+  return randomBytes(3).toString('hex').toUpperCase()
+}
@@ -16,26 +16,67 @@ const gm = gmLib.subClass({ imageMagick: true })
 import {
   COLOR_PALETTES,
   GRAYSCALE_PALETTES,
+  NATIVE_IMAGE_PIPELINE,
   TIMESTAMP_12H,
   VALID_ROTATIONS,
 } from '../const.js'
 import { FloydSteinbergStrategy } from './dithering/floyd-steinberg-strategy.js'
 import { timed } from './metrics.js'
-import { OrderedStrategy } from './dithering/ordered-strategy.js'
+import {
+  OrderedStrategy,
+  channelLevels,
+} from './dithering/ordered-strategy.js'
 import { ThresholdStrategy } from './dithering/threshold-strategy.js'
+import { ErrorDiffusionStrategy } from './dithering/error-diffusion-strategy.js'
+import { HybridStrategy } from './dithering/hybrid-strategy.js'
+import { DIFFUSION_KERNELS } from './dithering/error-diffusion.js'
+import {
+  decodePnm,
+  encodePnm,
+  hexToRgb,
+  invertPalette,
+  outputPalette,
+} from './dithering/pixel-buffer.js'
+import { encodeBmp } from './dithering/bmp.js'
+import { decodePng, encodePng } from './dithering/png.js'
+import { encodeRaw, type RawOutputOptions } from './dithering/raw.js'
+import { encodeCHeader } from './dithering/c-header.js'
+import type { OutputFrame } from './dithering/changed-region.js'
+import { remapColors, toGrayscale } from './dithering/pixel-ops.js'
+import { quantizePixels } from './dithering/quantize.js'
+import { enhanceArgs } from './dithering/enhance.js'
+import {
+  prepareCaptureNative,
+  processImageNative,
+} from './dithering/native-pipeline.js'
+import { fitToBudget } from './dithering/size-budget.js'
+import { getPalette } from './paletteStore.js'
+import { isCustomPaletteId } from '../html/shared/custom-palettes.js'
 import type {
+  ColorDistance,
+  CustomPaletteColor,
+  CustomPaletteId,
   DitheringMethod,
+  EnhanceConfig,
+  DitherMatrix,
   Palette,
   RotationAngle,
   ImageFormat,
+  RawLayout,
+  SizeBudgetResult,
   ColorPalette,
   GrayscalePalette,
   BitDepth,
   CompressionLevel,
+  Viewport,
+  ResampleFilter,
 } from '../types/domain.js'
 import type {
   DitheringStrategy,
+  DitheringStrategyOptions,
   DitheringMode,
+  PixelBuffer,
+  PixelDitheringStrategy,
 } from '../types/dithering-strategy.js'
 import { ditheringLogger } from './logger.js'
 
@@ -50,6 +91,12 @@ export const SUPPORTED_METHODS: readonly DitheringMethod[] = [
   'floyd-steinberg',
   'ordered',
   'threshold',
+  'atkinson',
+  'stucki',
+  'sierra',
+  'burkes',
+  'jarvis',
+  'hybrid',
 ] as const
 
 /** Method name including legacy 'none' alias */
@@ -97,13 +144,46 @@ export interface ProcessImageOptions {
   dithering?: DitheringOptions
   /** Stamp the capture time in the bottom-right corner */
   timestamp?: boolean
+  /** Shrink the image to fit this size, padding the rest with white */
+  fit?: Viewport
+  /** Resample a supersampled capture to exactly this size */
+  resample?: Viewport
+  /** Filter for fit and resample (default: lanczos) */
+  filter?: ResampleFilter
+  /**
+   * Dither and encode in process instead of with ImageMagick
+   * (default: the native_image_pipeline option)
+   */
+  native?: boolean
+  /** Called with how the output was fitted when dithering sets maxBytes */
+  onBudget?: (budget: SizeBudgetResult) => void
+  /** Layout of `raw` and `h` output */
+  raw?: RawOutputOptions
+  /**
+   * Called with the final pixels of the image returned. Not called for
+   * dithered JPEG, or BMP in full-spectrum color, which only ImageMagick
+   * writes.
+   */
+  onFrame?: (frame: OutputFrame) => void
 }
 
 /** Options for dithering */
 export interface DitheringOptions {
   enabled?: boolean
   method?: DitheringMethodWithAlias
-  palette?: Palette
+  /** Threshold matrix for the ordered method (default: 8x8) */
+  matrix?: DitherMatrix
+  /** Alternate scan direction per row for error-diffusion kernels */
+  serpentine?: boolean
+  /** Largest error per channel one pixel passes on */
+  errorClamp?: number
+  palette?: Palette | CustomPaletteId
+  /** Colors of the custom palette named by `palette`, filled in by processImage() */
+  customColors?: readonly CustomPaletteColor[]
+  /** Color matching for discrete color palettes (default: rgb) */
+  colorDistance?: ColorDistance
+  /** Sharpening and tone adjustments before quantization */
+  enhance?: EnhanceConfig
   gammaCorrection?: boolean
   /** Enable manual black/white level adjustments */
   levelsEnabled?: boolean
@@ -118,12 +198,18 @@ export interface DitheringOptions {
   bitDepth?: BitDepth
   /** PNG compression level 1-9 (default: 9, max compression) */
   compressionLevel?: CompressionLevel
+  /** Retry with cheaper settings until the output is at most this many bytes */
+  maxBytes?: number
+  /** Layout of `raw` and `h` output */
+  raw?: RawOutputOptions
+  /** Called with the final pixels, when they're at hand */
+  onFrame?: (frame: OutputFrame) => void
 }
 
 /** Validated dithering options with defaults applied */
 export interface ValidatedDitheringOptions {
   method: DitheringMethodWithAlias
-  palette: Palette
+  palette: Palette | CustomPaletteId
   gammaCorrection: boolean
   blackLevel: number
   whiteLevel: number
@@ -146,16 +232,18 @@ export function validateDitheringOptions(
   options: Partial<DitheringOptions> = {}
 ): ValidatedDitheringOptions {
   const palette = (
-    SUPPORTED_PALETTES.includes(options.palette!) ? options.palette : 'gray-4'
+    SUPPORTED_PALETTES.includes(options.palette as Palette) ||
+    isCustomPaletteId(options.palette)
+      ? options.palette
+      : 'gray-4'
   )!
-  const isColor = isColorPalette(palette)
+  // Custom palettes are always treated as color palettes
+  const isColor = isColorPalette(palette) || isCustomPaletteId(palette)
 
   return {
     method:
       options.method &&
-      ['floyd-steinberg', 'ordered', 'none', 'threshold'].includes(
-        options.method
-      )
+      [...SUPPORTED_METHODS, 'none'].includes(options.method)
         ? options.method
         : 'floyd-steinberg',
     palette,
@@ -181,19 +269,37 @@ export function validateDitheringOptions(
 /** Strategy registry mapping method names to strategy instances */
 const DITHERING_STRATEGIES: Record<
   DitheringMethodWithAlias,
-  DitheringStrategy
+  DitheringStrategy | PixelDitheringStrategy
 > = {
   'floyd-steinberg': new FloydSteinbergStrategy(),
   ordered: new OrderedStrategy(),
   threshold: new ThresholdStrategy(),
   none: new ThresholdStrategy(), // Legacy alias
+  atkinson: new ErrorDiffusionStrategy(DIFFUSION_KERNELS.atkinson),
+  stucki: new ErrorDiffusionStrategy(DIFFUSION_KERNELS.stucki),
+  sierra: new ErrorDiffusionStrategy(DIFFUSION_KERNELS.sierra),
+  burkes: new ErrorDiffusionStrategy(DIFFUSION_KERNELS.burkes),
+  jarvis: new ErrorDiffusionStrategy(DIFFUSION_KERNELS.jarvis),
+  hybrid: new HybridStrategy(),
+}
+
+/**
+ * Checks whether a strategy dithers decoded pixels rather than queuing
+ * ImageMagick arguments.
+ */
+function isPixelStrategy(
+  strategy: DitheringStrategy | PixelDitheringStrategy
+): strategy is PixelDitheringStrategy {
+  return 'diffuse' in strategy
 }
 
 /**
  * Gets dithering strategy for a given method name.
  * Falls back to Floyd-Steinberg if unknown method provided.
  */
-function getStrategy(method: string): DitheringStrategy {
+function getStrategy(
+  method: string
+): DitheringStrategy | PixelDitheringStrategy {
   return (
     DITHERING_STRATEGIES[method as DitheringMethodWithAlias] ||
     DITHERING_STRATEGIES['floyd-steinberg']
@@ -321,45 +427,203 @@ export async function processImage(
   imageBuffer: Buffer,
   options: ProcessImageOptions = {}
 ): Promise<Buffer> {
-  const { format = 'png', rotate, invert, dithering, timestamp } = options
+  const {
+    format = 'png',
+    rotate,
+    invert,
+    timestamp,
+    fit,
+    resample,
+    filter,
+    native = NATIVE_IMAGE_PIPELINE,
+    onBudget,
+    raw,
+    onFrame,
+  } = options
+  let { dithering } = options
 
   let buffer = imageBuffer
 
+  if (dithering?.enabled && isCustomPaletteId(dithering.palette)) {
+    dithering = await resolveCustomPalette(dithering)
+  }
+
+  // Full-page and supersampled captures are bigger than the output; bring
+  // them to size first so the timestamp and dithering work at the final
+  // resolution. Fitting resamples too, so it covers both.
   // Annotate before dithering so the text survives 1-bit palettes and
-  // format conversion like any other page content
-  if (timestamp) {
-    buffer = await timed('dither.annotate', () => annotateTimestamp(buffer))
+  // format conversion like any other page content.
+  const prepared =
+    native && (fit || resample || timestamp)
+      ? await timed('dither.native.prepare', async () =>
+          prepareCaptureNative(buffer, {
+            fit,
+            resample,
+            filter,
+            timestamp: timestamp ? formatTimestamp(new Date()) : undefined,
+          }),
+        )
+      : null
+  if (prepared) {
+    buffer = prepared
+  } else {
+    if (fit) {
+      buffer = await timed('dither.fit', () => fitToSize(buffer, fit, filter))
+    } else if (resample) {
+      buffer = await timed('dither.resample', () =>
+        resampleToSize(buffer, resample, filter),
+      )
+    }
+    if (timestamp) {
+      buffer = await timed('dither.annotate', () => annotateTimestamp(buffer))
+    }
+  }
+
+  // With a size budget, encode again with cheaper settings until it fits
+  const encodeOptions = { format, rotate, invert, native, raw }
+  if (dithering?.enabled && dithering.maxBytes) {
+    // Keep each attempt's frame so onFrame gets the one that was used
+    const frames = new Map<Buffer, OutputFrame>()
+    const { image, budget } = await fitToBudget(
+      dithering.maxBytes,
+      dithering,
+      format,
+      async (attempt) => {
+        let frame: OutputFrame | undefined
+        const image = await encodeImage(buffer, {
+          ...encodeOptions,
+          dithering: attempt,
+          onFrame:
+            onFrame &&
+            ((result) => {
+              frame = result
+            }),
+        })
+        if (frame) frames.set(image, frame)
+        return image
+      },
+    )
+    onBudget?.(budget)
+    const frame = frames.get(image)
+    if (frame) onFrame?.(frame)
+    return image
+  }
+
+  return encodeImage(buffer, { ...encodeOptions, dithering, onFrame })
+}
+
+/** Options for encodeImage() */
+interface EncodeOptions {
+  format: ImageFormat
+  rotate?: RotationAngle
+  invert?: boolean
+  dithering?: DitheringOptions
+  native: boolean
+  raw?: RawOutputOptions
+  onFrame?: (frame: OutputFrame) => void
+}
+
+/**
+ * Dithers, rotates, inverts and converts a capture that is already at its
+ * final size.
+ */
+async function encodeImage(
+  buffer: Buffer,
+  { format, rotate, invert, dithering, native, raw, onFrame }: EncodeOptions
+): Promise<Buffer> {
+  // A C header is the raw bytes written out as an array
+  if (format === 'h') {
+    const layouts: RawLayout[] = []
+    const bytes = await encodeImage(buffer, {
+      format: 'raw',
+      rotate,
+      invert,
+      dithering,
+      native,
+      onFrame,
+      raw: {
+        ...raw,
+        onLayout: (layout) => {
+          layouts.push(layout)
+          raw?.onLayout?.(layout)
+        },
+      },
+    })
+    return encodeCHeader(bytes, layouts[0]!, raw?.symbol)
+  }
+
+  // In-process pipeline, when enabled and there is work left to do. Falls
+  // through to ImageMagick for JPEG and anything it can't decode.
+  if (native && (dithering?.enabled || rotate || invert || format !== 'png')) {
+    const result = await timed('dither.native', async () =>
+      processImageNative(buffer, {
+        format,
+        rotate,
+        invert,
+        dithering,
+        raw,
+        onFrame,
+      }),
+    )
+    if (result) return result
   }
 
   // Apply dithering if enabled (includes format conversion in single pipeline)
   if (dithering?.enabled) {
-    buffer = await timed('dither.apply', () =>
+    return timed('dither.apply', () =>
       applyDithering(buffer, {
         ...dithering,
         invert: invert || false,
         rotate: rotate || 0,
         format,
+        raw,
+        onFrame,
       }),
     )
-  } else if (rotate || invert) {
+  }
+
+  if (rotate || invert) {
     // Rotate and/or invert without dithering
     buffer = await timed('dither.simple', () =>
       applySimpleProcessing(buffer, { rotate, invert }),
     )
-    // Convert format if needed
-    if (format !== 'png') {
-      buffer = await timed('dither.convert', () =>
-        convertToFormat(buffer, format),
-      )
-    }
-  } else if (format !== 'png') {
-    // Just format conversion, no processing
+  }
+
+  // Without dithering the frame is the PNG so far
+  const decodeFrame = (png: Buffer): PixelBuffer => {
+    const pixels = decodePng(png)
+    onFrame?.({ pixels, bitDepth: null, palette: null })
+    return pixels
+  }
+
+  if (format === 'raw') {
+    // Full-color RGB bytes
+    return encodeRaw(decodeFrame(buffer), raw)
+  }
+  if (onFrame) decodeFrame(buffer)
+  if (format !== 'png') {
+    // Format conversion
     buffer = await timed('dither.convert', () => convertToFormat(buffer, format))
   }
 
   return buffer
 }
 
+/**
+ * Loads the colors of the custom palette dithering options name. A palette
+ * that no longer exists falls back to gray-4, like any unknown palette.
+ */
+async function resolveCustomPalette(
+  dithering: DitheringOptions
+): Promise<DitheringOptions> {
+  const custom = await getPalette(dithering.palette!)
+  if (!custom) {
+    log.warn`Custom palette ${dithering.palette} not found, using gray-4`
+    return { ...dithering, palette: 'gray-4' }
+  }
+  return { ...dithering, customColors: custom.colors }
+}
+
 /**
  * Formats capture time as "YYYY-MM-DD HH:MM" (24h default) or
  * "YYYY-MM-DD H:MM AM/PM" (timestamp_12h option) in the configured timezone.
@@ -405,6 +669,47 @@ export async function annotateTimestamp(imageBuffer: Buffer): Promise<Buffer> {
   }
 }
 
+/** ImageMagick names of the resample filters */
+const RESAMPLE_FILTERS: Record<ResampleFilter, string> = {
+  lanczos: 'Lanczos',
+  mitchell: 'Mitchell',
+  box: 'Box',
+}
+
+/**
+ * Scales an image down to fit within a size, keeping its aspect ratio, and
+ * centers it on a white canvas of exactly that size.
+ */
+export async function fitToSize(
+  imageBuffer: Buffer,
+  size: Viewport,
+  filter: ResampleFilter = 'lanczos'
+): Promise<Buffer> {
+  const image = gm(imageBuffer)
+    .filter(RESAMPLE_FILTERS[filter])
+    .resize(size.width, size.height, '>')
+    .gravity('Center')
+    .background('white')
+    .extent(size.width, size.height)
+  return streamToBuffer(image, { format: 'png' })
+}
+
+/**
+ * Resamples a supersampled capture to exactly the given size. Averaging
+ * several device pixels into each output pixel smooths text edges before
+ * dithering reduces them to a few gray levels.
+ */
+export async function resampleToSize(
+  imageBuffer: Buffer,
+  size: Viewport,
+  filter: ResampleFilter = 'lanczos'
+): Promise<Buffer> {
+  const image = gm(imageBuffer)
+    .filter(RESAMPLE_FILTERS[filter])
+    .resize(size.width, size.height, '!')
+  return streamToBuffer(image, { format: 'png' })
+}
+
 /**
  * Apply simple processing (rotation and/or inversion) without dithering
  */
@@ -490,6 +795,11 @@ export async function applyDithering(
 ): Promise<Buffer> {
   const {
     method = 'floyd-steinberg',
+    matrix,
+    serpentine,
+    errorClamp,
+    colorDistance = 'rgb',
+    enhance,
     palette = 'gray-4',
     gammaCorrection = true,
     levelsEnabled = false,
@@ -502,9 +812,16 @@ export async function applyDithering(
     compressionLevel = 9,
   } = options
 
-  const isColorPaletteMode = Boolean(
-    palette && COLOR_PALETTES[palette as ColorPalette]
-  )
+  // Custom palettes dither to what the panel shows, then swap in the
+  // colors written to the file
+  const customColors = isCustomPaletteId(palette)
+    ? options.customColors
+    : undefined
+  const paletteColors =
+    customColors?.map((c) => c.perceived) ??
+    COLOR_PALETTES[palette as ColorPalette]
+
+  const isColorPaletteMode = Boolean(paletteColors)
   const isGrayscalePaletteMode = Boolean(
     palette && GRAYSCALE_PALETTES[palette as GrayscalePalette]
   )
@@ -516,6 +833,14 @@ export async function applyDithering(
   const normalize = options.normalize ?? true
   const saturationBoost = options.saturationBoost ?? isColorPaletteMode
 
+  // -remap only measures distance in RGB, so perceptual matching to a
+  // discrete palette quantizes in process
+  const perceptual =
+    colorDistance !== 'rgb' &&
+    isColorPaletteMode &&
+    !isFullSpectrumPalette(palette)
+  const strategy = getStrategy(method)
+
   let image: State = gm(imageBuffer)
 
   // Apply rotation BEFORE dithering
@@ -531,34 +856,50 @@ export async function applyDithering(
   // Track bit depth for compression (grayscale only)
   let bitDepth: number | null = null
 
+  // What a pixel strategy quantizes to, when the palette reduces colors
+  let pixelTarget: DitheringStrategyOptions | null = null
+
   // Process based on palette type
   if (isColorPaletteMode && isFullSpectrumPalette(palette)) {
     image = applyFullSpectrumProcessing(image, {
       palette: palette as ColorPalette,
       method,
+      matrix,
       normalize,
       saturationBoost,
+      enhance,
     })
+    if (palette === 'color-12bit') {
+      pixelTarget = { mode: 'color', levels: 16 }
+    }
   } else if (isColorPaletteMode) {
     image = applyColorDithering(image, {
       palette: palette as ColorPalette,
+      colors: paletteColors,
       method,
+      matrix,
       normalize,
       saturationBoost,
+      enhance,
+      inProcess: perceptual,
     })
+    pixelTarget = { mode: 'color', palette: paletteColors }
   } else {
     const colors = isGrayscalePaletteMode
       ? GRAYSCALE_PALETTES[palette as GrayscalePalette]
       : GRAYSCALE_PALETTES['gray-4']
     const result = applyGrayscaleDithering(image, {
       method,
+      matrix,
       colors,
       levelsEnabled,
       blackLevel,
       whiteLevel,
       normalize,
+      enhance,
     })
     image = result.image
+    pixelTarget = { mode: 'grayscale', colors }
     // Use override if provided, otherwise use calculated from palette
     bitDepth = bitDepthOverride ?? result.bitDepth
     if (bitDepthOverride && bitDepthOverride !== result.bitDepth) {
@@ -566,11 +907,55 @@ export async function applyDithering(
     }
   }
 
+  // Quantize in process for kernels ImageMagick doesn't offer, and for
+  // CIELAB matching
+  if (perceptual && pixelTarget) {
+    const target = { ...pixelTarget, matrix, serpentine, errorClamp }
+    image = await ditherInProcess(image, target, (pixels) =>
+      quantizePixels(pixels, method, { ...target, colorDistance })
+    )
+  } else if (isPixelStrategy(strategy) && pixelTarget) {
+    const target = { ...pixelTarget, serpentine, errorClamp }
+    image = await ditherInProcess(image, target, (pixels) =>
+      strategy.diffuse(pixels, target)
+    )
+  }
+
+  if (customColors?.some((c) => c.perceived !== c.output)) {
+    image = await remapInProcess(image, customColors)
+  }
+
   // Apply color inversion if requested
   if (invert) {
     image = image.out('-negate')
   }
 
+  // ImageMagick writes remapped PNGs as truecolor, orders BMP color tables
+  // as it likes and has no raw panel format; encode those here, in palette
+  // order
+  const discrete = isColorPaletteMode && !isFullSpectrumPalette(palette)
+  if (
+    format === 'raw' ||
+    (discrete && format !== 'jpeg') ||
+    (!isColorPaletteMode && format === 'bmp')
+  ) {
+    let indexPalette = discrete
+      ? outputPalette(paletteColors, customColors)
+      : null
+    if (indexPalette && invert) indexPalette = invertPalette(indexPalette)
+    const buffer = await encodeInProcess(image, {
+      format,
+      color: isColorPaletteMode,
+      palette: indexPalette,
+      bitDepth,
+      compressionLevel,
+      raw: options.raw,
+      onFrame: options.onFrame,
+    })
+    logOutputSize(buffer, bitDepth, compressionLevel)
+    return buffer
+  }
+
   // Strip metadata for smaller files.
   // - Skip for color palettes: `-strip` removes the colormap.
   // - Skip for PNG: `-strip` removes ancillary chunks (bKGD, etc.) that some
@@ -592,23 +977,42 @@ export async function applyDithering(
   // Stream to final format
   const buffer = await streamToBuffer(configured, { format: outputFormat })
 
-  // Log output size
+  // ImageMagick writes grays as gray or palette PNG; decoding gives RGB
+  if (options.onFrame && format === 'png') {
+    const pixels = decodePng(buffer)
+    options.onFrame({
+      pixels: bitDepth === null ? pixels : toGrayscale(pixels),
+      bitDepth,
+      palette: null,
+    })
+  }
+
+  logOutputSize(buffer, bitDepth, compressionLevel)
+  return buffer
+}
+
+/** Logs the size of a dithered image and the settings that produced it */
+function logOutputSize(
+  buffer: Buffer,
+  bitDepth: number | null,
+  compressionLevel: number
+): void {
   const sizeKB = (buffer.length / 1024).toFixed(1)
   log.info`Output: ${buffer.length} bytes (${sizeKB}KB) [depth:${
     bitDepth ?? 'auto'
   }, compression:${compressionLevel}]`
-
-  return buffer
 }
 
 /** Options for grayscale dithering */
 interface GrayscaleDitheringOptions {
   method: string
+  matrix?: DitherMatrix
   colors: number
   levelsEnabled: boolean
   blackLevel: number
   whiteLevel: number
   normalize: boolean
+  enhance?: EnhanceConfig
 }
 
 /**
@@ -634,8 +1038,16 @@ function applyGrayscaleDithering(
   image: State,
   options: GrayscaleDitheringOptions
 ): GrayscaleDitheringResult {
-  const { method, colors, levelsEnabled, blackLevel, whiteLevel, normalize } =
-    options
+  const {
+    method,
+    matrix,
+    colors,
+    levelsEnabled,
+    blackLevel,
+    whiteLevel,
+    normalize,
+    enhance,
+  } = options
   const bitDepth = getBitDepth(colors)
 
   // Convert to grayscale
@@ -654,12 +1066,17 @@ function applyGrayscaleDithering(
     image = image.out('-level', `${blackPoint},${whitePoint}`)
   }
 
-  // Select and apply dithering strategy
+  image = applyEnhancement(image, enhance)
+
+  // Select and apply dithering strategy (pixel strategies run afterwards)
   const strategy = getStrategy(method)
-  image = strategy.call(image, {
-    mode: 'grayscale' as DitheringMode,
-    colors,
-  })
+  if (!isPixelStrategy(strategy)) {
+    image = strategy.call(image, {
+      mode: 'grayscale' as DitheringMode,
+      colors,
+      matrix,
+    })
+  }
 
   return { image, bitDepth }
 }
@@ -667,9 +1084,15 @@ function applyGrayscaleDithering(
 /** Options for color dithering */
 interface ColorDitheringOptions {
   palette: ColorPalette
+  /** Colors to map to instead of the palette's own (custom palettes) */
+  colors?: readonly string[]
   method: string
+  matrix?: DitherMatrix
   normalize: boolean
   saturationBoost: boolean
+  enhance?: EnhanceConfig
+  /** Stop before quantizing, which happens in process afterwards */
+  inProcess?: boolean
 }
 
 /**
@@ -687,8 +1110,8 @@ function applyColorDithering(
   image: State,
   options: ColorDitheringOptions
 ): State {
-  const { palette, method, normalize, saturationBoost } = options
-  const colors = COLOR_PALETTES[palette]
+  const { palette, method, matrix, normalize, saturationBoost } = options
+  const colors = options.colors ?? COLOR_PALETTES[palette]
 
   if (!colors) {
     throw new Error(`Unknown color palette: ${palette}`)
@@ -705,6 +1128,14 @@ function applyColorDithering(
     image = image.normalize()
   }
 
+  image = applyEnhancement(image, options.enhance)
+
+  // In-process quantization maps straight to the palette's sRGB hex colors
+  const strategy = getStrategy(method)
+  if (options.inProcess || isPixelStrategy(strategy)) {
+    return image.colorspace('sRGB')
+  }
+
   // Convert to RGB colorspace for color processing
   image = image.colorspace('RGB')
 
@@ -722,8 +1153,11 @@ function applyColorDithering(
     .out(')')
 
   // Apply dithering strategy
-  const strategy = getStrategy(method)
-  image = strategy.call(image, { mode: 'color' as DitheringMode })
+  image = strategy.call(image, {
+    mode: 'color' as DitheringMode,
+    levels: channelLevels(colors),
+    matrix,
+  })
 
   // Remap to the in-memory palette
   image = image.out('-remap', 'mpr:palette')
@@ -732,6 +1166,14 @@ function applyColorDithering(
   return image
 }
 
+/**
+ * Queues the enabled sharpening and tone adjustments (see enhance.ts).
+ */
+function applyEnhancement(image: State, enhance?: EnhanceConfig): State {
+  const args = enhanceArgs(enhance)
+  return args.length ? image.out(...args) : image
+}
+
 /**
  * Applies full-spectrum color processing for 12-bit and 24-bit palettes.
  *
@@ -744,7 +1186,7 @@ function applyFullSpectrumProcessing(
   image: State,
   options: ColorDitheringOptions
 ): State {
-  const { palette, method, normalize, saturationBoost } = options
+  const { palette, method, matrix, normalize, saturationBoost } = options
 
   if (saturationBoost) {
     image = image.modulate(110, 150)
@@ -754,16 +1196,95 @@ function applyFullSpectrumProcessing(
     image = image.normalize()
   }
 
+  image = applyEnhancement(image, options.enhance)
+
   image = image.colorspace('sRGB')
 
-  if (palette === 'color-12bit') {
+  const strategy = getStrategy(method)
+  if (palette === 'color-12bit' && !isPixelStrategy(strategy)) {
     // 16 levels per channel (4 bits × 3 channels = 12-bit color)
     // Strategy sets the dithering method; -posterize applies it per-channel
-    const strategy = getStrategy(method)
-    image = strategy.call(image, { mode: 'color' as DitheringMode })
+    image = strategy.call(image, {
+      mode: 'color' as DitheringMode,
+      levels: 16,
+      matrix,
+    })
     image = image.out('-posterize', '16')
   }
   // 24-bit: no color reduction — full spectrum passthrough
 
   return image
 }
+
+/**
+ * Dithers in process between two ImageMagick passes: everything queued so
+ * far is streamed out as raw PGM/PPM, dithered here, and the result starts a
+ * new gm pipeline for inversion and output encoding.
+ */
+async function ditherInProcess(
+  image: State,
+  { mode }: DitheringStrategyOptions,
+  dither: (pixels: PixelBuffer) => PixelBuffer
+): Promise<State> {
+  const format = mode === 'grayscale' ? 'pgm' : 'ppm'
+  const raw = await streamToBuffer(image.out('-depth', '8'), { format })
+  const pixels = dither(decodePnm(raw))
+  return gm(encodePnm(pixels), `dithered.${format}`)
+}
+
+/** Options for encodeInProcess() */
+interface InProcessOutputOptions {
+  format: ImageFormat
+  /** Whether the image holds color rather than gray levels */
+  color: boolean
+  /** Output colors in palette order, for discrete color palettes */
+  palette: number[][] | null
+  bitDepth: number | null
+  compressionLevel: CompressionLevel
+  raw?: RawOutputOptions
+  onFrame?: (frame: OutputFrame) => void
+}
+
+/**
+ * Streams the finished image out as PGM/PPM and encodes it in process as
+ * palette-indexed PNG or BMP, or raw panel bytes.
+ */
+async function encodeInProcess(
+  image: State,
+  {
+    format,
+    color,
+    palette,
+    bitDepth,
+    compressionLevel,
+    raw,
+    onFrame,
+  }: InProcessOutputOptions
+): Promise<Buffer> {
+  const pnm = await streamToBuffer(image.out('-depth', '8'), {
+    format: color ? 'ppm' : 'pgm',
+  })
+  const pixels = decodePnm(pnm)
+  onFrame?.({ pixels, bitDepth, palette })
+  if (format === 'raw') return encodeRaw(pixels, { bitDepth, palette, ...raw })
+  return format === 'bmp'
+    ? encodeBmp(pixels, { bitDepth, palette })
+    : encodePng(pixels, { bitDepth, palette, compressionLevel })
+}
+
+/**
+ * Swaps a custom palette's perceived colors for its output colors in
+ * process, after dithering has picked them.
+ */
+async function remapInProcess(
+  image: State,
+  colors: readonly CustomPaletteColor[]
+): Promise<State> {
+  const raw = await streamToBuffer(image.out('-depth', '8'), { format: 'ppm' })
+  const pixels = remapColors(
+    decodePnm(raw),
+    colors.map((c) => hexToRgb(c.perceived)),
+    colors.map((c) => hexToRgb(c.output))
+  )
+  return gm(encodePnm(pixels), 'remapped.ppm')
+}
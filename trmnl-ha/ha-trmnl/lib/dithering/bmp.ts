@@ -0,0 +1,112 @@
+/**
+ * BMP Encoder - In-Process BMP3 Output
+ *
+ * Writes the Windows 3 bitmap (BITMAPINFOHEADER) flavour ImageMagick's
+ * `bmp3` coder does, which is what e-ink firmware expects: 1, 2, 4 or 8-bit
+ * indexed for gray levels and palettes, 24-bit otherwise. 2-bit isn't part
+ * of the Windows format, but e-ink firmware reads it and it halves the size
+ * of 4-gray images.
+ *
+ * @module lib/dithering/bmp
+ */
+
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+import { indexColors } from './pixel-buffer.js'
+
+const FILE_HEADER_SIZE = 14
+const INFO_HEADER_SIZE = 40
+
+/** Options for encodeBmp() */
+export interface BmpEncodeOptions {
+  /** Bits per gray level of grayscale input: 1, 2, 4 or 8 (default: 8) */
+  bitDepth?: number | null
+  /** RGB colors for the color table of color input, in this order */
+  palette?: readonly (readonly number[])[] | null
+}
+
+/**
+ * Encodes pixels as BMP3. Grayscale input gets a gray ramp with one entry
+ * per level. Color input is indexed against `palette` when given, keeping
+ * its order; otherwise it is indexed when it has at most 256 colors and
+ * 24-bit beyond that.
+ */
+export function encodeBmp(
+  pixels: PixelBuffer,
+  { bitDepth, palette }: BmpEncodeOptions = {}
+): Buffer {
+  const { width, height, channels, data } = pixels
+
+  // Palette entries as 0xRRGGBB, and a lookup from pixel to palette index
+  let colors: number[] = []
+  let indexOf: (i: number) => number = () => 0
+  let bpp: number
+
+  if (channels === 1) {
+    const depth = bitDepth ?? 8
+    bpp = depth <= 2 ? depth : depth <= 4 ? 4 : 8
+    const levels = 1 << bpp
+    const step = 255 / (levels - 1)
+    colors = Array.from({ length: levels }, (_, n) => {
+      const v = Math.round(n * step)
+      return (v << 16) | (v << 8) | v
+    })
+    indexOf = (i) => Math.round(data[i]! / step)
+  } else {
+    const indexed = indexColors(pixels, palette ?? undefined)
+    if (indexed) {
+      const count = indexed.colors.length
+      bpp = count <= 2 ? 1 : count <= 4 ? 2 : count <= 16 ? 4 : 8
+      colors = indexed.colors
+      indexOf = (i) => indexed.indices[i]!
+    } else {
+      bpp = 24
+    }
+  }
+
+  const rowSize = Math.ceil((width * bpp) / 32) * 4
+  const paletteSize = colors.length * 4
+  const pixelOffset = FILE_HEADER_SIZE + INFO_HEADER_SIZE + paletteSize
+  const out = Buffer.alloc(pixelOffset + rowSize * height)
+
+  // BITMAPFILEHEADER
+  out.write('BM', 0, 'ascii')
+  out.writeUInt32LE(out.length, 2)
+  out.writeUInt32LE(pixelOffset, 10)
+
+  // BITMAPINFOHEADER (positive height: rows stored bottom-up)
+  out.writeUInt32LE(INFO_HEADER_SIZE, 14)
+  out.writeInt32LE(width, 18)
+  out.writeInt32LE(height, 22)
+  out.writeUInt16LE(1, 26)
+  out.writeUInt16LE(bpp, 28)
+  out.writeUInt32LE(rowSize * height, 34)
+  out.writeInt32LE(2835, 38) // 72 DPI
+  out.writeInt32LE(2835, 42)
+  out.writeUInt32LE(colors.length, 46)
+
+  // Palette as BGRX
+  colors.forEach((rgb, n) => {
+    const at = FILE_HEADER_SIZE + INFO_HEADER_SIZE + n * 4
+    out[at] = rgb & 0xff
+    out[at + 1] = (rgb >> 8) & 0xff
+    out[at + 2] = (rgb >> 16) & 0xff
+  })
+
+  for (let y = 0; y < height; y++) {
+    const row = pixelOffset + (height - 1 - y) * rowSize
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      if (bpp === 24) {
+        out[row + x * 3] = data[i * 3 + 2]!
+        out[row + x * 3 + 1] = data[i * 3 + 1]!
+        out[row + x * 3 + 2] = data[i * 3]!
+      } else {
+        const perByte = 8 / bpp
+        const shift = 8 - bpp * ((x % perByte) + 1)
+        out[row + Math.floor(x / perByte)]! |= indexOf(i) << shift
+      }
+    }
+  }
+
+  return out
+}
@@ -0,0 +1,121 @@
+/**
+ * C Header Encoder - Frames as Arduino Arrays
+ *
+ * GxEPD2 and Adafruit GFX sketches draw static screens from byte arrays
+ * compiled into flash. `h` output wraps the `raw` bytes in a header that
+ * can be dropped into a sketch:
+ *
+ * ```c
+ * #define IMAGE_WIDTH 800
+ * #define IMAGE_HEIGHT 480
+ * const uint8_t image[48000] PROGMEM = { 0xff, ... };
+ * ```
+ *
+ * Planar output gets one array per plane (`image_0`, `image_1`, ...), each
+ * commented with the color or gray bit it holds, so a black/red panel's
+ * planes can go straight to `drawBitmap()` calls.
+ *
+ * @module lib/dithering/c-header
+ */
+
+import type { RawLayout } from '../../types/domain.js'
+
+/** Array name used when none is given or it isn't a valid identifier */
+const DEFAULT_SYMBOL = 'image'
+
+/** Bytes written per line of the array */
+const BYTES_PER_LINE = 16
+
+/**
+ * Turns `name` into a C identifier: anything but letters, digits and
+ * underscores becomes an underscore, and a leading digit gets one in front.
+ */
+export function toCSymbol(name?: string | null): string {
+  const symbol = (name ?? '').trim().replace(/[^A-Za-z0-9_]/g, '_')
+  if (!/[A-Za-z0-9]/.test(symbol)) return DEFAULT_SYMBOL
+  return /^[0-9]/.test(symbol) ? `_${symbol}` : symbol
+}
+
+/** Formats bytes as lines of `0xNN, ` literals */
+function byteLines(bytes: Uint8Array): string {
+  const lines: string[] = []
+  for (let start = 0; start < bytes.length; start += BYTES_PER_LINE) {
+    const line = Array.from(
+      bytes.subarray(start, start + BYTES_PER_LINE),
+      (b) => `0x${b.toString(16).padStart(2, '0')}`,
+    )
+    lines.push(`  ${line.join(', ')},`)
+  }
+  return lines.join('\n')
+}
+
+/** What each plane holds, for the comment above its array */
+function planeLabel(layout: RawLayout, plane: number): string {
+  if (layout.colors) return `pixels colored ${layout.colors[plane]}`
+  const bit = layout.planes - 1 - plane
+  return `bit ${bit} of the gray level`
+}
+
+/**
+ * Wraps raw panel bytes in a C header.
+ *
+ * @param bytes - Output of encodeRaw()
+ * @param layout - Layout encodeRaw() reported for `bytes`
+ * @param name - Array name, made into a valid identifier
+ */
+export function encodeCHeader(
+  bytes: Uint8Array,
+  layout: RawLayout,
+  name?: string,
+): Buffer {
+  const symbol = toCSymbol(name)
+  const macro = symbol.toUpperCase()
+  const guard = `${macro}_H`
+  const order = layout.bitOrder === 'lsb' ? 'LSB' : 'MSB'
+
+  const lines = [
+    `// ${layout.width}x${layout.height}, ${layout.bitsPerPixel} bit(s) per pixel, ${order} first`,
+    ...(layout.colors && layout.planes === 1
+      ? [`// Palette: ${layout.colors.join(', ')}`]
+      : []),
+    `#ifndef ${guard}`,
+    `#define ${guard}`,
+    '',
+    '#include <stdint.h>',
+    '#ifdef ARDUINO',
+    '#include <Arduino.h>',
+    '#endif',
+    '#ifndef PROGMEM',
+    '#define PROGMEM',
+    '#endif',
+    '',
+    `#define ${macro}_WIDTH ${layout.width}`,
+    `#define ${macro}_HEIGHT ${layout.height}`,
+    `#define ${macro}_BITS_PER_PIXEL ${layout.bitsPerPixel}`,
+  ]
+
+  if (layout.planes === 1) {
+    lines.push(
+      '',
+      `const uint8_t ${symbol}[${bytes.length}] PROGMEM = {`,
+      byteLines(bytes),
+      '};',
+    )
+  } else {
+    const planeBytes = bytes.length / layout.planes
+    lines.push(`#define ${macro}_PLANES ${layout.planes}`)
+    for (let plane = 0; plane < layout.planes; plane++) {
+      const start = plane * planeBytes
+      lines.push(
+        '',
+        `// Plane ${plane}: ${planeLabel(layout, plane)}`,
+        `const uint8_t ${symbol}_${plane}[${planeBytes}] PROGMEM = {`,
+        byteLines(bytes.subarray(start, start + planeBytes)),
+        '};',
+      )
+    }
+  }
+
+  lines.push('', `#endif // ${guard}`, '')
+  return Buffer.from(lines.join('\n'))
+}
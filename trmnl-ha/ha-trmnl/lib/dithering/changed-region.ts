@@ -0,0 +1,263 @@
+/**
+ * Changed Regions - What Moved Since the Last Frame
+ *
+ * Panels with partial refresh can redraw part of the screen quickly and
+ * without the full-refresh flash, if they know which part changed.
+ * changedRegions() compares two processed frames:
+ *
+ * 1. Rows that differ are grouped into bands; a band ends after
+ *    CHANGED_REGION_GAP unchanged rows
+ * 2. Each band is trimmed to its leftmost and rightmost changed pixel
+ * 3. The closest bands are merged until at most CHANGED_REGION_MAX remain
+ * 4. Left and right edges snap outwards to CHANGED_REGION_ALIGN pixels, so
+ *    a region starts and ends on whole bytes of 1-bit panel memory
+ *
+ * FrameHistory keeps the last delivered frame per schedule or URL to
+ * compare with, and encodeWindow() encodes the changed window on its own,
+ * the same way as the full frame.
+ *
+ * @module lib/dithering/changed-region
+ */
+
+import {
+  CHANGED_REGION_ALIGN,
+  CHANGED_REGION_GAP,
+  CHANGED_REGION_MAX,
+  FRAME_HISTORY_MAX_FRAMES,
+} from '../../const.js'
+import type {
+  CompressionLevel,
+  FrameChanges,
+  FrameRegion,
+  ImageFormat,
+  RawLayout,
+} from '../../types/domain.js'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+import { encodeBmp } from './bmp.js'
+import { encodeCHeader } from './c-header.js'
+import { cropPixels } from './pixel-ops.js'
+import { encodePng } from './png.js'
+import { encodeRaw, type RawOutputOptions } from './raw.js'
+
+/** Final pixels of an output image and how they were encoded */
+export interface OutputFrame {
+  pixels: PixelBuffer
+  /** Gray bit depth, for grayscale palettes */
+  bitDepth: number | null
+  /** Output colors in palette order, for discrete color palettes */
+  palette: number[][] | null
+}
+
+/** Options for changedRegions() */
+export interface ChangedRegionOptions {
+  /** Unchanged rows that separate two regions */
+  gap?: number
+  /** Most regions returned */
+  max?: number
+  /** Multiple of pixels the left and right edges snap to */
+  align?: number
+}
+
+/** Rows that changed, with their changed columns (right exclusive) */
+interface Band {
+  top: number
+  bottom: number
+  left: number
+  right: number
+}
+
+/**
+ * Finds the rectangles where two frames of the same shape differ.
+ *
+ * @returns Regions top to bottom, empty when the frames match
+ */
+export function changedRegions(
+  previous: PixelBuffer,
+  next: PixelBuffer,
+  {
+    gap = CHANGED_REGION_GAP,
+    max = CHANGED_REGION_MAX,
+    align = CHANGED_REGION_ALIGN,
+  }: ChangedRegionOptions = {},
+): FrameRegion[] {
+  const { width, height, channels } = next
+  const stride = width * channels
+  const bands: Band[] = []
+
+  for (let y = 0; y < height; y++) {
+    const row = y * stride
+    const same = (i: number) => previous.data[row + i] === next.data[row + i]
+    let first = 0
+    while (first < stride && same(first)) first++
+    if (first === stride) continue
+    let last = stride - 1
+    while (same(last)) last--
+
+    const left = Math.floor(first / channels)
+    const right = Math.floor(last / channels) + 1
+    const band = bands.at(-1)
+    if (band && y - band.bottom < gap) {
+      band.bottom = y + 1
+      band.left = Math.min(band.left, left)
+      band.right = Math.max(band.right, right)
+    } else {
+      bands.push({ top: y, bottom: y + 1, left, right })
+    }
+  }
+
+  // Merge the pair of neighbouring bands with the fewest rows between them
+  while (bands.length > Math.max(1, max)) {
+    let closest = 0
+    for (let i = 1; i < bands.length - 1; i++) {
+      if (
+        bands[i + 1]!.top - bands[i]!.bottom <
+        bands[closest + 1]!.top - bands[closest]!.bottom
+      ) {
+        closest = i
+      }
+    }
+    const [a, b] = bands.splice(closest, 2) as [Band, Band]
+    bands.splice(closest, 0, {
+      top: a.top,
+      bottom: b.bottom,
+      left: Math.min(a.left, b.left),
+      right: Math.max(a.right, b.right),
+    })
+  }
+
+  return bands.map(({ top, bottom, left, right }) => {
+    const x = Math.floor(left / align) * align
+    const end = Math.min(width, Math.ceil(right / align) * align)
+    return { x, y: top, width: end - x, height: bottom - top }
+  })
+}
+
+/**
+ * One rectangle covering all of `regions`, or null when there are none.
+ */
+export function boundingRegion(regions: FrameRegion[]): FrameRegion | null {
+  if (regions.length === 0) return null
+  const x = Math.min(...regions.map((r) => r.x))
+  const y = Math.min(...regions.map((r) => r.y))
+  const right = Math.max(...regions.map((r) => r.x + r.width))
+  const bottom = Math.max(...regions.map((r) => r.y + r.height))
+  return { x, y, width: right - x, height: bottom - y }
+}
+
+/**
+ * Last frame seen for each schedule or request URL, in memory. The least
+ * recently used frame is dropped once `maxFrames` are kept.
+ */
+export class FrameHistory {
+  #maxFrames: number
+  #frames = new Map<string, PixelBuffer>()
+
+  constructor(maxFrames: number = FRAME_HISTORY_MAX_FRAMES) {
+    this.#maxFrames = maxFrames
+  }
+
+  /**
+   * Compares `frame` with the last one recorded under `key`. Without an
+   * earlier frame of the same shape, the whole frame counts as changed.
+   */
+  diff(key: string, frame: PixelBuffer): FrameChanges {
+    const previous = this.#frames.get(key)
+    const { width, height } = frame
+    if (
+      previous?.width !== width ||
+      previous.height !== height ||
+      previous.channels !== frame.channels
+    ) {
+      const all = { x: 0, y: 0, width, height }
+      return { width, height, regions: [all], bounds: all, full: true }
+    }
+
+    const regions = changedRegions(previous, frame)
+    return {
+      width,
+      height,
+      regions,
+      bounds: boundingRegion(regions),
+      full: false,
+    }
+  }
+
+  /**
+   * Keeps `frame` as the one the next diff under `key` compares with,
+   * dropping the least recently recorded key beyond the limit.
+   */
+  record(key: string, frame: PixelBuffer): void {
+    this.#frames.delete(key)
+    this.#frames.set(key, frame)
+    for (const oldest of this.#frames.keys()) {
+      if (this.#frames.size <= this.#maxFrames) break
+      this.#frames.delete(oldest)
+    }
+  }
+}
+
+/** Options for encodeWindow() */
+export interface WindowEncodeOptions {
+  format: ImageFormat
+  compressionLevel?: CompressionLevel
+  /** Layout of `raw` and `h` output */
+  raw?: RawOutputOptions
+}
+
+/**
+ * Encodes just `region` of a frame, with the bit depth and palette the full
+ * frame was encoded with.
+ *
+ * @returns Encoded window, or null for JPEG, which is only encoded by
+ *   ImageMagick
+ */
+export function encodeWindow(
+  { pixels, bitDepth, palette }: OutputFrame,
+  region: FrameRegion,
+  { format, compressionLevel, raw }: WindowEncodeOptions,
+): Buffer | null {
+  if (format === 'jpeg') return null
+  const window = cropPixels(pixels, region)
+
+  if (format === 'h') {
+    const layouts: RawLayout[] = []
+    const bytes = encodeRaw(window, {
+      bitDepth,
+      palette,
+      ...raw,
+      onLayout: (layout) => {
+        layouts.push(layout)
+        raw?.onLayout?.(layout)
+      },
+    })
+    return encodeCHeader(bytes, layouts[0]!, raw?.symbol)
+  }
+  if (format === 'raw') return encodeRaw(window, { bitDepth, palette, ...raw })
+  return format === 'bmp'
+    ? encodeBmp(window, { bitDepth, palette })
+    : encodePng(window, { bitDepth, palette, compressionLevel })
+}
+
+/** `x,y,width,height` */
+const describeRegion = ({ x, y, width, height }: FrameRegion): string =>
+  `${x},${y},${width},${height}`
+
+/**
+ * Response headers describing what changed: the frame size, the bounds of
+ * the changes (`none` when nothing changed), each region and, when only the
+ * window was sent, where it goes.
+ */
+export function changedRegionHeaders(
+  changes: FrameChanges,
+): Record<string, string> {
+  return {
+    'X-Frame-Size': `${changes.width}x${changes.height}`,
+    'X-Changed-Region': changes.bounds
+      ? describeRegion(changes.bounds)
+      : 'none',
+    ...(changes.regions.length > 0 && {
+      'X-Changed-Regions': changes.regions.map(describeRegion).join(';'),
+    }),
+    ...(changes.window && { 'X-Frame-Window': describeRegion(changes.window) }),
+  }
+}
@@ -0,0 +1,302 @@
+/**
+ * Perceptual Color Matching (CIELAB, CIE94, CIEDE2000)
+ *
+ * Nearest-color search in RGB picks visibly wrong colors on 6-8 color
+ * panels: skin tones land on orange or red, dark blues on black. Matching in
+ * CIELAB with a perceptual distance follows what the eye sees.
+ *
+ * CIEDE2000 costs far more than an RGB distance, so matches are looked up in
+ * a 64x64x64 grid per palette and metric. Each cell is computed the first
+ * time a pixel falls in it and the grid is kept for later frames, so an
+ * 800x480 or 1600x1200 frame only pays for the cells it touches.
+ *
+ * @module lib/dithering/color-distance
+ */
+
+import type { ColorDistance } from '../../types/domain.js'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+import type { Quantizer, WorkingSpace } from './error-diffusion.js'
+
+/** CIELAB color as [L, a, b] */
+export type Lab = readonly [number, number, number]
+
+/** Perceptual metrics, i.e. every ColorDistance except plain RGB */
+export type PerceptualDistance = Exclude<ColorDistance, 'rgb'>
+
+// =============================================================================
+// CONVERSION
+// =============================================================================
+
+/** sRGB 0-255 to linear light, precomputed per byte */
+const LINEAR = Float64Array.from({ length: 256 }, (_, v) => {
+  const c = v / 255
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4
+})
+
+/** D65 reference white */
+const WHITE = [0.95047, 1, 1.08883] as const
+
+const labF = (t: number): number =>
+  t > 216 / 24389 ? Math.cbrt(t) : ((24389 / 27) * t + 16) / 116
+
+const linear = (v: number): number => {
+  const byte = Math.min(255, Math.max(0, v))
+  // Error diffusion can hand over fractional values; interpolate the table
+  const lo = Math.floor(byte)
+  const hi = Math.min(255, lo + 1)
+  return LINEAR[lo]! + (LINEAR[hi]! - LINEAR[lo]!) * (byte - lo)
+}
+
+/**
+ * Converts an sRGB color (0-255 per channel) to CIELAB under D65.
+ */
+export function srgbToLab(r: number, g: number, b: number): Lab {
+  const lr = linear(r)
+  const lg = linear(g)
+  const lb = linear(b)
+  const fx = labF((0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / WHITE[0])
+  const fy = labF((0.2126729 * lr + 0.7151522 * lg + 0.072175 * lb) / WHITE[1])
+  const fz = labF((0.0193339 * lr + 0.119192 * lg + 0.9503041 * lb) / WHITE[2])
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)]
+}
+
+// =============================================================================
+// DISTANCES
+// =============================================================================
+
+/**
+ * CIE94 color difference with graphic-arts weights (kL = 1, K1 = 0.045,
+ * K2 = 0.015). Not symmetric: `reference` is the color being matched.
+ */
+export function deltaE94(reference: Lab, sample: Lab): number {
+  const [L1, a1, b1] = reference
+  const [L2, a2, b2] = sample
+  const C1 = Math.hypot(a1, b1)
+  const C2 = Math.hypot(a2, b2)
+  const dL = L1 - L2
+  const dC = C1 - C2
+  const dH2 = Math.max(0, (a1 - a2) ** 2 + (b1 - b2) ** 2 - dC ** 2)
+  const sC = 1 + 0.045 * C1
+  const sH = 1 + 0.015 * C1
+  return Math.sqrt(dL ** 2 + (dC / sC) ** 2 + dH2 / sH ** 2)
+}
+
+const rad = (degrees: number): number => (degrees * Math.PI) / 180
+
+/** Hue angle in degrees, 0-360 */
+const hue = (b: number, a: number): number => {
+  if (a === 0 && b === 0) return 0
+  const h = (Math.atan2(b, a) * 180) / Math.PI
+  return h < 0 ? h + 360 : h
+}
+
+const POW25_7 = 25 ** 7
+
+/**
+ * CIEDE2000 color difference (kL = kC = kH = 1), following Sharma, Wu and
+ * Dalal's implementation notes.
+ *
+ * @see https://hajim.rochester.edu/ece/sites/gsharma/ciede2000/
+ */
+export function deltaE2000(x: Lab, y: Lab): number {
+  const [L1, a1, b1] = x
+  const [L2, a2, b2] = y
+
+  const cBar7 = ((Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2) ** 7
+  const g = 0.5 * (1 - Math.sqrt(cBar7 / (cBar7 + POW25_7)))
+  const a1p = (1 + g) * a1
+  const a2p = (1 + g) * a2
+  const c1p = Math.hypot(a1p, b1)
+  const c2p = Math.hypot(a2p, b2)
+  const h1p = hue(b1, a1p)
+  const h2p = hue(b2, a2p)
+  const chroma = c1p * c2p
+
+  const dLp = L2 - L1
+  const dCp = c2p - c1p
+  let dhp = 0
+  if (chroma !== 0) {
+    dhp = h2p - h1p
+    if (dhp > 180) dhp -= 360
+    else if (dhp < -180) dhp += 360
+  }
+  const dHp = 2 * Math.sqrt(chroma) * Math.sin(rad(dhp / 2))
+
+  const lBarp = (L1 + L2) / 2
+  const cBarp = (c1p + c2p) / 2
+  let hBarp = h1p + h2p
+  if (chroma !== 0) {
+    hBarp =
+      Math.abs(h1p - h2p) <= 180
+        ? hBarp / 2
+        : hBarp < 360
+          ? (hBarp + 360) / 2
+          : (hBarp - 360) / 2
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos(rad(hBarp - 30)) +
+    0.24 * Math.cos(rad(2 * hBarp)) +
+    0.32 * Math.cos(rad(3 * hBarp + 6)) -
+    0.2 * Math.cos(rad(4 * hBarp - 63))
+  const dTheta = 30 * Math.exp(-(((hBarp - 275) / 25) ** 2))
+  const cBarp7 = cBarp ** 7
+  const rC = 2 * Math.sqrt(cBarp7 / (cBarp7 + POW25_7))
+  const sL =
+    1 + (0.015 * (lBarp - 50) ** 2) / Math.sqrt(20 + (lBarp - 50) ** 2)
+  const sC = 1 + 0.045 * cBarp
+  const sH = 1 + 0.015 * cBarp * t
+  const rT = -Math.sin(rad(2 * dTheta)) * rC
+
+  return Math.sqrt(
+    (dLp / sL) ** 2 +
+      (dCp / sC) ** 2 +
+      (dHp / sH) ** 2 +
+      rT * (dCp / sC) * (dHp / sH),
+  )
+}
+
+const DISTANCES: Record<PerceptualDistance, (x: Lab, y: Lab) => number> = {
+  cie94: deltaE94,
+  ciede2000: deltaE2000,
+}
+
+/** Index of the palette color closest to `lab` */
+function nearest(
+  lab: Lab,
+  palette: readonly Lab[],
+  distance: (x: Lab, y: Lab) => number,
+): number {
+  let best = 0
+  let bestDistance = Infinity
+  palette.forEach((color, i) => {
+    const d = distance(lab, color)
+    if (d < bestDistance) {
+      best = i
+      bestDistance = d
+    }
+  })
+  return best
+}
+
+// =============================================================================
+// LOOKUP CACHE
+// =============================================================================
+
+/** Cells per axis; 64 keeps a grid at 256 KB */
+const GRID = 64
+const UNSET = 0xff
+
+/** Most grids kept at once; custom palettes can be edited repeatedly */
+const MAX_GRIDS = 16
+
+const grids = new Map<string, Uint8Array>()
+
+/** Finds or creates the grid for a palette, metric and input space */
+function grid(key: string): Uint8Array {
+  let cells = grids.get(key)
+  if (!cells) {
+    if (grids.size >= MAX_GRIDS) grids.delete(grids.keys().next().value!)
+    cells = new Uint8Array(GRID ** 3).fill(UNSET)
+    grids.set(key, cells)
+  }
+  return cells
+}
+
+const paletteKey = (
+  palette: readonly (readonly number[])[],
+  distance: PerceptualDistance,
+  space: string,
+): string => `${space}:${distance}:${palette.map((c) => c.join(',')).join(';')}`
+
+const cell = (v: number, min: number, max: number): number =>
+  Math.min(
+    GRID - 1,
+    Math.max(0, Math.floor(((v - min) / (max - min)) * GRID)),
+  )
+
+/** Center of a cell, back in the axis' units */
+const center = (i: number, min: number, max: number): number =>
+  min + ((i + 0.5) / GRID) * (max - min)
+
+/** Lab axes the grid covers: L 0-100, a and b -128 to 128 */
+const LAB_RANGE = [
+  [0, 100],
+  [-128, 128],
+  [-128, 128],
+] as const
+
+// =============================================================================
+// QUANTIZERS
+// =============================================================================
+
+/**
+ * Picks the perceptually nearest palette color for RGB input, for plain
+ * palette mapping (ordered dithering, thresholding).
+ */
+export function perceptualQuantizer(
+  palette: readonly (readonly number[])[],
+  distance: PerceptualDistance,
+): Quantizer {
+  const labs = palette.map(([r = 0, g = 0, b = 0]) => srgbToLab(r, g, b))
+  const cells = grid(paletteKey(palette, distance, 'rgb'))
+  const measure = DISTANCES[distance]
+
+  return (value) => {
+    const index =
+      (cell(value[0]!, 0, 256) * GRID + cell(value[1]!, 0, 256)) * GRID +
+      cell(value[2]!, 0, 256)
+    let match = cells[index]!
+    if (match === UNSET) {
+      const rgb = [0, 1, 2].map((c) => center(cell(value[c]!, 0, 256), 0, 256))
+      match = nearest(srgbToLab(rgb[0]!, rgb[1]!, rgb[2]!), labs, measure)
+      cells[index] = match
+    }
+    return palette[match]!
+  }
+}
+
+/**
+ * Error diffusion in CIELAB: pixels are converted to Lab, matched with the
+ * perceptual distance, and the Lab error is spread to the neighbours.
+ * Output is the matching palette color in RGB.
+ */
+export function labDiffusion(
+  palette: readonly (readonly number[])[],
+  distance: PerceptualDistance,
+): { quantize: Quantizer; space: WorkingSpace } {
+  const labs = palette.map(([r = 0, g = 0, b = 0]) => srgbToLab(r, g, b))
+  const rgbOf = new Map<Lab, readonly number[]>(
+    labs.map((lab, i) => [lab, palette[i]!]),
+  )
+  const cells = grid(paletteKey(palette, distance, 'lab'))
+  const measure = DISTANCES[distance]
+
+  const quantize: Quantizer = (value) => {
+    const axes = LAB_RANGE.map(([min, max], c) => cell(value[c]!, min, max))
+    const index = (axes[0]! * GRID + axes[1]!) * GRID + axes[2]!
+    let match = cells[index]!
+    if (match === UNSET) {
+      const lab = axes.map((i, c) =>
+        center(i, LAB_RANGE[c]![0], LAB_RANGE[c]![1]),
+      ) as unknown as Lab
+      match = nearest(lab, labs, measure)
+      cells[index] = match
+    }
+    return labs[match]!
+  }
+
+  const space: WorkingSpace = {
+    encode({ channels, data }: PixelBuffer): Float32Array {
+      const work = new Float32Array(data.length)
+      for (let i = 0; i < data.length; i += channels) {
+        work.set(srgbToLab(data[i]!, data[i + 1]!, data[i + 2]!), i)
+      }
+      return work
+    },
+    decode: (color) => rgbOf.get(color as Lab)!,
+  }
+
+  return { quantize, space }
+}
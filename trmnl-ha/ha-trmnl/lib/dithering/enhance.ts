@@ -0,0 +1,275 @@
+/**
+ * Pre-Dither Enhancement - Sharpening and Tone Adjustments
+ *
+ * Optional steps that run after normalize and levels, right before
+ * quantization, in this order:
+ *
+ * | Step           | ImageMagick                  |
+ * |----------------|------------------------------|
+ * | Local contrast | `-clahe 25x25%+128+3`        |
+ * | Contrast curve | `-sigmoidal-contrast Cxm%`   |
+ * | Gamma          | `-gamma g`                   |
+ * | Unsharp mask   | `-unsharp 0xradius+amount+0` |
+ *
+ * enhanceArgs() queues them on the ImageMagick pipeline and enhancePixels()
+ * runs them for the native pipeline, so both give the same look.
+ *
+ * @module lib/dithering/enhance
+ */
+
+import type { EnhanceConfig } from '../../types/domain.js'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+
+/** CLAHE tiles per axis (25% of each side) and clip limit */
+const CLAHE_TILES = 4
+const CLAHE_CLIP_LIMIT = 3
+
+const clampByte = (v: number): number =>
+  Math.min(255, Math.max(0, Math.round(v)))
+
+/** Fills in the defaults for unset fields */
+function resolve(enhance: EnhanceConfig) {
+  return {
+    sharpenAmount: enhance.sharpenAmount ?? 0,
+    sharpenRadius: enhance.sharpenRadius ?? 1,
+    gamma: enhance.gamma ?? 1,
+    contrast: enhance.contrast ?? 0,
+    contrastMidpoint: enhance.contrastMidpoint ?? 50,
+    clahe: enhance.clahe ?? false,
+  }
+}
+
+/**
+ * Builds the ImageMagick arguments for the enabled steps.
+ *
+ * @returns Arguments to pass to `out()`, empty when nothing is enabled
+ */
+export function enhanceArgs(enhance: EnhanceConfig = {}): string[] {
+  const e = resolve(enhance)
+  const args: string[] = []
+
+  if (e.clahe) {
+    const tile = 100 / CLAHE_TILES
+    args.push('-clahe', `${tile}x${tile}%+128+${CLAHE_CLIP_LIMIT}`)
+  }
+  if (e.contrast > 0) {
+    args.push('-sigmoidal-contrast', `${e.contrast}x${e.contrastMidpoint}%`)
+  }
+  if (e.gamma !== 1) {
+    args.push('-gamma', String(e.gamma))
+  }
+  if (e.sharpenAmount > 0) {
+    args.push('-unsharp', `0x${e.sharpenRadius}+${e.sharpenAmount}+0`)
+  }
+
+  return args
+}
+
+/**
+ * Runs the enabled steps in process.
+ */
+export function enhancePixels(
+  pixels: PixelBuffer,
+  enhance: EnhanceConfig = {},
+): PixelBuffer {
+  const e = resolve(enhance)
+
+  if (e.clahe) pixels = equalizeLocalContrast(pixels)
+  if (e.contrast > 0 || e.gamma !== 1) {
+    pixels = applyToneCurve(pixels, e.contrast, e.contrastMidpoint, e.gamma)
+  }
+  if (e.sharpenAmount > 0) {
+    pixels = unsharpMask(pixels, e.sharpenRadius, e.sharpenAmount)
+  }
+
+  return pixels
+}
+
+// =============================================================================
+// TONE CURVE
+// =============================================================================
+
+/**
+ * Maps every sample through a sigmoidal contrast curve, then gamma, like
+ * `-sigmoidal-contrast` followed by `-gamma`.
+ */
+export function applyToneCurve(
+  pixels: PixelBuffer,
+  contrast: number,
+  midpointPercent: number,
+  gamma: number,
+): PixelBuffer {
+  const sigmoid = (x: number): number => 1 / (1 + Math.exp(-x))
+  const m = midpointPercent / 100
+  const low = sigmoid(-contrast * m)
+  const high = sigmoid(contrast * (1 - m))
+
+  const lut = Uint8Array.from({ length: 256 }, (_, v) => {
+    let u = v / 255
+    if (contrast > 0) u = (sigmoid(contrast * (u - m)) - low) / (high - low)
+    return clampByte(Math.max(0, u) ** (1 / gamma) * 255)
+  })
+
+  return { ...pixels, data: pixels.data.map((v) => lut[v]!) }
+}
+
+// =============================================================================
+// UNSHARP MASK
+// =============================================================================
+
+/** Normalized 1-D Gaussian kernel covering three sigmas each side */
+function gaussianKernel(sigma: number): Float32Array {
+  const radius = Math.max(1, Math.ceil(sigma * 3))
+  const kernel = Float32Array.from({ length: radius * 2 + 1 }, (_, i) =>
+    Math.exp(-((i - radius) ** 2) / (2 * sigma * sigma)),
+  )
+  const total = kernel.reduce((sum, w) => sum + w, 0)
+  return kernel.map((w) => w / total)
+}
+
+/**
+ * Adds `amount` times the difference from a Gaussian blur of `sigma`
+ * pixels, like `-unsharp 0xsigma+amount+0`.
+ */
+export function unsharpMask(
+  pixels: PixelBuffer,
+  sigma: number,
+  amount: number,
+): PixelBuffer {
+  const { width, height, channels, data } = pixels
+  const kernel = gaussianKernel(sigma)
+  const radius = (kernel.length - 1) / 2
+  const row = new Float32Array(data.length)
+  const out = new Uint8Array(data.length)
+
+  // Separable blur, edges clamped: rows into `row`, then columns
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < channels; c++) {
+        let sum = 0
+        for (let k = -radius; k <= radius; k++) {
+          const nx = Math.min(width - 1, Math.max(0, x + k))
+          sum += kernel[k + radius]! * data[(y * width + nx) * channels + c]!
+        }
+        row[(y * width + x) * channels + c] = sum
+      }
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < channels; c++) {
+        let blur = 0
+        for (let k = -radius; k <= radius; k++) {
+          const ny = Math.min(height - 1, Math.max(0, y + k))
+          blur += kernel[k + radius]! * row[(ny * width + x) * channels + c]!
+        }
+        const i = (y * width + x) * channels + c
+        out[i] = clampByte(data[i]! + amount * (data[i]! - blur))
+      }
+    }
+  }
+
+  return { ...pixels, data: out }
+}
+
+// =============================================================================
+// LOCAL CONTRAST (CLAHE)
+// =============================================================================
+
+/** Equalization lookup table for one tile's histogram, with clipping */
+function tileMapping(histogram: Uint32Array, count: number): Uint8Array {
+  const limit = Math.max(1, (CLAHE_CLIP_LIMIT * count) / 256)
+  let excess = 0
+  const clipped = Float64Array.from(histogram, (n) => {
+    if (n <= limit) return n
+    excess += n - limit
+    return limit
+  })
+
+  const lut = new Uint8Array(256)
+  let cdf = 0
+  for (let v = 0; v < 256; v++) {
+    cdf += clipped[v]! + excess / 256
+    lut[v] = clampByte((cdf / count) * 255)
+  }
+  return lut
+}
+
+/**
+ * Contrast-limited adaptive histogram equalization on a 4x4 grid of tiles,
+ * blending neighbouring tiles' mappings so no seams show. Color images are
+ * equalized on luma, and each channel shifts by the change in luma.
+ */
+export function equalizeLocalContrast(pixels: PixelBuffer): PixelBuffer {
+  const { width, height, channels, data } = pixels
+  const luma =
+    channels === 1
+      ? data
+      : Uint8Array.from({ length: width * height }, (_, i) =>
+          clampByte(
+            0.212656 * data[i * 3]! +
+              0.715158 * data[i * 3 + 1]! +
+              0.072186 * data[i * 3 + 2]!,
+          ),
+        )
+
+  const tilesX = Math.min(CLAHE_TILES, width)
+  const tilesY = Math.min(CLAHE_TILES, height)
+  const tileWidth = width / tilesX
+  const tileHeight = height / tilesY
+
+  const maps: Uint8Array[] = []
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) {
+      const histogram = new Uint32Array(256)
+      const x0 = Math.floor(tx * tileWidth)
+      const x1 = Math.floor((tx + 1) * tileWidth)
+      const y0 = Math.floor(ty * tileHeight)
+      const y1 = Math.floor((ty + 1) * tileHeight)
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) histogram[luma[y * width + x]!]!++
+      }
+      maps.push(tileMapping(histogram, (x1 - x0) * (y1 - y0)))
+    }
+  }
+
+  /** Neighbouring tile indices and the weight of the second one */
+  const neighbours = (pos: number, size: number, tiles: number) => {
+    const f = pos / size - 0.5
+    const lo = Math.floor(f)
+    return {
+      a: Math.min(tiles - 1, Math.max(0, lo)),
+      b: Math.min(tiles - 1, Math.max(0, lo + 1)),
+      w: f - lo,
+    }
+  }
+
+  const out = new Uint8Array(data.length)
+  for (let y = 0; y < height; y++) {
+    const ny = neighbours(y + 0.5, tileHeight, tilesY)
+    for (let x = 0; x < width; x++) {
+      const nx = neighbours(x + 0.5, tileWidth, tilesX)
+      const v = luma[y * width + x]!
+      const top =
+        maps[ny.a * tilesX + nx.a]![v]! * (1 - nx.w) +
+        maps[ny.a * tilesX + nx.b]![v]! * nx.w
+      const bottom =
+        maps[ny.b * tilesX + nx.a]![v]! * (1 - nx.w) +
+        maps[ny.b * tilesX + nx.b]![v]! * nx.w
+      const equalized = top * (1 - ny.w) + bottom * ny.w
+
+      const p = y * width + x
+      if (channels === 1) {
+        out[p] = clampByte(equalized)
+      } else {
+        const shift = equalized - v
+        for (let c = 0; c < 3; c++) {
+          out[p * 3 + c] = clampByte(data[p * 3 + c]! + shift)
+        }
+      }
+    }
+  }
+
+  return { ...pixels, data: out }
+}
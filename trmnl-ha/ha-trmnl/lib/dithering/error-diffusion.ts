@@ -0,0 +1,250 @@
+/**
+ * Error Diffusion Engine
+ *
+ * ImageMagick only offers Floyd-Steinberg and Riemersma, so other kernels run
+ * here on decoded pixels. Each pixel is snapped to the nearest target color
+ * and the difference is spread over not-yet-visited neighbours according to
+ * a kernel table.
+ *
+ * @module lib/dithering/error-diffusion
+ */
+
+import type { ErrorDiffusionMethod } from '../../types/domain.js'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+
+/** Error-diffusion kernel */
+export interface DiffusionKernel {
+  /** Neighbours receiving error as [dx, dy, weight], relative to the pixel */
+  taps: readonly (readonly [number, number, number])[]
+  /**
+   * Weights are divided by this. Atkinson's 8 is deliberately larger than
+   * its weights (6), dropping a quarter of the error for crisper output.
+   */
+  divisor: number
+}
+
+/** Kernel tables, including Floyd-Steinberg for comparison */
+export const DIFFUSION_KERNELS: Record<
+  ErrorDiffusionMethod | 'floyd-steinberg',
+  DiffusionKernel
+> = {
+  'floyd-steinberg': {
+    divisor: 16,
+    taps: [
+      [1, 0, 7],
+      [-1, 1, 3],
+      [0, 1, 5],
+      [1, 1, 1],
+    ],
+  },
+  atkinson: {
+    divisor: 8,
+    taps: [
+      [1, 0, 1],
+      [2, 0, 1],
+      [-1, 1, 1],
+      [0, 1, 1],
+      [1, 1, 1],
+      [0, 2, 1],
+    ],
+  },
+  jarvis: {
+    divisor: 48,
+    taps: [
+      [1, 0, 7],
+      [2, 0, 5],
+      [-2, 1, 3],
+      [-1, 1, 5],
+      [0, 1, 7],
+      [1, 1, 5],
+      [2, 1, 3],
+      [-2, 2, 1],
+      [-1, 2, 3],
+      [0, 2, 5],
+      [1, 2, 3],
+      [2, 2, 1],
+    ],
+  },
+  stucki: {
+    divisor: 42,
+    taps: [
+      [1, 0, 8],
+      [2, 0, 4],
+      [-2, 1, 2],
+      [-1, 1, 4],
+      [0, 1, 8],
+      [1, 1, 4],
+      [2, 1, 2],
+      [-2, 2, 1],
+      [-1, 2, 2],
+      [0, 2, 4],
+      [1, 2, 2],
+      [2, 2, 1],
+    ],
+  },
+  burkes: {
+    divisor: 32,
+    taps: [
+      [1, 0, 8],
+      [2, 0, 4],
+      [-2, 1, 2],
+      [-1, 1, 4],
+      [0, 1, 8],
+      [1, 1, 4],
+      [2, 1, 2],
+    ],
+  },
+  sierra: {
+    divisor: 32,
+    taps: [
+      [1, 0, 5],
+      [2, 0, 3],
+      [-2, 1, 2],
+      [-1, 1, 4],
+      [0, 1, 5],
+      [1, 1, 4],
+      [2, 1, 2],
+      [-1, 2, 2],
+      [0, 2, 3],
+      [1, 2, 2],
+    ],
+  },
+}
+
+/**
+ * Maps a pixel's accumulated channel values to the target color it becomes.
+ * The returned array may be reused between calls.
+ */
+export type Quantizer = (value: Float32Array) => ArrayLike<number>
+
+/**
+ * Color space the error is measured and spread in, when it isn't the
+ * pixels' own 8-bit values (e.g. CIELAB for perceptual matching).
+ */
+export interface WorkingSpace {
+  /** Converts pixels to working values, laid out like the pixel data */
+  encode(pixels: PixelBuffer): Float32Array
+  /** Converts a color the quantizer picked to the 8-bit output color */
+  decode(color: ArrayLike<number>): ArrayLike<number>
+}
+
+/** Options for diffuseErrors() */
+export interface DiffusionOptions {
+  kernel: DiffusionKernel
+  /**
+   * Scan odd rows right to left, mirroring the kernel, which breaks up the
+   * diagonal "worms" a fixed direction leaves in flat areas (default: true)
+   */
+  serpentine?: boolean
+  /** Largest error per channel one pixel passes on (default: unlimited) */
+  errorClamp?: number
+  /** Space to diffuse in (default: the pixel values themselves) */
+  space?: WorkingSpace
+  /**
+   * One flag per pixel. Flagged pixels are thresholded: they are quantized
+   * from their own value, ignoring error from neighbours, and pass none on.
+   */
+  crisp?: Uint8Array
+}
+
+/**
+ * Snaps each channel independently to `levels` evenly spaced values.
+ * Used for grayscale palettes and per-channel color depth reduction.
+ */
+export function levelQuantizer(channels: number, levels: number): Quantizer {
+  const step = 255 / Math.max(1, levels - 1)
+  const color = new Uint8Array(channels)
+  return (value) => {
+    for (let c = 0; c < channels; c++) {
+      const v = Math.min(255, Math.max(0, value[c]!))
+      color[c] = Math.round(Math.round(v / step) * step)
+    }
+    return color
+  }
+}
+
+/**
+ * Picks the palette color nearest in RGB space (squared Euclidean distance).
+ */
+export function paletteQuantizer(
+  palette: readonly (readonly number[])[],
+): Quantizer {
+  if (palette.length === 0) throw new Error('Palette has no colors')
+  return (value) => {
+    let best = palette[0]!
+    let bestDistance = Infinity
+    for (const color of palette) {
+      let distance = 0
+      for (let c = 0; c < value.length; c++) {
+        const d = value[c]! - color[c]!
+        distance += d * d
+      }
+      if (distance < bestDistance) {
+        best = color
+        bestDistance = distance
+      }
+    }
+    return best
+  }
+}
+
+/**
+ * Dithers pixels by error diffusion.
+ *
+ * @returns New pixel buffer holding only colors the quantizer produced
+ */
+export function diffuseErrors(
+  pixels: PixelBuffer,
+  quantize: Quantizer,
+  options: DiffusionOptions,
+): PixelBuffer {
+  const { width, height, channels, data } = pixels
+  const {
+    kernel,
+    serpentine = true,
+    errorClamp = Infinity,
+    space,
+    crisp,
+  } = options
+
+  const work = space ? space.encode(pixels) : Float32Array.from(data)
+  // Crisp pixels read their value from before any error arrived
+  const source = crisp ? work.slice() : work
+  const out = new Uint8Array(data.length)
+  const value = new Float32Array(channels)
+
+  for (let y = 0; y < height; y++) {
+    const reverse = serpentine && y % 2 === 1
+    for (let i = 0; i < width; i++) {
+      const x = reverse ? width - 1 - i : i
+      const offset = (y * width + x) * channels
+      const threshold = crisp?.[y * width + x] === 1
+
+      for (let c = 0; c < channels; c++) {
+        value[c] = (threshold ? source : work)[offset + c]!
+      }
+      const color = quantize(value)
+      const output = space ? space.decode(color) : color
+
+      for (let c = 0; c < channels; c++) {
+        out[offset + c] = output[c]!
+        if (threshold) continue
+        const error = Math.min(
+          errorClamp,
+          Math.max(-errorClamp, value[c]! - color[c]!),
+        )
+        if (error === 0) continue
+
+        for (const [dx, dy, weight] of kernel.taps) {
+          const nx = reverse ? x - dx : x + dx
+          const ny = y + dy
+          if (nx < 0 || nx >= width || ny >= height) continue
+          const target = (ny * width + nx) * channels + c
+          work[target] = work[target]! + (error * weight) / kernel.divisor
+        }
+      }
+    }
+  }
+
+  return { width, height, channels, data: out }
+}
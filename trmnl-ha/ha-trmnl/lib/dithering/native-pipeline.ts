@@ -0,0 +1,253 @@
+/**
+ * Native Image Pipeline - Dithering Without ImageMagick
+ *
+ * Does what applyDithering() asks ImageMagick to do, in process: decode the
+ * PNG capture, rotate, adjust, dither, map to the palette, invert and encode
+ * PNG, BMP or raw. Spawning `convert` for each capture is a large share of
+ * processing time on a Raspberry Pi.
+ *
+ * processImage() uses this when the native_image_pipeline option is on.
+ * JPEG output and input that isn't a plain PNG return null so the caller can
+ * fall back to ImageMagick. prepareCaptureNative() covers the steps before
+ * encoding, fitting or resampling to size and stamping the capture time,
+ * for every output format.
+ *
+ * @module lib/dithering/native-pipeline
+ */
+
+import {
+  COLOR_PALETTES,
+  GRAYSCALE_PALETTES,
+  VALID_ROTATIONS,
+} from '../../const.js'
+import type {
+  ColorPalette,
+  GrayscalePalette,
+  ImageFormat,
+  ResampleFilter,
+  RotationAngle,
+  Viewport,
+} from '../../types/domain.js'
+import type {
+  DitheringStrategyOptions,
+  PixelBuffer,
+} from '../../types/dithering-strategy.js'
+import type { DitheringOptions } from '../dithering.js'
+import { encodeBmp } from './bmp.js'
+import type { OutputFrame } from './changed-region.js'
+import { enhancePixels } from './enhance.js'
+import { hexToRgb, invertPalette, outputPalette } from './pixel-buffer.js'
+import {
+  applyLevels,
+  invertPixels,
+  modulatePixels,
+  normalizePixels,
+  remapColors,
+  rotatePixels,
+  toGrayscale,
+} from './pixel-ops.js'
+import { decodePng, encodePng } from './png.js'
+import { quantizePixels } from './quantize.js'
+import { encodeRaw, type RawOutputOptions } from './raw.js'
+import { fitPixels, resamplePixels } from './resample.js'
+import { stampText } from './text-overlay.js'
+import { isCustomPaletteId } from '../../html/shared/custom-palettes.js'
+import { ditheringLogger } from '../logger.js'
+
+const log = ditheringLogger()
+
+/** Options for processImageNative() */
+export interface NativePipelineOptions {
+  format: ImageFormat
+  rotate?: RotationAngle | 0
+  invert?: boolean
+  dithering?: DitheringOptions
+  /** Layout of `raw` output */
+  raw?: RawOutputOptions
+  /** Called with the final pixels before they're encoded */
+  onFrame?: (frame: OutputFrame) => void
+}
+
+/**
+ * Processes a PNG capture entirely in process.
+ *
+ * @returns Encoded image, or null when ImageMagick has to handle it
+ */
+export function processImageNative(
+  imageBuffer: Buffer,
+  { format, rotate, invert, dithering, raw, onFrame }: NativePipelineOptions
+): Buffer | null {
+  if (format === 'jpeg') return null
+
+  let pixels: PixelBuffer
+  try {
+    pixels = decodePng(imageBuffer)
+  } catch (err) {
+    log.debug`Native pipeline can't decode capture: ${(err as Error).message}`
+    return null
+  }
+
+  if (rotate && VALID_ROTATIONS.includes(rotate)) {
+    pixels = rotatePixels(pixels, rotate)
+  }
+
+  let bitDepth: number | null = null
+  let palette: number[][] | null = null
+  if (dithering?.enabled) {
+    ;({ pixels, bitDepth, palette } = ditherPixels(pixels, dithering))
+  }
+
+  if (invert) {
+    pixels = invertPixels(pixels)
+    palette = palette && invertPalette(palette)
+  }
+
+  onFrame?.({ pixels, bitDepth, palette })
+  if (format === 'raw') return encodeRaw(pixels, { bitDepth, palette, ...raw })
+  return format === 'bmp'
+    ? encodeBmp(pixels, { bitDepth, palette })
+    : encodePng(pixels, {
+        bitDepth,
+        palette,
+        compressionLevel: dithering?.compressionLevel,
+      })
+}
+
+/** Options for prepareCaptureNative() */
+export interface NativePrepareOptions {
+  /** Shrink into this size, centered on white */
+  fit?: Viewport
+  /** Resample to exactly this size (ignored with fit) */
+  resample?: Viewport
+  filter?: ResampleFilter
+  /** Text to stamp in the bottom-right corner */
+  timestamp?: string
+}
+
+/**
+ * Brings a capture to its output size and stamps the capture time, in
+ * process, in the same order as processImage() does with ImageMagick.
+ *
+ * @returns PNG of the prepared capture, or null when it can't be decoded
+ */
+export function prepareCaptureNative(
+  imageBuffer: Buffer,
+  { fit, resample, filter, timestamp }: NativePrepareOptions
+): Buffer | null {
+  let pixels: PixelBuffer
+  try {
+    pixels = decodePng(imageBuffer)
+  } catch (err) {
+    log.debug`Native pipeline can't decode capture: ${(err as Error).message}`
+    return null
+  }
+
+  if (fit) {
+    pixels = fitPixels(pixels, fit, filter)
+  } else if (resample) {
+    pixels = resamplePixels(pixels, resample.width, resample.height, filter)
+  }
+  if (timestamp) pixels = stampText(pixels, timestamp)
+
+  // Fast to encode: the next step decodes it again straight away
+  return encodePng(pixels, { compressionLevel: 1 })
+}
+
+/** Result of ditherPixels() */
+interface DitheredPixels {
+  pixels: PixelBuffer
+  /** Gray bit depth, for grayscale palettes */
+  bitDepth: number | null
+  /** Output colors in palette order, for discrete color palettes */
+  palette: number[][] | null
+}
+
+/**
+ * Prepares and quantizes pixels for the palette, following the same steps
+ * and defaults as applyDithering().
+ */
+function ditherPixels(
+  pixels: PixelBuffer,
+  options: DitheringOptions
+): DitheredPixels {
+  const {
+    method = 'floyd-steinberg',
+    matrix,
+    serpentine,
+    errorClamp,
+    colorDistance,
+    enhance,
+    palette = 'gray-4',
+    levelsEnabled = false,
+    blackLevel = 0,
+    whiteLevel = 100,
+  } = options
+  const customColors = isCustomPaletteId(palette)
+    ? options.customColors
+    : undefined
+  const colorPalette =
+    customColors?.map((c) => c.perceived) ??
+    COLOR_PALETTES[palette as ColorPalette]
+  const normalize = options.normalize ?? true
+  const saturationBoost = options.saturationBoost ?? Boolean(colorPalette)
+
+  if (colorPalette) {
+    if (saturationBoost) pixels = modulatePixels(pixels, 110, 150)
+    if (normalize) pixels = normalizePixels(pixels)
+    pixels = enhancePixels(pixels, enhance)
+
+    // 24-bit: no color reduction — full spectrum passthrough
+    if (palette === 'color-24bit') {
+      return { pixels, bitDepth: null, palette: null }
+    }
+
+    const target: DitheringStrategyOptions =
+      palette === 'color-12bit'
+        ? { mode: 'color', levels: 16 }
+        : { mode: 'color', palette: colorPalette }
+    pixels = quantizePixels(pixels, method, {
+      ...target,
+      matrix,
+      serpentine,
+      errorClamp,
+      colorDistance,
+    })
+    if (customColors) {
+      pixels = remapColors(
+        pixels,
+        customColors.map((c) => hexToRgb(c.perceived)),
+        customColors.map((c) => hexToRgb(c.output))
+      )
+    }
+    if (palette === 'color-12bit') {
+      return { pixels, bitDepth: null, palette: null }
+    }
+    return {
+      pixels,
+      bitDepth: null,
+      palette: outputPalette(colorPalette, customColors),
+    }
+  }
+
+  const colors =
+    GRAYSCALE_PALETTES[palette as GrayscalePalette] ??
+    GRAYSCALE_PALETTES['gray-4']
+  pixels = toGrayscale(pixels)
+  if (normalize) pixels = normalizePixels(pixels)
+  if (levelsEnabled && (blackLevel > 0 || whiteLevel < 100)) {
+    pixels = applyLevels(pixels, blackLevel, whiteLevel)
+  }
+  pixels = enhancePixels(pixels, enhance)
+
+  return {
+    pixels: quantizePixels(pixels, method, {
+      mode: 'grayscale',
+      colors,
+      matrix,
+      serpentine,
+      errorClamp,
+    }),
+    bitDepth: options.bitDepth ?? Math.ceil(Math.log2(colors)),
+    palette: null,
+  }
+}
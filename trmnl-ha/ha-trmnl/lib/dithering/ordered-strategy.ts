@@ -1,23 +1,51 @@
 /**
  * Ordered (Bayer Matrix) Dithering Strategy
  *
- * Implements ordered dithering using Bayer threshold matrix.
+ * Implements ordered dithering using a threshold matrix.
  * Faster than Floyd-Steinberg (~2x) but lower quality (visible patterns).
  *
  * Algorithm Overview:
- * Uses pre-computed Bayer matrix to threshold pixels deterministically.
+ * Uses a pre-computed threshold matrix to quantize pixels deterministically.
  * Each pixel position maps to a threshold value in the repeating matrix.
- * Creates regular crosshatch/checkerboard patterns.
+ * Bayer matrices give regular crosshatch/checkerboard patterns; halftone
+ * matrices cluster the dots like print screening.
  *
  * @module lib/dithering/ordered-strategy
  */
 
 import type { State } from 'gm'
+import type { DitherMatrix } from '../../types/domain.js'
 import type {
   DitheringStrategy,
   DitheringStrategyOptions,
 } from '../../types/dithering-strategy.js'
 
+/** ImageMagick threshold map names (see `magick -list threshold`) */
+const THRESHOLD_MAPS: Record<DitherMatrix, string> = {
+  '2x2': 'o2x2',
+  '4x4': 'o4x4',
+  '8x8': 'o8x8',
+  'halftone-4x4': 'h4x4a',
+  'halftone-6x6': 'h6x6a',
+  'halftone-8x8': 'h8x8a',
+}
+
+/**
+ * Counts the distinct values each RGB channel takes across a palette's hex
+ * colors, so ordered dithering can quantize to roughly the palette's own
+ * spacing before the remap picks the nearest entry. Never fewer than 2.
+ */
+export function channelLevels(colors: readonly string[]): number {
+  let levels = 2
+  for (const offset of [1, 3, 5]) {
+    const values = new Set(
+      colors.map((c) => c.slice(offset, offset + 2).toLowerCase()),
+    )
+    levels = Math.max(levels, values.size)
+  }
+  return levels
+}
+
 /**
  * Ordered (Bayer matrix) dithering
  *
@@ -28,7 +56,12 @@ import type {
  */
 export class OrderedStrategy implements DitheringStrategy {
   /**
-   * Applies ordered (Bayer matrix) dithering via ImageMagick.
+   * Applies ordered dithering via ImageMagick's `-ordered-dither`.
+   *
+   * Grayscale output is quantized straight to the palette's gray levels.
+   * Color output is dithered to a few levels per channel, and `-dither None`
+   * keeps the caller's `-remap mpr:palette` a plain nearest-color lookup so
+   * it doesn't diffuse the pattern away again.
    *
    * @param image - gm image instance (chainable)
    * @param options - Dithering configuration
@@ -38,19 +71,17 @@ export class OrderedStrategy implements DitheringStrategy {
     image: State,
     options: DitheringStrategyOptions = { mode: 'grayscale' }
   ): State {
-    const { mode, colors } = options
+    const { mode, colors, levels = 2, matrix = '8x8' } = options
+    const map = THRESHOLD_MAPS[matrix] ?? THRESHOLD_MAPS['8x8']
 
     if (mode === 'grayscale') {
-      if (colors === 2) {
-        // Binary (black & white) with Bayer matrix (ordered2x2)
-        return image.out('-dither', 'None').out('-monochrome')
-      } else if (colors !== undefined && colors > 2) {
-        // Multi-level grayscale with ordered dithering
-        return image.out('-dither', 'None').out('-colors', String(colors))
+      if (colors !== undefined && colors >= 2) {
+        return image.out('-ordered-dither', `${map},${colors}`)
       }
     } else if (mode === 'color') {
-      // Color palette with ordered dithering
-      return image.out('-dither', 'None')
+      return image
+        .out('-ordered-dither', `${map},${Math.max(2, levels)}`)
+        .out('-dither', 'None')
     }
 
     // Fallback: return image unchanged
@@ -0,0 +1,164 @@
+/**
+ * Pixel Buffer - Raw Pixels In and Out of ImageMagick
+ *
+ * Pixel strategies need decoded pixels, and binary PGM/PPM (`P5`/`P6`) is the
+ * simplest format ImageMagick streams them in: a short text header followed
+ * by the samples, one byte each at depth 8.
+ *
+ * Also home to small helpers shared by the in-process pixel code.
+ *
+ * @module lib/dithering/pixel-buffer
+ */
+
+import type { CustomPaletteColor } from '../../types/domain.js'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+
+/**
+ * Decodes a binary 8-bit PGM (grayscale) or PPM (RGB) image.
+ *
+ * @throws Error When the data isn't 8-bit P5/P6 or is truncated
+ */
+export function decodePnm(buffer: Buffer): PixelBuffer {
+  const magic = buffer.toString('latin1', 0, 2)
+  if (magic !== 'P5' && magic !== 'P6') {
+    throw new Error(`Unsupported PNM type: ${magic}`)
+  }
+
+  // Width, height and maxval, separated by whitespace and # comments
+  const fields: number[] = []
+  let pos = 2
+  while (fields.length < 3 && pos < buffer.length) {
+    const char = String.fromCharCode(buffer[pos]!)
+    if (char === '#') {
+      while (pos < buffer.length && buffer[pos] !== 0x0a) pos++
+    } else if (/\s/.test(char)) {
+      pos++
+    } else {
+      const start = pos
+      while (pos < buffer.length && /\d/.test(String.fromCharCode(buffer[pos]!)))
+        pos++
+      if (pos === start) throw new Error(`Malformed PNM header at byte ${pos}`)
+      fields.push(Number(buffer.toString('latin1', start, pos)))
+    }
+  }
+  // Exactly one whitespace byte separates the header from the samples
+  pos++
+
+  const [width = 0, height = 0, maxval = 0] = fields
+  if (maxval < 1 || maxval > 255) {
+    throw new Error(`Unsupported PNM maxval ${maxval} (expected 8-bit)`)
+  }
+
+  const channels = magic === 'P5' ? 1 : 3
+  const size = width * height * channels
+  if (buffer.length - pos < size) {
+    throw new Error(`PNM data truncated: ${buffer.length - pos} of ${size} bytes`)
+  }
+
+  return {
+    width,
+    height,
+    channels,
+    data: new Uint8Array(buffer.subarray(pos, pos + size)),
+  }
+}
+
+/**
+ * Encodes pixels as binary PGM or PPM, ready to hand back to ImageMagick.
+ */
+export function encodePnm(pixels: PixelBuffer): Buffer {
+  const magic = pixels.channels === 1 ? 'P5' : 'P6'
+  const header = Buffer.from(
+    `${magic}\n${pixels.width} ${pixels.height}\n255\n`,
+    'latin1',
+  )
+  return Buffer.concat([header, pixels.data])
+}
+
+/** Parses `#RRGGBB` into [r, g, b] */
+export function hexToRgb(hex: string): number[] {
+  const value = parseInt(hex.replace('#', ''), 16)
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+}
+
+/**
+ * Colors a discrete palette writes to the file, in palette order: a custom
+ * palette's output colors, or the palette's own colors.
+ */
+export function outputPalette(
+  colors: readonly string[],
+  customColors?: readonly CustomPaletteColor[],
+): number[][] {
+  return (customColors?.map((c) => c.output) ?? colors).map(hexToRgb)
+}
+
+/** Negates every color, keeping the order */
+export function invertPalette(
+  palette: readonly (readonly number[])[],
+): number[][] {
+  return palette.map((color) => color.map((v) => 255 - v))
+}
+
+/** RGB pixels as palette indices */
+export interface IndexedPixels {
+  /** Palette as 0xRRGGBB, in index order */
+  colors: number[]
+  /** One palette index per pixel */
+  indices: Uint8Array
+}
+
+/**
+ * Converts RGB pixels to palette indices. With `palette`, indices follow its
+ * order, the one device firmware expects, and pixels off the palette take
+ * the nearest color. Without it, colors are numbered as they first appear.
+ *
+ * @returns Indexed pixels, or null when there are more than 256 colors
+ */
+export function indexColors(
+  { data }: PixelBuffer,
+  palette?: readonly (readonly number[])[],
+): IndexedPixels | null {
+  const pack = (r: number, g: number, b: number) => (r << 16) | (g << 8) | b
+  const colors = palette?.map(([r, g, b]) => pack(r!, g!, b!)) ?? []
+  if (colors.length > 256) return null
+
+  const lookup = new Map<number, number>()
+  colors.forEach((rgb, n) => {
+    if (!lookup.has(rgb)) lookup.set(rgb, n)
+  })
+
+  /** Palette index closest to `rgb` in RGB */
+  const nearest = (rgb: number): number => {
+    let best = 0
+    let bestDistance = Infinity
+    colors.forEach((color, n) => {
+      const distance =
+        (((color >> 16) & 0xff) - ((rgb >> 16) & 0xff)) ** 2 +
+        (((color >> 8) & 0xff) - ((rgb >> 8) & 0xff)) ** 2 +
+        ((color & 0xff) - (rgb & 0xff)) ** 2
+      if (distance < bestDistance) {
+        best = n
+        bestDistance = distance
+      }
+    })
+    return best
+  }
+
+  const indices = new Uint8Array(data.length / 3)
+  for (let p = 0; p < indices.length; p++) {
+    const rgb = pack(data[p * 3]!, data[p * 3 + 1]!, data[p * 3 + 2]!)
+    let index = lookup.get(rgb)
+    if (index === undefined) {
+      if (palette) {
+        index = nearest(rgb)
+      } else {
+        if (colors.length === 256) return null
+        index = colors.push(rgb) - 1
+      }
+      lookup.set(rgb, index)
+    }
+    indices[p] = index
+  }
+
+  return { colors, indices }
+}
@@ -0,0 +1,354 @@
+/**
+ * Pixel Operations - In-Process Equivalents of the ImageMagick Steps
+ *
+ * Each function mirrors one operator the gm pipeline queues, closely enough
+ * that both pipelines give the same look on e-ink:
+ *
+ * | Function         | ImageMagick                       |
+ * |------------------|-----------------------------------|
+ * | rotatePixels     | `-rotate 90/180/270`              |
+ * | cropPixels       | `-crop WxH+X+Y`                   |
+ * | toGrayscale      | `-colorspace Gray` (Rec.709 luma) |
+ * | normalizePixels  | `-normalize` (2% / 1% stretch)    |
+ * | applyLevels      | `-level black%,white%`            |
+ * | modulatePixels   | `-modulate brightness,saturation` |
+ * | invertPixels     | `-negate`                         |
+ * | orderedDither    | `-ordered-dither map,levels`      |
+ * | mapToPalette     | `-dither None -remap palette`     |
+ * | remapColors      | `-fill to -opaque from` per color |
+ *
+ * All return a new buffer and leave their input alone.
+ *
+ * @module lib/dithering/pixel-ops
+ */
+
+import type {
+  ColorDistance,
+  DitherMatrix,
+  FrameRegion,
+  RotationAngle,
+} from '../../types/domain.js'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+import { paletteQuantizer } from './error-diffusion.js'
+import { perceptualQuantizer } from './color-distance.js'
+
+const clampByte = (v: number): number =>
+  Math.min(255, Math.max(0, Math.round(v)))
+
+/** Applies `fn` to every sample */
+function mapSamples(
+  pixels: PixelBuffer,
+  fn: (v: number) => number
+): PixelBuffer {
+  return { ...pixels, data: pixels.data.map(fn) }
+}
+
+/**
+ * Rotates clockwise by a right angle.
+ */
+export function rotatePixels(
+  pixels: PixelBuffer,
+  angle: RotationAngle
+): PixelBuffer {
+  const { width, height, channels, data } = pixels
+  const swap = angle !== 180
+  const outWidth = swap ? height : width
+  const outHeight = swap ? width : height
+  const out = new Uint8Array(data.length)
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let nx: number
+      let ny: number
+      if (angle === 90) {
+        nx = height - 1 - y
+        ny = x
+      } else if (angle === 180) {
+        nx = width - 1 - x
+        ny = height - 1 - y
+      } else {
+        nx = y
+        ny = width - 1 - x
+      }
+      const from = (y * width + x) * channels
+      const to = (ny * outWidth + nx) * channels
+      for (let c = 0; c < channels; c++) out[to + c] = data[from + c]!
+    }
+  }
+
+  return { width: outWidth, height: outHeight, channels, data: out }
+}
+
+/**
+ * Cuts out a rectangle, which must lie within the image.
+ */
+export function cropPixels(
+  pixels: PixelBuffer,
+  { x, y, width, height }: FrameRegion
+): PixelBuffer {
+  const { channels, data } = pixels
+  const out = new Uint8Array(width * height * channels)
+  for (let row = 0; row < height; row++) {
+    const from = ((y + row) * pixels.width + x) * channels
+    const to = row * width * channels
+    out.set(data.subarray(from, from + width * channels), to)
+  }
+  return { width, height, channels, data: out }
+}
+
+/**
+ * Converts RGB to one gray channel with the Rec.709 luma weights.
+ */
+export function toGrayscale(pixels: PixelBuffer): PixelBuffer {
+  if (pixels.channels === 1) return pixels
+  const { width, height, data } = pixels
+  const out = new Uint8Array(width * height)
+  for (let i = 0; i < out.length; i++) {
+    out[i] = clampByte(
+      0.212656 * data[i * 3]! +
+        0.715158 * data[i * 3 + 1]! +
+        0.072186 * data[i * 3 + 2]!
+    )
+  }
+  return { width, height, channels: 1, data: out }
+}
+
+/**
+ * Stretches contrast so the darkest 2% of samples become black and the
+ * brightest 1% white, like `-normalize`.
+ */
+export function normalizePixels(pixels: PixelBuffer): PixelBuffer {
+  const histogram = new Uint32Array(256)
+  for (const v of pixels.data) histogram[v]!++
+
+  const total = pixels.data.length
+  let black = 0
+  for (let seen = 0; black < 255; black++) {
+    seen += histogram[black]!
+    if (seen > total * 0.02) break
+  }
+  let white = 255
+  for (let seen = 0; white > 0; white--) {
+    seen += histogram[white]!
+    if (seen > total * 0.01) break
+  }
+  if (white <= black) return pixels
+
+  const scale = 255 / (white - black)
+  return mapSamples(pixels, (v) => clampByte((v - black) * scale))
+}
+
+/**
+ * Maps `blackPercent` to black and `whitePercent` to white, like `-level`.
+ */
+export function applyLevels(
+  pixels: PixelBuffer,
+  blackPercent: number,
+  whitePercent: number
+): PixelBuffer {
+  const black = (blackPercent / 100) * 255
+  const white = (whitePercent / 100) * 255
+  if (white <= black) return pixels
+  const scale = 255 / (white - black)
+  return mapSamples(pixels, (v) => clampByte((v - black) * scale))
+}
+
+/**
+ * Scales HSL lightness and saturation by percentages, like `-modulate`.
+ */
+export function modulatePixels(
+  pixels: PixelBuffer,
+  brightness: number,
+  saturation: number
+): PixelBuffer {
+  if (pixels.channels === 1) {
+    return mapSamples(pixels, (v) => clampByte((v * brightness) / 100))
+  }
+
+  const out = new Uint8Array(pixels.data.length)
+  const { data } = pixels
+  for (let i = 0; i < data.length; i += 3) {
+    const r = data[i]! / 255
+    const g = data[i + 1]! / 255
+    const b = data[i + 2]! / 255
+    const max = Math.max(r, g, b)
+    const min = Math.min(r, g, b)
+    const d = max - min
+
+    let h = 0
+    if (d > 0) {
+      if (max === r) h = ((g - b) / d + 6) % 6
+      else if (max === g) h = (b - r) / d + 2
+      else h = (r - g) / d + 4
+      h /= 6
+    }
+    const l0 = (max + min) / 2
+    const s0 = d === 0 ? 0 : d / (1 - Math.abs(2 * l0 - 1))
+
+    const l = Math.min(1, (l0 * brightness) / 100)
+    const s = Math.min(1, (s0 * saturation) / 100)
+
+    // HSL back to RGB
+    const q = l < 0.5 ? l * (1 + s) : l + s - l * s
+    const p = 2 * l - q
+    const channel = (t: number): number => {
+      const tt = (t + 1) % 1
+      if (tt < 1 / 6) return p + (q - p) * 6 * tt
+      if (tt < 1 / 2) return q
+      if (tt < 2 / 3) return p + (q - p) * (2 / 3 - tt) * 6
+      return p
+    }
+    out[i] = clampByte(channel(h + 1 / 3) * 255)
+    out[i + 1] = clampByte(channel(h) * 255)
+    out[i + 2] = clampByte(channel(h - 1 / 3) * 255)
+  }
+  return { ...pixels, data: out }
+}
+
+/**
+ * Inverts every sample, like `-negate`.
+ */
+export function invertPixels(pixels: PixelBuffer): PixelBuffer {
+  return mapSamples(pixels, (v) => 255 - v)
+}
+
+// =============================================================================
+// ORDERED DITHERING
+// =============================================================================
+
+/** Threshold map: values are 1..divisor-1, laid out row by row */
+interface ThresholdMap {
+  size: number
+  divisor: number
+  values: readonly number[]
+}
+
+/** Bayer matrix of size n (a power of two), as ImageMagick's oNxN maps */
+function bayer(n: number): ThresholdMap {
+  let matrix = [[0]]
+  while (matrix.length < n) {
+    const m = matrix
+    const size = m.length
+    matrix = Array.from({ length: size * 2 }, (_, y) =>
+      Array.from({ length: size * 2 }, (_, x) => {
+        const base = 4 * m[y % size]![x % size]!
+        const quadrant = (y >= size ? 2 : 0) + (x >= size ? 1 : 0)
+        return base + [0, 2, 3, 1][quadrant]!
+      })
+    )
+  }
+  const values = matrix.flat().map((v) => v + 1)
+  return { size: n, divisor: n * n + 1, values }
+}
+
+/** ImageMagick's angled clustered-dot halftone maps (h4x4a, h6x6a, h8x8a) */
+const HALFTONE_MAPS: Record<string, ThresholdMap> = {
+  'halftone-4x4': {
+    size: 4,
+    divisor: 9,
+    values: [4, 2, 7, 5, 3, 1, 8, 6, 7, 5, 4, 2, 8, 6, 3, 1],
+  },
+  'halftone-6x6': {
+    size: 6,
+    divisor: 19,
+    values: [
+      14, 13, 10, 8, 2, 3, 16, 18, 12, 7, 1, 4, 15, 17, 11, 9, 6, 5, 8, 2, 3,
+      14, 13, 10, 7, 1, 4, 16, 18, 12, 9, 6, 5, 15, 17, 11,
+    ],
+  },
+  'halftone-8x8': {
+    size: 8,
+    divisor: 33,
+    values: [
+      13, 7, 8, 14, 17, 21, 22, 18, 6, 1, 3, 9, 28, 31, 29, 23, 5, 2, 4, 10,
+      27, 32, 30, 24, 16, 12, 11, 15, 20, 26, 25, 19, 17, 21, 22, 18, 13, 7,
+      8, 14, 28, 31, 29, 23, 6, 1, 3, 9, 27, 32, 30, 24, 5, 2, 4, 10, 20, 26,
+      25, 19, 16, 12, 11, 15,
+    ],
+  },
+}
+
+function thresholdMap(matrix: DitherMatrix): ThresholdMap {
+  const halftone = HALFTONE_MAPS[matrix]
+  if (halftone) return halftone
+  return bayer(matrix === '2x2' ? 2 : matrix === '4x4' ? 4 : 8)
+}
+
+/**
+ * Dithers every channel to `levels` evenly spaced values with a threshold
+ * map, like `-ordered-dither map,levels`.
+ */
+export function orderedDither(
+  pixels: PixelBuffer,
+  matrix: DitherMatrix,
+  levels: number
+): PixelBuffer {
+  const { width, height, channels, data } = pixels
+  const map = thresholdMap(matrix)
+  const steps = Math.max(2, levels) - 1
+  const out = new Uint8Array(data.length)
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const threshold =
+        map.values[(y % map.size) * map.size + (x % map.size)]! / map.divisor
+      for (let c = 0; c < channels; c++) {
+        const i = (y * width + x) * channels + c
+        const scaled = (data[i]! / 255) * steps
+        const base = Math.floor(scaled)
+        const up = scaled - base >= threshold ? 1 : 0
+        const level = Math.min(steps, base + up)
+        out[i] = clampByte((level * 255) / steps)
+      }
+    }
+  }
+  return { ...pixels, data: out }
+}
+
+/**
+ * Replaces every pixel with the nearest palette color, without dithering.
+ */
+export function mapToPalette(
+  pixels: PixelBuffer,
+  palette: readonly (readonly number[])[],
+  distance: ColorDistance = 'rgb'
+): PixelBuffer {
+  const quantize =
+    distance === 'rgb'
+      ? paletteQuantizer(palette)
+      : perceptualQuantizer(palette, distance)
+  const { channels, data } = pixels
+  const out = new Uint8Array(data.length)
+  const value = new Float32Array(channels)
+  for (let i = 0; i < data.length; i += channels) {
+    for (let c = 0; c < channels; c++) value[c] = data[i + c]!
+    const color = quantize(value)
+    for (let c = 0; c < channels; c++) out[i + c] = color[c]!
+  }
+  return { ...pixels, data: out }
+}
+
+/**
+ * Swaps each pixel's nearest `from` color for the `to` color at the same
+ * index. Custom palettes dither against the colors a panel shows, then write
+ * the values its firmware expects.
+ */
+export function remapColors(
+  pixels: PixelBuffer,
+  from: readonly (readonly number[])[],
+  to: readonly (readonly number[])[]
+): PixelBuffer {
+  const quantize = paletteQuantizer(from)
+  const { channels, data } = pixels
+  const out = new Uint8Array(data.length)
+  const value = new Float32Array(channels)
+  for (let i = 0; i < data.length; i += channels) {
+    for (let c = 0; c < channels; c++) value[c] = data[i + c]!
+    const nearest = quantize(value)
+    const index = from.findIndex((color) =>
+      color.every((v, c) => v === nearest[c])
+    )
+    for (let c = 0; c < channels; c++) out[i + c] = to[index]![c]!
+  }
+  return { ...pixels, data: out }
+}
@@ -0,0 +1,325 @@
+/**
+ * PNG Codec - In-Process Decode and Encode
+ *
+ * Just enough PNG for the native pipeline: decodes the non-interlaced images
+ * Chromium produces (any color type, 1-16 bits) and encodes grayscale at
+ * 1/2/4/8 bits, indexed color, or truecolor.
+ *
+ * Output always carries a bKGD chunk: TRMNL firmware rejects PNGs that
+ * contain nothing beyond IHDR, IDAT and IEND (issue #47).
+ *
+ * @module lib/dithering/png
+ */
+
+import { deflateSync, inflateSync } from 'zlib'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+import { indexColors } from './pixel-buffer.js'
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+/** Samples per pixel by PNG color type */
+const COLOR_TYPE_CHANNELS: Record<number, number> = {
+  0: 1, // grayscale
+  2: 3, // truecolor
+  3: 1, // indexed
+  4: 2, // grayscale + alpha
+  6: 4, // truecolor + alpha
+}
+
+/** Checks for the PNG signature */
+export function isPng(buffer: Buffer): boolean {
+  return buffer.subarray(0, 8).equals(SIGNATURE)
+}
+
+// =============================================================================
+// CRC
+// =============================================================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// =============================================================================
+// DECODE
+// =============================================================================
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c
+  const pa = Math.abs(p - a)
+  const pb = Math.abs(p - b)
+  const pc = Math.abs(p - c)
+  if (pa <= pb && pa <= pc) return a
+  return pb <= pc ? b : c
+}
+
+/** Reverses the per-row filters, dropping the filter-type bytes */
+function unfilter(
+  raw: Uint8Array,
+  height: number,
+  stride: number,
+  bpp: number
+): Uint8Array {
+  const out = new Uint8Array(height * stride)
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)]
+    const line = y * (stride + 1) + 1
+    const row = y * stride
+    const prev = row - stride
+    for (let i = 0; i < stride; i++) {
+      const x = raw[line + i]!
+      const a = i >= bpp ? out[row + i - bpp]! : 0
+      const b = y > 0 ? out[prev + i]! : 0
+      const c = y > 0 && i >= bpp ? out[prev + i - bpp]! : 0
+      let value: number
+      switch (filter) {
+        case 0:
+          value = x
+          break
+        case 1:
+          value = x + a
+          break
+        case 2:
+          value = x + b
+          break
+        case 3:
+          value = x + ((a + b) >> 1)
+          break
+        case 4:
+          value = x + paeth(a, b, c)
+          break
+        default:
+          throw new Error(`Invalid PNG filter type ${filter}`)
+      }
+      out[row + i] = value & 0xff
+    }
+  }
+  return out
+}
+
+/**
+ * Decodes a PNG to 8-bit RGB, compositing any transparency onto white.
+ *
+ * @throws Error For malformed or interlaced images
+ */
+export function decodePng(buffer: Buffer): PixelBuffer {
+  if (!isPng(buffer)) throw new Error('Not a PNG: signature mismatch')
+
+  let width = 0
+  let height = 0
+  let bitDepth = 0
+  let colorType = 0
+  let palette: Uint8Array | null = null
+  let paletteAlpha: Uint8Array | null = null
+  const idat: Buffer[] = []
+
+  let offset = 8
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset)
+    const type = buffer.toString('ascii', offset + 4, offset + 8)
+    const data = buffer.subarray(offset + 8, offset + 8 + length)
+    offset += 12 + length
+
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0)
+      height = data.readUInt32BE(4)
+      bitDepth = data[8]!
+      colorType = data[9]!
+      if (data[12] !== 0) throw new Error('Unsupported PNG: interlaced')
+    } else if (type === 'PLTE') {
+      palette = data
+    } else if (type === 'tRNS' && colorType === 3) {
+      paletteAlpha = data
+    } else if (type === 'IDAT') {
+      idat.push(data)
+    } else if (type === 'IEND') {
+      break
+    }
+  }
+
+  const samples = COLOR_TYPE_CHANNELS[colorType]
+  if (!samples || !width || !height) {
+    throw new Error(`Unsupported PNG: color type ${colorType}`)
+  }
+  if (colorType === 3 && !palette) throw new Error('PNG palette missing')
+
+  const bpp = Math.max(1, (samples * bitDepth) >> 3)
+  const stride = Math.ceil((width * samples * bitDepth) / 8)
+  const raw = unfilter(inflateSync(Buffer.concat(idat)), height, stride, bpp)
+
+  // Reads sample `s` of pixel `x` on a row, scaled to 8 bits
+  const maxSample = (1 << Math.min(bitDepth, 8)) - 1
+  const sample = (row: number, x: number, s: number): number => {
+    const index = x * samples + s
+    if (bitDepth === 16) return raw[row + index * 2]!
+    if (bitDepth === 8) return raw[row + index]!
+    const perByte = 8 / bitDepth
+    const byte = raw[row + Math.floor(index / perByte)]!
+    const shift = 8 - bitDepth * ((index % perByte) + 1)
+    const value = (byte >> shift) & maxSample
+    // Palette indices stay indices; gray levels scale to 0-255
+    return colorType === 3 ? value : Math.round((value * 255) / maxSample)
+  }
+
+  const data = new Uint8Array(width * height * 3)
+  const rgba = [0, 0, 0, 255]
+  for (let y = 0; y < height; y++) {
+    const row = y * stride
+    for (let x = 0; x < width; x++) {
+      if (colorType === 3) {
+        const index = sample(row, x, 0)
+        rgba[0] = palette![index * 3] ?? 0
+        rgba[1] = palette![index * 3 + 1] ?? 0
+        rgba[2] = palette![index * 3 + 2] ?? 0
+        rgba[3] = paletteAlpha?.[index] ?? 255
+      } else if (samples <= 2) {
+        rgba[0] = rgba[1] = rgba[2] = sample(row, x, 0)
+        rgba[3] = samples === 2 ? sample(row, x, 1) : 255
+      } else {
+        rgba[0] = sample(row, x, 0)
+        rgba[1] = sample(row, x, 1)
+        rgba[2] = sample(row, x, 2)
+        rgba[3] = samples === 4 ? sample(row, x, 3) : 255
+      }
+
+      const alpha = rgba[3]!
+      const out = (y * width + x) * 3
+      for (let c = 0; c < 3; c++) {
+        data[out + c] = Math.round(
+          (rgba[c]! * alpha + 255 * (255 - alpha)) / 255
+        )
+      }
+    }
+  }
+
+  return { width, height, channels: 3, data }
+}
+
+// =============================================================================
+// ENCODE
+// =============================================================================
+
+/** Options for encodePng() */
+export interface PngEncodeOptions {
+  /** Bits per sample for grayscale input: 1, 2, 4 or 8 (default: 8) */
+  bitDepth?: number | null
+  /** zlib level 1-9 (default: 9) */
+  compressionLevel?: number
+  /** RGB colors for the PLTE chunk of color input, in this order */
+  palette?: readonly (readonly number[])[] | null
+}
+
+function chunk(type: string, data: Uint8Array): Buffer {
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data])
+  const out = Buffer.alloc(body.length + 8)
+  out.writeUInt32BE(data.length, 0)
+  body.copy(out, 4)
+  out.writeUInt32BE(crc32(body), body.length + 4)
+  return out
+}
+
+/** Packs one row of small samples (indices or gray levels) into bytes */
+function packRow(values: ArrayLike<number>, bitDepth: number): Uint8Array {
+  if (bitDepth === 8) return Uint8Array.from(values)
+  const perByte = 8 / bitDepth
+  const row = new Uint8Array(Math.ceil(values.length / perByte))
+  for (let i = 0; i < values.length; i++) {
+    const shift = 8 - bitDepth * ((i % perByte) + 1)
+    row[Math.floor(i / perByte)]! |= values[i]! << shift
+  }
+  return row
+}
+
+/** Smallest PNG bit depth that can index `count` entries */
+function indexDepth(count: number): number {
+  return count <= 2 ? 1 : count <= 4 ? 2 : count <= 16 ? 4 : 8
+}
+
+/**
+ * Encodes pixels as PNG. Grayscale input is written at the requested bit
+ * depth. Color input is indexed against `palette` when given, keeping its
+ * order; otherwise it is indexed when it has at most 256 colors and
+ * truecolor beyond that.
+ */
+export function encodePng(
+  pixels: PixelBuffer,
+  { bitDepth, compressionLevel = 9, palette }: PngEncodeOptions = {}
+): Buffer {
+  const { width, height, channels, data } = pixels
+  const rows: Uint8Array[] = []
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(width, 0)
+  header.writeUInt32BE(height, 4)
+  const extra: Buffer[] = []
+
+  if (channels === 1) {
+    const depth = bitDepth ?? 8
+    const max = (1 << depth) - 1
+    const line = new Uint8Array(width)
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        line[x] = Math.round((data[y * width + x]! * max) / 255)
+      }
+      rows.push(packRow(line, depth))
+    }
+    header[8] = depth
+    header[9] = 0
+    const background = Buffer.alloc(2)
+    background.writeUInt16BE(max)
+    extra.push(chunk('bKGD', background))
+  } else {
+    const indexed = indexColors(pixels, palette ?? undefined)
+
+    if (indexed) {
+      const { colors, indices } = indexed
+      const depth = indexDepth(colors.length)
+      for (let y = 0; y < height; y++) {
+        rows.push(packRow(indices.subarray(y * width, (y + 1) * width), depth))
+      }
+      header[8] = depth
+      header[9] = 3
+      const plte = Buffer.alloc(colors.length * 3)
+      colors.forEach((rgb, index) => plte.writeUIntBE(rgb, index * 3, 3))
+      extra.push(chunk('PLTE', plte))
+      const white = colors.indexOf(0xffffff)
+      extra.push(chunk('bKGD', Buffer.from([Math.max(0, white)])))
+    } else {
+      for (let y = 0; y < height; y++) {
+        rows.push(data.subarray(y * width * 3, (y + 1) * width * 3))
+      }
+      header[8] = 8
+      header[9] = 2
+      extra.push(chunk('bKGD', Buffer.from([0, 255, 0, 255, 0, 255])))
+    }
+  }
+
+  // Filter type 0 on every row: e-ink output is mostly flat runs, which
+  // deflate already compresses well, and indexed data gains nothing from
+  // prediction
+  const filtered = Buffer.concat(
+    rows.flatMap((row) => [Buffer.from([0]), Buffer.from(row)])
+  )
+
+  return Buffer.concat([
+    SIGNATURE,
+    chunk('IHDR', header),
+    ...extra,
+    chunk('IDAT', deflateSync(filtered, { level: compressionLevel })),
+    chunk('IEND', new Uint8Array(0)),
+  ])
+}
@@ -0,0 +1,58 @@
+/**
+ * In-Process Quantization
+ *
+ * Runs any dithering method on decoded pixels: ordered dithering from a
+ * threshold map, threshold as diffusion that passes no error on, every
+ * error-diffusion kernel including Floyd-Steinberg, and hybrid. Used by the native
+ * pipeline, and by the ImageMagick pipeline when color matching has to
+ * happen in CIELAB, which `-remap` can't do.
+ *
+ * @module lib/dithering/quantize
+ */
+
+import type {
+  DitheringStrategyOptions,
+  PixelBuffer,
+} from '../../types/dithering-strategy.js'
+import { ErrorDiffusionStrategy } from './error-diffusion-strategy.js'
+import { HybridStrategy } from './hybrid-strategy.js'
+import { DIFFUSION_KERNELS } from './error-diffusion.js'
+import { channelLevels } from './ordered-strategy.js'
+import { hexToRgb } from './pixel-buffer.js'
+import { mapToPalette, orderedDither } from './pixel-ops.js'
+
+/**
+ * Quantizes pixels with a dithering method. Unknown methods fall back to
+ * Floyd-Steinberg.
+ */
+export function quantizePixels(
+  pixels: PixelBuffer,
+  method: string,
+  options: DitheringStrategyOptions
+): PixelBuffer {
+  const palette = options.palette?.length ? options.palette : undefined
+
+  if (method === 'ordered') {
+    const levels =
+      options.mode === 'grayscale'
+        ? (options.colors ?? 2)
+        : (options.levels ?? channelLevels(palette ?? []))
+    const dithered = orderedDither(pixels, options.matrix ?? '8x8', levels)
+    return palette
+      ? mapToPalette(dithered, palette.map(hexToRgb), options.colorDistance)
+      : dithered
+  }
+
+  if (method === 'hybrid') {
+    return new HybridStrategy().diffuse(pixels, options)
+  }
+
+  const kernel =
+    DIFFUSION_KERNELS[method as keyof typeof DIFFUSION_KERNELS] ??
+    DIFFUSION_KERNELS['floyd-steinberg']
+  const threshold = method === 'threshold' || method === 'none'
+  return new ErrorDiffusionStrategy(kernel).diffuse(pixels, {
+    ...options,
+    errorClamp: threshold ? 0 : options.errorClamp,
+  })
+}
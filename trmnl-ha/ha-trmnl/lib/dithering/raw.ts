@@ -0,0 +1,167 @@
+/**
+ * Raw Encoder - Packed Framebuffer Bytes for E-Paper Panels
+ *
+ * Microcontroller displays (ESPHome, Inkplate, Waveshare drivers) copy
+ * image bytes straight into the panel's framebuffer, so `raw` output has no
+ * header: rows top to bottom, each padded to a whole byte.
+ *
+ * Packed output stores each pixel's gray level or palette index at the
+ * palette's bit depth (1, 2, 4 or 8 bits), or as 24-bit RGB when the colors
+ * aren't limited to a palette. Planar output writes 1-bit planes one after
+ * another:
+ *
+ * - gray: one plane per bit of the level, most significant first
+ * - color: one plane per palette color except white, in palette order, set
+ *   where the pixel has that color (black and red for `color-3bwr`)
+ *
+ * The layout goes back to the caller so it can be sent as headers.
+ *
+ * @module lib/dithering/raw
+ */
+
+import type { RawLayout, RawOptions } from '../../types/domain.js'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+import { indexColors } from './pixel-buffer.js'
+
+/** Raw layout requested by the caller, and where to report the result */
+export interface RawOutputOptions extends RawOptions {
+  /** Called with the layout of the bytes */
+  onLayout?: (layout: RawLayout) => void
+}
+
+/** Options for encodeRaw() */
+export interface RawEncodeOptions extends RawOutputOptions {
+  /** Bits per gray level of grayscale input: 1, 2, 4 or 8 (default: 8) */
+  bitDepth?: number | null
+  /** RGB colors of color input, in index order (default: 24-bit RGB) */
+  palette?: readonly (readonly number[])[] | null
+}
+
+const toHex = (rgb: number): string =>
+  `#${rgb.toString(16).padStart(6, '0').toUpperCase()}`
+
+/**
+ * Packs one row of `bits`-wide values, the first value at the most or least
+ * significant end of each byte.
+ */
+function packRow(
+  values: ArrayLike<number>,
+  bits: number,
+  lsbFirst: boolean,
+): Buffer {
+  const perByte = 8 / bits
+  const row = Buffer.alloc(Math.ceil(values.length / perByte))
+  for (let i = 0; i < values.length; i++) {
+    const slot = i % perByte
+    const shift = lsbFirst ? bits * slot : 8 - bits * (slot + 1)
+    row[Math.floor(i / perByte)]! |= values[i]! << shift
+  }
+  return row
+}
+
+/** Packs one value per pixel, row by row */
+function packImage(
+  values: Uint8Array,
+  width: number,
+  bits: number,
+  lsbFirst: boolean,
+): Buffer {
+  const rows: Buffer[] = []
+  for (let start = 0; start < values.length; start += width) {
+    const row = values.subarray(start, start + width)
+    rows.push(packRow(row, bits, lsbFirst))
+  }
+  return Buffer.concat(rows)
+}
+
+/**
+ * Encodes pixels as raw panel bytes.
+ */
+export function encodeRaw(
+  pixels: PixelBuffer,
+  {
+    bitDepth,
+    palette,
+    bitOrder = 'msb',
+    planes = false,
+    onLayout,
+  }: RawEncodeOptions = {},
+): Buffer {
+  const { width, height, channels, data } = pixels
+  const lsbFirst = bitOrder === 'lsb'
+  let values: Uint8Array
+  let bits: number
+  let colors: number[]
+
+  if (channels === 1) {
+    bits = bitDepth ?? 8
+    const max = (1 << bits) - 1
+    values = data.map((v) => Math.round((v * max) / 255))
+    colors = Array.from({ length: max + 1 }, (_, n) => {
+      const v = Math.round((n * 255) / max)
+      return (v << 16) | (v << 8) | v
+    })
+  } else {
+    const indexed = palette ? indexColors(pixels, palette) : null
+    if (!indexed) {
+      onLayout?.({ width, height, bitsPerPixel: 24, bitOrder, planes: 1 })
+      return Buffer.from(data)
+    }
+    const count = indexed.colors.length
+    bits = count <= 2 ? 1 : count <= 4 ? 2 : count <= 16 ? 4 : 8
+    values = indexed.indices
+    colors = indexed.colors
+  }
+
+  if (!planes) {
+    onLayout?.({
+      width,
+      height,
+      bitsPerPixel: bits,
+      bitOrder,
+      planes: 1,
+      colors: colors.map(toHex),
+    })
+    return packImage(values, width, bits, lsbFirst)
+  }
+
+  // 1-bit planes: bits of the gray level, or one per non-white color
+  const masks: Uint8Array[] = []
+  let planeColors: string[] | undefined
+  if (channels === 1) {
+    for (let bit = bits - 1; bit >= 0; bit--) {
+      masks.push(values.map((v) => (v >> bit) & 1))
+    }
+  } else {
+    planeColors = []
+    colors.forEach((rgb, index) => {
+      if (rgb === 0xffffff) return
+      masks.push(values.map((v) => (v === index ? 1 : 0)))
+      planeColors!.push(toHex(rgb))
+    })
+  }
+
+  onLayout?.({
+    width,
+    height,
+    bitsPerPixel: 1,
+    bitOrder,
+    planes: masks.length,
+    colors: planeColors,
+  })
+  return Buffer.concat(
+    masks.map((mask) => packImage(mask, width, 1, lsbFirst)),
+  )
+}
+
+/** Response headers describing raw output */
+export function rawHeaders(layout: RawLayout): Record<string, string> {
+  return {
+    'X-Image-Width': String(layout.width),
+    'X-Image-Height': String(layout.height),
+    'X-Bits-Per-Pixel': String(layout.bitsPerPixel),
+    'X-Bit-Order': layout.bitOrder,
+    'X-Planes': String(layout.planes),
+    ...(layout.colors && { 'X-Palette': layout.colors.join(',') }),
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Resampling - In-Process Equivalents of ImageMagick's Resize
+ *
+ * Full-page and supersampled captures are bigger than the display and must
+ * be brought to size before dithering. The native pipeline does it here
+ * instead of spawning ImageMagick:
+ *
+ * | Function        | ImageMagick                                       |
+ * |-----------------|---------------------------------------------------|
+ * | resamplePixels  | `-filter F -resize WxH!`                          |
+ * | fitPixels       | `-filter F -resize WxH> -gravity Center -extent`  |
+ *
+ * Both filter rows, then columns, with the filter widened by the reduction
+ * factor when shrinking, so every source pixel contributes to the output.
+ *
+ * @module lib/dithering/resample
+ */
+
+import type { ResampleFilter, Viewport } from '../../types/domain.js'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+
+/** Filter kernel and how far it reaches, in source pixels at 1:1 */
+interface Filter {
+  support: number
+  weight: (x: number) => number
+}
+
+const sinc = (x: number): number =>
+  x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x)
+
+/** Mitchell-Netravali cubic with B = C = 1/3 */
+function mitchell(x: number): number {
+  const B = 1 / 3
+  const C = 1 / 3
+  const t = Math.abs(x)
+  if (t < 1) {
+    return (
+      ((12 - 9 * B - 6 * C) * t ** 3 +
+        (-18 + 12 * B + 6 * C) * t ** 2 +
+        (6 - 2 * B)) /
+      6
+    )
+  }
+  if (t < 2) {
+    return (
+      ((-B - 6 * C) * t ** 3 +
+        (6 * B + 30 * C) * t ** 2 +
+        (-12 * B - 48 * C) * t +
+        (8 * B + 24 * C)) /
+      6
+    )
+  }
+  return 0
+}
+
+const FILTERS: Record<ResampleFilter, Filter> = {
+  lanczos: {
+    support: 3,
+    weight: (x) => (Math.abs(x) < 3 ? sinc(x) * sinc(x / 3) : 0),
+  },
+  mitchell: { support: 2, weight: mitchell },
+  box: { support: 0.5, weight: (x) => (x > -0.5 && x <= 0.5 ? 1 : 0) },
+}
+
+/** Source pixels and weights for each output pixel along one axis */
+interface Taps {
+  first: Int32Array
+  count: Int32Array
+  weights: Float32Array
+  /** Weights per output pixel, the stride of `weights` */
+  stride: number
+}
+
+function axisTaps(from: number, to: number, filter: Filter): Taps {
+  const scale = to / from
+  const widen = Math.max(1, 1 / scale)
+  const support = filter.support * widen
+  const stride = Math.ceil(support) * 2 + 1
+  const first = new Int32Array(to)
+  const count = new Int32Array(to)
+  const weights = new Float32Array(to * stride)
+
+  for (let i = 0; i < to; i++) {
+    const center = (i + 0.5) / scale
+    const start = Math.max(0, Math.floor(center - support))
+    const end = Math.min(from, Math.ceil(center + support))
+    let total = 0
+    let n = 0
+    for (let j = start; j < end && n < stride; j++, n++) {
+      const w = filter.weight((j + 0.5 - center) / widen)
+      weights[i * stride + n] = w
+      total += w
+    }
+    // Normalize, so flat areas keep their value at the edges too
+    if (total !== 0) {
+      for (let k = 0; k < n; k++) weights[i * stride + k]! /= total
+    }
+    first[i] = start
+    count[i] = n
+  }
+  return { first, count, weights, stride }
+}
+
+/**
+ * Resamples to exactly `width` x `height`, ignoring the aspect ratio.
+ */
+export function resamplePixels(
+  pixels: PixelBuffer,
+  width: number,
+  height: number,
+  filter: ResampleFilter = 'lanczos',
+): PixelBuffer {
+  const { channels, data } = pixels
+  if (pixels.width === width && pixels.height === height) return pixels
+
+  const kernel = FILTERS[filter]
+  const across = axisTaps(pixels.width, width, kernel)
+  const down = axisTaps(pixels.height, height, kernel)
+
+  // Rows first, into floats so the second pass doesn't round twice
+  const rows = new Float32Array(width * pixels.height * channels)
+  for (let y = 0; y < pixels.height; y++) {
+    const src = y * pixels.width * channels
+    for (let x = 0; x < width; x++) {
+      const to = (y * width + x) * channels
+      for (let k = 0; k < across.count[x]!; k++) {
+        const w = across.weights[x * across.stride + k]!
+        const from = src + (across.first[x]! + k) * channels
+        for (let c = 0; c < channels; c++) rows[to + c]! += w * data[from + c]!
+      }
+    }
+  }
+
+  const out = new Uint8Array(width * height * channels)
+  const sums = new Float32Array(channels)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      sums.fill(0)
+      for (let k = 0; k < down.count[y]!; k++) {
+        const w = down.weights[y * down.stride + k]!
+        const from = ((down.first[y]! + k) * width + x) * channels
+        for (let c = 0; c < channels; c++) sums[c]! += w * rows[from + c]!
+      }
+      const to = (y * width + x) * channels
+      for (let c = 0; c < channels; c++) {
+        out[to + c] = Math.min(255, Math.max(0, Math.round(sums[c]!)))
+      }
+    }
+  }
+
+  return { width, height, channels, data: out }
+}
+
+/**
+ * Shrinks to fit within `size`, keeping the aspect ratio, and centers the
+ * result on a white canvas of exactly that size. Smaller images are not
+ * enlarged.
+ */
+export function fitPixels(
+  pixels: PixelBuffer,
+  size: Viewport,
+  filter: ResampleFilter = 'lanczos',
+): PixelBuffer {
+  const scale = Math.min(
+    1,
+    size.width / pixels.width,
+    size.height / pixels.height,
+  )
+  const fitted = resamplePixels(
+    pixels,
+    Math.max(1, Math.round(pixels.width * scale)),
+    Math.max(1, Math.round(pixels.height * scale)),
+    filter,
+  )
+
+  const { channels } = fitted
+  const out = new Uint8Array(size.width * size.height * channels).fill(255)
+  const left = Math.floor((size.width - fitted.width) / 2)
+  const top = Math.floor((size.height - fitted.height) / 2)
+  const rowBytes = fitted.width * channels
+  for (let y = 0; y < fitted.height; y++) {
+    const from = y * rowBytes
+    out.set(
+      fitted.data.subarray(from, from + rowBytes),
+      ((top + y) * size.width + left) * channels,
+    )
+  }
+  return { width: size.width, height: size.height, channels, data: out }
+}
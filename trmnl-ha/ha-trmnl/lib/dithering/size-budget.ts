@@ -0,0 +1,149 @@
+/**
+ * Output Size Budget - Cheaper Encodings Until the Image Fits
+ *
+ * TRMNL firmware rejects images over about 50KB. With `maxBytes` set,
+ * processImage() encodes with the requested settings first and, while the
+ * result is too big, retries with one more of these changes applied on top
+ * of the previous ones:
+ *
+ * | Step              | Change                                          |
+ * |-------------------|-------------------------------------------------|
+ * | Compression       | PNG compression level 9                         |
+ * | Bit depth         | Drop a bit depth override, then fewer grays     |
+ * |                   | (gray-256 → gray-16 → gray-4 → bw) or 12-bit    |
+ * |                   | color instead of 24-bit                         |
+ * | Dither            | Ordered, then plain threshold                   |
+ *
+ * It stops at the first result that fits. When none does, the smallest
+ * result is used and a warning logged.
+ *
+ * @module lib/dithering/size-budget
+ */
+
+import type {
+  ImageFormat,
+  Palette,
+  SizeBudgetResult,
+} from '../../types/domain.js'
+import type { DitheringOptions } from '../dithering.js'
+import { ditheringLogger } from '../logger.js'
+
+const log = ditheringLogger()
+
+/** Next cheaper palette for each palette that has one */
+const CHEAPER_PALETTE: Partial<Record<string, Palette>> = {
+  'gray-256': 'gray-16',
+  'gray-16': 'gray-4',
+  'gray-4': 'bw',
+  'color-24bit': 'color-12bit',
+}
+
+/** One retry: the settings to encode with and what changed to get them */
+export interface BudgetStep {
+  /** Setting changed by this step, as `name=value` */
+  change: string
+  dithering: DitheringOptions
+}
+
+/**
+ * Lists the retries for `dithering`, cheapest last. Steps that wouldn't
+ * change anything for these settings are left out.
+ */
+export function budgetSteps(
+  dithering: DitheringOptions,
+  format: ImageFormat,
+): BudgetStep[] {
+  const steps: BudgetStep[] = []
+  let current = dithering
+  const push = (change: string, patch: Partial<DitheringOptions>) => {
+    current = { ...current, ...patch }
+    steps.push({ change, dithering: current })
+  }
+
+  if (format === 'png' && (current.compressionLevel ?? 9) < 9) {
+    push('compression=9', { compressionLevel: 9 })
+  }
+
+  if (current.bitDepth !== undefined) {
+    push('bit_depth=auto', { bitDepth: undefined })
+  }
+  for (
+    let palette = CHEAPER_PALETTE[current.palette ?? 'gray-4'];
+    palette;
+    palette = CHEAPER_PALETTE[palette]
+  ) {
+    push(`palette=${palette}`, { palette })
+  }
+
+  const method = current.method ?? 'floyd-steinberg'
+  if (method !== 'threshold' && method !== 'none') {
+    if (method !== 'ordered') push('method=ordered', { method: 'ordered' })
+    push('method=threshold', { method: 'threshold' })
+  }
+
+  return steps
+}
+
+/**
+ * Encodes with the requested settings, then each cheaper step in turn,
+ * until the output is at most `maxBytes`.
+ *
+ * @param encode - Encodes the capture with the given dithering options
+ * @returns The image used and how it was fitted
+ */
+export async function fitToBudget(
+  maxBytes: number,
+  dithering: DitheringOptions,
+  format: ImageFormat,
+  encode: (dithering: DitheringOptions) => Promise<Buffer>,
+): Promise<{ image: Buffer; budget: SizeBudgetResult }> {
+  let smallest = await encode(dithering)
+  let smallestChanges: string[] = []
+  let attempts = 1
+  const changes: string[] = []
+
+  for (const step of budgetSteps(dithering, format)) {
+    if (smallest.length <= maxBytes) break
+    changes.push(step.change)
+    log.debug`Output over budget (${smallest.length} > ${maxBytes} bytes), retrying with ${step.change}`
+
+    const image = await encode(step.dithering)
+    attempts++
+    if (image.length < smallest.length) {
+      smallest = image
+      smallestChanges = [...changes]
+    }
+  }
+
+  const budget: SizeBudgetResult = {
+    maxBytes,
+    bytes: smallest.length,
+    fits: smallest.length <= maxBytes,
+    changes: smallestChanges,
+    attempts,
+  }
+  const settings = describeChanges(budget)
+  if (budget.fits) {
+    log.info`Output fits budget: ${budget.bytes}/${maxBytes} bytes after ${attempts} attempt(s) [${settings}]`
+  } else {
+    log.warning`Output still over budget after ${attempts} attempts: ${budget.bytes}/${maxBytes} bytes [${settings}]`
+  }
+
+  return { image: smallest, budget }
+}
+
+/** Changes as one line, or `requested` when the settings were kept */
+function describeChanges({ changes }: SizeBudgetResult): string {
+  return changes.length > 0 ? changes.join(', ') : 'requested'
+}
+
+/** Response headers reporting the budget and the settings used */
+export function budgetHeaders(
+  budget: SizeBudgetResult,
+): Record<string, string> {
+  return {
+    'X-Max-Bytes': String(budget.maxBytes),
+    'X-Output-Bytes': String(budget.bytes),
+    'X-Output-Settings': describeChanges(budget),
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Text Overlay - The Capture-Time Stamp Without ImageMagick
+ *
+ * The native pipeline stamps the capture time itself rather than spawning
+ * ImageMagick's `-annotate`, which also needs fonts installed. A built-in
+ * 5x7 bitmap font covers what formatTimestamp() writes: digits, `-`, `:`,
+ * spaces and AM/PM. Glyphs are drawn at twice their size, black on a white
+ * box in the bottom-right corner, like the ImageMagick overlay.
+ *
+ * @module lib/dithering/text-overlay
+ */
+
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+
+/** Rows of each glyph, top to bottom; bit 4 is the leftmost pixel */
+const GLYPHS: Record<string, readonly number[]> = {
+  '0': [0x0e, 0x11, 0x13, 0x15, 0x19, 0x11, 0x0e],
+  '1': [0x04, 0x0c, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  '2': [0x0e, 0x11, 0x01, 0x02, 0x04, 0x08, 0x1f],
+  '3': [0x1f, 0x02, 0x04, 0x02, 0x01, 0x11, 0x0e],
+  '4': [0x02, 0x06, 0x0a, 0x12, 0x1f, 0x02, 0x02],
+  '5': [0x1f, 0x10, 0x1e, 0x01, 0x01, 0x11, 0x0e],
+  '6': [0x06, 0x08, 0x10, 0x1e, 0x11, 0x11, 0x0e],
+  '7': [0x1f, 0x01, 0x02, 0x04, 0x08, 0x08, 0x08],
+  '8': [0x0e, 0x11, 0x11, 0x0e, 0x11, 0x11, 0x0e],
+  '9': [0x0e, 0x11, 0x11, 0x0f, 0x01, 0x02, 0x0c],
+  '-': [0x00, 0x00, 0x00, 0x1f, 0x00, 0x00, 0x00],
+  ':': [0x00, 0x0c, 0x0c, 0x00, 0x0c, 0x0c, 0x00],
+  A: [0x0e, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+  P: [0x1e, 0x11, 0x11, 0x1e, 0x10, 0x10, 0x10],
+  M: [0x11, 0x1b, 0x15, 0x15, 0x11, 0x11, 0x11],
+}
+
+const GLYPH_WIDTH = 5
+const GLYPH_HEIGHT = 7
+
+/** Device pixels per font pixel */
+const SCALE = 2
+
+/** White space around the text inside its box */
+const PADDING = 3
+
+/** Distance of the box from the right and bottom edges */
+const MARGIN = 4
+
+/**
+ * Draws `text` black on a white box in the bottom-right corner. Characters
+ * the font lacks (including narrow and no-break spaces) are left blank.
+ * Parts of the box outside a small image are cut off.
+ */
+export function stampText(pixels: PixelBuffer, text: string): PixelBuffer {
+  const { width, height, channels } = pixels
+  const data = pixels.data.slice()
+  const chars = Array.from(text)
+  const advance = (GLYPH_WIDTH + 1) * SCALE
+  const boxWidth = chars.length * advance - SCALE + PADDING * 2
+  const boxHeight = GLYPH_HEIGHT * SCALE + PADDING * 2
+  const left = width - MARGIN - boxWidth
+  const top = height - MARGIN - boxHeight
+
+  const paint = (x: number, y: number, value: number): void => {
+    if (x < 0 || y < 0 || x >= width || y >= height) return
+    data.fill(value, (y * width + x) * channels, (y * width + x + 1) * channels)
+  }
+
+  for (let y = top; y < top + boxHeight; y++) {
+    for (let x = left; x < left + boxWidth; x++) paint(x, y, 255)
+  }
+
+  for (const [i, char] of chars.entries()) {
+    const rows = GLYPHS[char]
+    if (!rows) continue
+    const glyphLeft = left + PADDING + i * advance
+    for (let row = 0; row < GLYPH_HEIGHT; row++) {
+      for (let col = 0; col < GLYPH_WIDTH; col++) {
+        if (!(rows[row]! & (1 << (GLYPH_WIDTH - 1 - col)))) continue
+        for (let dy = 0; dy < SCALE; dy++) {
+          for (let dx = 0; dx < SCALE; dx++) {
+            paint(
+              glyphLeft + col * SCALE + dx,
+              top + PADDING + row * SCALE + dy,
+              0,
+            )
+          }
+        }
+      }
+    }
+  }
+
+  return { width, height, channels, data }
+}
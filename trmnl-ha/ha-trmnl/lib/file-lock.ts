@@ -0,0 +1,44 @@
+/**
+ * Per-file mutex for JSON stores.
+ *
+ * Shared by the schedule and device stores so read-modify-write cycles on
+ * the same file never interleave.
+ *
+ * @module lib/file-lock
+ */
+
+/** Pending operation chains per file path */
+const fileLocks = new Map<string, Promise<unknown>>()
+
+/**
+ * Executes operation with exclusive file access.
+ * Chains operations - each waits for all prior operations to complete.
+ *
+ * NOTE: This is a proper mutex using promise chaining. Each new operation
+ * extends the chain atomically, ensuring serial execution order.
+ */
+export async function withLock<T>(
+  filePath: string,
+  operation: () => Promise<T>
+): Promise<T> {
+  // Get current chain and immediately extend it with our operation
+  // This is atomic - no await between get and set
+  const previousOperation = fileLocks.get(filePath) ?? Promise.resolve()
+
+  // Create the chained operation that waits for previous, then runs ours
+  const chainedOperation = previousOperation
+    .catch(() => {}) // Don't let previous failures block us
+    .then(operation)
+
+  // Register our operation as the new tail of the chain
+  fileLocks.set(filePath, chainedOperation)
+
+  try {
+    return await chainedOperation
+  } finally {
+    // Cleanup if we're still the tail
+    if (fileLocks.get(filePath) === chainedOperation) {
+      fileLocks.delete(filePath)
+    }
+  }
+}
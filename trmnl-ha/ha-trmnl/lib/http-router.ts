@@ -3,7 +3,9 @@
  *
  * Maps incoming HTTP requests to appropriate handlers for:
  * - UI endpoints (root page at /)
- * - API endpoints (schedules, devices, presets CRUD)
+ * - API endpoints (schedules, devices, presets, palettes CRUD)
+ * - TRMNL device API (/api/setup, /api/display, /api/log) for devices that
+ *   poll the add-on directly instead of a separate BYOS server
  * - Health checks (/health)
  * - Static file serving (JS, CSS, images)
  *
@@ -11,7 +13,7 @@
  */
 
 import type { IncomingMessage, ServerResponse } from 'node:http'
-import { readFile } from 'node:fs/promises'
+import { readFile, stat } from 'node:fs/promises'
 import { fileURLToPath } from 'node:url'
 import { dirname, join } from 'node:path'
 import { handleUIRequest } from '../ui.js'
@@ -22,6 +24,21 @@ import {
   deleteSchedule as defaultDeleteSchedule,
   replaceAllSchedules as defaultReplaceAllSchedules,
 } from './scheduleStore.js'
+import {
+  loadDevices as defaultLoadDevices,
+  registerDevice as defaultRegisterDevice,
+  updateDevice as defaultUpdateDevice,
+  deleteDevice as defaultDeleteDevice,
+  normalizeMac,
+} from './deviceStore.js'
+import {
+  loadPalettes as defaultLoadPalettes,
+  createPalette as defaultCreatePalette,
+  updatePalette as defaultUpdatePalette,
+  deletePalette as defaultDeletePalette,
+} from './paletteStore.js'
+import { findLatestScreenshot } from './scheduler/services.js'
+import { cronToIntervalMinutes } from './scheduler/cron-interval.js'
 import {
   login as defaultByosLogin,
   getBaseUrl as defaultGetBaseUrl,
@@ -29,11 +46,18 @@ import {
 import { loadPresets } from '../devices.js'
 import {
   DATA_DIR,
+  DEVICE_DEFAULT_REFRESH_RATE_S,
   PALETTE_OPTIONS,
   SCHEDULER_OUTPUT_DIR_NAME,
 } from '../const.js'
 import type { BrowserFacade } from './browserFacade.js'
 import type {
+  CustomPalette,
+  CustomPaletteInput,
+  Device,
+  DeviceIdentityField,
+  DeviceUpdate,
+  DeviceView,
   ScheduleInput,
   ScheduleUpdate,
   WebhookResult,
@@ -41,6 +65,11 @@ import type {
 import type { Schedule } from '../types/domain.js'
 import type { TokenResponse } from './scheduler/byos-auth.js'
 import { toJson } from './json.js'
+import {
+  computeEtag,
+  isNotModified,
+  validatorHeaders,
+} from './conditional-get.js'
 import { httpLogger } from './logger.js'
 import { metricsSummary } from './metrics.js'
 import { transpileTypeScript } from './transpile-ts.js'
@@ -63,13 +92,37 @@ const MIME_TYPES: Record<string, string> = {
   svg: 'image/svg+xml',
   ico: 'image/x-icon',
   bmp: 'image/bmp',
+  raw: 'application/octet-stream',
+  h: 'text/x-c',
+}
+
+/** Device fields PUT /api/devices/:id refuses to change */
+const DEVICE_IDENTITY_FIELDS: DeviceIdentityField[] = [
+  'id',
+  'mac',
+  'api_key',
+  'friendly_id',
+  'createdAt',
+]
+
+/**
+ * Device without its API key. The devices API shares the unauthenticated
+ * port with /api/setup, so it must not hand out keys either.
+ */
+function deviceView({ api_key: _apiKey, ...view }: Device): DeviceView {
+  return view
 }
 
 /** Scheduler interface for manual execution */
 interface Scheduler {
   executeNow(
     scheduleId: string,
-  ): Promise<{ success: boolean; savedPath: string; webhook?: WebhookResult }>
+  ): Promise<{
+    success: boolean
+    savedPath: string
+    webhook?: WebhookResult
+    skipped?: string
+  }>
 }
 
 /** Injectable dependencies for testability without global mock.module() */
@@ -88,6 +141,17 @@ export interface HttpRouterDeps {
     password: string,
   ) => Promise<TokenResponse>
   getBaseUrl: (webhookUrl: string) => string
+  loadDevices: () => Promise<Device[]>
+  registerDevice: (mac: string) => Promise<Device | null>
+  updateDevice: (id: string, updates: DeviceUpdate) => Promise<Device | null>
+  deleteDevice: (id: string) => Promise<boolean>
+  loadPalettes: () => Promise<CustomPalette[]>
+  createPalette: (input: CustomPaletteInput) => Promise<CustomPalette>
+  updatePalette: (
+    id: string,
+    input: CustomPaletteInput,
+  ) => Promise<CustomPalette | null>
+  deletePalette: (id: string) => Promise<boolean>
   /** Directory holding saved scheduler captures, served at /output/ */
   outputDir: string
 }
@@ -100,6 +164,14 @@ const defaultDeps: HttpRouterDeps = {
   replaceAllSchedules: defaultReplaceAllSchedules,
   byosLogin: defaultByosLogin,
   getBaseUrl: defaultGetBaseUrl,
+  loadDevices: defaultLoadDevices,
+  registerDevice: defaultRegisterDevice,
+  updateDevice: defaultUpdateDevice,
+  deleteDevice: defaultDeleteDevice,
+  loadPalettes: defaultLoadPalettes,
+  createPalette: defaultCreatePalette,
+  updatePalette: defaultUpdatePalette,
+  deletePalette: defaultDeletePalette,
   outputDir: join(DATA_DIR, SCHEDULER_OUTPUT_DIR_NAME),
 }
 
@@ -184,12 +256,36 @@ export class HttpRouter {
       return this.#handleScheduleAPI(request, response, requestUrl)
     }
 
+    if (pathname === '/api/setup') {
+      return this.#handleDeviceSetupAPI(request, response)
+    }
+
+    if (pathname === '/api/display') {
+      return this.#handleDeviceDisplayAPI(request, response, requestUrl)
+    }
+
+    if (pathname === '/api/log') {
+      return this.#handleDeviceLogAPI(request, response)
+    }
+
+    if (pathname === '/api/devices') {
+      return this.#handleDevicesAPI(request, response)
+    }
+
+    if (pathname.startsWith('/api/devices/')) {
+      return this.#handleDeviceAPI(request, response, requestUrl)
+    }
+
     if (pathname === '/api/presets') {
       return this.#handlePresetsAPI(response)
     }
 
     if (pathname === '/api/palettes') {
-      return this.#handlePalettesAPI(response)
+      return this.#handlePalettesAPI(request, response)
+    }
+
+    if (pathname.startsWith('/api/palettes/')) {
+      return this.#handlePaletteAPI(request, response, requestUrl)
     }
 
     if (pathname === '/api/byos/login') {
@@ -205,7 +301,7 @@ export class HttpRouter {
     }
 
     if (pathname.startsWith('/output/')) {
-      return this.#handleOutputFile(response, pathname)
+      return this.#handleOutputFile(request, response, pathname)
     }
 
     return false
@@ -214,8 +310,10 @@ export class HttpRouter {
   /**
    * Serves saved scheduler captures so BYOS servers fetch the exact bytes
    * of a scheduled render instead of triggering a second full render (#74).
+   * Polling devices get a 304 while the capture they hold is still current.
    */
   async #handleOutputFile(
+    request: IncomingMessage,
     response: ServerResponse,
     pathname: string,
   ): Promise<boolean> {
@@ -230,11 +328,27 @@ export class HttpRouter {
     }
 
     try {
-      const content = await readFile(join(this.#deps.outputDir, filename))
+      const filePath = join(this.#deps.outputDir, filename)
+      const [content, stats] = await Promise.all([
+        readFile(filePath),
+        stat(filePath),
+      ])
+      const validators = {
+        etag: computeEtag(content),
+        lastModified: stats.mtime,
+      }
+
+      if (isNotModified(request.headers, validators)) {
+        response.writeHead(304, validatorHeaders(validators))
+        response.end()
+        return true
+      }
+
       const ext = filename.split('.').pop() || ''
       response.writeHead(200, {
         'Content-Type': MIME_TYPES[ext] || 'application/octet-stream',
         'Content-Length': content.length,
+        ...validatorHeaders(validators),
       })
       response.end(content)
     } catch {
@@ -418,6 +532,278 @@ export class HttpRouter {
     return true
   }
 
+  // ==========================================================================
+  // TRMNL device API - firmware polls these directly (BYOS protocol)
+  // ==========================================================================
+
+  /**
+   * Registers a device by its MAC (ID header) and hands out its API key.
+   * The key is only sent on first contact: a MAC is easy to learn, so a
+   * known MAC gets 409 until its registration is deleted.
+   */
+  async #handleDeviceSetupAPI(
+    request: IncomingMessage,
+    response: ServerResponse,
+  ): Promise<boolean> {
+    response.setHeader('Content-Type', 'application/json')
+
+    const mac = headerValue(request, 'id')
+    if (!mac) {
+      response.writeHead(400)
+      response.end(toJson({ status: 400, message: 'Missing ID header' }))
+      return true
+    }
+
+    const device = await this.#deps.registerDevice(mac)
+    if (!device) {
+      response.writeHead(409)
+      response.end(
+        toJson({
+          status: 409,
+          message: 'Device already registered; delete it to pair again',
+        }),
+      )
+      return true
+    }
+
+    response.writeHead(200)
+    response.end(
+      toJson({
+        status: 200,
+        api_key: device.api_key,
+        friendly_id: device.friendly_id,
+        image_url: null,
+        message: `Registered as ${device.friendly_id}`,
+      }),
+    )
+    return true
+  }
+
+  /**
+   * Answers a device poll with the newest capture of its mapped schedule.
+   * refresh_rate follows the schedule interval so the device wakes roughly
+   * when a fresh capture is due.
+   */
+  async #handleDeviceDisplayAPI(
+    request: IncomingMessage,
+    response: ServerResponse,
+    requestUrl: URL,
+  ): Promise<boolean> {
+    response.setHeader('Content-Type', 'application/json')
+
+    const device = await this.#authenticateDevice(request)
+    if (!device) {
+      response.writeHead(404)
+      response.end(toJson({ status: 404, message: 'Device not found' }))
+      return true
+    }
+
+    await this.#deps.updateDevice(device.id, {
+      last_seen_at: new Date().toISOString(),
+      battery_voltage:
+        numericHeader(request, 'battery-voltage') ?? device.battery_voltage,
+      rssi: numericHeader(request, 'rssi') ?? device.rssi,
+      firmware_version:
+        headerValue(request, 'fw-version') ?? device.firmware_version,
+    })
+
+    const schedules = await this.#deps.loadSchedules()
+    const schedule = device.schedule_id
+      ? schedules.find((s) => s.id === device.schedule_id)
+      : schedules.find((s) => s.enabled)
+    const refreshRate = schedule
+      ? refreshRateFor(schedule)
+      : DEVICE_DEFAULT_REFRESH_RATE_S
+    const latest = schedule
+      ? findLatestScreenshot(this.#deps.outputDir, schedule.name)
+      : null
+
+    // 202 tells the firmware it is registered but has nothing to show yet
+    if (!latest) {
+      response.writeHead(200)
+      response.end(
+        toJson({
+          status: 202,
+          image_url: null,
+          filename: null,
+          refresh_rate: refreshRate,
+          reset_firmware: false,
+          update_firmware: false,
+        }),
+      )
+      return true
+    }
+
+    response.writeHead(200)
+    response.end(
+      toJson({
+        status: 0,
+        // Host header is the address the device used to reach us, so the
+        // image URL stays reachable from the device's network
+        image_url: `http://${headerValue(request, 'host') ?? requestUrl.host}/output/${encodeURIComponent(latest.filename)}`,
+        filename: latest.filename,
+        refresh_rate: refreshRate,
+        reset_firmware: false,
+        update_firmware: false,
+      }),
+    )
+    return true
+  }
+
+  /** Accepts firmware log uploads and forwards them to the add-on log */
+  async #handleDeviceLogAPI(
+    request: IncomingMessage,
+    response: ServerResponse,
+  ): Promise<boolean> {
+    if (request.method !== 'POST') {
+      response.writeHead(405, { 'Content-Type': 'application/json' })
+      response.end(toJson({ error: 'Method not allowed' }))
+      return true
+    }
+
+    const device = await this.#authenticateDevice(request)
+    if (!device) {
+      response.writeHead(404, { 'Content-Type': 'application/json' })
+      response.end(toJson({ status: 404, message: 'Device not found' }))
+      return true
+    }
+
+    try {
+      const body = await this.#readRequestBody(request)
+      const payload = JSON.parse(body) as {
+        log?: { logs_array?: unknown[] }
+        logs?: unknown[]
+      }
+      const entries = payload.log?.logs_array ?? payload.logs ?? []
+      for (const entry of entries) {
+        log.info`Device ${device.friendly_id}: ${JSON.stringify(entry)}`
+      }
+    } catch (err) {
+      log.warn`Unreadable log upload from ${device.friendly_id}: ${(err as Error).message}`
+    }
+
+    response.writeHead(204)
+    response.end()
+    return true
+  }
+
+  /**
+   * Resolves the polling device from its Access-Token header. When the ID
+   * header is also sent it must match, so a leaked key can't be replayed
+   * from another MAC.
+   */
+  async #authenticateDevice(request: IncomingMessage): Promise<Device | null> {
+    const apiKey = headerValue(request, 'access-token')
+    if (!apiKey) return null
+
+    const devices = await this.#deps.loadDevices()
+    const device = devices.find((d) => d.api_key === apiKey)
+    if (!device) return null
+
+    const mac = headerValue(request, 'id')
+    if (mac && normalizeMac(mac) !== device.mac) return null
+
+    return device
+  }
+
+  async #handleDevicesAPI(
+    request: IncomingMessage,
+    response: ServerResponse,
+  ): Promise<boolean> {
+    response.setHeader('Content-Type', 'application/json')
+
+    if (request.method === 'GET') {
+      const devices = await this.#deps.loadDevices()
+      response.writeHead(200)
+      response.end(toJson(devices.map(deviceView)))
+      return true
+    }
+
+    response.writeHead(405)
+    response.end(toJson({ error: 'Method not allowed' }))
+    return true
+  }
+
+  async #handleDeviceAPI(
+    request: IncomingMessage,
+    response: ServerResponse,
+    requestUrl: URL,
+  ): Promise<boolean> {
+    response.setHeader('Content-Type', 'application/json')
+
+    const id = requestUrl.pathname.split('/').pop()!
+
+    if (request.method === 'PUT') {
+      try {
+        const body = await this.#readRequestBody(request)
+        const updates = JSON.parse(body) as DeviceUpdate
+        const error = await this.#validateDeviceUpdate(updates)
+        if (error) {
+          response.writeHead(400)
+          response.end(toJson({ error }))
+          return true
+        }
+
+        const updated = await this.#deps.updateDevice(id, updates)
+
+        if (!updated) {
+          response.writeHead(404)
+          response.end(toJson({ error: 'Device not found' }))
+          return true
+        }
+
+        response.writeHead(200)
+        response.end(toJson(deviceView(updated)))
+      } catch (err) {
+        response.writeHead(400)
+        response.end(toJson({ error: (err as Error).message }))
+      }
+      return true
+    }
+
+    if (request.method === 'DELETE') {
+      const deleted = await this.#deps.deleteDevice(id)
+
+      if (!deleted) {
+        response.writeHead(404)
+        response.end(toJson({ error: 'Device not found' }))
+        return true
+      }
+
+      response.writeHead(200)
+      response.end(toJson({ success: true }))
+      return true
+    }
+
+    response.writeHead(405)
+    response.end(toJson({ error: 'Method not allowed' }))
+    return true
+  }
+
+  /**
+   * Checks a device update from the API: identity fields are fixed at
+   * registration, and a mapped schedule must exist.
+   *
+   * @returns Error message, or null when the update is valid
+   */
+  async #validateDeviceUpdate(updates: DeviceUpdate): Promise<string | null> {
+    if (typeof updates !== 'object' || updates === null) {
+      return 'Device update must be an object'
+    }
+
+    const locked = DEVICE_IDENTITY_FIELDS.filter((field) => field in updates)
+    if (locked.length > 0) return `Cannot change ${locked.join(', ')}`
+
+    const scheduleId = updates.schedule_id
+    if (scheduleId !== undefined && scheduleId !== null) {
+      const schedules = await this.#deps.loadSchedules()
+      if (!schedules.some((s) => s.id === scheduleId)) {
+        return `Schedule not found: ${scheduleId}`
+      }
+    }
+    return null
+  }
+
   #handlePresetsAPI(response: ServerResponse): boolean {
     const presets = loadPresets()
     response.writeHead(200, { 'Content-Type': 'application/json' })
@@ -425,9 +811,97 @@ export class HttpRouter {
     return true
   }
 
-  #handlePalettesAPI(response: ServerResponse): boolean {
-    response.writeHead(200, { 'Content-Type': 'application/json' })
-    response.end(toJson(PALETTE_OPTIONS))
+  /**
+   * Lists built-in palettes followed by custom ones (with their colors, for
+   * the editor), and creates custom palettes.
+   */
+  async #handlePalettesAPI(
+    request: IncomingMessage,
+    response: ServerResponse,
+  ): Promise<boolean> {
+    response.setHeader('Content-Type', 'application/json')
+
+    if (request.method === 'GET') {
+      const custom = await this.#deps.loadPalettes()
+      response.writeHead(200)
+      response.end(
+        toJson([
+          ...PALETTE_OPTIONS,
+          ...custom.map((p) => ({
+            value: p.id,
+            label: p.name,
+            colors: p.colors,
+          })),
+        ]),
+      )
+      return true
+    }
+
+    if (request.method === 'POST') {
+      try {
+        const body = await this.#readRequestBody(request)
+        const input = JSON.parse(body) as CustomPaletteInput
+        const created = await this.#deps.createPalette(input)
+        response.writeHead(201)
+        response.end(toJson(created))
+      } catch (err) {
+        response.writeHead(400)
+        response.end(toJson({ error: (err as Error).message }))
+      }
+      return true
+    }
+
+    response.writeHead(405)
+    response.end(toJson({ error: 'Method not allowed' }))
+    return true
+  }
+
+  async #handlePaletteAPI(
+    request: IncomingMessage,
+    response: ServerResponse,
+    requestUrl: URL,
+  ): Promise<boolean> {
+    response.setHeader('Content-Type', 'application/json')
+
+    const id = requestUrl.pathname.split('/').pop()!
+
+    if (request.method === 'PUT') {
+      try {
+        const body = await this.#readRequestBody(request)
+        const input = JSON.parse(body) as CustomPaletteInput
+        const updated = await this.#deps.updatePalette(id, input)
+
+        if (!updated) {
+          response.writeHead(404)
+          response.end(toJson({ error: 'Palette not found' }))
+          return true
+        }
+
+        response.writeHead(200)
+        response.end(toJson(updated))
+      } catch (err) {
+        response.writeHead(400)
+        response.end(toJson({ error: (err as Error).message }))
+      }
+      return true
+    }
+
+    if (request.method === 'DELETE') {
+      const deleted = await this.#deps.deletePalette(id)
+
+      if (!deleted) {
+        response.writeHead(404)
+        response.end(toJson({ error: 'Palette not found' }))
+        return true
+      }
+
+      response.writeHead(200)
+      response.end(toJson({ success: true }))
+      return true
+    }
+
+    response.writeHead(405)
+    response.end(toJson({ error: 'Method not allowed' }))
     return true
   }
 
@@ -529,3 +1003,23 @@ export class HttpRouter {
     }
   }
 }
+
+/** Reads a single request header (node lower-cases header names) */
+function headerValue(request: IncomingMessage, name: string): string | null {
+  const value = request.headers[name]
+  const first = Array.isArray(value) ? value[0] : value
+  return first?.trim() || null
+}
+
+/** Reads a numeric telemetry header, null when absent or malformed */
+function numericHeader(request: IncomingMessage, name: string): number | null {
+  const value = Number(headerValue(request, name) ?? NaN)
+  return Number.isFinite(value) ? value : null
+}
+
+/** Device refresh rate in seconds for a schedule's capture interval */
+function refreshRateFor(schedule: Schedule): number {
+  const minutes =
+    schedule.interval_minutes ?? cronToIntervalMinutes(schedule.cron)
+  return minutes ? minutes * 60 : DEVICE_DEFAULT_REFRESH_RATE_S
+}
@@ -0,0 +1,222 @@
+/**
+ * Palette Store Module
+ *
+ * Manages user-defined palettes calibrated to real panels. Each color pairs
+ * what the panel shows (used for dithering) with what the file should contain.
+ * Stored alongside schedules in the data directory.
+ *
+ * @module paletteStore
+ */
+
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import type {
+  CustomPalette,
+  CustomPaletteColor,
+  CustomPaletteId,
+  CustomPaletteInput,
+} from '../types/domain.js'
+import { DATA_DIR } from '../const.js'
+import {
+  CUSTOM_PALETTE_PREFIX,
+  MAX_CUSTOM_PALETTE_COLORS,
+  MIN_CUSTOM_PALETTE_COLORS,
+  isHexColor,
+} from '../html/shared/custom-palettes.js'
+import { schedulerLogger } from './logger.js'
+import { withLock } from './file-lock.js'
+
+const log = schedulerLogger()
+
+const DEFAULT_PALETTES_FILE = path.join(DATA_DIR, 'palettes.json')
+
+/**
+ * Checks palette input, defaulting each output color to its perceived color.
+ *
+ * @throws Error Describing the first problem found
+ */
+export function validatePaletteInput(input: unknown): CustomPaletteInput {
+  const { name, colors } = (input ?? {}) as Partial<CustomPaletteInput>
+
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new Error('Palette name is required')
+  }
+  if (
+    !Array.isArray(colors) ||
+    colors.length < MIN_CUSTOM_PALETTE_COLORS ||
+    colors.length > MAX_CUSTOM_PALETTE_COLORS
+  ) {
+    throw new Error(
+      `Palette needs ${MIN_CUSTOM_PALETTE_COLORS}-${MAX_CUSTOM_PALETTE_COLORS} colors`,
+    )
+  }
+
+  const validated = colors.map((color: Partial<CustomPaletteColor>, i) => {
+    const perceived = color.perceived
+    const output = color.output ?? perceived
+    if (!isHexColor(perceived) || !isHexColor(output)) {
+      throw new Error(`Color ${i + 1} must use #RRGGBB values`)
+    }
+    return { perceived: perceived.toUpperCase(), output: output.toUpperCase() }
+  })
+
+  return { name: name.trim(), colors: validated }
+}
+
+/**
+ * Load custom palettes from JSON file
+ */
+export async function loadPalettes(
+  filePath: string = DEFAULT_PALETTES_FILE
+): Promise<CustomPalette[]> {
+  try {
+    const data = await fs.readFile(filePath, 'utf-8')
+    return JSON.parse(data) as CustomPalette[]
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      log.error`Error loading palettes: ${err}`
+    }
+  }
+  return []
+}
+
+/**
+ * Find one custom palette by id
+ */
+export async function getPalette(
+  id: string,
+  filePath: string = DEFAULT_PALETTES_FILE
+): Promise<CustomPalette | null> {
+  const palettes = await loadPalettes(filePath)
+  return palettes.find((p) => p.id === id) ?? null
+}
+
+async function savePalettes(
+  filePath: string,
+  palettes: CustomPalette[]
+): Promise<void> {
+  try {
+    await fs.writeFile(filePath, JSON.stringify(palettes, null, 2))
+  } catch (err) {
+    log.error`Error saving palettes: ${err}`
+    throw err
+  }
+}
+
+/**
+ * Create a custom palette
+ *
+ * @throws Error When the input is invalid
+ */
+export async function createPalette(
+  filePath: string,
+  input: CustomPaletteInput
+): Promise<CustomPalette>
+export async function createPalette(
+  input: CustomPaletteInput
+): Promise<CustomPalette>
+export async function createPalette(
+  filePathOrInput: string | CustomPaletteInput,
+  input?: CustomPaletteInput
+): Promise<CustomPalette> {
+  const filePath =
+    typeof filePathOrInput === 'string'
+      ? filePathOrInput
+      : DEFAULT_PALETTES_FILE
+  const data = validatePaletteInput(
+    typeof filePathOrInput === 'string' ? input : filePathOrInput
+  )
+
+  return withLock(filePath, async () => {
+    const palettes = await loadPalettes(filePath)
+    const now = new Date().toISOString()
+    const palette: CustomPalette = {
+      ...data,
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now,
+    }
+    palettes.push(palette)
+    await savePalettes(filePath, palettes)
+    log.info`Created palette ${palette.name} (${palette.id})`
+    return palette
+  })
+}
+
+/**
+ * Replace the name and colors of a custom palette
+ *
+ * @throws Error When the input is invalid
+ */
+export async function updatePalette(
+  filePath: string,
+  id: string,
+  input: CustomPaletteInput
+): Promise<CustomPalette | null>
+export async function updatePalette(
+  id: string,
+  input: CustomPaletteInput
+): Promise<CustomPalette | null>
+export async function updatePalette(
+  filePathOrId: string,
+  idOrInput: string | CustomPaletteInput,
+  input?: CustomPaletteInput
+): Promise<CustomPalette | null> {
+  const filePath =
+    typeof idOrInput === 'string' ? filePathOrId : DEFAULT_PALETTES_FILE
+  const id = typeof idOrInput === 'string' ? idOrInput : filePathOrId
+  const data = validatePaletteInput(
+    typeof idOrInput === 'string' ? input : idOrInput
+  )
+
+  return withLock(filePath, async () => {
+    const palettes = await loadPalettes(filePath)
+    const index = palettes.findIndex((p) => p.id === id)
+    if (index === -1) {
+      return null
+    }
+    const updated: CustomPalette = {
+      ...palettes[index]!,
+      ...data,
+      updatedAt: new Date().toISOString(),
+    }
+    palettes[index] = updated
+    await savePalettes(filePath, palettes)
+    return updated
+  })
+}
+
+/**
+ * Delete a custom palette. Schedules still naming it fall back to gray-4.
+ */
+export async function deletePalette(
+  filePath: string,
+  id: string
+): Promise<boolean>
+export async function deletePalette(id: string): Promise<boolean>
+export async function deletePalette(
+  filePathOrId: string,
+  id?: string
+): Promise<boolean> {
+  const filePath =
+    typeof id === 'string' ? filePathOrId : DEFAULT_PALETTES_FILE
+  const paletteId = typeof id === 'string' ? id : filePathOrId
+
+  return withLock(filePath, async () => {
+    const palettes = await loadPalettes(filePath)
+    const index = palettes.findIndex((p) => p.id === paletteId)
+    if (index === -1) {
+      return false
+    }
+    palettes.splice(index, 1)
+    await savePalettes(filePath, palettes)
+    return true
+  })
+}
+
+/**
+ * Generate a unique ID
+ */
+function generateId(): CustomPaletteId {
+  return `${CUSTOM_PALETTE_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 9)}`
+}
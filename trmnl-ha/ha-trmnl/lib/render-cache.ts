@@ -0,0 +1,193 @@
+/**
+ * In-memory render cache for on-demand screenshot requests.
+ *
+ * Several devices polling the same dashboard within seconds would otherwise
+ * each pay for a full navigate + capture. Entries are keyed on the parsed
+ * request params and bounded by total image bytes (least recently used
+ * evicted first).
+ *
+ * Freshness is decided per request via `max_age`: younger entries are
+ * served as-is; entries up to twice that age are served stale while the
+ * caller refreshes them in the background; anything older is a miss.
+ *
+ * The response headers describing a render (raw layout, size budget, tiles)
+ * are kept with it, so a hit is answered exactly like the render was.
+ *
+ * Every good render is cached, with or without `max_age`: when a fresh
+ * capture is rejected (login page, error page, ...), the newest good render
+ * of the same request is sent in its place, however old.
+ *
+ * @module lib/render-cache
+ */
+
+import { CAPTURE_REJECTED_RETRY_AFTER } from '../const.js'
+import type { CaptureRejection } from '../types/domain.js'
+import type { ParsedScreenshotParams } from './screenshot-params-parser.js'
+
+/** Cached image, its output headers and when it was rendered */
+interface CacheEntry {
+  image: Buffer
+  headers: Record<string, string>
+  renderedAt: number
+}
+
+/** Result of a cache lookup */
+export interface CacheLookup {
+  image: Buffer
+  /** Output headers sent with the original render */
+  headers: Record<string, string>
+  /** True when past max_age - serve it, but refresh in the background */
+  stale: boolean
+}
+
+/**
+ * Answer to a request whose fresh capture was rejected: the last good render
+ * (status 200) or, without one, a 503 asking the client to retry
+ */
+export type RejectedCaptureReply =
+  | { status: 200; image: Buffer; headers: Record<string, string> }
+  | { status: 503; headers: Record<string, string>; body: string }
+
+/**
+ * Builds a cache key from parsed params.
+ * Keys are sorted so equivalent query strings in any order share an entry;
+ * `next` and `maxAge` only affect scheduling, not the rendered image.
+ */
+export function renderCacheKey(params: ParsedScreenshotParams): string {
+  const { next: _next, maxAge: _maxAge, ...rendered } = params
+  return JSON.stringify(rendered, (_key, value: unknown) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.entries(value).sort(([a], [b]) => a.localeCompare(b)),
+        )
+      : value,
+  )
+}
+
+export class RenderCache {
+  #maxBytes: number
+  #entries = new Map<string, CacheEntry>()
+  #bytes = 0
+  #refreshing = new Set<string>()
+
+  constructor(maxBytes: number) {
+    this.#maxBytes = maxBytes
+  }
+
+  /** Total bytes of cached images */
+  get bytes(): number {
+    return this.#bytes
+  }
+
+  /**
+   * Looks up a rendered image.
+   *
+   * @param key - Key from renderCacheKey()
+   * @param maxAgeMs - Age at which the entry turns stale
+   * @returns Cached image, or null on a miss
+   */
+  get(
+    key: string,
+    maxAgeMs: number,
+    now: number = Date.now(),
+  ): CacheLookup | null {
+    const entry = this.#entries.get(key)
+    if (!entry) return null
+
+    const age = now - entry.renderedAt
+    if (age > maxAgeMs * 2) return null
+
+    // Re-insert so recently used entries are evicted last
+    this.#entries.delete(key)
+    this.#entries.set(key, entry)
+    return {
+      image: entry.image,
+      headers: entry.headers,
+      stale: age > maxAgeMs,
+    }
+  }
+
+  /**
+   * Looks up the newest render for a key, however old it is.
+   *
+   * @returns Cached image (always stale), or null when there is none
+   */
+  latest(key: string): CacheLookup | null {
+    const entry = this.#entries.get(key)
+    if (!entry) return null
+    return { image: entry.image, headers: entry.headers, stale: true }
+  }
+
+  /**
+   * Decides what to send instead of a rejected capture. Both answers name
+   * the problem in `X-Capture-Problem`.
+   *
+   * @param key - Key of the request, null when it can't be cached
+   */
+  replyToRejected(
+    key: string | null,
+    { problem, detail }: CaptureRejection,
+  ): RejectedCaptureReply {
+    const lastGood = key ? this.latest(key) : null
+    if (lastGood) {
+      return {
+        status: 200,
+        image: lastGood.image,
+        headers: { ...lastGood.headers, 'X-Capture-Problem': problem },
+      }
+    }
+    return {
+      status: 503,
+      headers: {
+        'Content-Type': 'text/plain',
+        'Retry-After': String(CAPTURE_REJECTED_RETRY_AFTER),
+        'X-Capture-Problem': problem,
+      },
+      body: `Capture rejected: ${detail}`,
+    }
+  }
+
+  /**
+   * Stores a rendered image and its output headers, evicting least recently
+   * used entries to fit
+   */
+  set(
+    key: string,
+    image: Buffer,
+    headers: Record<string, string> = {},
+    now: number = Date.now(),
+  ): void {
+    this.#delete(key)
+    if (image.length > this.#maxBytes) return
+
+    this.#entries.set(key, { image, headers, renderedAt: now })
+    this.#bytes += image.length
+
+    for (const oldest of this.#entries.keys()) {
+      if (this.#bytes <= this.#maxBytes) break
+      this.#delete(oldest)
+    }
+  }
+
+  /**
+   * Claims the background refresh for a key.
+   * @returns False if a refresh for this key is already running
+   */
+  beginRefresh(key: string): boolean {
+    if (this.#refreshing.has(key)) return false
+    this.#refreshing.add(key)
+    return true
+  }
+
+  /** Releases the refresh claim taken by beginRefresh() */
+  endRefresh(key: string): void {
+    this.#refreshing.delete(key)
+  }
+
+  #delete(key: string): void {
+    const entry = this.#entries.get(key)
+    if (!entry) return
+    this.#bytes -= entry.image.length
+    this.#entries.delete(key)
+  }
+}
@@ -1,46 +1,185 @@
 /**
- * Serializes access to the single browser instance.
+ * Hands out browser workers (pool pages) to callers.
  *
- * The browser can run one operation at a time; callers acquire before
- * navigating or capturing and release when done. Waiters are woken in
- * arrival order, and release hands the queue directly to the next waiter
- * so a caller arriving in the same tick cannot take it ahead of them.
+ * Each worker can run one operation at a time; callers acquire a worker
+ * before navigating or capturing and release it when done. With a pool of
+ * one this serializes all browser access.
+ *
+ * Waiters are served by priority class — scheduled captures first, then
+ * interactive HTTP requests, then background preloads — and in arrival
+ * order within a class. Release hands the worker directly to the next
+ * waiter so a caller arriving in the same tick cannot take it ahead of
+ * them. Non-scheduler waiters are capped at a maximum depth; beyond it
+ * acquire() fails fast with QueueFullError so clients back off.
  *
  * @module lib/request-queue
  */
 
+import { QueueFullError } from '../error.js'
+import { recordTiming } from './metrics.js'
+
+/** Priority classes, highest first */
+export type RequestPriority = 'scheduler' | 'interactive' | 'preload'
+
+const PRIORITY_ORDER: readonly RequestPriority[] = [
+  'scheduler',
+  'interactive',
+  'preload',
+]
+
+/** Hold time assumed for Retry-After before any request has completed */
+const DEFAULT_HOLD_MS = 10000
+
+/** Options for configuring RequestQueue behavior */
+export interface RequestQueueOptions {
+  /** Maximum waiting requests before acquire() rejects (default: unlimited) */
+  maxDepth?: number
+}
+
+/** A caller waiting for a worker */
+interface Waiter {
+  resolve: (worker: number) => void
+  enqueuedAt: number
+  priority: RequestPriority
+  detach: () => void
+}
+
 export class RequestQueue {
-  #busy = false
-  #waiting: (() => void)[] = []
+  #size: number
+  #maxDepth: number
+  #free: number[]
+  #waiting: Record<RequestPriority, Waiter[]> = {
+    scheduler: [],
+    interactive: [],
+    preload: [],
+  }
+  #heldSince = new Map<number, number>()
+  #avgHoldMs = DEFAULT_HOLD_MS
+
+  /** @param size - Number of workers (browser pages) in the pool */
+  constructor(size: number = 1, options: RequestQueueOptions = {}) {
+    this.#size = size
+    this.#maxDepth = options.maxDepth ?? Infinity
+    this.#free = Array.from({ length: size }, (_, i) => i)
+  }
+
+  /** Number of workers in the pool */
+  get size(): number {
+    return this.#size
+  }
 
+  /** True when every worker is held */
   get busy(): boolean {
-    return this.#busy
+    return this.#free.length === 0
   }
 
-  /** Waits until the queue is free, then holds it. */
-  async acquire(): Promise<void> {
-    if (this.#busy) {
-      await new Promise<void>((resolve) => this.#waiting.push(resolve))
-      // The releasing side kept the queue held for us — nothing to claim
-      return
+  /** Number of workers currently held */
+  get active(): number {
+    return this.#size - this.#free.length
+  }
+
+  /** Number of callers waiting for a worker */
+  get depth(): number {
+    return PRIORITY_ORDER.reduce((n, p) => n + this.#waiting[p].length, 0)
+  }
+
+  /**
+   * Waits until a worker is free, then holds it.
+   *
+   * @param priority - Class deciding who is served first
+   * @param signal - Aborting removes the caller from the queue (client gone)
+   * @throws QueueFullError when the queue is at max depth (never for scheduler)
+   * @throws The signal's abort reason when aborted while waiting
+   */
+  async acquire(
+    priority: RequestPriority = 'interactive',
+    signal?: AbortSignal,
+  ): Promise<number> {
+    signal?.throwIfAborted()
+
+    const worker = this.#takeFree()
+    if (worker !== null) {
+      this.#grant(worker, priority, Date.now())
+      return worker
+    }
+
+    if (priority !== 'scheduler' && this.depth >= this.#maxDepth) {
+      throw new QueueFullError(this.depth, this.#retryAfterSeconds())
     }
-    this.#busy = true
+
+    // The releasing side kept the worker held for us — nothing to claim
+    return new Promise<number>((resolve, reject) => {
+      const queue = this.#waiting[priority]
+      const onAbort = () => {
+        const index = queue.indexOf(waiter)
+        if (index !== -1) queue.splice(index, 1)
+        // abort() defaults the reason to an AbortError DOMException
+        reject(signal!.reason as Error)
+      }
+      const waiter: Waiter = {
+        resolve,
+        enqueuedAt: Date.now(),
+        priority,
+        detach: () => signal?.removeEventListener('abort', onAbort),
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+      queue.push(waiter)
+    })
   }
 
-  /** Holds the queue only if it is free right now. */
-  tryAcquire(): boolean {
-    if (this.#busy) return false
-    this.#busy = true
-    return true
+  /** Holds a worker only if one is free right now. */
+  tryAcquire(priority: RequestPriority = 'preload'): number | null {
+    const worker = this.#takeFree()
+    if (worker !== null) this.#grant(worker, priority, Date.now())
+    return worker
   }
 
-  /** Frees the queue, or hands it directly to the next waiter. */
-  release(): void {
-    const next = this.#waiting.shift()
+  /** Frees the worker, or hands it directly to the highest-priority waiter. */
+  release(worker: number): void {
+    const heldSince = this.#heldSince.get(worker)
+    if (heldSince !== undefined) {
+      // Smoothed so one slow dashboard doesn't swing Retry-After wildly
+      this.#avgHoldMs = this.#avgHoldMs * 0.8 + (Date.now() - heldSince) * 0.2
+      this.#heldSince.delete(worker)
+    }
+
+    const next = this.#nextWaiter()
     if (next) {
-      next()
+      next.detach()
+      this.#grant(worker, next.priority, next.enqueuedAt)
+      next.resolve(worker)
       return
     }
-    this.#busy = false
+    this.#free.push(worker)
+  }
+
+  #grant(worker: number, priority: RequestPriority, enqueuedAt: number): void {
+    const now = Date.now()
+    this.#heldSince.set(worker, now)
+    recordTiming(`queue.wait.${priority}`, now - enqueuedAt)
+  }
+
+  #nextWaiter(): Waiter | undefined {
+    for (const priority of PRIORITY_ORDER) {
+      const waiter = this.#waiting[priority].shift()
+      if (waiter) return waiter
+    }
+    return undefined
+  }
+
+  /** Rough time until a newly queued request would get a worker */
+  #retryAfterSeconds(): number {
+    const rounds = (this.depth + 1) / this.#size
+    return Math.max(1, Math.ceil((rounds * this.#avgHoldMs) / 1000))
+  }
+
+  /**
+   * Takes the lowest-numbered free worker, so light traffic stays on
+   * worker 0 and the other workers never open a page.
+   */
+  #takeFree(): number | null {
+    if (this.#free.length === 0) return null
+    this.#free.sort((a, b) => a - b)
+    return this.#free.shift()!
   }
 }
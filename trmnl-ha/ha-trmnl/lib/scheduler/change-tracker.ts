@@ -0,0 +1,124 @@
+/**
+ * Per-schedule record of the last frame delivered to the webhook, so runs
+ * whose capture hasn't changed can skip the upload instead of costing the
+ * device a refresh and the BYOS server a write.
+ *
+ * A capture matches when its bytes hash the same as the last delivery or,
+ * with `unchanged_tolerance` set, when at most that percentage of pixels
+ * differ. Pixels come from the processed frame the capture reports, before
+ * encoding, so the tolerance works for every output format. Delivery goes
+ * ahead anyway every `force_every` runs and after the webhook URL changes.
+ *
+ * @module lib/scheduler/change-tracker
+ */
+
+import { createHash } from 'node:crypto'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+import type { Schedule } from '../../types/domain.js'
+
+/** Last frame a schedule delivered */
+interface DeliveredFrame {
+  url: string
+  hash: string
+  /** Processed frame, kept only when a tolerance needs it */
+  pixels: PixelBuffer | null
+  /** Runs skipped since this frame was delivered */
+  skipped: number
+}
+
+type ChangeSettings = Pick<
+  Schedule,
+  'id' | 'webhook_url' | 'skip_unchanged' | 'unchanged_tolerance' | 'force_every'
+>
+
+const hashImage = (image: Buffer): string =>
+  createHash('sha256').update(image).digest('hex')
+
+/**
+ * Percentage of pixels that differ in any channel, or null when the images
+ * don't have the same shape.
+ */
+export function pixelDifference(a: PixelBuffer, b: PixelBuffer): number | null {
+  if (a.width !== b.width || a.height !== b.height) return null
+  if (a.channels !== b.channels) return null
+
+  const { channels } = a
+  const total = a.width * a.height
+  let changed = 0
+  for (let p = 0; p < total; p++) {
+    for (let c = 0; c < channels; c++) {
+      const i = p * channels + c
+      if (a.data[i] !== b.data[i]) {
+        changed++
+        break
+      }
+    }
+  }
+  return total > 0 ? (changed / total) * 100 : 0
+}
+
+export class ChangeTracker {
+  #frames = new Map<string, DeliveredFrame>()
+
+  /**
+   * Checks a capture against the schedule's last delivery. A match counts
+   * as a skipped run toward `force_every`.
+   *
+   * @param frame - Processed pixels of the capture, for the tolerance
+   * @returns Why the capture counts as unchanged, or null to deliver it
+   */
+  unchanged(
+    schedule: ChangeSettings,
+    image: Buffer,
+    frame?: PixelBuffer,
+  ): string | null {
+    if (!schedule.skip_unchanged || !schedule.webhook_url) return null
+
+    const last = this.#frames.get(schedule.id)
+    if (!last || last.url !== schedule.webhook_url) return null
+    if (schedule.force_every && last.skipped + 1 >= schedule.force_every) {
+      return null
+    }
+
+    const reason = this.#compare(last, schedule, image, frame)
+    if (reason) last.skipped++
+    return reason
+  }
+
+  /** Remembers a capture the webhook accepted */
+  recordDelivery(
+    schedule: ChangeSettings,
+    image: Buffer,
+    frame?: PixelBuffer,
+  ): void {
+    if (!schedule.skip_unchanged || !schedule.webhook_url) {
+      this.#frames.delete(schedule.id)
+      return
+    }
+
+    this.#frames.set(schedule.id, {
+      url: schedule.webhook_url,
+      hash: hashImage(image),
+      pixels: (schedule.unchanged_tolerance && frame) || null,
+      skipped: 0,
+    })
+  }
+
+  #compare(
+    last: DeliveredFrame,
+    schedule: ChangeSettings,
+    image: Buffer,
+    frame: PixelBuffer | undefined,
+  ): string | null {
+    if (hashImage(image) === last.hash) {
+      return 'identical to the last delivered frame'
+    }
+
+    const tolerance = schedule.unchanged_tolerance
+    if (!tolerance || !last.pixels || !frame) return null
+    const difference = pixelDifference(last.pixels, frame)
+    if (difference === null || difference > tolerance) return null
+
+    return `${difference.toFixed(2)}% of pixels differ (tolerance ${tolerance}%)`
+  }
+}
@@ -14,6 +14,7 @@ import type {
   ImageFormat,
 } from '../../types/domain.js'
 import { resolveScreenshotTarget } from '../../html/shared/screenshot-target.js'
+import { toCSymbol } from '../dithering/c-header.js'
 
 /** Default screenshot parameters */
 const DEFAULTS = {
@@ -38,11 +39,47 @@ export function buildParams(schedule: Schedule): ScreenshotParams {
     pagePath: target.path,
     targetUrl: target.fullUrl,
     format: schedule.format || DEFAULTS.format,
+    raw:
+      schedule.format === 'raw' || schedule.format === 'h'
+        ? {
+            bitOrder: schedule.raw_bit_order ?? undefined,
+            planes: schedule.raw_planes ?? false,
+            symbol:
+              schedule.format === 'h'
+                ? toCSymbol(schedule.header_symbol)
+                : undefined,
+          }
+        : undefined,
+    changedRegion: schedule.changed_region ?? undefined,
+    frameKey: schedule.changed_region ? `schedule:${schedule.id}` : undefined,
+    keepFrame:
+      schedule.skip_unchanged && schedule.unchanged_tolerance
+        ? true
+        : undefined,
     viewport: schedule.viewport ?? DEFAULTS.viewport,
     crop: schedule.crop?.enabled ? schedule.crop : null,
+    selector: schedule.selector || undefined,
+    selectorPadding: schedule.selector ? schedule.selector_padding : undefined,
+    fullPage: schedule.full_page ?? undefined,
+    fullPageTile:
+      schedule.full_page === 'tile' ? schedule.full_page_tile : undefined,
+    scaleFactor: schedule.scale_factor ?? undefined,
+    resampleFilter: schedule.scale_factor
+      ? (schedule.resample_filter ?? undefined)
+      : undefined,
     dithering: schedule.dithering?.enabled ? schedule.dithering : undefined,
     extraWait: schedule.wait ?? DEFAULTS.extraWait,
     zoom: schedule.zoom ?? DEFAULTS.zoom,
+    css: schedule.custom_css || undefined,
+    hide: schedule.hide_selectors?.length ? schedule.hide_selectors : undefined,
+    actions: schedule.actions?.length ? schedule.actions : undefined,
+    entityCondition: schedule.entity_condition?.entity_id
+      ? schedule.entity_condition
+      : undefined,
+    maxUnavailable:
+      schedule.max_unavailable != null
+        ? schedule.max_unavailable / 100
+        : undefined,
     invert: schedule.invert ?? DEFAULTS.invert,
     timestamp: schedule.timestamp ?? false,
     dark: schedule.dark ?? DEFAULTS.dark,
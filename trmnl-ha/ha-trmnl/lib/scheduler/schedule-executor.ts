@@ -23,9 +23,20 @@ import {
 } from '../../const.js'
 import { loadSchedules, updateSchedule } from '../scheduleStore.js'
 import { buildRefreshedAuthUpdate } from './byos-auth.js'
+import { ChangeTracker } from './change-tracker.js'
+import { changedRegionHeaders } from '../dithering/changed-region.js'
+import { tileHeaders } from '../browser/full-page.js'
+import {
+  CaptureRejectedError,
+  EntityConditionTimeoutError,
+} from '../../error.js'
 import type {
+  CaptureProblem,
+  FrameChanges,
+  ImageFormat,
   Schedule,
   ScreenshotParams,
+  ScreenshotResult,
   WebhookResult,
 } from '../../types/domain.js'
 import { schedulerLogger } from '../logger.js'
@@ -34,13 +45,32 @@ import { timed } from '../metrics.js'
 const log = schedulerLogger()
 
 /** Function type for screenshot capture */
-export type ScreenshotFunction = (params: ScreenshotParams) => Promise<Buffer>
+export type ScreenshotFunction = (
+  params: ScreenshotParams,
+) => Promise<ScreenshotResult>
 
 /** Result from schedule execution */
 export interface ExecutionResult {
   success: boolean
+  /** Empty when the run was skipped */
   savedPath: string
   webhook?: WebhookResult
+  /** Why nothing was captured or delivered */
+  skipped?: string
+  /** Why the webhook wasn't called: the capture matched the last delivery */
+  unchanged?: string
+  /** What was wrong with a capture that was thrown away */
+  rejected?: CaptureProblem
+  /** How the frame differs from the last run, with changed_region set */
+  changes?: FrameChanges
+  /** Why the run failed */
+  error?: string
+}
+
+/** Options for ScheduleExecutor.call() */
+export interface ExecuteOptions {
+  /** Deliver even when the capture is unchanged (manual sends) */
+  force?: boolean
 }
 
 /**
@@ -49,18 +79,53 @@ export interface ExecutionResult {
 export class ScheduleExecutor {
   #screenshotFn: ScreenshotFunction
   #outputDir: string
+  #changes = new ChangeTracker()
+  /** Page each tile-mode schedule captures on its next run, by schedule id */
+  #nextTile = new Map<string, number>()
 
   constructor(screenshotFn: ScreenshotFunction, outputDir: string) {
     this.#screenshotFn = screenshotFn
     this.#outputDir = outputDir
   }
 
-  /** Executes schedule with automatic retry on network failures */
-  async call(schedule: Schedule): Promise<ExecutionResult> {
+  /**
+   * Executes schedule with automatic retry on network failures.
+   * A run whose entity condition timed out with `on_timeout: skip` is
+   * reported as skipped: nothing is saved and no webhook is sent.
+   * With `skip_unchanged`, a capture matching the last delivery is saved
+   * but reported as unchanged instead of being sent. A login, error or
+   * blank capture is neither saved nor sent and the run fails, so the
+   * device and the output folder keep the last good image.
+   * The full frame is always what gets saved; a changed window only goes
+   * to the webhook. With changed_region, the next run is compared with
+   * this frame only once it has been delivered.
+   * A tile-mode schedule starts at its `full_page_tile` and moves on one
+   * page per delivered run, back to the first after the last.
+   */
+  async call(
+    schedule: Schedule,
+    { force = false }: ExecuteOptions = {},
+  ): Promise<ExecutionResult> {
     const startTime = Date.now()
     log.info`Running: ${schedule.name}`
 
-    const result = await this.#executeWithRetry(schedule)
+    let result: ExecutionResult
+    try {
+      result = await this.#executeWithRetry(schedule, force)
+    } catch (err) {
+      if (err instanceof CaptureRejectedError) {
+        log.warn`Rejected: ${schedule.name} | ${err.message}`
+        return {
+          success: false,
+          savedPath: '',
+          rejected: err.problem,
+          error: err.message,
+        }
+      }
+      if (!(err instanceof EntityConditionTimeoutError)) throw err
+      log.info`Skipped: ${schedule.name} | ${err.message}`
+      return { success: true, savedPath: '', skipped: err.message }
+    }
 
     this.#logResult(schedule.name, result, Date.now() - startTime)
     return result
@@ -68,22 +133,32 @@ export class ScheduleExecutor {
 
   /** Logs execution result with full details */
   #logResult(name: string, result: ExecutionResult, durationMs: number): void {
-    const webhookStatus = this.#formatWebhookStatus(result.webhook)
+    const webhookStatus = this.#formatWebhookStatus(
+      result.webhook,
+      result.unchanged,
+    )
     log.info`Completed: ${name} in ${durationMs}ms | saved: ${result.savedPath} | webhook: ${webhookStatus}`
   }
 
   /** Formats webhook status for logging */
-  #formatWebhookStatus(webhook: WebhookResult | undefined): string {
+  #formatWebhookStatus(
+    webhook: WebhookResult | undefined,
+    unchanged?: string,
+  ): string {
+    if (unchanged) return `skipped, unchanged (${unchanged})`
     if (!webhook) return 'not configured'
     if (webhook.success) return `${webhook.statusCode} OK → ${webhook.url}`
     return `FAILED (${webhook.error}) → ${webhook.url}`
   }
 
   /** Retry wrapper for network failures */
-  async #executeWithRetry(schedule: Schedule): Promise<ExecutionResult> {
+  async #executeWithRetry(
+    schedule: Schedule,
+    force: boolean,
+  ): Promise<ExecutionResult> {
     for (let attempt = 1; attempt <= SCHEDULER_MAX_RETRIES; attempt++) {
       try {
-        return await this.#executeOnce(schedule)
+        return await this.#executeOnce(schedule, force)
       } catch (err) {
         if (!this.#shouldRetry(err as Error, attempt)) throw err
         this.#logRetry(schedule.name, err as Error, attempt)
@@ -94,21 +169,72 @@ export class ScheduleExecutor {
   }
 
   /** Single execution attempt */
-  async #executeOnce(schedule: Schedule): Promise<ExecutionResult> {
+  async #executeOnce(
+    schedule: Schedule,
+    force: boolean,
+  ): Promise<ExecutionResult> {
     const params = buildParams(schedule)
-    const imageBuffer = await this.#screenshotFn(params)
+    if (params.fullPage === 'tile') {
+      params.fullPageTile =
+        this.#nextTile.get(schedule.id) ?? params.fullPageTile
+    }
+    const capture = await this.#screenshotFn(params)
+    const { image: imageBuffer } = capture
     const { savedPath, filename } = await this.#saveAndCleanup(
       schedule,
       imageBuffer,
       params.format,
     )
+
+    const unchanged = force
+      ? null
+      : this.#changes.unchanged(schedule, imageBuffer, capture.frame)
+    if (unchanged) {
+      this.#advanceTile(schedule, capture)
+      return { success: true, savedPath, unchanged, changes: capture.changes }
+    }
+
+    const delivery = this.#deliveredFrame(schedule, capture, filename)
     const webhook = await this.#uploadIfConfigured(
       schedule,
-      imageBuffer,
+      delivery.image,
       params.format,
       filename,
+      this.#captureHeaders({ ...capture, changes: delivery.changes }),
     )
-    return { success: true, savedPath, webhook }
+    if (webhook?.success) {
+      this.#changes.recordDelivery(schedule, imageBuffer, capture.frame)
+    }
+    // Without a webhook, the saved capture is all there is to deliver
+    if (!webhook || webhook.success) {
+      capture.recordFrame?.()
+      this.#advanceTile(schedule, capture)
+    }
+    return { success: true, savedPath, webhook, changes: delivery.changes }
+  }
+
+  /**
+   * Moves a tile-mode schedule on to the page after the one it just
+   * captured. A failed delivery keeps the page, so the next run retries it.
+   */
+  #advanceTile(schedule: Schedule, { tiles }: ScreenshotResult): void {
+    if (tiles) this.#nextTile.set(schedule.id, (tiles.tile % tiles.count) + 1)
+  }
+
+  /**
+   * What the webhook is sent: the changed window when there is one, except
+   * in BYOS URI mode, where the server fetches the saved full frame.
+   */
+  #deliveredFrame(
+    schedule: Schedule,
+    { image, window, changes }: ScreenshotResult,
+    filename: string,
+  ): { image: Buffer; changes?: FrameChanges } {
+    if (!window || !changes) return { image, changes }
+    if (this.#buildScreenshotUrl(schedule, filename)) {
+      return { image, changes: { ...changes, window: undefined } }
+    }
+    return { image: window.image, changes }
   }
 
   /** Saves screenshot and runs LRU cleanup */
@@ -121,7 +247,7 @@ export class ScheduleExecutor {
       outputDir: this.#outputDir,
       scheduleName: schedule.name,
       imageBuffer,
-      format: format as 'png' | 'jpeg' | 'bmp',
+      format: format as ImageFormat,
     })
     log.info`Saved: ${outputPath}`
 
@@ -162,12 +288,27 @@ export class ScheduleExecutor {
     return `${byos.addon_base_url.replace(/\/+$/, '')}/output/${encodeURIComponent(filename)}`
   }
 
-  /** Uploads to webhook if configured, returns result for UI feedback */
+  /**
+   * X- headers the HTTP endpoint sends about a capture: its changed regions
+   * and, in tile mode, which tile it is
+   */
+  #captureHeaders({ changes, tiles }: ScreenshotResult): Record<string, string> {
+    return {
+      ...(changes && changedRegionHeaders(changes)),
+      ...(tiles && tileHeaders(tiles)),
+    }
+  }
+
+  /**
+   * Uploads to webhook if configured, returns result for UI feedback.
+   * Capture headers are sent after the schedule's own webhook headers.
+   */
   async #uploadIfConfigured(
     schedule: Schedule,
     imageBuffer: Buffer,
     format: string,
     filename: string,
+    captureHeaders: Record<string, string>,
   ): Promise<WebhookResult | undefined> {
     if (!schedule.webhook_url) return undefined
 
@@ -178,9 +319,12 @@ export class ScheduleExecutor {
       const result = await timed('webhook.upload', () =>
         uploadToWebhook({
           webhookUrl,
-          webhookHeaders: schedule.webhook_headers,
+          webhookHeaders: {
+            ...schedule.webhook_headers,
+            ...captureHeaders,
+          },
           imageBuffer,
-          format: format as 'png' | 'jpeg' | 'bmp',
+          format: format as ImageFormat,
           webhookFormat: schedule.webhook_format,
           screenshotUrl,
         onTokenRefresh: (newTokens) => {
@@ -39,7 +39,7 @@ interface FileWithMtime {
  * @returns Result with cleanup statistics
  */
 export function cleanupOldScreenshots(options: CleanupOptions): CleanupResult {
-  const { outputDir, maxFiles, filePattern = /\.(png|jpeg|jpg|bmp)$/i } = options
+  const { outputDir, maxFiles, filePattern = /\.(png|jpeg|jpg|bmp|raw|h)$/i } = options
 
   try {
     const files = getFilesWithMtime(outputDir, filePattern)
@@ -24,6 +24,18 @@ export interface SaveResult {
   filename: string
 }
 
+/** Newest saved capture for a schedule */
+export interface LatestScreenshot {
+  outputPath: string
+  filename: string
+  mtime: Date
+}
+
+/** Schedule name as it appears in saved filenames */
+function toSafeName(scheduleName: string): string {
+  return scheduleName.replace(/[^a-zA-Z0-9]/g, '_')
+}
+
 /**
  * Saves screenshot to disk with timestamped filename.
  *
@@ -34,11 +46,45 @@ export function saveScreenshot(options: SaveScreenshotOptions): SaveResult {
   const { outputDir, scheduleName, imageBuffer, format } = options
 
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
-  const safeName = scheduleName.replace(/[^a-zA-Z0-9]/g, '_')
-  const filename = `${safeName}_${timestamp}.${format}`
+  const filename = `${toSafeName(scheduleName)}_${timestamp}.${format}`
   const outputPath = path.join(outputDir, filename)
 
   fs.writeFileSync(outputPath, imageBuffer)
 
   return { outputPath, filename }
 }
+
+/**
+ * Finds the newest saved capture for a schedule.
+ *
+ * Matches the full `<name>_<timestamp>.<ext>` shape so "Kitchen" does not
+ * pick up captures saved by a schedule named "Kitchen 2".
+ *
+ * @param outputDir - Directory holding saved captures
+ * @param scheduleName - Schedule name used when the capture was saved
+ * @returns Newest capture, or null if none exist
+ */
+export function findLatestScreenshot(
+  outputDir: string,
+  scheduleName: string
+): LatestScreenshot | null {
+  const pattern = new RegExp(
+    `^${toSafeName(scheduleName)}_\\d{4}-\\d{2}-\\d{2}T[\\d-]+Z\\.(png|jpeg|bmp|raw|h)$`
+  )
+
+  let latest: LatestScreenshot | null = null
+  try {
+    for (const filename of fs.readdirSync(outputDir)) {
+      if (!pattern.test(filename)) continue
+      const outputPath = path.join(outputDir, filename)
+      const { mtime } = fs.statSync(outputPath)
+      if (!latest || mtime > latest.mtime) {
+        latest = { outputPath, filename, mtime }
+      }
+    }
+  } catch {
+    // Output directory not created yet (no schedule has run)
+    return null
+  }
+  return latest
+}
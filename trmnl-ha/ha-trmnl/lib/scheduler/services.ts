@@ -13,7 +13,7 @@
  */
 
 // Screenshot Operations
-export { saveScreenshot, type SaveScreenshotOptions, type SaveResult } from './screenshot-saver.js'
+export { saveScreenshot, findLatestScreenshot, type SaveScreenshotOptions, type SaveResult, type LatestScreenshot } from './screenshot-saver.js'
 export { cleanupOldScreenshots, type CleanupOptions, type CleanupResult } from './screenshot-cleanup.js'
 
 // Webhook Operations
@@ -20,6 +20,8 @@ const CONTENT_TYPES: Record<ImageFormat, string> = {
   png: 'image/png',
   jpeg: 'image/jpeg',
   bmp: 'image/bmp',
+  raw: 'application/octet-stream',
+  h: 'text/x-c',
 }
 
 /** Transformed webhook payload ready for HTTP POST */
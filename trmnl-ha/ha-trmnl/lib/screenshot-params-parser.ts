@@ -6,17 +6,36 @@
  * @module lib/screenshot-params-parser
  */
 
-import { VALID_FORMATS, VALID_ROTATIONS } from '../const.js'
+import {
+  VALID_FORMATS,
+  VALID_RAW_BIT_ORDERS,
+  VALID_ROTATIONS,
+  VALID_SCALE_FACTORS,
+  VALID_RESAMPLE_FILTERS,
+  VALID_DITHER_MATRICES,
+  VALID_COLOR_DISTANCES,
+  VALID_CHANGED_REGION_MODES,
+} from '../const.js'
+import { toCSymbol } from './dithering/c-header.js'
 import type {
   Viewport,
   CropRegion,
   ImageFormat,
+  RawBitOrder,
+  RawOptions,
+  ChangedRegionMode,
   RotationAngle,
   DitheringConfig,
   DitheringMethod,
+  DitherMatrix,
+  ColorDistance,
   Palette,
+  FullPageMode,
+  ScaleFactor,
+  ResampleFilter,
   BitDepth,
   CompressionLevel,
+  EnhanceConfig,
 } from '../types/domain.js'
 
 /**
@@ -29,20 +48,38 @@ const SYSTEM_PARAMS = new Set([
   'url',
   'wait',
   'zoom',
+  'css',
+  'hide',
   'crop_x',
   'crop_y',
   'crop_width',
   'crop_height',
+  'selector',
+  'selector_padding',
+  'full_page',
+  'tile',
+  'scale_factor',
+  'resample',
   'invert',
   'timestamp',
   'format',
+  'bit_order',
+  'planes',
+  'symbol',
+  'changed_region',
+  'device',
   'rotate',
   'lang',
   'theme',
   'dark',
   'next',
+  'max_age',
   'dithering',
   'dither_method',
+  'dither_matrix',
+  'no_serpentine',
+  'error_clamp',
+  'color_distance',
   'palette',
   'no_gamma',
   'levels_enabled',
@@ -52,6 +89,13 @@ const SYSTEM_PARAMS = new Set([
   'saturation_boost',
   'bit_depth',
   'compression_level',
+  'max_bytes',
+  'sharpen',
+  'sharpen_radius',
+  'gamma',
+  'contrast',
+  'contrast_midpoint',
+  'clahe',
 ])
 
 /** Parsed screenshot parameters */
@@ -62,15 +106,35 @@ export interface ParsedScreenshotParams {
   viewport: Viewport
   extraWait?: number
   zoom: number
+  css?: string
+  hide?: string[]
   crop: CropRegion | null
+  /** Element to capture; wins over crop when both are given */
+  selector?: string
+  selectorPadding?: number
+  /** Capture the whole page, scaled to the viewport or cut into tiles */
+  fullPage?: FullPageMode
+  /** 1-based page to capture in tile mode */
+  fullPageTile?: number
+  /** Render at this multiple of the viewport, then resample down */
+  scaleFactor?: ScaleFactor
+  resampleFilter?: ResampleFilter
   invert: boolean
   timestamp: boolean
   format: ImageFormat
+  /** Layout of `raw` and `h` output (those formats only) */
+  raw?: RawOptions
+  /** Diff against the last frame for this URL: report it or send the window */
+  changedRegion?: ChangedRegionMode
+  /** The request URL, which identifies the last frame */
+  frameKey?: string
   rotate?: RotationAngle
   lang?: string
   theme?: string
   dark: boolean
   next?: number
+  /** Seconds a cached render of these params may be served (render cache) */
+  maxAge?: number
   dithering?: DitheringConfig
 }
 
@@ -144,7 +208,10 @@ export class ScreenshotParamsParser {
    */
   #parseProcessing(
     url: URL
-  ): Omit<ParsedScreenshotParams, 'pagePath' | 'viewport' | 'dithering'> {
+  ): Omit<
+    ParsedScreenshotParams,
+    'pagePath' | 'viewport' | 'dithering'
+  > {
     // Wait time
     let extraWait: number | undefined = parseInt(
       url.searchParams.get('wait') || ''
@@ -155,6 +222,14 @@ export class ScreenshotParamsParser {
     let zoom = parseFloat(url.searchParams.get('zoom') || '')
     if (isNaN(zoom) || zoom <= 0) zoom = 1
 
+    // Injected styles: hide may repeat, once per selector
+    const css = url.searchParams.get('css')?.trim() || undefined
+    const hideSelectors = url.searchParams
+      .getAll('hide')
+      .map((selector) => selector.trim())
+      .filter(Boolean)
+    const hide = hideSelectors.length > 0 ? hideSelectors : undefined
+
     // Crop parameters
     let crop: CropRegion | null = null
     const cropX = parseInt(url.searchParams.get('crop_x') || '')
@@ -173,6 +248,42 @@ export class ScreenshotParamsParser {
       crop = { x: cropX, y: cropY, width: cropWidth, height: cropHeight }
     }
 
+    // Element selector (padding only matters alongside it)
+    const selector = url.searchParams.get('selector')?.trim() || undefined
+    let selectorPadding: number | undefined = parseInt(
+      url.searchParams.get('selector_padding') || ''
+    )
+    if (!selector || isNaN(selectorPadding) || selectorPadding < 0) {
+      selectorPadding = undefined
+    }
+
+    // Full page: a bare `full_page` flag means scale
+    let fullPage: FullPageMode | undefined
+    if (url.searchParams.has('full_page')) {
+      fullPage =
+        url.searchParams.get('full_page') === 'tile' ? 'tile' : 'scale'
+    }
+    let fullPageTile: number | undefined = parseInt(
+      url.searchParams.get('tile') || ''
+    )
+    if (fullPage !== 'tile' || isNaN(fullPageTile) || fullPageTile < 1) {
+      fullPageTile = undefined
+    }
+
+    // Supersampling (the filter only matters alongside it)
+    let scaleFactor: ScaleFactor | undefined = parseInt(
+      url.searchParams.get('scale_factor') || ''
+    ) as ScaleFactor
+    if (!VALID_SCALE_FACTORS.includes(scaleFactor) || scaleFactor === 1) {
+      scaleFactor = undefined
+    }
+    let resampleFilter = url.searchParams.get('resample') as
+      | ResampleFilter
+      | undefined
+    if (!scaleFactor || !VALID_RESAMPLE_FILTERS.includes(resampleFilter!)) {
+      resampleFilter = undefined
+    }
+
     // Invert
     const invert = url.searchParams.has('invert')
 
@@ -183,6 +294,28 @@ export class ScreenshotParamsParser {
     let format = (url.searchParams.get('format') || 'png') as ImageFormat
     if (!VALID_FORMATS.includes(format)) format = 'png'
 
+    // Raw layout (only meaningful for raw and C header output)
+    let raw: RawOptions | undefined
+    if (format === 'raw' || format === 'h') {
+      let bitOrder = (url.searchParams.get('bit_order') ||
+        'msb') as RawBitOrder
+      if (!VALID_RAW_BIT_ORDERS.includes(bitOrder)) bitOrder = 'msb'
+      raw = { bitOrder, planes: url.searchParams.has('planes') }
+      if (format === 'h') {
+        raw.symbol = toCSymbol(url.searchParams.get('symbol'))
+      }
+    }
+
+    // Changed regions, diffed against the last frame for the same URL.
+    // Devices sharing a URL would diff against each other's frames; a
+    // `device` param (never sent to the page) gives each its own
+    let changedRegion = (url.searchParams.get('changed_region') ||
+      undefined) as ChangedRegionMode | undefined
+    if (!VALID_CHANGED_REGION_MODES.includes(changedRegion!)) {
+      changedRegion = undefined
+    }
+    const frameKey = changedRegion ? url.pathname + url.search : undefined
+
     // Rotation
     let rotate: RotationAngle | undefined = parseInt(
       url.searchParams.get('rotate') || ''
@@ -198,18 +331,36 @@ export class ScreenshotParamsParser {
     let next: number | undefined = parseInt(url.searchParams.get('next') || '')
     if (isNaN(next) || next < 0) next = undefined
 
+    // Render cache TTL
+    let maxAge: number | undefined = parseInt(
+      url.searchParams.get('max_age') || ''
+    )
+    if (isNaN(maxAge) || maxAge <= 0) maxAge = undefined
+
     return {
       extraWait,
       zoom,
+      css,
+      hide,
       crop,
+      selector,
+      selectorPadding,
+      fullPage,
+      fullPageTile,
+      scaleFactor,
+      resampleFilter,
       invert,
       timestamp,
       format,
+      raw,
+      changedRegion,
+      frameKey,
       rotate,
       lang,
       theme,
       dark,
       next,
+      maxAge,
     }
   }
 
@@ -225,8 +376,33 @@ export class ScreenshotParamsParser {
 
     const method = (url.searchParams.get('dither_method') ||
       'floyd-steinberg') as DitheringMethod
+
+    // Only meaningful for the ordered method
+    let matrix = url.searchParams.get('dither_matrix') as
+      | DitherMatrix
+      | undefined
+    if (method !== 'ordered' || !VALID_DITHER_MATRICES.includes(matrix!)) {
+      matrix = undefined
+    }
+
+    // Error-diffusion tuning for the in-process kernels
+    const serpentine = !url.searchParams.has('no_serpentine')
+    let errorClamp: number | undefined = parseInt(
+      url.searchParams.get('error_clamp') || ''
+    )
+    if (isNaN(errorClamp) || errorClamp < 1 || errorClamp > 255) {
+      errorClamp = undefined
+    }
+
     const palette = (url.searchParams.get('palette') || 'gray-4') as Palette
 
+    let colorDistance = url.searchParams.get('color_distance') as
+      | ColorDistance
+      | undefined
+    if (!VALID_COLOR_DISTANCES.includes(colorDistance!)) {
+      colorDistance = undefined
+    }
+
     const gammaCorrection = !url.searchParams.has('no_gamma')
 
     const levelsEnabled = url.searchParams.has('levels_enabled')
@@ -255,11 +431,20 @@ export class ScreenshotParamsParser {
       compressionLevel = compressionParam as CompressionLevel
     }
 
+    let maxBytes: number | undefined = parseInt(
+      url.searchParams.get('max_bytes') || ''
+    )
+    if (isNaN(maxBytes) || maxBytes <= 0) maxBytes = undefined
+
     return {
       dithering: {
         enabled: true,
         method,
+        matrix,
+        serpentine,
+        errorClamp,
         palette,
+        colorDistance,
         gammaCorrection,
         levelsEnabled,
         blackLevel,
@@ -268,7 +453,35 @@ export class ScreenshotParamsParser {
         saturationBoost,
         bitDepth,
         compressionLevel,
+        maxBytes,
+        enhance: this.#parseEnhance(url),
       },
     }
   }
+
+  /**
+   * Parses the pre-dither enhancement parameters. Values outside their
+   * range are ignored.
+   *
+   * @returns Enhancement settings, or undefined when none are set
+   */
+  #parseEnhance(url: URL): EnhanceConfig | undefined {
+    const number = (name: string, min: number, max: number) => {
+      const value = parseFloat(url.searchParams.get(name) || '')
+      return value >= min && value <= max ? value : undefined
+    }
+
+    const enhance: EnhanceConfig = {
+      sharpenAmount: number('sharpen', 0, 5),
+      sharpenRadius: number('sharpen_radius', 0.1, 10),
+      gamma: number('gamma', 0.1, 5),
+      contrast: number('contrast', 0, 20),
+      contrastMidpoint: number('contrast_midpoint', 0, 100),
+      clahe: url.searchParams.has('clahe') || undefined,
+    }
+
+    return Object.values(enhance).some((v) => v !== undefined)
+      ? enhance
+      : undefined
+  }
 }
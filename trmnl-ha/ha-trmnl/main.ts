@@ -4,7 +4,7 @@
  * This file orchestrates the entire TRMNL HA add-on system, managing:
  * - HTTP server for screenshot requests and UI/API endpoints
  * - Browser lifecycle (Puppeteer) with automatic cleanup and health monitoring
- * - Request queue management ensuring sequential screenshot processing
+ * - Request queue handing screenshot work to a pool of browser workers
  * - Browser crash detection and automatic recovery
  * - Scheduler integration for automated screenshot capture
  *
@@ -26,6 +26,8 @@ import {
   BROWSER_TIMEOUT,
   MAX_SCREENSHOTS_BEFORE_RESTART,
   MAX_NEXT_REQUESTS,
+  RENDER_CACHE_MAX_BYTES,
+  REQUEST_QUEUE_MAX_DEPTH,
   SERVER_PORT,
 } from './const.js'
 import {
@@ -34,15 +36,36 @@ import {
   PageCorruptedError,
   BrowserHealthCheckError,
   BrowserRecoveryFailedError,
+  QueueFullError,
+  ElementNotFoundError,
+  PageActionError,
+  CaptureRejectedError,
 } from './error.js'
 import { Scheduler } from './scheduler.js'
 import { BrowserFacade } from './lib/browserFacade.js'
 import { HttpRouter } from './lib/http-router.js'
-import { ScreenshotParamsParser } from './lib/screenshot-params-parser.js'
-import type { ScreenshotParams, ImageFormat } from './types/domain.js'
+import {
+  ScreenshotParamsParser,
+  type ParsedScreenshotParams,
+} from './lib/screenshot-params-parser.js'
+import { RenderCache, renderCacheKey } from './lib/render-cache.js'
+import type {
+  ScreenshotParams,
+  ScreenshotResult,
+  ImageFormat,
+} from './types/domain.js'
+import { budgetHeaders } from './lib/dithering/size-budget.js'
+import { rawHeaders } from './lib/dithering/raw.js'
+import { changedRegionHeaders } from './lib/dithering/changed-region.js'
+import { tileHeaders } from './lib/browser/full-page.js'
 import { initializeLogging, appLogger, browserLogger } from './lib/logger.js'
-import { recordTiming } from './lib/metrics.js'
-import { RequestQueue } from './lib/request-queue.js'
+import { recordTiming, timed } from './lib/metrics.js'
+import { RequestQueue, type RequestPriority } from './lib/request-queue.js'
+import {
+  RenderValidators,
+  isNotModified,
+  validatorHeaders,
+} from './lib/conditional-get.js'
 
 // Initialize logging before anything else
 await initializeLogging()
@@ -57,7 +80,9 @@ class RequestHandler {
   #router: HttpRouter
   #facade: BrowserFacade
   #paramsParser: ScreenshotParamsParser
-  #queue = new RequestQueue()
+  #queue: RequestQueue
+  #validators = new RenderValidators()
+  #cache = new RenderCache(RENDER_CACHE_MAX_BYTES)
   #requestCount: number = 0
   #nextRequests: ReturnType<typeof setTimeout>[] = []
   #navigationTime: number = 0
@@ -66,7 +91,10 @@ class RequestHandler {
 
   constructor(browser: Browser) {
     this.#browser = browser
-    this.#facade = new BrowserFacade(browser)
+    this.#queue = new RequestQueue(browser.poolSize, {
+      maxDepth: REQUEST_QUEUE_MAX_DEPTH,
+    })
+    this.#facade = new BrowserFacade(browser, { workers: browser.poolSize })
     this.#router = new HttpRouter(this.#facade)
     this.#paramsParser = new ScreenshotParamsParser()
   }
@@ -87,7 +115,7 @@ class RequestHandler {
    * Checks if browser should be cleaned up due to inactivity.
    */
   #runBrowserCleanupCheck = async (): Promise<void> => {
-    if (this.#queue.busy) return
+    if (this.#queue.active > 0) return
 
     const idleTime = Date.now() - this.#lastAccess.getTime()
 
@@ -127,6 +155,10 @@ class RequestHandler {
 
     this.#requestCount++
 
+    // Other workers may be mid-capture on the shared browser; the restart
+    // waits for the first request that finishes with the pool otherwise idle
+    if (this.#queue.active > 1) return
+
     if (this.#requestCount >= MAX_SCREENSHOTS_BEFORE_RESTART) {
       browserLog.info`Proactive cleanup after ${this.#requestCount} screenshots`
       await this.#browser.cleanup()
@@ -139,14 +171,16 @@ class RequestHandler {
   // ===========================================================================
 
   /**
-   * Ensures browser is healthy before critical operations.
+   * Ensures the worker about to be used is healthy before critical
+   * operations. Other workers recover when they are next used, so their
+   * captures in flight are left alone.
    */
-  async #ensureBrowserHealthy(): Promise<void> {
-    const health = this.#facade.checkHealth()
+  async #ensureBrowserHealthy(worker: number): Promise<void> {
+    const health = this.#facade.checkHealth(worker)
 
     if (!health.healthy) {
       browserLog.warn`Browser unhealthy: ${health.reason}`
-      await this.#facade.recover()
+      await this.#facade.recover(worker)
     }
   }
 
@@ -155,7 +189,8 @@ class RequestHandler {
    */
   async #handleBrowserError(
     err: Error,
-    requestId: string | number
+    requestId: string | number,
+    worker: number
   ): Promise<boolean> {
     const isBrowserError =
       err instanceof BrowserCrashError ||
@@ -166,11 +201,11 @@ class RequestHandler {
 
     browserLog.error`[${requestId}] Browser error: ${err.name} - ${err.message}`
 
-    const shouldRecover = this.#facade.recordFailure()
+    const shouldRecover = this.#facade.recordFailure(worker)
 
     if (shouldRecover || err instanceof BrowserCrashError) {
       try {
-        await this.#facade.recover()
+        await this.#facade.recover(worker)
         return true
       } catch (recoveryErr) {
         if (recoveryErr instanceof BrowserRecoveryFailedError) {
@@ -205,63 +240,191 @@ class RequestHandler {
 
   /**
    * Handles screenshot requests with queue management.
+   * Requests carrying max_age are answered from the render cache when
+   * possible and only queue a browser render on a miss.
    */
   async #handleScreenshotRequest(
-    _request: IncomingMessage,
+    request: IncomingMessage,
     response: ServerResponse,
     requestUrl: URL
   ): Promise<void> {
+    const params = this.#paramsParser.call(requestUrl)
+    if (!params) return this.#sendError(response, 400, 'Invalid parameters')
+
+    // A changed region describes the step from the last frame, so it's
+    // never cached. Other renders are, as the fallback for a rejected
+    // capture, but only max_age requests are answered from the cache
+    const renderKey = params.changedRegion ? null : renderCacheKey(params)
+    const cacheKey = params.maxAge ? renderKey : null
+    if (cacheKey) {
+      const lookupStart = Date.now()
+      const cached = this.#cache.get(cacheKey, params.maxAge! * 1000)
+      if (cached) {
+        const outcome = cached.stale ? 'stale' : 'hit'
+        recordTiming(`cache.${outcome}`, Date.now() - lookupStart)
+        log.debug`Render cache ${outcome}: ${params.pagePath}`
+        this.#sendImage(
+          request,
+          response,
+          requestUrl,
+          cached.image,
+          params,
+          cached.headers
+        )
+        if (cached.stale) void this.#refreshCachedRender(cacheKey, params)
+        return
+      }
+    }
+
     const requestId = this.#requestCount
     const start = new Date()
 
     if (this.#queue.busy) log.debug`[${requestId}] Busy, waiting in queue`
-    await this.#queue.acquire()
-    log.debug`[${requestId}] Wait time: ${Date.now() - start.getTime()}ms`
+    const worker = await this.#acquireForClient(requestId, response)
+    if (worker === null) return
+    log.debug`[${requestId}] Wait time: ${Date.now() - start.getTime()}ms (worker ${worker})`
 
     try {
-      const params = this.#paramsParser.call(requestUrl)
-      if (!params) return this.#sendError(response, 400, 'Invalid parameters')
-
       log.info`Screenshot request: ${params.pagePath} (${params.viewport.width}x${params.viewport.height})`
 
       const navTime = await this.#navigateWithRecovery(
         params,
         requestId,
-        response
+        response,
+        worker
       )
       if (navTime === null) return
 
-      const image = await this.#captureWithRecovery(params, requestId, response)
-      if (!image) return
+      const capture = await this.#captureWithRecovery(
+        params,
+        requestId,
+        response,
+        worker
+      )
+      if (!capture) return
+      const { image, rejection, window } = capture
+      const outputHeaders = this.#outputHeaders(capture)
 
       const elapsed = Date.now() - start.getTime()
       recordTiming('request.total', elapsed)
+      if (cacheKey) recordTiming('cache.miss', elapsed)
       log.info`Screenshot complete: ${image.length} bytes in ${elapsed}ms`
 
-      // Warn if screenshot is suspiciously small (likely blank/login page)
-      if (image.length < 1000) {
-        log.warning`Screenshot is very small (${image.length} bytes) - page may be blank or showing a login screen`
-        log.warning`This usually indicates an invalid access token. Check your HA token is valid.`
+      // Never delivered: the device keeps the last good render
+      if (rejection) {
+        log.warning`Bad capture (${rejection.problem}): ${rejection.detail}`
+        const reply = this.#cache.replyToRejected(renderKey, rejection)
+        if (reply.status === 200) {
+          this.#sendImage(
+            request,
+            response,
+            requestUrl,
+            reply.image,
+            params,
+            reply.headers
+          )
+        } else {
+          response.writeHead(reply.status, reply.headers)
+          response.end(reply.body)
+        }
+        return
       }
-
-      this.#sendImage(response, image, params.format)
+      if (renderKey) this.#cache.set(renderKey, image, outputHeaders)
+
+      // Diffs for this URL continue from this frame once the client has it.
+      // Devices polling the same URL share that history; a `device` param
+      // keeps theirs apart
+      if (capture.recordFrame) response.once('finish', capture.recordFrame)
+      this.#sendImage(
+        request,
+        response,
+        requestUrl,
+        window?.image ?? image,
+        params,
+        outputHeaders
+      )
       if (params.next) this.#scheduleNextRequest(requestId, params, start)
     } finally {
-      this.#queue.release()
+      this.#queue.release(worker)
       this.#markBrowserAccessed()
     }
   }
 
+  /**
+   * Queues an interactive request for a browser worker.
+   * Answers 429 when the queue is full and drops the request if the client
+   * disconnects while waiting.
+   *
+   * @returns Worker index, or null when the response was already handled
+   */
+  async #acquireForClient(
+    requestId: number,
+    response: ServerResponse
+  ): Promise<number | null> {
+    const controller = new AbortController()
+    const onClose = () => {
+      if (!response.writableEnded) controller.abort()
+    }
+    response.on('close', onClose)
+
+    try {
+      return await this.#queue.acquire('interactive', controller.signal)
+    } catch (err) {
+      if (err instanceof QueueFullError) {
+        log.warn`[${requestId}] ${err.message}, replying 429`
+        response.writeHead(429, {
+          'Content-Type': 'text/plain',
+          'Retry-After': String(err.retryAfterSeconds),
+        })
+        response.end('Too many queued requests')
+        return null
+      }
+      if (controller.signal.aborted) {
+        log.debug`[${requestId}] Client disconnected while queued`
+        return null
+      }
+      throw err
+    } finally {
+      response.off('close', onClose)
+    }
+  }
+
+  /**
+   * Re-renders a stale cache entry after the stale image has been sent.
+   * Goes through the same queue as every other render; concurrent stale
+   * hits for one key share a single refresh.
+   */
+  async #refreshCachedRender(
+    cacheKey: string,
+    params: ParsedScreenshotParams
+  ): Promise<void> {
+    if (!this.#cache.beginRefresh(cacheKey)) return
+
+    try {
+      const capture = await timed('cache.refresh', () =>
+        this.takeScreenshot(params, 'preload')
+      )
+      this.#cache.set(cacheKey, capture.image, this.#outputHeaders(capture))
+      log.debug`Render cache refreshed: ${params.pagePath}`
+    } catch (err) {
+      // Keep serving the stale entry; the next request past 2x max_age renders
+      log.warning`Render cache refresh failed for ${params.pagePath}: ${err}`
+    } finally {
+      this.#cache.endRefresh(cacheKey)
+    }
+  }
+
   /** Navigates to page with automatic recovery on failure */
   async #navigateWithRecovery(
     params: NavigateParams,
     requestId: number,
-    response: ServerResponse
+    response: ServerResponse,
+    worker: number
   ): Promise<number | null> {
     try {
-      await this.#ensureBrowserHealthy()
-      const result = await this.#browser.navigatePage(params)
-      this.#facade.recordSuccess()
+      await this.#ensureBrowserHealthy(worker)
+      const result = await this.#browser.navigatePage(params, worker)
+      this.#facade.recordSuccess(worker)
       this.#navigationTime = Math.max(this.#navigationTime, result.time)
       return result.time
     } catch (err) {
@@ -269,7 +432,8 @@ class RequestHandler {
         err as Error,
         params,
         requestId,
-        response
+        response,
+        worker
       )
     }
   }
@@ -279,29 +443,35 @@ class RequestHandler {
     err: Error,
     params: NavigateParams,
     requestId: number,
-    response: ServerResponse
+    response: ServerResponse,
+    worker: number
   ): Promise<number | null> {
     if (err instanceof CannotOpenPageError) {
       this.#sendError(response, 404, `Cannot open page: ${err.message}`)
       return null
     }
+    if (err instanceof PageActionError) {
+      this.#sendError(response, 422, err.message)
+      return null
+    }
 
-    const recovered = await this.#handleBrowserError(err, requestId)
+    const recovered = await this.#handleBrowserError(err, requestId, worker)
     if (!recovered) throw err
 
-    return this.#retryNavigation(params, requestId, response)
+    return this.#retryNavigation(params, requestId, response, worker)
   }
 
   /** Retries navigation after browser recovery */
   async #retryNavigation(
     params: NavigateParams,
     requestId: number,
-    response: ServerResponse
+    response: ServerResponse,
+    worker: number
   ): Promise<number | null> {
     browserLog.info`[${requestId}] Retrying navigation after recovery...`
     try {
-      const result = await this.#browser.navigatePage(params)
-      this.#facade.recordSuccess()
+      const result = await this.#browser.navigatePage(params, worker)
+      this.#facade.recordSuccess(worker)
       return result.time
     } catch (retryErr) {
       browserLog.error`[${requestId}] Retry failed: ${retryErr}`
@@ -314,15 +484,16 @@ class RequestHandler {
   async #captureWithRecovery(
     params: ScreenshotCaptureParams,
     requestId: number,
-    response: ServerResponse
-  ): Promise<Buffer | null> {
+    response: ServerResponse,
+    worker: number
+  ): Promise<ScreenshotResult | null> {
     try {
-      const result = await this.#browser.screenshotPage(params)
-      this.#facade.recordSuccess()
+      const result = await this.#browser.screenshotPage(params, worker)
+      this.#facade.recordSuccess(worker)
       await this.#maybeCleanupAfterRequests()
-      return result.image
+      return result
     } catch (err) {
-      return this.#handleCaptureError(err as Error, requestId, response)
+      return this.#handleCaptureError(err as Error, requestId, response, worker)
     }
   }
 
@@ -330,9 +501,16 @@ class RequestHandler {
   async #handleCaptureError(
     err: Error,
     requestId: number,
-    response: ServerResponse
+    response: ServerResponse,
+    worker: number
   ): Promise<null> {
-    const recovered = await this.#handleBrowserError(err, requestId)
+    // The page rendered fine; it just doesn't contain the requested card
+    if (err instanceof ElementNotFoundError) {
+      this.#sendError(response, 404, err.message)
+      return null
+    }
+
+    const recovered = await this.#handleBrowserError(err, requestId, worker)
     if (recovered) {
       this.#sendError(response, 503, 'Screenshot failed - please retry')
     } else {
@@ -347,25 +525,70 @@ class RequestHandler {
     response.end(message)
   }
 
-  /** Sends image response with proper headers */
+  /**
+   * Sends image response with proper headers.
+   * Answers 304 without a body when the client already holds this frame.
+   */
   #sendImage(
+    request: IncomingMessage,
     response: ServerResponse,
+    requestUrl: URL,
     image: Buffer,
-    format: ImageFormat
+    { format, raw }: ScreenshotParams,
+    extraHeaders: Record<string, string> = {}
   ): void {
+    const validators = this.#validators.track(
+      requestUrl.pathname + requestUrl.search,
+      image
+    )
+
+    if (isNotModified(request.headers, validators)) {
+      response.writeHead(304, validatorHeaders(validators))
+      response.end()
+      return
+    }
+
     response.writeHead(200, {
       'Content-Type': this.#getContentType(format),
       'Content-Length': image.length,
+      ...(format === 'h' && {
+        'Content-Disposition': `attachment; filename="${raw?.symbol ?? 'image'}.h"`,
+      }),
+      ...validatorHeaders(validators),
+      ...extraHeaders,
     })
     response.end(image)
   }
 
+  /**
+   * X- headers describing a fresh render: how it met its size budget, the
+   * layout of raw output (of the window, when that is sent) and what
+   * changed since the last frame.
+   */
+  #outputHeaders({
+    budget,
+    raw,
+    changes,
+    window,
+    tiles,
+  }: ScreenshotResult): Record<string, string> {
+    const layout = window ? window.raw : raw
+    return {
+      ...(budget && budgetHeaders(budget)),
+      ...(layout && rawHeaders(layout)),
+      ...(changes && changedRegionHeaders(changes)),
+      ...(tiles && tileHeaders(tiles)),
+    }
+  }
+
   /**
    * Maps image format to HTTP Content-Type header.
    */
   #getContentType(format: ImageFormat): string {
     if (format === 'jpeg') return 'image/jpeg'
     if (format === 'bmp') return 'image/bmp'
+    if (format === 'raw') return 'application/octet-stream'
+    if (format === 'h') return 'text/x-c'
     return 'image/png'
   }
 
@@ -404,7 +627,8 @@ class RequestHandler {
     requestId: number,
     params: ScreenshotParams
   ): Promise<void> {
-    if (!this.#queue.tryAcquire()) {
+    const worker = this.#queue.tryAcquire('preload')
+    if (worker === null) {
       log.debug`Busy, skipping next request`
       return
     }
@@ -413,51 +637,71 @@ class RequestHandler {
     log.debug`[${nextRequestId}] Preparing next request`
 
     try {
-      const navigateResult = await this.#browser.navigatePage({
-        ...params,
-        extraWait: 0,
-      } as NavigateParams)
+      const navigateResult = await this.#browser.navigatePage(
+        { ...params, extraWait: 0 } as NavigateParams,
+        worker
+      )
       log.debug`[${nextRequestId}] Navigated in ${navigateResult.time}ms`
     } catch (err) {
       log.error`[${nextRequestId}] Error preparing next request: ${err}`
     } finally {
-      this.#queue.release()
+      this.#queue.release(worker)
       this.#markBrowserAccessed()
     }
   }
 
   /**
    * Public API for scheduler to take screenshots.
+   * Also used for background work, which passes a lower priority.
+   *
+   * @throws CaptureRejectedError When the capture shows a login, error or
+   *   blank page, so nothing replaces the last good image
    */
-  async takeScreenshot(params: ScreenshotParams): Promise<Buffer> {
-    await this.#queue.acquire()
+  async takeScreenshot(
+    params: ScreenshotParams,
+    priority: RequestPriority = 'scheduler'
+  ): Promise<ScreenshotResult> {
+    const result = await this.#renderInBackground(params, priority)
+    if (result.rejection) throw new CaptureRejectedError(result.rejection)
+    return result
+  }
+
+  /** Navigates and captures with one browser recovery attempt */
+  async #renderInBackground(
+    params: ScreenshotParams,
+    priority: RequestPriority
+  ): Promise<ScreenshotResult> {
+    const worker = await this.#queue.acquire(priority)
 
     try {
-      await this.#ensureBrowserHealthy()
-      await this.#browser.navigatePage(params as NavigateParams)
+      await this.#ensureBrowserHealthy(worker)
+      await this.#browser.navigatePage(params as NavigateParams, worker)
       const result = await this.#browser.screenshotPage(
-        params as ScreenshotCaptureParams
+        params as ScreenshotCaptureParams,
+        worker
       )
-      this.#facade.recordSuccess()
+      this.#facade.recordSuccess(worker)
       await this.#maybeCleanupAfterRequests()
-      return result.image
+      return result
     } catch (err) {
       const recovered = await this.#handleBrowserError(
         err as Error,
-        '[Scheduler]'
+        '[Scheduler]',
+        worker
       )
       if (recovered) {
-        await this.#browser.navigatePage(params as NavigateParams)
+        await this.#browser.navigatePage(params as NavigateParams, worker)
         const result = await this.#browser.screenshotPage(
-          params as ScreenshotCaptureParams
+          params as ScreenshotCaptureParams,
+          worker
         )
-        this.#facade.recordSuccess()
+        this.#facade.recordSuccess(worker)
         await this.#maybeCleanupAfterRequests()
-        return result.image
+        return result
       }
       throw err
     } finally {
-      this.#queue.release()
+      this.#queue.release(worker)
       this.#markBrowserAccessed()
     }
   }
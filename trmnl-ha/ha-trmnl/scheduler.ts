@@ -139,7 +139,8 @@ export class Scheduler {
 
     log.info`Manual execution: ${schedule.name}`
 
-    return await this.#executor.call(schedule)
+    // A manual send always delivers, even an unchanged capture
+    return await this.#executor.call(schedule, { force: true })
   }
 
   /**
@@ -10,6 +10,8 @@
  * - Puppeteer args: 40+ flags to disable unused features and reduce memory
  *
  * NOTE: Browser class is stateful - single instance per app (owned by main.js).
+ * NOTE: One Chromium process serves a pool of worker pages; each worker keeps
+ * its own page and theme/lang cache so concurrent captures never share state.
  * NOTE: When modifying cache logic, ensure state is reset on errors (stale cache = bugs).
  *
  * @module screenshot
@@ -18,11 +20,13 @@
 import puppeteer from 'puppeteer'
 import type {
   Browser as PuppeteerBrowser,
+  BrowserContext,
   Page,
   Viewport,
 } from 'puppeteer'
 import {
   TIMESTAMP_OVERLAY,
+  BROWSER_POOL_SIZE,
   debugLogging as defaultDebugLogging,
   chromiumExecutable as defaultChromiumExecutable,
 } from './const.js'
@@ -30,8 +34,16 @@ import {
   CannotOpenPageError,
   BrowserCrashError,
   PageCorruptedError,
+  ElementNotFoundError,
+  PageActionError,
+  EntityConditionTimeoutError,
 } from './error.js'
 import { processImage as defaultProcessImage } from './lib/dithering.js'
+import {
+  FrameHistory,
+  encodeWindow,
+  type OutputFrame,
+} from './lib/dithering/changed-region.js'
 import {
   NavigateToPage,
   WaitForLoadingComplete,
@@ -39,12 +51,30 @@ import {
   WaitForPaintStability,
   WaitForWebSocketIdle,
   WaitForHassReady,
+  WaitForEntityCondition,
+  InjectStyles,
+  buildInjectedCss,
   type AuthStorage,
 } from './lib/browser/navigation-commands.js'
+import { LocateElement } from './lib/browser/element-locator.js'
+import { ValidateCapture } from './lib/browser/capture-validation.js'
+import { PrepareFullPage } from './lib/browser/full-page.js'
+import { RunPageActions } from './lib/browser/page-actions.js'
 import { getPageSetupStrategy } from './lib/browser/page-setup-strategies.js'
 import type {
   ScreenshotResult,
+  SizeBudgetResult,
+  RawLayout,
+  RawOptions,
+  ChangedRegionMode,
+  FrameChanges,
+  FrameWindow,
   CropRegion,
+  PageAction,
+  EntityCondition,
+  FullPageMode,
+  ScaleFactor,
+  ResampleFilter,
   ImageFormat,
   RotationAngle,
   DitheringConfig,
@@ -137,9 +167,19 @@ export interface NavigateParams {
   /** Full target URL (if provided, overrides pagePath + base URL resolution) */
   targetUrl?: string
   viewport: Viewport
+  /** Device pixels per CSS pixel the page renders at (supersampling) */
+  scaleFactor?: ScaleFactor
   /** Settling time in ms, added after the page reports itself ready. */
   extraWait?: number
   zoom?: number
+  /** Custom stylesheet injected into the page and its shadow roots */
+  css?: string
+  /** Selectors of elements to hide before capture */
+  hide?: string[]
+  /** Steps run after the page is ready, before capture */
+  actions?: PageAction[]
+  /** Home Assistant state to wait for before capture (HA pages only) */
+  entityCondition?: EntityCondition
   lang?: string
   theme?: string
   dark?: boolean
@@ -154,7 +194,26 @@ export interface ScreenshotCaptureParams {
   invert?: boolean
   dithering?: DitheringConfig
   crop?: CropRegion | null
+  /** Element to capture; takes precedence over crop */
+  selector?: string
+  selectorPadding?: number
+  /** Capture the whole page; takes precedence over crop */
+  fullPage?: FullPageMode
+  /** 1-based page to capture in tile mode */
+  fullPageTile?: number
+  /** Must match the scaleFactor the page was navigated with */
+  scaleFactor?: ScaleFactor
+  resampleFilter?: ResampleFilter
   timestamp?: boolean
+  /** Layout of `raw` and `h` output */
+  raw?: RawOptions
+  /** Diff against the previous frame for frameKey */
+  changedRegion?: ChangedRegionMode
+  frameKey?: string
+  /** Return the processed pixels as `frame` */
+  keepFrame?: boolean
+  /** Share of the dashboard's entities (0-1) that may be unavailable */
+  maxUnavailable?: number
 }
 
 /** Navigation result */
@@ -162,6 +221,38 @@ interface NavigateResult {
   time: number
 }
 
+/**
+ * Per-worker page state. Each pool worker owns one page at a time, in a
+ * browser context of its own.
+ */
+interface WorkerState {
+  /**
+   * Outlives the worker's pages, so HA's frontend bundles stay cached, but
+   * keeps its localStorage (auth, theme, language) apart from other workers
+   */
+  context: BrowserContext | undefined
+  page: Page | undefined
+  busy: boolean
+  pageErrorDetected: boolean
+
+  // Cache last requested values to avoid unnecessary page updates
+  lastRequestedLang: string | undefined
+  lastRequestedTheme: string | undefined
+  lastRequestedDarkMode: boolean | undefined
+}
+
+function createWorkerState(): WorkerState {
+  return {
+    context: undefined,
+    page: undefined,
+    busy: false,
+    pageErrorDetected: false,
+    lastRequestedLang: undefined,
+    lastRequestedTheme: undefined,
+    lastRequestedDarkMode: undefined,
+  }
+}
+
 // =============================================================================
 // INJECTABLE DEPENDENCIES
 // =============================================================================
@@ -177,6 +268,8 @@ export interface BrowserDeps {
   processImage: typeof defaultProcessImage
   chromiumExecutable: string | undefined
   debugLogging: boolean
+  /** Number of worker pages that can capture concurrently */
+  poolSize: number
 }
 
 const defaultDeps: BrowserDeps = {
@@ -184,6 +277,7 @@ const defaultDeps: BrowserDeps = {
   processImage: defaultProcessImage,
   chromiumExecutable: defaultChromiumExecutable,
   debugLogging: defaultDebugLogging,
+  poolSize: BROWSER_POOL_SIZE,
 }
 
 // =============================================================================
@@ -197,15 +291,10 @@ export class Browser {
   #homeAssistantUrl: string
   #token: string
   #browser: PuppeteerBrowser | undefined
-  #page: Page | undefined
-  #busy: boolean = false
-  #pageErrorDetected: boolean = false
+  #workers: WorkerState[]
   #deps: BrowserDeps
-
-  // Cache last requested values to avoid unnecessary page updates
-  #lastRequestedLang: string | undefined
-  #lastRequestedTheme: string | undefined
-  #lastRequestedDarkMode: boolean | undefined
+  /** Last frame per schedule or URL, shared by all workers */
+  #frames = new FrameHistory()
 
   constructor(
     homeAssistantUrl: string,
@@ -215,17 +304,44 @@ export class Browser {
     this.#homeAssistantUrl = homeAssistantUrl
     this.#token = token
     this.#deps = { ...defaultDeps, ...deps }
+    this.#workers = Array.from(
+      { length: Math.max(1, this.#deps.poolSize) },
+      createWorkerState,
+    )
   }
 
+  /** True while any worker is mid-operation */
   get busy(): boolean {
-    return this.#busy
+    return this.#workers.some((w) => w.busy)
+  }
+
+  /** Number of worker pages in the pool */
+  get poolSize(): number {
+    return this.#workers.length
   }
 
   /**
    * Triggers page initialization (for recovery health checks).
    */
-  async triggerInit(): Promise<void> {
-    await this.#getPage()
+  async triggerInit(worker: number = 0): Promise<void> {
+    await this.#getPage(this.#worker(worker))
+  }
+
+  /**
+   * Closes one worker's page and browser context, leaving the browser and
+   * the other workers' captures running. The next use starts fresh.
+   */
+  async recycleWorker(worker: number): Promise<void> {
+    const state = this.#worker(worker)
+    const context = state.context
+    state.context = undefined
+    await this.#closePage(state)
+
+    try {
+      if (context) await context.close()
+    } catch (err) {
+      browserLog.debug`Error closing browser context: ${err}`
+    }
   }
 
   /**
@@ -243,25 +359,25 @@ export class Browser {
    * Cleans up browser and page resources, resetting all state.
    */
   async cleanup(): Promise<void> {
-    if (!this.#browser && !this.#page) return
+    const pages = this.#workers.flatMap((w) => (w.page ? [w.page] : []))
+    if (!this.#browser && pages.length === 0) return
 
     // Reset all state
-    const page = this.#page
     const browser = this.#browser
-
-    this.#page = undefined
     this.#browser = undefined
+    for (const worker of this.#workers) {
+      this.#resetWorker(worker)
+      // Closing the browser closes its contexts
+      worker.context = undefined
+    }
 
-    this.#lastRequestedLang = undefined
-    this.#lastRequestedTheme = undefined
-    this.#lastRequestedDarkMode = undefined
-    this.#pageErrorDetected = false
-
-    // Close page first, then browser
-    try {
-      if (page) await page.close()
-    } catch (err) {
-      browserLog.error`Error closing page during cleanup: ${err}`
+    // Close pages first, then browser
+    for (const page of pages) {
+      try {
+        await page.close()
+      } catch (err) {
+        browserLog.error`Error closing page during cleanup: ${err}`
+      }
     }
 
     try {
@@ -274,11 +390,35 @@ export class Browser {
   }
 
   /**
-   * Gets or creates Puppeteer page instance.
+   * Clears a worker's page reference and cached page state.
+   */
+  #resetWorker(worker: WorkerState): void {
+    worker.page = undefined
+    worker.lastRequestedLang = undefined
+    worker.lastRequestedTheme = undefined
+    worker.lastRequestedDarkMode = undefined
+    worker.pageErrorDetected = false
+  }
+
+  /**
+   * Resolves a pool worker by index.
+   */
+  #worker(index: number): WorkerState {
+    const worker = this.#workers[index]
+    if (!worker) throw new Error(`Unknown browser worker ${index}`)
+    return worker
+  }
+
+  /**
+   * Gets or creates the worker's Puppeteer page instance.
    * Separates browser launch from page creation to support per-request page recycling.
+   *
+   * NOTE: Each worker opens its pages in its own browser context. In a
+   * shared context, HA's localStorage is shared too: a theme or language set
+   * by one worker would leave another worker's lastRequested* cache stale.
    */
-  async #getPage(): Promise<Page> {
-    if (this.#page) return this.#page
+  async #getPage(worker: WorkerState): Promise<Page> {
+    if (worker.page) return worker.page
 
     // Launch browser if needed (reused across requests)
     if (!this.#browser) {
@@ -301,7 +441,10 @@ export class Browser {
         browser.on('disconnected', () => {
           browserLog.error`Browser process disconnected!`
           this.#browser = undefined
-          this.#page = undefined
+          for (const w of this.#workers) {
+            w.page = undefined
+            w.context = undefined
+          }
         })
 
         this.#browser = browser
@@ -312,16 +455,18 @@ export class Browser {
 
     // Create fresh page
     try {
-      const page = await timed('browser.newPage', () => this.#browser!.newPage())
+      worker.context ??= await this.#browser.createBrowserContext()
+      const context = worker.context
+      const page = await timed('browser.newPage', () => context.newPage())
       // Charts grow their bars from zero when data arrives, so a capture taken
       // during that would show empty axes. An e-ink display cannot show
       // animation in any case.
       await page.emulateMediaFeatures([
         { name: 'prefers-reduced-motion', value: 'reduce' },
       ])
-      this.#setupPageLogging(page)
-      this.#page = page
-      return this.#page
+      this.#setupPageLogging(page, worker)
+      worker.page = page
+      return page
     } catch (err) {
       throw new BrowserCrashError(err as Error)
     }
@@ -336,14 +481,9 @@ export class Browser {
    * component state, cached renders) in long-lived pages. Creating a fresh page
    * per request eliminates all accumulated state.
    */
-  async #closePage(): Promise<void> {
-    const page = this.#page
-    this.#page = undefined
-
-    this.#lastRequestedLang = undefined
-    this.#lastRequestedTheme = undefined
-    this.#lastRequestedDarkMode = undefined
-    this.#pageErrorDetected = false
+  async #closePage(worker: WorkerState): Promise<void> {
+    const page = worker.page
+    this.#resetWorker(worker)
 
     try {
       if (page) await page.close()
@@ -355,7 +495,7 @@ export class Browser {
   /**
    * Configures page event handlers for logging and error detection.
    */
-  #setupPageLogging(page: Page): void {
+  #setupPageLogging(page: Page, worker: WorkerState): void {
     page
       .on('framenavigated', (frame) => {
         browserLog.trace`Frame navigated: ${frame.url()}`
@@ -368,7 +508,7 @@ export class Browser {
       })
       .on('error', (err) => {
         browserLog.error`Page error: ${err}`
-        this.#pageErrorDetected = true
+        worker.pageErrorDetected = true
       })
       .on('pageerror', (error) => {
         const message = (error as Error).message || String(error)
@@ -381,7 +521,7 @@ export class Browser {
         }
 
         browserLog.warn`Page error: ${message}`
-        this.#pageErrorDetected = true
+        worker.pageErrorDetected = true
       })
       .on('requestfailed', (request) => {
         browserLog.debug`Request failed: ${
@@ -426,18 +566,24 @@ export class Browser {
    * Navigates to page and applies configuration (lang, theme, zoom).
    * If targetUrl is provided, navigates directly to that URL (generic mode).
    * Otherwise, resolves pagePath against the configured base URL (HA mode).
+   *
+   * @param worker - Pool worker index (from RequestQueue.acquire)
    */
-  async navigatePage(params: NavigateParams): Promise<NavigateResult> {
-    if (this.#busy) throw new Error('Browser is busy')
+  async navigatePage(
+    params: NavigateParams,
+    worker: number = 0,
+  ): Promise<NavigateResult> {
+    const state = this.#worker(worker)
+    if (state.busy) throw new Error('Browser is busy')
 
     const start = Date.now()
-    this.#busy = true
+    state.busy = true
     try {
-      await this.#runNavigation(params)
+      await this.#runNavigation(params, state)
       recordTiming('nav.total', Date.now() - start)
       return { time: Date.now() - start }
     } finally {
-      this.#busy = false
+      state.busy = false
     }
   }
 
@@ -445,23 +591,31 @@ export class Browser {
    * Navigates to the target page and runs the readiness pipeline.
    * Throws on hard errors (browser crash, navigation failure).
    */
-  async #runNavigation({
-    pagePath,
-    targetUrl,
-    viewport,
-    extraWait,
-    zoom = 1,
-    lang,
-    theme,
-    dark,
-  }: NavigateParams): Promise<void> {
+  async #runNavigation(
+    {
+      pagePath,
+      targetUrl,
+      viewport,
+      scaleFactor = 1,
+      extraWait,
+      zoom = 1,
+      css,
+      hide,
+      actions,
+      entityCondition,
+      lang,
+      theme,
+      dark,
+    }: NavigateParams,
+    worker: WorkerState,
+  ): Promise<void> {
     try {
       // Fresh page per request: close existing page to eliminate accumulated
       // stale state (WebSocket connections, cached renders, component state)
-      await this.#closePage()
+      await this.#closePage(worker)
 
-      const page = await this.#getPage()
-      await page.setViewport(viewport)
+      const page = await this.#getPage(worker)
+      await page.setViewport({ ...viewport, deviceScaleFactor: scaleFactor })
 
       const authStorage = this.#buildAuthStorage()
       const navigateCmd = new NavigateToPage(
@@ -478,28 +632,31 @@ export class Browser {
         log.error`Your Home Assistant access token appears to be invalid or expired`
         log.error`Please generate a new Long-Lived Access Token in your HA profile:`
         log.error`  Profile -> Security -> Long-Lived Access Tokens -> Create Token`
-        // Continue anyway - will capture the login page (helps user see the issue)
+        // Continue anyway: the capture shows the issue, and validation keeps
+        // it from replacing a good image on scheduled runs
       }
 
       // Apply page setup strategy (HA vs Generic have different requirements)
       const isGenericUrl = !!targetUrl
       const setupStrategy = getPageSetupStrategy(isGenericUrl)
+      const injectedCss = buildInjectedCss(css, hide)
       const setupResult = await timed('nav.setup', () =>
         setupStrategy.setup(page, {
           zoom,
+          css: injectedCss || undefined,
           theme,
           lang,
           dark,
-          lastTheme: this.#lastRequestedTheme,
-          lastLang: this.#lastRequestedLang,
-          lastDarkMode: this.#lastRequestedDarkMode,
+          lastTheme: worker.lastRequestedTheme,
+          lastLang: worker.lastRequestedLang,
+          lastDarkMode: worker.lastRequestedDarkMode,
         }),
       )
 
-      if (setupResult.langChanged) this.#lastRequestedLang = lang
+      if (setupResult.langChanged) worker.lastRequestedLang = lang
       if (setupResult.themeChanged) {
-        this.#lastRequestedTheme = theme
-        this.#lastRequestedDarkMode = dark
+        worker.lastRequestedTheme = theme
+        worker.lastRequestedDarkMode = dark
       }
 
       // An explicit wait adds to these stages rather than replacing them, so
@@ -523,6 +680,14 @@ export class Browser {
       if (!isGenericUrl) {
         const hassReadyCmd = new WaitForHassReady(page)
         await timed('nav.waitHassReady', () => hassReadyCmd.call())
+
+        // Scheduled captures may also wait for one entity to be current
+        if (entityCondition) {
+          const conditionCmd = new WaitForEntityCondition(page)
+          await timed('nav.waitEntity', () =>
+            conditionCmd.call(entityCondition),
+          )
+        }
       }
 
       // Stage 3: Wait for the dashboard to finish drawing
@@ -546,26 +711,43 @@ export class Browser {
         await timed('nav.waitWsIdle', () => wsIdleCmd.call())
       }
 
+      // Cards drawn after setup have shadow roots the first injection
+      // never saw; a second pass only reaches those
+      if (injectedCss) {
+        const styleCmd = new InjectStyles(page)
+        await timed('nav.injectStyles', () => styleCmd.call(injectedCss))
+      }
+
       // Stage 6: Wait for rendering pipeline to flush
       const paintCmd = new WaitForPaintStability(page)
       await timed('nav.waitPaint', () => paintCmd.call())
 
-      // Stage 6: Extra settling time for cards that fill in late
+      // Stage 7: Extra settling time for cards that fill in late
       if (extraWait && extraWait > 0) {
         log.debug`Explicit wait: ${extraWait}ms`
         await new Promise((resolve) => setTimeout(resolve, extraWait))
       }
 
+      // Stage 8: Scripted actions (switch a tab, expand a card, ...), then
+      // let whatever they changed finish painting
+      if (actions?.length) {
+        const actionsCmd = new RunPageActions(page)
+        await timed('nav.actions', () => actionsCmd.call(actions))
+        await paintCmd.call()
+      }
+
     } catch (err) {
-      this.#pageErrorDetected = false
+      worker.pageErrorDetected = false
 
       if (err instanceof BrowserCrashError) throw err
-      if (this.#pageErrorDetected) {
+      if (worker.pageErrorDetected) {
         throw new PageCorruptedError(
           `Navigation failed with page errors: ${(err as Error).message}`,
         )
       }
       if (err instanceof CannotOpenPageError) throw err
+      if (err instanceof PageActionError) throw err
+      if (err instanceof EntityConditionTimeoutError) throw err
 
       if (
         (err as Error).message?.includes('Target closed') ||
@@ -581,53 +763,179 @@ export class Browser {
 
   /**
    * Captures screenshot of current page with cropping and image processing.
+   *
+   * @param worker - Pool worker index that ran navigatePage()
    */
-  async screenshotPage({
-    format = 'png',
-    rotate,
-    invert,
-    dithering,
-    crop,
-    timestamp,
-  }: ScreenshotCaptureParams): Promise<ScreenshotResult> {
-    if (this.#busy) throw new Error('Browser is busy')
+  async screenshotPage(
+    {
+      viewport,
+      format = 'png',
+      rotate,
+      invert,
+      dithering,
+      crop,
+      selector,
+      selectorPadding,
+      fullPage,
+      fullPageTile,
+      scaleFactor = 1,
+      resampleFilter,
+      timestamp,
+      raw,
+      changedRegion,
+      frameKey,
+      keepFrame,
+      maxUnavailable,
+    }: ScreenshotCaptureParams,
+    worker: number = 0,
+  ): Promise<ScreenshotResult> {
+    const state = this.#worker(worker)
+    if (state.busy) throw new Error('Browser is busy')
 
     const start = Date.now()
-    this.#busy = true
+    state.busy = true
+    let stretched = false
     try {
-      const page = await this.#getPage()
+      const page = await this.#getPage(state)
+
+      // A full-page capture stretches the viewport to the content; a
+      // selector scrolls its element into view, so it never needs to
+      const fullPagePlan =
+        fullPage && !selector
+          ? await timed('capture.fullPage', () =>
+              new PrepareFullPage(page).call(
+                viewport,
+                fullPage,
+                fullPageTile,
+                scaleFactor,
+              ),
+            )
+          : null
+      stretched = !!fullPagePlan && fullPagePlan.height !== viewport.height
+
+      // A selector is located fresh on every capture, so it keeps working
+      // when the layout shifts; it replaces any fixed crop region
+      const region = selector
+        ? await timed('capture.locate', () =>
+            new LocateElement(page).call(selector, selectorPadding),
+          )
+        : (fullPagePlan?.clip ?? crop)
 
       // Capture screenshot (use crop clip if specified, otherwise full viewport)
-      const screenshotData = await timed('capture.screenshot', () =>
-        page.screenshot({
-          type: 'png',
-          ...(crop && crop.width > 0 && crop.height > 0 && {
-            clip: {
-              x: crop.x,
-              y: crop.y,
-              width: crop.width,
-              height: crop.height,
-            },
-          }),
-        }),
+      const clip =
+        region && region.width > 0 && region.height > 0
+          ? {
+              x: region.x,
+              y: region.y,
+              width: region.width,
+              height: region.height,
+            }
+          : undefined
+      const screenshotData = Buffer.from(
+        await timed('capture.screenshot', () =>
+          page.screenshot({ type: 'png', ...(clip && { clip }) }),
+        ),
       )
 
+      const rejection = await timed('capture.validate', () =>
+        new ValidateCapture(page).call(screenshotData, maxUnavailable),
+      )
+      if (rejection) {
+        log.warn`Capture looks bad (${rejection.problem}): ${rejection.detail}`
+      }
+
+      // Clips are in CSS pixels but a supersampled capture holds
+      // scaleFactor device pixels per CSS pixel; resample back to CSS size
+      // (a full-page fit already resamples to the display)
+      const resample =
+        scaleFactor > 1 && !fullPagePlan?.fit
+          ? {
+              width: clip?.width ?? viewport.width,
+              height: clip?.height ?? viewport.height,
+            }
+          : undefined
+
       // Process image with dithering and format conversion
       const startProcess = Date.now()
+      let budget: SizeBudgetResult | undefined
+      let rawLayout: RawLayout | undefined
+      let frame: OutputFrame | undefined
       const image = await timed('capture.process', () =>
-        this.#deps.processImage(Buffer.from(screenshotData), {
+        this.#deps.processImage(screenshotData, {
           format,
           rotate,
           invert,
           dithering,
           timestamp: timestamp || TIMESTAMP_OVERLAY,
+          fit: fullPagePlan?.fit,
+          resample,
+          filter: resampleFilter,
+          onBudget: (result) => {
+            budget = result
+          },
+          raw: {
+            ...raw,
+            onLayout: (layout) => {
+              rawLayout = layout
+            },
+          },
+          onFrame:
+            changedRegion || keepFrame
+              ? (result) => {
+                  frame = result
+                }
+              : undefined,
         }),
       )
       log.debug`Image processing took ${Date.now() - startProcess}ms`
 
+      // The frame is only recorded once delivered, and a bad capture never
+      // becomes the frame the next one is compared with
+      let changes: FrameChanges | undefined
+      let window: FrameWindow | undefined
+      let recordFrame: (() => void) | undefined
+      if (frame && frameKey && !rejection) {
+        const { pixels } = frame
+        changes = this.#frames.diff(frameKey, pixels)
+        recordFrame = () => this.#frames.record(frameKey, pixels)
+        if (changedRegion === 'window' && changes.bounds && !changes.full) {
+          let windowLayout: RawLayout | undefined
+          const windowImage = encodeWindow(frame, changes.bounds, {
+            format,
+            compressionLevel: dithering?.compressionLevel,
+            raw: {
+              ...raw,
+              onLayout: (layout) => {
+                windowLayout = layout
+              },
+            },
+          })
+          if (windowImage) {
+            window = { image: windowImage, raw: windowLayout }
+            changes.window = changes.bounds
+          }
+        }
+      }
+
       recordTiming('capture.total', Date.now() - start)
-      return { image, time: Date.now() - start }
+      return {
+        image,
+        time: Date.now() - start,
+        budget,
+        raw: rawLayout,
+        rejection: rejection ?? undefined,
+        changes,
+        window,
+        recordFrame,
+        frame: keepFrame ? frame?.pixels : undefined,
+        tiles:
+          fullPagePlan?.tile !== undefined
+            ? { tile: fullPagePlan.tile, count: fullPagePlan.pageCount }
+            : undefined,
+      }
     } catch (err) {
+      if (err instanceof ElementNotFoundError) throw err
+
       if (
         (err as Error).message?.includes('Target closed') ||
         (err as Error).message?.includes('Session closed') ||
@@ -636,7 +944,7 @@ export class Browser {
         throw new BrowserCrashError(err as Error)
       }
 
-      if (this.#pageErrorDetected) {
+      if (state.pageErrorDetected) {
         throw new PageCorruptedError(
           `Screenshot failed with page errors: ${(err as Error).message}`,
         )
@@ -644,7 +952,26 @@ export class Browser {
 
       throw err
     } finally {
-      this.#busy = false
+      if (stretched) {
+        await this.#restoreViewport(state, {
+          ...viewport,
+          deviceScaleFactor: scaleFactor,
+        })
+      }
+      state.busy = false
+    }
+  }
+
+  /** Puts a page stretched for a full-page capture back to display size */
+  async #restoreViewport(
+    state: WorkerState,
+    viewport: Viewport & { deviceScaleFactor: number },
+  ): Promise<void> {
+    try {
+      await state.page?.setViewport(viewport)
+    } catch (err) {
+      // The next navigation sets the viewport again anyway
+      log.debug`Could not restore viewport: ${(err as Error).message}`
     }
   }
 }
@@ -42,6 +42,7 @@ import { ScheduleExecutor } from '../../lib/scheduler/schedule-executor.js'
 import type {
   Schedule,
   ScreenshotParams,
+  ScreenshotResult,
   ImageFormat,
 } from '../../types/domain.js'
 import path from 'node:path'
@@ -76,7 +77,7 @@ describe('Webhook Integration', () => {
   // Mock screenshot function that returns fake image buffers
   const mockScreenshotFn = async (
     params: ScreenshotParams,
-  ): Promise<Buffer> => {
+  ): Promise<ScreenshotResult> => {
     const format: ImageFormat = params.format || 'png'
     let buffer: Buffer
 
@@ -89,7 +90,7 @@ describe('Webhook Integration', () => {
     }
 
     mockScreenshots.push({ params, buffer, timestamp: new Date() })
-    return buffer
+    return { image: buffer, time: 0 }
   }
 
   // Helper to upload to webhook (matches ScheduleExecutor error handling)
@@ -25,9 +25,11 @@ function createMockBrowser(
     initFails?: boolean
     initFailCount?: number
   } = {}
-): BrowserInstance & { calls: { cleanup: number; init: number } } {
+): BrowserInstance & {
+  calls: { cleanup: number; init: number; recycled: number[] }
+} {
   let initAttempts = 0
-  const calls = { cleanup: 0, init: 0 }
+  const calls = { cleanup: 0, init: 0, recycled: [] as number[] }
 
   return {
     calls,
@@ -45,6 +47,9 @@ function createMockBrowser(
         throw new Error('Init failed')
       }
     },
+    recycleWorker: async (worker) => {
+      calls.recycled.push(worker)
+    },
     isConnected: () => options.connected ?? true,
   }
 }
@@ -171,6 +176,7 @@ describe('BrowserFacade', () => {
       let initCalls = 0
       const slowBrowser: BrowserInstance = {
         cleanup: async () => {},
+        recycleWorker: async () => {},
         // Slow enough that the second recover() sees the first in flight
         triggerInit: async () => {
           initCalls++
@@ -282,4 +288,90 @@ describe('BrowserFacade', () => {
     })
   })
 
+  // ==========================================================================
+  // Per-worker health - pool of browser pages
+  // ==========================================================================
+
+  describe('with a worker pool', () => {
+    beforeEach(() => {
+      facade = new BrowserFacade(mockBrowser, { ...FAST_BACKOFF, workers: 3 })
+    })
+
+    it('counts failures separately per worker', () => {
+      facade.recordFailure(0)
+      facade.recordFailure(0)
+
+      expect(facade.recordFailure(1)).toBe(false)
+      expect(facade.recordFailure(0)).toBe(true)
+    })
+
+    it('success on one worker does not reset another', () => {
+      facade.recordFailure(1)
+      facade.recordFailure(1)
+      facade.recordFailure(1)
+
+      facade.recordSuccess(0)
+
+      const result = facade.checkHealth()
+      expect(result.healthy).toBe(false)
+      expect(result.reason).toBe('worker 1: 3 consecutive failures')
+    })
+
+    it('reports per-worker stats', () => {
+      facade.recordFailure(2)
+
+      const stats = facade.getStats()
+
+      expect(stats.workers).toHaveLength(3)
+      expect(stats.workers[2]!.consecutiveFailures).toBe(1)
+      expect(stats.consecutiveFailures).toBe(1)
+    })
+
+    it('recovers only the failing worker while the browser is up', async () => {
+      facade.recordFailure(0)
+      facade.recordFailure(2)
+
+      await facade.recover(2)
+
+      expect(mockBrowser.calls.recycled).toEqual([2])
+      expect(mockBrowser.calls.cleanup).toBe(0)
+      expect(facade.getStats().workers.map((w) => w.consecutiveFailures)).toEqual(
+        [1, 0, 0],
+      )
+    })
+
+    it('restarts the browser when worker recovery fails', async () => {
+      mockBrowser = createMockBrowser({ initFails: true, initFailCount: 1 })
+      facade = new BrowserFacade(mockBrowser, { ...FAST_BACKOFF, workers: 3 })
+
+      await facade.recover(1)
+
+      expect(mockBrowser.calls.recycled).toEqual([1])
+      expect(mockBrowser.calls.cleanup).toBe(1)
+    })
+
+    it('checks the health of one worker', () => {
+      facade.recordFailure(1)
+      facade.recordFailure(1)
+      facade.recordFailure(1)
+
+      expect(facade.checkHealth(0).healthy).toBe(true)
+      expect(facade.checkHealth(1).healthy).toBe(false)
+    })
+
+    it('resets every worker after a successful recovery', async () => {
+      facade.recordFailure(0)
+      facade.recordFailure(2)
+
+      await facade.recover()
+
+      expect(facade.getStats().workers.map((w) => w.consecutiveFailures)).toEqual(
+        [0, 0, 0],
+      )
+    })
+
+    it('rejects an unknown worker index', () => {
+      expect(() => facade.recordFailure(3)).toThrow('Unknown browser worker 3')
+    })
+  })
 })
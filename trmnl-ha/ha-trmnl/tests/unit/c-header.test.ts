@@ -0,0 +1,104 @@
+/**
+ * Unit tests for the C header encoder
+ *
+ * @module tests/unit/c-header
+ */
+
+import { describe, it, expect } from 'bun:test'
+import { processImage } from '../../lib/dithering.js'
+import { encodeCHeader, toCSymbol } from '../../lib/dithering/c-header.js'
+import { encodePng } from '../../lib/dithering/png.js'
+import type { RawLayout } from '../../types/domain.js'
+
+const layout: RawLayout = {
+  width: 16,
+  height: 1,
+  bitsPerPixel: 1,
+  bitOrder: 'msb',
+  planes: 1,
+  colors: ['#000000', '#FFFFFF'],
+}
+
+describe('toCSymbol', () => {
+  it('keeps valid identifiers', () => {
+    expect(toCSymbol('kitchen_dashboard')).toBe('kitchen_dashboard')
+  })
+
+  it('replaces other characters and guards a leading digit', () => {
+    expect(toCSymbol('living room-1')).toBe('living_room_1')
+    expect(toCSymbol('2nd floor')).toBe('_2nd_floor')
+  })
+
+  it('falls back to image when nothing usable is left', () => {
+    expect(toCSymbol(undefined)).toBe('image')
+    expect(toCSymbol('')).toBe('image')
+    expect(toCSymbol('---')).toBe('image')
+  })
+})
+
+describe('encodeCHeader', () => {
+  it('writes a PROGMEM array with size defines', () => {
+    const text = encodeCHeader(
+      Uint8Array.from([0xff, 0x0a]),
+      layout,
+      'kitchen',
+    ).toString()
+
+    expect(text).toContain('#ifndef KITCHEN_H')
+    expect(text).toContain('#define KITCHEN_WIDTH 16')
+    expect(text).toContain('#define KITCHEN_HEIGHT 1')
+    expect(text).toContain('#define KITCHEN_BITS_PER_PIXEL 1')
+    expect(text).toContain('// Palette: #000000, #FFFFFF')
+    expect(text).toContain(
+      'const uint8_t kitchen[2] PROGMEM = {\n  0xff, 0x0a,\n};',
+    )
+  })
+
+  it('breaks the array into lines of 16 bytes', () => {
+    const text = encodeCHeader(new Uint8Array(20), layout).toString()
+    const rows = text.split('\n').filter((line) => line.startsWith('  0x'))
+
+    expect(rows).toHaveLength(2)
+    expect(rows[0]!.split(', ')).toHaveLength(16)
+    expect(rows[1]!.split(', ')).toHaveLength(4)
+  })
+
+  it('writes one array per plane, labelled with its color', () => {
+    const text = encodeCHeader(
+      Uint8Array.from([0x90, 0x20]),
+      { ...layout, width: 4, planes: 2, colors: ['#000000', '#FF0000'] },
+      'panel',
+    ).toString()
+
+    expect(text).toContain('#define PANEL_PLANES 2')
+    expect(text).toContain(
+      '// Plane 0: pixels colored #000000\nconst uint8_t panel_0[1] PROGMEM = {\n  0x90,\n};',
+    )
+    expect(text).toContain(
+      '// Plane 1: pixels colored #FF0000\nconst uint8_t panel_1[1] PROGMEM = {\n  0x20,\n};',
+    )
+  })
+})
+
+describe('processImage with h format', () => {
+  it('dithers, packs and wraps the frame', async () => {
+    // Left half black, right half white
+    const data = Uint8Array.from({ length: 16 * 2 * 3 }, (_, i) =>
+      Math.floor(i / 3) % 16 < 8 ? 0 : 255,
+    )
+    const capture = encodePng({ width: 16, height: 2, channels: 3, data })
+    const layouts: RawLayout[] = []
+
+    const header = await processImage(capture, {
+      format: 'h',
+      native: true,
+      dithering: { enabled: true, palette: 'bw', method: 'threshold' },
+      raw: { symbol: 'frame', onLayout: (l) => layouts.push(l) },
+    })
+
+    expect(header.toString()).toContain(
+      'const uint8_t frame[4] PROGMEM = {\n  0x00, 0xff, 0x00, 0xff,\n};',
+    )
+    expect(layouts[0]).toMatchObject({ width: 16, height: 2, bitsPerPixel: 1 })
+  })
+})
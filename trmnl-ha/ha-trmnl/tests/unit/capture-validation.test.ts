@@ -0,0 +1,209 @@
+/**
+ * Unit tests for capture validation
+ *
+ * @module tests/unit/capture-validation
+ */
+
+import { describe, it, expect, afterEach } from 'bun:test'
+import {
+  classifyCapture,
+  uniformShare,
+  unavailableEntityRatio,
+  type CaptureInspection,
+} from '../../lib/browser/capture-validation.js'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+
+// =============================================================================
+// Fake DOM
+//
+// unavailableEntityRatio is shipped to the browser by page.evaluate, so it
+// reads globals. These fakes supply the few DOM members it uses.
+// =============================================================================
+
+interface FakeEl {
+  tagName: string
+  _config?: { entity?: unknown; entities?: unknown }
+  shadowRoot?: FakeEl
+  children?: FakeEl[]
+}
+
+function node(el: FakeEl): object {
+  const descendants = (el.children ?? []).flatMap(function all(
+    child: FakeEl,
+  ): FakeEl[] {
+    return [child, ...(child.children ?? []).flatMap(all)]
+  })
+
+  return {
+    tagName: el.tagName,
+    _config: el._config,
+    shadowRoot: el.shadowRoot ? node(el.shadowRoot) : null,
+    querySelectorAll: () => descendants.map(node),
+  }
+}
+
+/** Home Assistant page with `states`, showing `cards` in a shadow root */
+function installDashboard(
+  states: Record<string, string>,
+  cards: FakeEl[],
+): void {
+  const root = node({
+    tagName: '#document',
+    children: [
+      {
+        tagName: 'HOME-ASSISTANT',
+        shadowRoot: { tagName: '#shadow', children: cards },
+      },
+    ],
+  })
+  const hass = {
+    states: Object.fromEntries(
+      Object.entries(states).map(([id, state]) => [id, { state }]),
+    ),
+  }
+  ;(globalThis as unknown as { document: unknown }).document = {
+    ...root,
+    querySelector: () => ({ hass }),
+  }
+}
+
+/** 100x100 white frame with the first `dark` pixels black */
+function frame(dark: number): PixelBuffer {
+  const data = new Uint8Array(10000).fill(255)
+  data.fill(0, 0, dark)
+  return { width: 100, height: 100, channels: 1, data }
+}
+
+const dashboard: CaptureInspection = {
+  url: 'http://homeassistant.local:8123/lovelace/0',
+  unavailableRatio: 0.05,
+  pixels: frame(800),
+}
+
+describe('uniformShare', () => {
+  it('counts pixels near the most common brightness', () => {
+    expect(uniformShare(frame(0))).toBe(1)
+    expect(uniformShare(frame(100))).toBe(0.99)
+  })
+
+  it('treats faint noise as the same color', () => {
+    const noisy = frame(0)
+    noisy.data.forEach((_, i) => (noisy.data[i] = 250 + (i % 5)))
+    expect(uniformShare(noisy)).toBe(1)
+  })
+
+  it('reads color pixels by luma', () => {
+    const data = new Uint8Array(300).fill(255)
+    data.fill(0, 0, 30)
+    expect(uniformShare({ width: 10, height: 10, channels: 3, data })).toBe(
+      0.9,
+    )
+  })
+})
+
+describe('classifyCapture', () => {
+  it('accepts a normal dashboard', () => {
+    expect(classifyCapture(dashboard)).toBeNull()
+  })
+
+  it('rejects the login page', () => {
+    const rejection = classifyCapture({
+      ...dashboard,
+      url: 'http://homeassistant.local:8123/auth/authorize?client_id=x',
+    })
+    expect(rejection?.problem).toBe('login')
+  })
+
+  it('rejects the browser error page', () => {
+    const rejection = classifyCapture({
+      ...dashboard,
+      url: 'chrome-error://chromewebdata/',
+    })
+    expect(rejection?.problem).toBe('error-page')
+  })
+
+  it('rejects a dashboard of unavailable entities', () => {
+    const rejection = classifyCapture({ ...dashboard, unavailableRatio: 0.8 })
+    expect(rejection).toEqual({
+      problem: 'unavailable',
+      detail: "80% of the dashboard's entities are unavailable",
+    })
+  })
+
+  it('uses the threshold it is given', () => {
+    const strict = { ...dashboard, maxUnavailable: 0.2 }
+    const lenient = { ...dashboard, maxUnavailable: 1 }
+
+    expect(
+      classifyCapture({ ...strict, unavailableRatio: 0.3 })?.problem,
+    ).toBe('unavailable')
+    expect(classifyCapture({ ...lenient, unavailableRatio: 0.8 })).toBeNull()
+  })
+
+  it('rejects a blank frame', () => {
+    const rejection = classifyCapture({ ...dashboard, pixels: frame(5) })
+    expect(rejection?.problem).toBe('blank')
+  })
+
+  it('skips checks it has no data for', () => {
+    expect(
+      classifyCapture({ ...dashboard, unavailableRatio: null, pixels: null }),
+    ).toBeNull()
+  })
+})
+
+describe('unavailableEntityRatio', () => {
+  afterEach(() => {
+    delete (globalThis as { document?: unknown }).document
+  })
+
+  it('counts only the entities the cards show', () => {
+    installDashboard(
+      {
+        'sensor.kitchen': 'on',
+        'sensor.hallway': 'unavailable',
+        'light.garage': 'unavailable',
+        'light.porch': 'unavailable',
+      },
+      [
+        { tagName: 'HUI-TILE-CARD', _config: { entity: 'sensor.kitchen' } },
+        {
+          tagName: 'HUI-ENTITIES-CARD',
+          _config: {
+            entities: ['sensor.kitchen', { entity: 'sensor.hallway' }],
+          },
+        },
+      ],
+    )
+
+    expect(unavailableEntityRatio()).toBe(0.5)
+  })
+
+  it('finds rows inside card shadow roots', () => {
+    installDashboard({ 'sensor.kitchen': 'unavailable' }, [
+      {
+        tagName: 'HUI-ENTITIES-CARD',
+        shadowRoot: {
+          tagName: '#shadow',
+          children: [
+            {
+              tagName: 'HUI-SENSOR-ENTITY-ROW',
+              _config: { entity: 'sensor.kitchen' },
+            },
+          ],
+        },
+      },
+    ])
+
+    expect(unavailableEntityRatio()).toBe(1)
+  })
+
+  it('has nothing to report when no card names a known entity', () => {
+    installDashboard({ 'sensor.kitchen': 'unavailable' }, [
+      { tagName: 'HUI-MARKDOWN-CARD', _config: {} },
+      { tagName: 'HUI-TILE-CARD', _config: { entity: 'sensor.removed' } },
+    ])
+
+    expect(unavailableEntityRatio()).toBeNull()
+  })
+})
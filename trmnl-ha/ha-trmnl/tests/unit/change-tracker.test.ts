@@ -0,0 +1,115 @@
+/**
+ * Unit tests for the unchanged-frame tracker
+ *
+ * @module tests/unit/change-tracker
+ */
+
+import { describe, it, expect } from 'bun:test'
+import {
+  ChangeTracker,
+  pixelDifference,
+} from '../../lib/scheduler/change-tracker.js'
+import { encodePng } from '../../lib/dithering/png.js'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+import type { Schedule } from '../../types/domain.js'
+
+/** 10x10 gray frame with the first `dark` pixels black */
+function frame(dark: number): PixelBuffer {
+  const data = new Uint8Array(100).fill(255)
+  data.fill(0, 0, dark)
+  return { width: 10, height: 10, channels: 1, data }
+}
+
+const schedule = (overrides: Partial<Schedule> = {}) => ({
+  id: 'schedule-1',
+  webhook_url: 'https://example.com/hook',
+  skip_unchanged: true,
+  ...overrides,
+})
+
+describe('pixelDifference', () => {
+  it('returns the percentage of pixels that differ', () => {
+    expect(pixelDifference(frame(0), frame(0))).toBe(0)
+    expect(pixelDifference(frame(0), frame(5))).toBe(5)
+  })
+
+  it('returns null when the shapes differ', () => {
+    const wide = { ...frame(0), width: 20, height: 5 }
+    expect(pixelDifference(frame(0), wide)).toBeNull()
+  })
+})
+
+describe('ChangeTracker', () => {
+  const image = encodePng(frame(0))
+
+  it('delivers the first capture', () => {
+    const tracker = new ChangeTracker()
+
+    expect(tracker.unchanged(schedule(), image)).toBeNull()
+  })
+
+  it('reports a byte-identical capture as unchanged', () => {
+    const tracker = new ChangeTracker()
+    tracker.recordDelivery(schedule(), image)
+
+    expect(tracker.unchanged(schedule(), image)).toBe(
+      'identical to the last delivered frame',
+    )
+  })
+
+  it('does nothing unless skip_unchanged is set', () => {
+    const tracker = new ChangeTracker()
+    const off = schedule({ skip_unchanged: false })
+    tracker.recordDelivery(off, image)
+
+    expect(tracker.unchanged(off, image)).toBeNull()
+  })
+
+  it('delivers after the webhook URL changes', () => {
+    const tracker = new ChangeTracker()
+    tracker.recordDelivery(schedule(), image)
+
+    const moved = schedule({ webhook_url: 'https://example.com/other' })
+    expect(tracker.unchanged(moved, image)).toBeNull()
+  })
+
+  it('accepts small pixel changes within the tolerance', () => {
+    const tracker = new ChangeTracker()
+    const tolerant = schedule({ unchanged_tolerance: 2 })
+    tracker.recordDelivery(tolerant, image, frame(0))
+
+    expect(tracker.unchanged(tolerant, encodePng(frame(1)), frame(1))).toBe(
+      '1.00% of pixels differ (tolerance 2%)',
+    )
+    expect(
+      tracker.unchanged(tolerant, encodePng(frame(3)), frame(3)),
+    ).toBeNull()
+  })
+
+  it('compares the frames whatever the output format', () => {
+    const tracker = new ChangeTracker()
+    const tolerant = schedule({ unchanged_tolerance: 50 })
+    tracker.recordDelivery(tolerant, Buffer.from('bmp-1'), frame(0))
+
+    expect(
+      tracker.unchanged(tolerant, Buffer.from('bmp-2'), frame(10)),
+    ).toBe('10.00% of pixels differ (tolerance 50%)')
+  })
+
+  it('needs an exact match when the capture reports no frame', () => {
+    const tracker = new ChangeTracker()
+    const tolerant = schedule({ unchanged_tolerance: 50 })
+    tracker.recordDelivery(tolerant, Buffer.from('bmp-1'), frame(0))
+
+    expect(tracker.unchanged(tolerant, Buffer.from('bmp-2'))).toBeNull()
+  })
+
+  it('forces a delivery every force_every runs', () => {
+    const tracker = new ChangeTracker()
+    const forced = schedule({ force_every: 2 })
+    tracker.recordDelivery(forced, image)
+
+    expect(tracker.unchanged(forced, image)).not.toBeNull()
+    expect(tracker.unchanged(forced, image)).toBeNull()
+  })
+})
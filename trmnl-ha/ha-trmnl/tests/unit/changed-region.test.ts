@@ -0,0 +1,276 @@
+/**
+ * Unit tests for changed-region diffs
+ *
+ * Frames are built in memory; the processImage cases use the in-process
+ * pipeline, so no ImageMagick is required.
+ *
+ * @module tests/unit/changed-region
+ */
+
+import { describe, it, expect } from 'bun:test'
+import { processImage } from '../../lib/dithering.js'
+import {
+  FrameHistory,
+  boundingRegion,
+  changedRegionHeaders,
+  changedRegions,
+  encodeWindow,
+  type OutputFrame,
+} from '../../lib/dithering/changed-region.js'
+import { decodePng, encodePng } from '../../lib/dithering/png.js'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+import type { FrameChanges, RawLayout } from '../../types/domain.js'
+
+/** White gray frame */
+function blank(width: number, height: number): PixelBuffer {
+  const data = new Uint8Array(width * height).fill(255)
+  return { width, height, channels: 1, data }
+}
+
+/** Copy of `frame` with black pixels at `points` */
+function withDots(frame: PixelBuffer, points: [number, number][]): PixelBuffer {
+  const data = frame.data.slice()
+  for (const [x, y] of points) data[y * frame.width + x] = 0
+  return { ...frame, data }
+}
+
+describe('changedRegions', () => {
+  const frame = blank(64, 64)
+
+  it('finds nothing in identical frames', () => {
+    expect(changedRegions(frame, blank(64, 64))).toEqual([])
+  })
+
+  it('snaps left and right edges out to whole bytes', () => {
+    const regions = changedRegions(frame, withDots(frame, [[10, 5], [12, 7]]))
+
+    expect(regions).toEqual([{ x: 8, y: 5, width: 8, height: 3 }])
+  })
+
+  it('splits areas far enough apart into separate regions', () => {
+    const next = withDots(frame, [[0, 2], [40, 30], [50, 34]])
+
+    expect(changedRegions(next, frame)).toEqual([
+      { x: 0, y: 2, width: 8, height: 1 },
+      { x: 40, y: 30, width: 16, height: 5 },
+    ])
+  })
+
+  it('merges the closest regions down to the maximum', () => {
+    const next = withDots(frame, [[0, 0], [0, 20], [0, 60]])
+
+    const regions = changedRegions(frame, next, { gap: 4, max: 2 })
+
+    expect(regions).toEqual([
+      { x: 0, y: 0, width: 8, height: 21 },
+      { x: 0, y: 60, width: 8, height: 1 },
+    ])
+  })
+
+  it('compares every channel of color frames', () => {
+    const rgb: PixelBuffer = {
+      width: 16,
+      height: 2,
+      channels: 3,
+      data: new Uint8Array(16 * 2 * 3),
+    }
+    const data = rgb.data.slice()
+    data[(1 * 16 + 9) * 3 + 2] = 255
+
+    expect(changedRegions(rgb, { ...rgb, data }, { align: 1 })).toEqual([
+      { x: 9, y: 1, width: 1, height: 1 },
+    ])
+  })
+
+  it('keeps regions inside the frame', () => {
+    const narrow = blank(20, 4)
+
+    expect(changedRegions(narrow, withDots(narrow, [[19, 3]]))).toEqual([
+      { x: 16, y: 3, width: 4, height: 1 },
+    ])
+  })
+})
+
+describe('boundingRegion', () => {
+  it('covers every region', () => {
+    expect(
+      boundingRegion([
+        { x: 8, y: 2, width: 8, height: 1 },
+        { x: 0, y: 30, width: 16, height: 5 },
+      ]),
+    ).toEqual({ x: 0, y: 2, width: 16, height: 33 })
+    expect(boundingRegion([])).toBeNull()
+  })
+})
+
+describe('FrameHistory', () => {
+  const frame = blank(32, 16)
+
+  it('counts the first frame as changed everywhere', () => {
+    const changes = new FrameHistory().diff('kitchen', frame)
+
+    expect(changes).toEqual({
+      width: 32,
+      height: 16,
+      regions: [{ x: 0, y: 0, width: 32, height: 16 }],
+      bounds: { x: 0, y: 0, width: 32, height: 16 },
+      full: true,
+    })
+  })
+
+  it('diffs against the last frame recorded for the same key', () => {
+    const history = new FrameHistory()
+    history.record('kitchen', frame)
+    history.record('hallway', withDots(frame, [[0, 0]]))
+
+    const same = history.diff('kitchen', frame)
+    const changed = history.diff('kitchen', withDots(frame, [[20, 9]]))
+
+    expect(same).toMatchObject({ regions: [], bounds: null, full: false })
+    expect(changed.bounds).toEqual({ x: 16, y: 9, width: 8, height: 1 })
+  })
+
+  it('keeps only the frames it is told to record', () => {
+    const history = new FrameHistory()
+    history.record('kitchen', frame)
+    history.diff('kitchen', withDots(frame, [[20, 9]]))
+
+    expect(history.diff('kitchen', frame).bounds).toBeNull()
+  })
+
+  it('starts over when the frame size changes', () => {
+    const history = new FrameHistory()
+    history.record('kitchen', frame)
+
+    expect(history.diff('kitchen', blank(16, 32)).full).toBe(true)
+  })
+
+  it('drops the least recently used frame', () => {
+    const history = new FrameHistory(1)
+    history.record('kitchen', frame)
+    history.record('hallway', frame)
+
+    expect(history.diff('kitchen', frame).full).toBe(true)
+  })
+})
+
+describe('encodeWindow', () => {
+  const frame: OutputFrame = {
+    pixels: withDots(blank(32, 8), [[9, 2]]),
+    bitDepth: 1,
+    palette: null,
+  }
+  const region = { x: 8, y: 2, width: 8, height: 3 }
+
+  it('encodes just the window as PNG', () => {
+    const png = encodeWindow(frame, region, { format: 'png' })!
+    const pixels = decodePng(png)
+
+    expect(pixels.width).toBe(8)
+    expect(pixels.height).toBe(3)
+    expect(Array.from(pixels.data.subarray(0, 6))).toEqual([
+      255, 255, 255, 0, 0, 0,
+    ])
+  })
+
+  it('packs raw windows at the frame bit depth and reports their layout', () => {
+    const layouts: RawLayout[] = []
+    const raw = encodeWindow(frame, region, {
+      format: 'raw',
+      raw: { onLayout: (layout) => layouts.push(layout) },
+    })!
+
+    expect(Array.from(raw)).toEqual([0b10111111, 0xff, 0xff])
+    expect(layouts[0]).toMatchObject({ width: 8, height: 3, bitsPerPixel: 1 })
+  })
+
+  it('writes C header windows with their own size', () => {
+    const header = encodeWindow(frame, region, {
+      format: 'h',
+      raw: { symbol: 'clock' },
+    })!.toString()
+
+    expect(header).toContain('#define CLOCK_WIDTH 8')
+    expect(header).toContain('#define CLOCK_HEIGHT 3')
+  })
+
+  it('leaves JPEG to the full frame', () => {
+    expect(encodeWindow(frame, region, { format: 'jpeg' })).toBeNull()
+  })
+})
+
+describe('changedRegionHeaders', () => {
+  const changes: FrameChanges = {
+    width: 800,
+    height: 480,
+    regions: [
+      { x: 0, y: 0, width: 64, height: 24 },
+      { x: 400, y: 200, width: 120, height: 40 },
+    ],
+    bounds: { x: 0, y: 0, width: 520, height: 240 },
+    full: false,
+  }
+
+  it('describes the bounds, each region and the window sent', () => {
+    expect(
+      changedRegionHeaders({ ...changes, window: changes.bounds! }),
+    ).toEqual({
+      'X-Frame-Size': '800x480',
+      'X-Changed-Region': '0,0,520,240',
+      'X-Changed-Regions': '0,0,64,24;400,200,120,40',
+      'X-Frame-Window': '0,0,520,240',
+    })
+  })
+
+  it('reports none when nothing changed', () => {
+    expect(
+      changedRegionHeaders({ ...changes, regions: [], bounds: null }),
+    ).toEqual({ 'X-Frame-Size': '800x480', 'X-Changed-Region': 'none' })
+  })
+})
+
+describe('processImage with onFrame', () => {
+  const capture = encodePng({
+    width: 16,
+    height: 8,
+    channels: 3,
+    data: Uint8Array.from({ length: 16 * 8 * 3 }, (_, i) => (i * 7) % 256),
+  })
+
+  it('reports the pixels the output was encoded from', async () => {
+    const frames: OutputFrame[] = []
+
+    const image = await processImage(capture, {
+      format: 'png',
+      native: true,
+      invert: true,
+      dithering: { enabled: true, palette: 'bw', method: 'threshold' },
+      onFrame: (frame) => frames.push(frame),
+    })
+
+    expect(frames).toHaveLength(1)
+    expect(frames[0]!.bitDepth).toBe(1)
+    expect(
+      Array.from(decodePng(image).data.filter((_, i) => i % 3 === 0)),
+    ).toEqual(Array.from(frames[0]!.pixels.data))
+  })
+
+  it('reports the frame of the attempt that fit the size budget', async () => {
+    const frames: OutputFrame[] = []
+
+    const image = await processImage(capture, {
+      format: 'raw',
+      native: true,
+      dithering: {
+        enabled: true,
+        palette: 'gray-256',
+        method: 'floyd-steinberg',
+        maxBytes: 40,
+      },
+      onFrame: (frame) => frames.push(frame),
+    })
+
+    expect(frames).toHaveLength(1)
+    expect(image.length).toBe(16 * 8 * frames[0]!.bitDepth! / 8)
+  })
+})
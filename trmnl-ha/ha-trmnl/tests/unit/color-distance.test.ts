@@ -0,0 +1,142 @@
+/**
+ * Unit tests for perceptual color matching
+ *
+ * Pure unit tests — no ImageMagick required. Reference differences come from
+ * Sharma, Wu and Dalal's CIEDE2000 test data.
+ *
+ * @module tests/unit/color-distance
+ */
+
+import { describe, it, expect } from 'bun:test'
+import {
+  deltaE2000,
+  deltaE94,
+  labDiffusion,
+  perceptualQuantizer,
+  srgbToLab,
+} from '../../lib/dithering/color-distance.js'
+import {
+  DIFFUSION_KERNELS,
+  diffuseErrors,
+} from '../../lib/dithering/error-diffusion.js'
+import { mapToPalette } from '../../lib/dithering/pixel-ops.js'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+
+const SEVEN_COLOR = [
+  [0, 0, 0],
+  [255, 255, 255],
+  [255, 0, 0],
+  [0, 255, 0],
+  [0, 0, 255],
+  [255, 255, 0],
+  [255, 128, 0],
+]
+
+function rgbImage(width: number, height: number, rgb: number[]): PixelBuffer {
+  const data = new Uint8Array(width * height * 3)
+  for (let i = 0; i < data.length; i += 3) data.set(rgb, i)
+  return { width, height, channels: 3, data }
+}
+
+describe('srgbToLab', () => {
+  it('maps white to L=100 with no chroma', () => {
+    const [L, a, b] = srgbToLab(255, 255, 255)
+    expect(L).toBeCloseTo(100, 2)
+    expect(a).toBeCloseTo(0, 2)
+    expect(b).toBeCloseTo(0, 2)
+  })
+
+  it('maps black to L=0', () => {
+    expect(srgbToLab(0, 0, 0)[0]).toBeCloseTo(0, 4)
+  })
+
+  it('matches the published Lab value of sRGB red', () => {
+    const [L, a, b] = srgbToLab(255, 0, 0)
+    expect(L).toBeCloseTo(53.24, 1)
+    expect(a).toBeCloseTo(80.09, 1)
+    expect(b).toBeCloseTo(67.2, 1)
+  })
+})
+
+describe('deltaE2000', () => {
+  it.each([
+    [[50, 2.6772, -79.7751], [50, 0, -82.7485], 2.0425],
+    [[50, 0, 0], [50, -1, 2], 2.3669],
+    [[50, 2.5, 0], [73, 25, -18], 27.1492],
+    [[2.0776, 0.0795, -1.135], [0.9033, -0.0636, -0.5514], 0.9082],
+  ] as const)('matches reference pair %#', (x, y, expected) => {
+    expect(deltaE2000(x, y)).toBeCloseTo(expected, 4)
+  })
+
+  it('is symmetric and zero for identical colors', () => {
+    const x = [60, 20, -30] as const
+    const y = [55, -10, 15] as const
+    expect(deltaE2000(x, y)).toBeCloseTo(deltaE2000(y, x), 10)
+    expect(deltaE2000(x, x)).toBe(0)
+  })
+})
+
+describe('deltaE94', () => {
+  it('equals the lightness difference for neutral grays', () => {
+    expect(deltaE94([40, 0, 0], [55, 0, 0])).toBeCloseTo(15, 10)
+  })
+
+  it('weighs chroma less for saturated references', () => {
+    const plain = Math.hypot(0, 10)
+    expect(deltaE94([50, 60, 0], [50, 70, 0])).toBeLessThan(plain)
+  })
+})
+
+describe('perceptualQuantizer', () => {
+  it('keeps a dark blue on blue where RGB picks black', () => {
+    const navy = rgbImage(1, 1, [40, 40, 110])
+
+    const rgb = mapToPalette(navy, SEVEN_COLOR)
+    const lab = mapToPalette(navy, SEVEN_COLOR, 'ciede2000')
+
+    expect([...rgb.data]).toEqual([0, 0, 0])
+    expect([...lab.data]).toEqual([0, 0, 255])
+  })
+
+  it('returns palette colors exactly', () => {
+    const quantize = perceptualQuantizer(SEVEN_COLOR, 'cie94')
+    for (const color of SEVEN_COLOR) {
+      expect(Array.from(quantize(Float32Array.from(color)))).toEqual(color)
+    }
+  })
+})
+
+describe('labDiffusion', () => {
+  it('only outputs palette colors', () => {
+    const { quantize, space } = labDiffusion(SEVEN_COLOR, 'ciede2000')
+    const out = diffuseErrors(rgbImage(16, 8, [200, 140, 110]), quantize, {
+      kernel: DIFFUSION_KERNELS['floyd-steinberg'],
+      space,
+    })
+
+    const palette = new Set(SEVEN_COLOR.map((c) => c.join(',')))
+    for (let i = 0; i < out.data.length; i += 3) {
+      expect(palette.has([...out.data.subarray(i, i + 3)].join(','))).toBe(
+        true,
+      )
+    }
+  })
+
+  it('mixes colors to approximate a tone between them', () => {
+    const { quantize, space } = labDiffusion(
+      [
+        [0, 0, 0],
+        [255, 255, 255],
+      ],
+      'ciede2000',
+    )
+    const out = diffuseErrors(rgbImage(16, 16, [128, 128, 128]), quantize, {
+      kernel: DIFFUSION_KERNELS['floyd-steinberg'],
+      space,
+    })
+
+    const white = out.data.filter((v) => v === 255).length / 3
+    expect(white).toBeGreaterThan(0)
+    expect(white).toBeLessThan(256)
+  })
+})
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for conditional GET validators.
+ *
+ * @module tests/unit/conditional-get
+ */
+
+import { describe, it, expect } from 'bun:test'
+import {
+  computeEtag,
+  isNotModified,
+  RenderValidators,
+} from '../../lib/conditional-get.js'
+
+const validators = {
+  etag: computeEtag(Buffer.from('frame')),
+  lastModified: new Date('2026-07-07T07:28:07.051Z'),
+}
+
+describe('computeEtag', () => {
+  it('returns the same quoted tag for identical content', () => {
+    const a = computeEtag(Buffer.from('frame'))
+
+    expect(a).toBe(computeEtag(Buffer.from('frame')))
+    expect(a).toMatch(/^".+"$/)
+  })
+
+  it('returns different tags for different content', () => {
+    expect(computeEtag(Buffer.from('a'))).not.toBe(computeEtag(Buffer.from('b')))
+  })
+})
+
+describe('isNotModified', () => {
+  it('is false without conditional headers', () => {
+    expect(isNotModified({}, validators)).toBe(false)
+  })
+
+  it('matches an ETag from a list, ignoring weak prefixes', () => {
+    const headers = { 'if-none-match': `"other", W/${validators.etag}` }
+
+    expect(isNotModified(headers, validators)).toBe(true)
+  })
+
+  it('is false when no ETag matches', () => {
+    expect(isNotModified({ 'if-none-match': '"other"' }, validators)).toBe(
+      false,
+    )
+  })
+
+  it('ignores If-Modified-Since when If-None-Match is present', () => {
+    const headers = {
+      'if-none-match': '"other"',
+      'if-modified-since': 'Wed, 01 Jan 2030 00:00:00 GMT',
+    }
+
+    expect(isNotModified(headers, validators)).toBe(false)
+  })
+
+  it('compares If-Modified-Since at second precision', () => {
+    // lastModified has .051s; the HTTP date the client echoes back has none
+    const headers = { 'if-modified-since': validators.lastModified.toUTCString() }
+
+    expect(isNotModified(headers, validators)).toBe(true)
+  })
+
+  it('is false for an unparseable date', () => {
+    expect(
+      isNotModified({ 'if-modified-since': 'yesterday' }, validators),
+    ).toBe(false)
+  })
+})
+
+describe('RenderValidators', () => {
+  it('keeps Last-Modified while the rendered content is unchanged', () => {
+    const tracker = new RenderValidators()
+    const first = tracker.track('/lovelace/0', Buffer.from('a'), new Date(1000))
+
+    const second = tracker.track('/lovelace/0', Buffer.from('a'), new Date(9000))
+
+    expect(second.lastModified).toEqual(first.lastModified)
+  })
+
+  it('advances Last-Modified when the content changes', () => {
+    const tracker = new RenderValidators()
+    tracker.track('/lovelace/0', Buffer.from('a'), new Date(1000))
+
+    const next = tracker.track('/lovelace/0', Buffer.from('b'), new Date(9000))
+
+    expect(next.lastModified).toEqual(new Date(9000))
+  })
+
+  it('tracks URLs independently', () => {
+    const tracker = new RenderValidators()
+    tracker.track('/a', Buffer.from('x'), new Date(1000))
+
+    const other = tracker.track('/b', Buffer.from('x'), new Date(9000))
+
+    expect(other.lastModified).toEqual(new Date(9000))
+  })
+})
@@ -22,6 +22,7 @@ import {
   isNetworkError,
   parseOptionsFile,
   resolveNavigationTimeout,
+  resolveBrowserPoolSize,
   OptionsParseError,
   NETWORK_ERROR_PATTERNS,
 } from '../../lib/config-helpers.js'
@@ -53,6 +54,30 @@ describe('resolveNavigationTimeout', () => {
   })
 })
 
+// =============================================================================
+// Browser Pool Size Resolution
+// =============================================================================
+
+describe('resolveBrowserPoolSize', () => {
+  it('prefers the options file value', () => {
+    expect(resolveBrowserPoolSize(2, '3')).toBe(2)
+  })
+
+  it('falls back to the environment variable', () => {
+    expect(resolveBrowserPoolSize(undefined, '3')).toBe(3)
+  })
+
+  it('defaults to a single worker', () => {
+    expect(resolveBrowserPoolSize(undefined, undefined)).toBe(1)
+    expect(resolveBrowserPoolSize(undefined, 'abc')).toBe(1)
+  })
+
+  it('clamps to between 1 and 4 workers', () => {
+    expect(resolveBrowserPoolSize(0, undefined)).toBe(1)
+    expect(resolveBrowserPoolSize(undefined, '16')).toBe(4)
+  })
+})
+
 // =============================================================================
 // Timezone Validation
 // =============================================================================
@@ -0,0 +1,150 @@
+/**
+ * Tests for Device Store registration and CRUD operations.
+ *
+ * Uses temp files (passed via filePath overload) so no module mocking is needed.
+ *
+ * @see lib/deviceStore.ts
+ * @module tests/unit/device-store
+ */
+
+import { describe, it, expect, afterAll } from 'bun:test'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import {
+  loadDevices,
+  registerDevice,
+  updateDevice,
+  deleteDevice,
+} from '../../lib/deviceStore.js'
+import type { DeviceUpdate } from '../../types/domain.js'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const tmpFiles: string[] = []
+
+function tmpFile(): string {
+  const file = path.join(
+    os.tmpdir(),
+    `trmnl-test-devices-${Date.now()}-${Math.random().toString(36).slice(2)}.json`,
+  )
+  tmpFiles.push(file)
+  return file
+}
+
+afterAll(async () => {
+  await Promise.all(tmpFiles.map((f) => fs.unlink(f).catch(() => {})))
+})
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('deviceStore', () => {
+  describe('#loadDevices', () => {
+    it('returns empty array when file does not exist', async () => {
+      expect(await loadDevices('/tmp/nonexistent-devices.json')).toEqual([])
+    })
+
+    it('returns empty array when file contains invalid JSON', async () => {
+      const file = tmpFile()
+      await fs.writeFile(file, 'not valid json {{{')
+
+      expect(await loadDevices(file)).toEqual([])
+    })
+  })
+
+  describe('#registerDevice', () => {
+    it('creates a device with api key and friendly id', async () => {
+      const file = tmpFile()
+
+      const device = (await registerDevice(file, 'aa:bb:cc:dd:ee:ff'))!
+
+      expect(device.mac).toBe('AA:BB:CC:DD:EE:FF')
+      expect(device.api_key).toMatch(/^[0-9a-f]{32}$/)
+      expect(device.friendly_id).toMatch(/^[0-9A-F]{6}$/)
+      expect(device.schedule_id).toBeNull()
+    })
+
+    it('does not hand out the key of a known MAC again', async () => {
+      const file = tmpFile()
+      await registerDevice(file, 'AA:BB:CC:DD:EE:FF')
+
+      const second = await registerDevice(file, 'aa:bb:cc:dd:ee:ff')
+
+      expect(second).toBeNull()
+      expect(await loadDevices(file)).toHaveLength(1)
+    })
+
+    it('registers concurrent setups without losing devices', async () => {
+      const file = tmpFile()
+
+      await Promise.all([
+        registerDevice(file, '11:11:11:11:11:11'),
+        registerDevice(file, '22:22:22:22:22:22'),
+        registerDevice(file, '33:33:33:33:33:33'),
+      ])
+
+      expect(await loadDevices(file)).toHaveLength(3)
+    })
+  })
+
+  describe('#updateDevice', () => {
+    it('assigns a schedule to a device', async () => {
+      const file = tmpFile()
+      const device = (await registerDevice(file, 'AA:BB:CC:DD:EE:FF'))!
+
+      const updated = await updateDevice(file, device.id, {
+        schedule_id: 'schedule-1',
+      })
+
+      expect(updated!.schedule_id).toBe('schedule-1')
+    })
+
+    it('never overwrites the MAC or API key', async () => {
+      const file = tmpFile()
+      const device = (await registerDevice(file, 'AA:BB:CC:DD:EE:FF'))!
+
+      const updated = await updateDevice(file, device.id, {
+        name: 'Kitchen',
+        api_key: 'stolen',
+      } as DeviceUpdate)
+
+      expect(updated!.name).toBe('Kitchen')
+      expect(updated!.api_key).toBe(device.api_key)
+    })
+
+    it('never overwrites the friendly ID or creation time', async () => {
+      const file = tmpFile()
+      const device = (await registerDevice(file, 'AA:BB:CC:DD:EE:FF'))!
+
+      const updated = await updateDevice(file, device.id, {
+        friendly_id: 'XXXXXX',
+        createdAt: '2000-01-01T00:00:00.000Z',
+      } as DeviceUpdate)
+
+      expect(updated!.friendly_id).toBe(device.friendly_id)
+      expect(updated!.createdAt).toBe(device.createdAt)
+    })
+
+    it('returns null for an unknown device', async () => {
+      expect(await updateDevice(tmpFile(), 'missing', { name: 'x' })).toBeNull()
+    })
+  })
+
+  describe('#deleteDevice', () => {
+    it('removes the device', async () => {
+      const file = tmpFile()
+      const device = (await registerDevice(file, 'AA:BB:CC:DD:EE:FF'))!
+
+      expect(await deleteDevice(file, device.id)).toBe(true)
+      expect(await loadDevices(file)).toEqual([])
+    })
+
+    it('returns false for an unknown device', async () => {
+      expect(await deleteDevice(tmpFile(), 'missing')).toBe(false)
+    })
+  })
+})
@@ -17,7 +17,10 @@ import {
   isFullSpectrumPalette,
   validateDitheringOptions,
 } from '../../lib/dithering.js'
-import type { DitheringMethod } from '../../types/domain.js'
+import type { OutputFrame } from '../../lib/dithering/changed-region.js'
+import { decodePng, encodePng } from '../../lib/dithering/png.js'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+import type { DitheringMethod, Palette } from '../../types/domain.js'
 import gmLib from 'gm'
 
 const gm = gmLib.subClass({ imageMagick: true })
@@ -89,6 +92,12 @@ describeDithering('Dithering Module', () => {
         'floyd-steinberg',
         'ordered',
         'threshold',
+        'atkinson',
+        'stucki',
+        'sierra',
+        'burkes',
+        'jarvis',
+        'hybrid',
       ])
     })
   })
@@ -250,6 +259,13 @@ describeDithering('Dithering Module', () => {
       const result24 = validateDitheringOptions({ palette: 'color-24bit' })
       expect(result24.saturationBoost).toBe(true)
     })
+
+    it('keeps custom palette ids and treats them as color palettes', () => {
+      const result = validateDitheringOptions({ palette: 'custom-1-abc' })
+
+      expect(result.palette).toBe('custom-1-abc')
+      expect(result.saturationBoost).toBe(true)
+    })
   })
 
   // ==========================================================================
@@ -857,4 +873,112 @@ describeDithering('Dithering Module', () => {
       })
     }
   })
+
+  // ==========================================================================
+  // Native pipeline parity - the same fixtures in process and through gm
+  // ==========================================================================
+
+  describe('native pipeline parity', () => {
+    // Gray ramp on top, color ramp below, so both gray levels and palette
+    // colors are exercised, not just the black/white test image
+    const rampImage = encodePng({
+      width: 120,
+      height: 60,
+      channels: 3,
+      data: Uint8Array.from({ length: 120 * 60 * 3 }, (_, i) => {
+        const x = Math.floor(i / 3) % 120
+        const y = Math.floor(i / 3 / 120)
+        if (y < 30) return Math.round((x * 255) / 119)
+        return [Math.round((x * 255) / 119), 255 - x * 2, y * 4][i % 3]!
+      }),
+    })
+
+    /** Largest average gap between 10x10 block means, 0-255 */
+    const PARITY_TOLERANCE = 12
+
+    // Dither patterns differ in phase between the two pipelines, so compare
+    // the average of each block rather than single pixels
+    function blockMeans({ width, height, data }: PixelBuffer): number[] {
+      const means: number[] = []
+      for (let by = 0; by < height; by += 10) {
+        for (let bx = 0; bx < width; bx += 10) {
+          for (let c = 0; c < 3; c++) {
+            let sum = 0
+            let count = 0
+            for (let y = by; y < Math.min(by + 10, height); y++) {
+              for (let x = bx; x < Math.min(bx + 10, width); x++) {
+                sum += data[(y * width + x) * 3 + c]!
+                count++
+              }
+            }
+            means.push(sum / count)
+          }
+        }
+      }
+      return means
+    }
+
+    async function render(
+      image: Buffer,
+      native: boolean,
+      palette: Palette,
+      method: DitheringMethod,
+    ): Promise<{ pixels: PixelBuffer; frame: OutputFrame }> {
+      let frame: OutputFrame | undefined
+      const output = await processImage(image, {
+        format: 'png',
+        native,
+        dithering: { enabled: true, palette, method },
+        onFrame: (result) => {
+          frame = result
+        },
+      })
+      return { pixels: decodePng(output), frame: frame! }
+    }
+
+    const cases: [Palette, DitheringMethod][] = [
+      ['bw', 'floyd-steinberg'],
+      ['bw', 'threshold'],
+      ['bw', 'ordered'],
+      ['bw', 'atkinson'],
+      ['bw', 'stucki'],
+      ['bw', 'sierra'],
+      ['bw', 'burkes'],
+      ['bw', 'jarvis'],
+      ['bw', 'hybrid'],
+      ['gray-4', 'floyd-steinberg'],
+      ['gray-4', 'threshold'],
+      ['gray-4', 'ordered'],
+      ['gray-4', 'atkinson'],
+      ['gray-4', 'hybrid'],
+      ['gray-16', 'ordered'],
+      ['gray-16', 'floyd-steinberg'],
+      ['color-3bwr', 'threshold'],
+      ['color-3bwr', 'floyd-steinberg'],
+      ['color-6a', 'threshold'],
+      ['color-6a', 'floyd-steinberg'],
+      ['color-6a', 'sierra'],
+      ['color-7a', 'ordered'],
+      ['color-7a', 'floyd-steinberg'],
+    ]
+
+    for (const [palette, method] of cases) {
+      it(`matches ImageMagick for ${palette} with ${method}`, async () => {
+        for (const image of [testImageBuffer, rampImage]) {
+          const native = await render(image, true, palette, method)
+          const magick = await render(image, false, palette, method)
+
+          expect(native.pixels.width).toBe(magick.pixels.width)
+          expect(native.pixels.height).toBe(magick.pixels.height)
+          expect(native.frame.bitDepth).toBe(magick.frame.bitDepth)
+          expect(native.frame.palette).toEqual(magick.frame.palette)
+
+          const a = blockMeans(native.pixels)
+          const b = blockMeans(magick.pixels)
+          const gap = a.reduce((sum, v, i) => sum + Math.abs(v - b[i]!), 0)
+          expect(gap / a.length).toBeLessThanOrEqual(PARITY_TOLERANCE)
+        }
+      })
+    }
+  })
 })
@@ -0,0 +1,236 @@
+/**
+ * Unit tests for the element locator
+ *
+ * Verifies the shadow-piercing search, card title matching, padding and
+ * the errors raised when a selector finds nothing.
+ *
+ * @module tests/unit/element-locator
+ */
+
+import { describe, it, expect } from 'bun:test'
+import {
+  LocateElement,
+  locateElementBox,
+  padElementBox,
+  type ElementBox,
+} from '../../lib/browser/element-locator.js'
+import { ElementNotFoundError } from '../../error.js'
+import type { Page } from 'puppeteer'
+
+// =============================================================================
+// Fake DOM
+//
+// locateElementBox is shipped to the browser by page.evaluate, so it reads
+// globals. These fakes supply the few DOM methods it uses.
+// =============================================================================
+
+interface FakeEl {
+  tagName: string
+  /** Selectors this element answers to, since the fake does not parse CSS. */
+  matches?: string[]
+  header?: string
+  box?: ElementBox
+  shadowRoot?: FakeEl | null
+  children?: FakeEl[]
+}
+
+interface FakeNode {
+  tagName: string
+  matches: string[]
+  header?: string
+  shadowRoot: FakeNode | null
+  querySelectorAll: (s: string) => FakeNode[]
+  getAttribute: (name: string) => string | null
+  getBoundingClientRect: () => ElementBox & { left: number; top: number }
+  scrollIntoView: () => void
+}
+
+function node(el: FakeEl): FakeNode {
+  const children = (el.children ?? []).map(node)
+  const descendants = children.flatMap((c) => [c, ...c.querySelectorAll('*')])
+  const box = el.box ?? { x: 0, y: 0, width: 0, height: 0 }
+
+  return {
+    tagName: el.tagName,
+    matches: el.matches ?? [],
+    header: el.header,
+    shadowRoot: el.shadowRoot ? node(el.shadowRoot) : null,
+    querySelectorAll: (sel) =>
+      sel === '*'
+        ? descendants
+        : descendants.filter((d) => d.matches.includes(sel)),
+    getAttribute: () => null,
+    getBoundingClientRect: () => ({ ...box, left: box.x, top: box.y }),
+    scrollIntoView: () => {},
+  }
+}
+
+function installDom(children: FakeEl[], scrollY: number = 0): void {
+  const root = node({ tagName: '#document', children })
+  const globals = globalThis as unknown as {
+    document: unknown
+    window: unknown
+  }
+  globals.document = root
+  globals.window = { scrollX: 0, scrollY }
+}
+
+const CARD_BOX = { x: 16, y: 64, width: 360, height: 200 }
+
+/** A Home Assistant style tree: the card sits two shadow roots deep. */
+function dashboardWith(card: FakeEl): FakeEl[] {
+  return [
+    {
+      tagName: 'HOME-ASSISTANT',
+      shadowRoot: {
+        tagName: '#shadow',
+        children: [
+          {
+            tagName: 'HUI-VIEW',
+            shadowRoot: { tagName: '#shadow', children: [card] },
+          },
+        ],
+      },
+    },
+  ]
+}
+
+// =============================================================================
+// locateElementBox
+// =============================================================================
+
+describe('locateElementBox', () => {
+  it('finds an element inside nested shadow roots', () => {
+    installDom(
+      dashboardWith({
+        tagName: 'HUI-ENTITIES-CARD',
+        matches: ['hui-entities-card'],
+        box: CARD_BOX,
+      }),
+    )
+
+    expect(locateElementBox('hui-entities-card')).toEqual(CARD_BOX)
+  })
+
+  it('returns document coordinates when the page is scrolled', () => {
+    installDom(
+      dashboardWith({
+        tagName: 'HUI-ENTITIES-CARD',
+        matches: ['hui-entities-card'],
+        box: CARD_BOX,
+      }),
+      500,
+    )
+
+    expect(locateElementBox('hui-entities-card')!.y).toBe(564)
+  })
+
+  it('skips matches that take up no space', () => {
+    installDom([
+      { tagName: 'HUI-ENTITIES-CARD', matches: ['hui-entities-card'] },
+      ...dashboardWith({
+        tagName: 'HUI-ENTITIES-CARD',
+        matches: ['hui-entities-card'],
+        box: CARD_BOX,
+      }),
+    ])
+
+    expect(locateElementBox('hui-entities-card')).toEqual(CARD_BOX)
+  })
+
+  it('matches a card by its title, ignoring case', () => {
+    installDom(
+      dashboardWith({
+        tagName: 'HA-CARD',
+        header: 'Living Room',
+        box: CARD_BOX,
+      }),
+    )
+
+    expect(locateElementBox('title=living room')).toEqual(CARD_BOX)
+  })
+
+  it('returns null when nothing matches', () => {
+    installDom(
+      dashboardWith({ tagName: 'HA-CARD', header: 'Kitchen', box: CARD_BOX }),
+    )
+
+    expect(locateElementBox('title=Living Room')).toBeNull()
+    expect(locateElementBox('hui-entities-card')).toBeNull()
+  })
+})
+
+// =============================================================================
+// padElementBox
+// =============================================================================
+
+describe('padElementBox', () => {
+  it('grows the box on every side', () => {
+    expect(padElementBox(CARD_BOX, 8)).toEqual({
+      x: 8,
+      y: 56,
+      width: 376,
+      height: 216,
+    })
+  })
+
+  it('rounds fractional edges outwards', () => {
+    expect(
+      padElementBox({ x: 10.6, y: 20.2, width: 100.1, height: 50 }, 0),
+    ).toEqual({ x: 10, y: 20, width: 101, height: 51 })
+  })
+
+  it('does not extend past the top-left corner of the page', () => {
+    expect(padElementBox({ x: 4, y: 0, width: 100, height: 50 }, 10)).toEqual({
+      x: 0,
+      y: 0,
+      width: 114,
+      height: 60,
+    })
+  })
+})
+
+// =============================================================================
+// LocateElement
+// =============================================================================
+
+describe('LocateElement', () => {
+  const pageReturning = (evaluate: () => Promise<unknown>): Page =>
+    ({ evaluate }) as unknown as Page
+
+  it('returns the padded region of the element', async () => {
+    const page = pageReturning(async () => CARD_BOX)
+
+    const region = await new LocateElement(page).call('hui-entities-card', 8)
+
+    expect(region).toEqual({ x: 8, y: 56, width: 376, height: 216 })
+  })
+
+  it('throws ElementNotFoundError when nothing matches', async () => {
+    const page = pageReturning(async () => null)
+
+    const locate = new LocateElement(page).call('hui-entities-card')
+
+    await expect(locate).rejects.toBeInstanceOf(ElementNotFoundError)
+  })
+
+  it('throws ElementNotFoundError for malformed CSS', async () => {
+    const page = pageReturning(async () => {
+      throw new Error("'hui-card[' is not a valid selector.")
+    })
+
+    const locate = new LocateElement(page).call('hui-card[')
+
+    await expect(locate).rejects.toBeInstanceOf(ElementNotFoundError)
+  })
+
+  it('passes other errors through', async () => {
+    const page = pageReturning(async () => {
+      throw new Error('Target closed')
+    })
+
+    const locate = new LocateElement(page).call('hui-entities-card')
+
+    await expect(locate).rejects.toThrow('Target closed')
+  })
+})
@@ -0,0 +1,137 @@
+/**
+ * Unit tests for the pre-dither enhancement stage
+ *
+ * Pure unit tests — no ImageMagick required.
+ *
+ * @module tests/unit/enhance
+ */
+
+import { describe, it, expect } from 'bun:test'
+import {
+  applyToneCurve,
+  enhanceArgs,
+  enhancePixels,
+  equalizeLocalContrast,
+  unsharpMask,
+} from '../../lib/dithering/enhance.js'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+
+function grayImage(width: number, height: number, value: number): PixelBuffer {
+  return {
+    width,
+    height,
+    channels: 1,
+    data: new Uint8Array(width * height).fill(value),
+  }
+}
+
+/** Left half `dark`, right half `light` */
+function edgeImage(dark: number, light: number): PixelBuffer {
+  const pixels = grayImage(16, 4, dark)
+  pixels.data.forEach((_, i) => {
+    if (i % 16 >= 8) pixels.data[i] = light
+  })
+  return pixels
+}
+
+describe('enhanceArgs', () => {
+  it('queues nothing by default', () => {
+    expect(enhanceArgs()).toEqual([])
+    expect(enhanceArgs({ gamma: 1, contrast: 0, sharpenAmount: 0 })).toEqual(
+      [],
+    )
+  })
+
+  it('queues the enabled steps in pipeline order', () => {
+    expect(
+      enhanceArgs({
+        sharpenAmount: 0.8,
+        gamma: 1.2,
+        contrast: 3,
+        contrastMidpoint: 40,
+        clahe: true,
+      }),
+    ).toEqual([
+      '-clahe',
+      '25x25%+128+3',
+      '-sigmoidal-contrast',
+      '3x40%',
+      '-gamma',
+      '1.2',
+      '-unsharp',
+      '0x1+0.8+0',
+    ])
+  })
+})
+
+describe('applyToneCurve', () => {
+  it('brightens midtones with gamma above 1', () => {
+    const result = applyToneCurve(grayImage(1, 1, 64), 0, 50, 2)
+
+    expect(result.data[0]).toBe(128)
+  })
+
+  it('steepens around the midpoint and keeps black and white', () => {
+    const pixels: PixelBuffer = {
+      width: 4,
+      height: 1,
+      channels: 1,
+      data: Uint8Array.of(0, 96, 160, 255),
+    }
+
+    const result = applyToneCurve(pixels, 5, 50, 1)
+
+    expect(result.data[0]).toBe(0)
+    expect(result.data[1]).toBeLessThan(96)
+    expect(result.data[2]).toBeGreaterThan(160)
+    expect(result.data[3]).toBe(255)
+  })
+})
+
+describe('unsharpMask', () => {
+  it('increases contrast across an edge', () => {
+    const result = unsharpMask(edgeImage(80, 160), 1, 1)
+
+    expect(result.data[7]).toBeLessThan(80)
+    expect(result.data[8]).toBeGreaterThan(160)
+  })
+
+  it('leaves flat areas alone', () => {
+    const result = unsharpMask(grayImage(8, 8, 120), 2, 3)
+
+    expect(result.data.every((v) => v === 120)).toBe(true)
+  })
+})
+
+describe('equalizeLocalContrast', () => {
+  it('stretches a low-contrast image', () => {
+    const result = equalizeLocalContrast(edgeImage(110, 140))
+    const range = Math.max(...result.data) - Math.min(...result.data)
+
+    expect(range).toBeGreaterThan(30)
+  })
+
+  it('keeps a color pixel neutral when it starts neutral', () => {
+    const pixels: PixelBuffer = {
+      width: 8,
+      height: 8,
+      channels: 3,
+      data: new Uint8Array(192).map((_, i) => (i < 96 ? 100 : 150)),
+    }
+
+    const { data } = equalizeLocalContrast(pixels)
+
+    for (let i = 0; i < data.length; i += 3) {
+      expect(data[i]).toBe(data[i + 1]!)
+      expect(data[i + 1]).toBe(data[i + 2]!)
+    }
+  })
+})
+
+describe('enhancePixels', () => {
+  it('returns the input untouched when nothing is enabled', () => {
+    const pixels = edgeImage(10, 200)
+
+    expect(enhancePixels(pixels, {})).toBe(pixels)
+  })
+})
@@ -0,0 +1,192 @@
+/**
+ * Unit tests for the error-diffusion engine and strategy
+ *
+ * Pure unit tests — no ImageMagick required. The engine works on raw pixel
+ * buffers, so small synthetic images exercise it directly.
+ *
+ * @module tests/unit/error-diffusion
+ */
+
+import { describe, it, expect } from 'bun:test'
+import {
+  DIFFUSION_KERNELS,
+  diffuseErrors,
+  levelQuantizer,
+  paletteQuantizer,
+} from '../../lib/dithering/error-diffusion.js'
+import { ErrorDiffusionStrategy } from '../../lib/dithering/error-diffusion-strategy.js'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+
+function grayImage(width: number, height: number, value: number): PixelBuffer {
+  return {
+    width,
+    height,
+    channels: 1,
+    data: new Uint8Array(width * height).fill(value),
+  }
+}
+
+const mean = (data: Uint8Array): number =>
+  data.reduce((sum, v) => sum + v, 0) / data.length
+
+// =============================================================================
+// Kernels
+// =============================================================================
+
+describe('DIFFUSION_KERNELS', () => {
+  it('only pushes error forward, to unvisited pixels', () => {
+    for (const kernel of Object.values(DIFFUSION_KERNELS)) {
+      for (const [dx, dy] of kernel.taps) {
+        expect(dy > 0 || (dy === 0 && dx > 0)).toBe(true)
+      }
+    }
+  })
+
+  it('passes on all of the error, except Atkinson which keeps 3/4', () => {
+    for (const [name, kernel] of Object.entries(DIFFUSION_KERNELS)) {
+      const total = kernel.taps.reduce((sum, [, , w]) => sum + w, 0)
+      expect(total / kernel.divisor).toBe(name === 'atkinson' ? 0.75 : 1)
+    }
+  })
+})
+
+// =============================================================================
+// Quantizers
+// =============================================================================
+
+describe('levelQuantizer', () => {
+  it('snaps to evenly spaced levels and clamps overshoot', () => {
+    const quantize = levelQuantizer(1, 4)
+
+    expect(Array.from(quantize(Float32Array.of(100)))).toEqual([85])
+    expect(Array.from(quantize(Float32Array.of(300)))).toEqual([255])
+    expect(Array.from(quantize(Float32Array.of(-40)))).toEqual([0])
+  })
+})
+
+describe('paletteQuantizer', () => {
+  it('picks the nearest palette color', () => {
+    const quantize = paletteQuantizer([
+      [0, 0, 0],
+      [255, 255, 255],
+      [255, 0, 0],
+    ])
+
+    expect(quantize(Float32Array.of(200, 40, 30))).toEqual([255, 0, 0])
+    expect(quantize(Float32Array.of(230, 220, 240))).toEqual([255, 255, 255])
+  })
+})
+
+// =============================================================================
+// diffuseErrors
+// =============================================================================
+
+describe('diffuseErrors', () => {
+  it('dithers mid-gray to a black and white mix of the same brightness', () => {
+    const result = diffuseErrors(grayImage(32, 32, 128), levelQuantizer(1, 2), {
+      kernel: DIFFUSION_KERNELS.stucki,
+    })
+
+    expect(new Set(result.data)).toEqual(new Set([0, 255]))
+    expect(Math.abs(mean(result.data) - 128)).toBeLessThan(8)
+  })
+
+  it('keeps pixels that are already a target color', () => {
+    const result = diffuseErrors(grayImage(8, 8, 255), levelQuantizer(1, 2), {
+      kernel: DIFFUSION_KERNELS.jarvis,
+    })
+
+    expect(result.data.every((v) => v === 255)).toBe(true)
+  })
+
+  it('mirrors the kernel on odd rows when scanning serpentine', () => {
+    // Two dim pixels at the right end of row 1. Whichever is visited first
+    // rounds down to black and pushes its error onto the other one.
+    const pixels = grayImage(4, 2, 0)
+    pixels.data[6] = 100
+    pixels.data[7] = 100
+    const forward = diffuseErrors(pixels, levelQuantizer(1, 2), {
+      kernel: DIFFUSION_KERNELS['floyd-steinberg'],
+      serpentine: false,
+    })
+    const serpentine = diffuseErrors(pixels, levelQuantizer(1, 2), {
+      kernel: DIFFUSION_KERNELS['floyd-steinberg'],
+    })
+
+    expect(Array.from(forward.data.subarray(4))).toEqual([0, 0, 0, 255])
+    expect(Array.from(serpentine.data.subarray(4))).toEqual([0, 0, 255, 0])
+  })
+
+  it('limits the error passed on with errorClamp', () => {
+    const options = { kernel: DIFFUSION_KERNELS.atkinson }
+    const light = grayImage(16, 16, 40)
+
+    const free = diffuseErrors(light, levelQuantizer(1, 2), options)
+    const clamped = diffuseErrors(light, levelQuantizer(1, 2), {
+      ...options,
+      errorClamp: 10,
+    })
+
+    expect(mean(free.data)).toBeGreaterThan(0)
+    expect(mean(clamped.data)).toBe(0)
+  })
+
+  it('thresholds crisp pixels without taking or passing on error', () => {
+    const crisp = new Uint8Array(16).fill(1)
+    crisp[0] = 0
+
+    const result = diffuseErrors(grayImage(16, 1, 100), levelQuantizer(1, 2), {
+      kernel: DIFFUSION_KERNELS['floyd-steinberg'],
+      crisp,
+    })
+
+    expect(Array.from(result.data)).toEqual(new Array<number>(16).fill(0))
+  })
+
+  it('does not modify the input buffer', () => {
+    const pixels = grayImage(4, 4, 128)
+
+    diffuseErrors(pixels, levelQuantizer(1, 2), {
+      kernel: DIFFUSION_KERNELS.burkes,
+    })
+
+    expect(pixels.data.every((v) => v === 128)).toBe(true)
+  })
+})
+
+// =============================================================================
+// ErrorDiffusionStrategy
+// =============================================================================
+
+describe('ErrorDiffusionStrategy', () => {
+  const strategy = new ErrorDiffusionStrategy(DIFFUSION_KERNELS.sierra)
+
+  it('diffuses to the palette gray levels', () => {
+    const result = strategy.diffuse(grayImage(16, 16, 100), {
+      mode: 'grayscale',
+      colors: 4,
+    })
+
+    for (const v of result.data) expect([0, 85, 170, 255]).toContain(v)
+  })
+
+  it('diffuses to the hex colors of a color palette', () => {
+    const pixels: PixelBuffer = {
+      width: 8,
+      height: 8,
+      channels: 3,
+      data: new Uint8Array(8 * 8 * 3).map((_, i) => (i % 3 === 0 ? 220 : 90)),
+    }
+
+    const result = strategy.diffuse(pixels, {
+      mode: 'color',
+      palette: ['#000000', '#FFFFFF', '#FF0000'],
+    })
+
+    const colors = new Set<string>()
+    for (let i = 0; i < result.data.length; i += 3) {
+      colors.add(Array.from(result.data.subarray(i, i + 3)).join(','))
+    }
+    expect([...colors].sort()).toEqual(['0,0,0', '255,0,0', '255,255,255'])
+  })
+})
@@ -13,6 +13,10 @@ import {
   PageCorruptedError,
   BrowserHealthCheckError,
   BrowserRecoveryFailedError,
+  QueueFullError,
+  ElementNotFoundError,
+  PageActionError,
+  EntityConditionTimeoutError,
 } from '../../error.js'
 
 describe('Custom Error Classes', () => {
@@ -194,4 +198,76 @@ describe('Custom Error Classes', () => {
     })
   })
 
+  // ==========================================================================
+  // QueueFullError
+  // ==========================================================================
+
+  describe('QueueFullError', () => {
+    it('has correct name property', () => {
+      const error = new QueueFullError(10, 30)
+
+      expect(error.name).toBe('QueueFullError')
+    })
+
+    it('stores depth and retry delay', () => {
+      const error = new QueueFullError(10, 30)
+
+      expect(error.depth).toBe(10)
+      expect(error.retryAfterSeconds).toBe(30)
+    })
+  })
+
+  // ==========================================================================
+  // ElementNotFoundError
+  // ==========================================================================
+
+  describe('ElementNotFoundError', () => {
+    it('has correct name property', () => {
+      const error = new ElementNotFoundError('hui-entities-card')
+
+      expect(error.name).toBe('ElementNotFoundError')
+    })
+
+    it('includes the selector in the message', () => {
+      const error = new ElementNotFoundError('hui-entities-card')
+
+      expect(error.selector).toBe('hui-entities-card')
+      expect(error.message).toContain('hui-entities-card')
+    })
+  })
+
+  // ==========================================================================
+  // PageActionError
+  // ==========================================================================
+
+  describe('PageActionError', () => {
+    it('has correct name property', () => {
+      const error = new PageActionError(0, 'click', 'timed out')
+
+      expect(error.name).toBe('PageActionError')
+    })
+
+    it('numbers the failing step from one in the message', () => {
+      const error = new PageActionError(1, 'click', 'timed out')
+
+      expect(error.step).toBe(1)
+      expect(error.action).toBe('click')
+      expect(error.message).toBe('Page action 2 (click) failed: timed out')
+    })
+  })
+  // ==========================================================================
+  // EntityConditionTimeoutError
+  // ==========================================================================
+
+  describe('EntityConditionTimeoutError', () => {
+    it('names the entity and the timeout', () => {
+      const error = new EntityConditionTimeoutError('sensor.outdoor', 30000)
+
+      expect(error.name).toBe('EntityConditionTimeoutError')
+      expect(error.entityId).toBe('sensor.outdoor')
+      expect(error.message).toBe(
+        'Entity condition on sensor.outdoor not met within 30000ms',
+      )
+    })
+  })
 })
@@ -0,0 +1,24 @@
+/**
+ * Unit tests for the shared HTML escape used by the schedule editor
+ *
+ * @module tests/unit/escape-html
+ */
+
+import { describe, it, expect } from 'bun:test'
+import { escapeHtml } from '../../html/js/escape-html.js'
+
+describe('escapeHtml', () => {
+  it('escapes markup in text content', () => {
+    expect(escapeHtml('a > b && c < d')).toBe('a &gt; b &amp;&amp; c &lt; d')
+  })
+
+  it('escapes both kinds of quote for attribute values', () => {
+    expect(escapeHtml(`"><script>x('1')</script>`)).toBe(
+      '&quot;&gt;&lt;script&gt;x(&#39;1&#39;)&lt;/script&gt;',
+    )
+  })
+
+  it('leaves plain palette names alone', () => {
+    expect(escapeHtml('Spectra 6 (measured)')).toBe('Spectra 6 (measured)')
+  })
+})
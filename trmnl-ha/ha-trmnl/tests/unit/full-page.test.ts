@@ -0,0 +1,236 @@
+/**
+ * Unit tests for full-page capture
+ *
+ * Verifies content measurement through shadow roots and the scale and tile
+ * capture plans.
+ *
+ * @module tests/unit/full-page
+ */
+
+import { describe, it, expect, mock } from 'bun:test'
+import {
+  MAX_FULL_PAGE_HEIGHT,
+  PrepareFullPage,
+  measureContentHeight,
+  planFullPage,
+  tileHeaders,
+} from '../../lib/browser/full-page.js'
+import type { Page } from 'puppeteer'
+
+const DISPLAY = { width: 800, height: 480 }
+
+// =============================================================================
+// Fake DOM
+//
+// measureContentHeight is shipped to the browser by page.evaluate, so it
+// reads globals. These fakes supply the few DOM members it uses.
+// =============================================================================
+
+interface FakeEl {
+  tagName: string
+  top?: number
+  height?: number
+  scrollHeight?: number
+  shadowRoot?: FakeEl | null
+  children?: FakeEl[]
+}
+
+interface FakeNode {
+  tagName: string
+  scrollHeight: number
+  shadowRoot: FakeNode | null
+  querySelectorAll: (s: string) => FakeNode[]
+  getBoundingClientRect: () => { top: number; height: number }
+}
+
+function node(el: FakeEl): FakeNode {
+  const children = (el.children ?? []).map(node)
+  const descendants = children.flatMap((c) => [c, ...c.querySelectorAll('*')])
+
+  return {
+    tagName: el.tagName,
+    scrollHeight: el.scrollHeight ?? el.height ?? 0,
+    shadowRoot: el.shadowRoot ? node(el.shadowRoot) : null,
+    querySelectorAll: () => descendants,
+    getBoundingClientRect: () => ({ top: el.top ?? 0, height: el.height ?? 0 }),
+  }
+}
+
+function installDom(children: FakeEl[], documentHeight: number): void {
+  const root = node({ tagName: '#document', children })
+  const globals = globalThis as unknown as {
+    document: unknown
+    window: unknown
+  }
+  globals.document = {
+    ...root,
+    documentElement: { scrollHeight: documentHeight },
+    body: { scrollHeight: documentHeight },
+  }
+  globals.window = { scrollY: 0 }
+}
+
+/** Lovelace view inside the shadow root of a window-sized scroll container */
+function dashboardWith(view: FakeEl): FakeEl[] {
+  return [
+    {
+      tagName: 'HOME-ASSISTANT',
+      shadowRoot: {
+        tagName: '#shadow',
+        children: [
+          {
+            tagName: 'HUI-ROOT',
+            height: 480,
+            shadowRoot: { tagName: '#shadow', children: [view] },
+          },
+        ],
+      },
+    },
+  ]
+}
+
+// =============================================================================
+// measureContentHeight
+// =============================================================================
+
+describe('measureContentHeight', () => {
+  it('measures a view that scrolls inside its container', () => {
+    installDom(
+      dashboardWith({ tagName: 'HUI-SECTIONS-VIEW', top: 56, height: 1400 }),
+      480,
+    )
+
+    expect(measureContentHeight()).toBe(1456)
+  })
+
+  it('includes content overflowing the view', () => {
+    installDom(
+      dashboardWith({
+        tagName: 'HUI-VIEW',
+        top: 56,
+        height: 424,
+        scrollHeight: 2000,
+      }),
+      480,
+    )
+
+    expect(measureContentHeight()).toBe(2056)
+  })
+
+  it('falls back to the document height off Lovelace', () => {
+    installDom([{ tagName: 'DIV', height: 900 }], 1500)
+
+    expect(measureContentHeight()).toBe(1500)
+  })
+})
+
+// =============================================================================
+// planFullPage
+// =============================================================================
+
+describe('planFullPage', () => {
+  it('captures everything and fits it to the display in scale mode', () => {
+    expect(planFullPage(1200, DISPLAY, 'scale')).toEqual({
+      height: 1200,
+      clip: { x: 0, y: 0, width: 800, height: 1200 },
+      fit: DISPLAY,
+      pageCount: 3,
+    })
+  })
+
+  it('leaves content that already fits alone', () => {
+    const plan = planFullPage(300, DISPLAY, 'scale')
+
+    expect(plan.height).toBe(480)
+    expect(plan.fit).toBeUndefined()
+  })
+
+  it('captures one display-sized page in tile mode', () => {
+    expect(planFullPage(1200, DISPLAY, 'tile', 2)).toEqual({
+      height: 1440,
+      clip: { x: 0, y: 480, width: 800, height: 480 },
+      pageCount: 3,
+      tile: 2,
+    })
+  })
+
+  it('clamps the tile to the pages the content spans', () => {
+    expect(planFullPage(1200, DISPLAY, 'tile', 9)).toMatchObject({
+      clip: { y: 960 },
+      tile: 3,
+    })
+    expect(planFullPage(1200, DISPLAY, 'tile', 0)).toMatchObject({
+      clip: { y: 0 },
+      tile: 1,
+    })
+  })
+
+  it('caps the height Chromium is asked to render', () => {
+    expect(planFullPage(100000, DISPLAY, 'scale').height).toBe(
+      MAX_FULL_PAGE_HEIGHT,
+    )
+  })
+
+  it('lowers the cap for supersampled captures', () => {
+    expect(planFullPage(100000, DISPLAY, 'scale', 1, 2).height).toBe(
+      MAX_FULL_PAGE_HEIGHT / 2,
+    )
+    expect(planFullPage(100000, DISPLAY, 'scale', 1, 3).height).toBe(5461)
+  })
+
+  it('keeps every tile under the cap in device pixels', () => {
+    const plan = planFullPage(100000, DISPLAY, 'tile', 99, 2)
+
+    // 8192 CSS px hold 17 whole 480 px pages
+    expect(plan).toMatchObject({ height: 8160, pageCount: 17, tile: 17 })
+    expect(plan.height * 2).toBeLessThanOrEqual(MAX_FULL_PAGE_HEIGHT)
+  })
+})
+
+// =============================================================================
+// tileHeaders
+// =============================================================================
+
+describe('tileHeaders', () => {
+  it('names the tile and how many there are', () => {
+    expect(tileHeaders({ tile: 2, count: 3 })).toEqual({
+      'X-Tile': '2',
+      'X-Tile-Count': '3',
+    })
+  })
+})
+
+// =============================================================================
+// PrepareFullPage
+// =============================================================================
+
+describe('PrepareFullPage', () => {
+  function pageWithContent(height: number) {
+    return {
+      evaluate: mock(async () => height),
+      setViewport: mock(async (_v: unknown) => {}),
+      waitForFunction: mock(async () => {}),
+    }
+  }
+
+  it('stretches the viewport to the content', async () => {
+    const page = pageWithContent(1200)
+
+    await new PrepareFullPage(page as unknown as Page).call(DISPLAY, 'scale')
+
+    expect(page.setViewport).toHaveBeenCalledWith({
+      width: 800,
+      height: 1200,
+      deviceScaleFactor: 1,
+    })
+    expect(page.waitForFunction).toHaveBeenCalled()
+  })
+
+  it('leaves a page that fits the display alone', async () => {
+    const page = pageWithContent(400)
+
+    await new PrepareFullPage(page as unknown as Page).call(DISPLAY, 'tile')
+
+    expect(page.setViewport).not.toHaveBeenCalled()
+  })
+})
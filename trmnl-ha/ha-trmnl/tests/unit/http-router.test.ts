@@ -64,6 +64,7 @@ import type { IncomingMessage, ServerResponse } from 'node:http'
 /** Mock HTTP request */
 interface MockRequest {
   method: string
+  headers: Record<string, string>
   on: (event: string, callback: (...args: unknown[]) => void) => void
 }
 
@@ -87,6 +88,7 @@ describe('HttpRouter', () => {
   // Helper to create fake HTTP request (no body)
   const createRequest = (method: string = 'GET'): MockRequest => ({
     method,
+    headers: {},
     on: (event: string, callback: () => void) => {
       if (event === 'end') callback()
     },
@@ -98,6 +100,7 @@ describe('HttpRouter', () => {
     body: string,
   ): MockRequest => ({
     method,
+    headers: {},
     on: (event: string, callback: (...args: unknown[]) => void) => {
       if (event === 'data') callback(Buffer.from(body))
       if (event === 'end') callback()
@@ -959,6 +962,96 @@ describe('HttpRouter', () => {
       expect(mockResponse.headers['content-type']).toBe('application/json')
       expect(body.map((p) => p.value)).toContain('bw')
     })
+
+    it('lists custom palettes after the built-in ones, with their colors', async () => {
+      const colors = [
+        { perceived: '#202020', output: '#000000' },
+        { perceived: '#E0E0D8', output: '#FFFFFF' },
+      ]
+      router = new HttpRouter(mockFacade, null, {
+        ...mockDeps,
+        loadPalettes: async () => [
+          {
+            id: 'custom-1',
+            name: 'Measured',
+            colors,
+            createdAt: '2024-01-01T00:00:00.000Z',
+            updatedAt: '2024-01-01T00:00:00.000Z',
+          },
+        ],
+      })
+
+      await router.route(
+        mockRequest as unknown as IncomingMessage,
+        mockResponse as unknown as ServerResponse,
+        new URL('http://localhost/api/palettes'),
+      )
+
+      const body = JSON.parse(mockResponse.body as string) as unknown[]
+      expect(body[0]).toMatchObject({ value: 'bw' })
+      expect(body.at(-1)).toEqual({ value: 'custom-1', label: 'Measured', colors })
+    })
+  })
+
+  // ==========================================================================
+  // Custom Palettes API - POST /api/palettes, PUT/DELETE /api/palettes/:id
+  // ==========================================================================
+
+  describe('custom palettes', () => {
+    it('returns 400 with the validation error for invalid input', async () => {
+      router = new HttpRouter(mockFacade, null, {
+        ...mockDeps,
+        createPalette: async () => {
+          throw new Error('Palette name is required')
+        },
+      })
+      mockRequest = createRequestWithBody('POST', JSON.stringify({ colors: [] }))
+
+      await router.route(
+        mockRequest as unknown as IncomingMessage,
+        mockResponse as unknown as ServerResponse,
+        new URL('http://localhost/api/palettes'),
+      )
+
+      expect(mockResponse.statusCode).toBe(400)
+      expect(JSON.parse(mockResponse.body as string)).toEqual({
+        error: 'Palette name is required',
+      })
+    })
+
+    it('passes the id from the path to updatePalette', async () => {
+      const updatePalette = mock(async (id: string) => ({ id }))
+      router = new HttpRouter(mockFacade, null, {
+        ...mockDeps,
+        updatePalette,
+      } as unknown as HttpRouterDeps)
+      mockRequest = createRequestWithBody('PUT', JSON.stringify({ name: 'x' }))
+
+      await router.route(
+        mockRequest as unknown as IncomingMessage,
+        mockResponse as unknown as ServerResponse,
+        new URL('http://localhost/api/palettes/custom-42'),
+      )
+
+      expect(mockResponse.statusCode).toBe(200)
+      expect(updatePalette).toHaveBeenCalledWith('custom-42', { name: 'x' })
+    })
+
+    it('returns 404 when deleting an unknown palette', async () => {
+      router = new HttpRouter(mockFacade, null, {
+        ...mockDeps,
+        deletePalette: async () => false,
+      })
+      mockRequest = createRequest('DELETE')
+
+      await router.route(
+        mockRequest as unknown as IncomingMessage,
+        mockResponse as unknown as ServerResponse,
+        new URL('http://localhost/api/palettes/custom-missing'),
+      )
+
+      expect(mockResponse.statusCode).toBe(404)
+    })
   })
 
   // ==========================================================================
@@ -1199,6 +1292,59 @@ describe('HttpRouter', () => {
       expect(mockResponse.headers['content-type']).toBe('image/bmp')
     })
 
+    it('sends ETag and Last-Modified validators', async () => {
+      const file = path.join(outputDir, 'Screen_1.png')
+      fs.writeFileSync(file, Buffer.from([1, 2, 3]))
+      fs.utimesSync(file, 1_700_000_000, 1_700_000_000)
+
+      await routeTo('/output/Screen_1.png')
+
+      expect(mockResponse.headers['etag']).toMatch(/^"[\w-]+"$/)
+      expect(mockResponse.headers['last-modified']).toBe(
+        new Date(1_700_000_000_000).toUTCString(),
+      )
+    })
+
+    it('returns 304 without a body when the ETag matches', async () => {
+      fs.writeFileSync(path.join(outputDir, 'Screen_1.png'), Buffer.from([1]))
+      await routeTo('/output/Screen_1.png')
+      const etag = mockResponse.headers['etag']!
+
+      mockRequest.headers['if-none-match'] = etag
+      mockResponse = createResponse()
+      await routeTo('/output/Screen_1.png')
+
+      expect(mockResponse.statusCode).toBe(304)
+      expect(mockResponse.body).toBe('')
+      expect(mockResponse.headers['etag']).toBe(etag)
+    })
+
+    it('returns 304 when unmodified since the given date', async () => {
+      const file = path.join(outputDir, 'Screen_1.png')
+      fs.writeFileSync(file, Buffer.from([1]))
+      fs.utimesSync(file, 1_700_000_000, 1_700_000_000)
+
+      mockRequest.headers['if-modified-since'] = new Date(
+        1_700_000_000_000,
+      ).toUTCString()
+      await routeTo('/output/Screen_1.png')
+
+      expect(mockResponse.statusCode).toBe(304)
+    })
+
+    it('returns 200 when the file changed after the given date', async () => {
+      const file = path.join(outputDir, 'Screen_1.png')
+      fs.writeFileSync(file, Buffer.from([1]))
+      fs.utimesSync(file, 1_700_000_100, 1_700_000_100)
+
+      mockRequest.headers['if-modified-since'] = new Date(
+        1_700_000_000_000,
+      ).toUTCString()
+      await routeTo('/output/Screen_1.png')
+
+      expect(mockResponse.statusCode).toBe(200)
+    })
+
     it('returns 404 for a missing file', async () => {
       await routeTo('/output/nope.png')
 
@@ -1214,4 +1360,230 @@ describe('HttpRouter', () => {
       expect(mockResponse.body).not.toContain('secret')
     })
   })
+
+  describe('TRMNL device API', () => {
+    let outputDir: string
+    const device = {
+      id: 'device-1',
+      mac: 'AA:BB:CC:DD:EE:FF',
+      api_key: 'key-1',
+      friendly_id: 'ABC123',
+      name: 'TRMNL ABC123',
+      schedule_id: null as string | null,
+      battery_voltage: null,
+      rssi: null,
+      firmware_version: null,
+    }
+    const mockLoadDevices = mock(async () => [device])
+    const mockRegisterDevice = mock(
+      async (_mac: string): Promise<typeof device | null> => device,
+    )
+    const mockUpdateDevice = mock(async (_id: string, _u: unknown) => device)
+
+    beforeEach(() => {
+      outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'trmnl-output-'))
+      device.schedule_id = null
+      mockUpdateDevice.mockClear()
+      mockLoadSchedules.mockImplementation(async () => [
+        { id: 's1', name: 'Kitchen', enabled: true, interval_minutes: 5 },
+        { id: 's2', name: 'Hallway', enabled: true, cron: '0 9 * * 1' },
+      ])
+      router = new HttpRouter(mockFacade, null, {
+        ...mockDeps,
+        outputDir,
+        loadDevices: mockLoadDevices,
+        registerDevice: mockRegisterDevice,
+        updateDevice: mockUpdateDevice,
+      } as unknown as HttpRouterDeps)
+    })
+
+    afterEach(() => {
+      fs.rmSync(outputDir, { recursive: true, force: true })
+    })
+
+    const routeDevice = async (
+      pathname: string,
+      headers: Record<string, string>,
+      method = 'GET',
+      body = '',
+    ) => {
+      const request = { ...createRequestWithBody(method, body), headers }
+      await router.route(
+        request as unknown as IncomingMessage,
+        mockResponse as unknown as ServerResponse,
+        new URL(`http://localhost${pathname}`),
+      )
+      return mockResponse.body ? JSON.parse(mockResponse.body as string) : null
+    }
+
+    const saveCapture = (filename: string, mtimeSec: number) => {
+      const file = path.join(outputDir, filename)
+      fs.writeFileSync(file, Buffer.from([1]))
+      fs.utimesSync(file, mtimeSec, mtimeSec)
+    }
+
+    it('registers a device on setup and returns its api key', async () => {
+      const body = await routeDevice('/api/setup', { id: 'aa:bb:cc:dd:ee:ff' })
+
+      expect(mockRegisterDevice).toHaveBeenCalledWith('aa:bb:cc:dd:ee:ff')
+      expect(body.status).toBe(200)
+      expect(body.api_key).toBe('key-1')
+      expect(body.friendly_id).toBe('ABC123')
+    })
+
+    it('does not return the key of an already registered MAC', async () => {
+      mockRegisterDevice.mockImplementationOnce(async () => null)
+
+      const body = await routeDevice('/api/setup', { id: 'aa:bb:cc:dd:ee:ff' })
+
+      expect(mockResponse.statusCode).toBe(409)
+      expect(body.api_key).toBeUndefined()
+    })
+
+    it('rejects setup without an ID header', async () => {
+      await routeDevice('/api/setup', {})
+
+      expect(mockResponse.statusCode).toBe(400)
+    })
+
+    it('returns the newest capture of the first enabled schedule', async () => {
+      saveCapture('Kitchen_2026-07-07T07-00-00-000Z.png', 1000)
+      saveCapture('Kitchen_2026-07-07T07-05-00-000Z.png', 2000)
+      saveCapture('Hallway_2026-07-07T08-00-00-000Z.png', 3000)
+
+      const body = await routeDevice('/api/display', {
+        'access-token': 'key-1',
+        host: '192.168.1.10:10000',
+      })
+
+      expect(body.status).toBe(0)
+      expect(body.filename).toBe('Kitchen_2026-07-07T07-05-00-000Z.png')
+      expect(body.image_url).toBe(
+        'http://192.168.1.10:10000/output/Kitchen_2026-07-07T07-05-00-000Z.png',
+      )
+      expect(body.refresh_rate).toBe(300)
+    })
+
+    it('follows the schedule mapped to the device', async () => {
+      device.schedule_id = 's2'
+      saveCapture('Kitchen_2026-07-07T07-05-00-000Z.png', 2000)
+      saveCapture('Hallway_2026-07-07T08-00-00-000Z.png', 1000)
+
+      const body = await routeDevice('/api/display', { 'access-token': 'key-1' })
+
+      expect(body.filename).toBe('Hallway_2026-07-07T08-00-00-000Z.png')
+      // Weekly cron has no interval equivalent - falls back to the default
+      expect(body.refresh_rate).toBe(900)
+    })
+
+    it('does not match captures of a schedule sharing a name prefix', async () => {
+      saveCapture('Kitchen_2_2026-07-07T07-05-00-000Z.png', 2000)
+
+      const body = await routeDevice('/api/display', { 'access-token': 'key-1' })
+
+      expect(body.status).toBe(202)
+      expect(body.image_url).toBeNull()
+    })
+
+    it('records device telemetry on each poll', async () => {
+      await routeDevice('/api/display', {
+        'access-token': 'key-1',
+        'battery-voltage': '4.1',
+        rssi: '-61',
+        'fw-version': '1.5.2',
+      })
+
+      expect(mockUpdateDevice.mock.calls[0]![1]).toMatchObject({
+        battery_voltage: 4.1,
+        rssi: -61,
+        firmware_version: '1.5.2',
+      })
+    })
+
+    it('returns 404 for an unknown access token', async () => {
+      await routeDevice('/api/display', { 'access-token': 'wrong' })
+
+      expect(mockResponse.statusCode).toBe(404)
+    })
+
+    it('returns 404 when the ID header does not match the key', async () => {
+      await routeDevice('/api/display', {
+        'access-token': 'key-1',
+        id: '11:22:33:44:55:66',
+      })
+
+      expect(mockResponse.statusCode).toBe(404)
+    })
+
+    it('accepts firmware log uploads', async () => {
+      await routeDevice(
+        '/api/log',
+        { 'access-token': 'key-1' },
+        'POST',
+        JSON.stringify({ log: { logs_array: [{ message: 'wifi ok' }] } }),
+      )
+
+      expect(mockResponse.statusCode).toBe(204)
+    })
+
+    it('lists registered devices without their keys', async () => {
+      const body = await routeDevice('/api/devices', {})
+      const { api_key: _apiKey, ...view } = device
+
+      expect(body).toEqual([view])
+      expect(body[0]).not.toHaveProperty('api_key')
+    })
+
+    it('maps a device to a schedule via PUT', async () => {
+      await routeDevice(
+        '/api/devices/device-1',
+        {},
+        'PUT',
+        JSON.stringify({ schedule_id: 's2' }),
+      )
+
+      expect(mockUpdateDevice).toHaveBeenCalledWith('device-1', {
+        schedule_id: 's2',
+      })
+      expect(mockResponse.statusCode).toBe(200)
+    })
+
+    it('leaves the key out of the updated device', async () => {
+      const body = await routeDevice(
+        '/api/devices/device-1',
+        {},
+        'PUT',
+        JSON.stringify({ name: 'Kitchen' }),
+      )
+
+      expect(body.id).toBe('device-1')
+      expect(body).not.toHaveProperty('api_key')
+    })
+
+    it('rejects a PUT that maps a device to an unknown schedule', async () => {
+      const body = await routeDevice(
+        '/api/devices/device-1',
+        {},
+        'PUT',
+        JSON.stringify({ schedule_id: 'missing' }),
+      )
+
+      expect(mockResponse.statusCode).toBe(400)
+      expect(body.error).toContain('missing')
+      expect(mockUpdateDevice).not.toHaveBeenCalled()
+    })
+
+    it('rejects a PUT that changes identity fields', async () => {
+      const body = await routeDevice(
+        '/api/devices/device-1',
+        {},
+        'PUT',
+        JSON.stringify({ name: 'Kitchen', api_key: 'mine', friendly_id: 'X' }),
+      )
+
+      expect(mockResponse.statusCode).toBe(400)
+      expect(body.error).toBe('Cannot change api_key, friendly_id')
+      expect(mockUpdateDevice).not.toHaveBeenCalled()
+    })
+  })
 })
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for hybrid (edge-aware) dithering
+ *
+ * Pure unit tests — no ImageMagick required.
+ *
+ * @module tests/unit/hybrid-strategy
+ */
+
+import { describe, it, expect } from 'bun:test'
+import {
+  HybridStrategy,
+  edgeMask,
+} from '../../lib/dithering/hybrid-strategy.js'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+
+function grayImage(width: number, height: number, value: number): PixelBuffer {
+  return {
+    width,
+    height,
+    channels: 1,
+    data: new Uint8Array(width * height).fill(value),
+  }
+}
+
+/** White image with a one-pixel dark gray vertical stroke, like thin text */
+function strokeImage(): PixelBuffer {
+  const pixels = grayImage(16, 16, 255)
+  for (let y = 0; y < 16; y++) pixels.data[y * 16 + 8] = 90
+  return pixels
+}
+
+describe('edgeMask', () => {
+  it('flags nothing in flat areas and gentle gradients', () => {
+    const gradient = grayImage(16, 4, 0)
+    gradient.data.forEach((_, i) => (gradient.data[i] = (i % 16) * 16))
+
+    expect(edgeMask(grayImage(8, 8, 128)).every((v) => v === 0)).toBe(true)
+    expect(edgeMask(gradient).every((v) => v === 0)).toBe(true)
+  })
+
+  it('flags the neighbourhood of a high-contrast pixel', () => {
+    const pixels = grayImage(5, 5, 255)
+    pixels.data[12] = 0
+
+    expect(Array.from(edgeMask(pixels))).toEqual([
+      0, 0, 0, 0, 0,
+      0, 1, 1, 1, 0,
+      0, 1, 1, 1, 0,
+      0, 1, 1, 1, 0,
+      0, 0, 0, 0, 0,
+    ])
+  })
+
+  it('detects edges in any color channel', () => {
+    // Red next to blue: the edge is in the red and blue channels
+    const pixels: PixelBuffer = {
+      width: 2,
+      height: 1,
+      channels: 3,
+      data: Uint8Array.of(200, 40, 40, 40, 40, 200),
+    }
+
+    expect(Array.from(edgeMask(pixels))).toEqual([1, 1])
+  })
+})
+
+describe('HybridStrategy', () => {
+  const strategy = new HybridStrategy()
+
+  it('thresholds thin strokes without stray dots', () => {
+    const result = strategy.diffuse(strokeImage(), {
+      mode: 'grayscale',
+      colors: 2,
+    })
+
+    for (let y = 0; y < 16; y++) {
+      const row = Array.from(result.data.subarray(y * 16, y * 16 + 16))
+      expect(row).toEqual(row.map((_, x) => (x === 8 ? 0 : 255)))
+    }
+  })
+
+  it('dithers smooth areas', () => {
+    const result = strategy.diffuse(grayImage(16, 16, 128), {
+      mode: 'grayscale',
+      colors: 2,
+    })
+    const mean = result.data.reduce((sum, v) => sum + v, 0) / 256
+
+    expect(new Set(result.data)).toEqual(new Set([0, 255]))
+    expect(Math.abs(mean - 128)).toBeLessThan(16)
+  })
+
+  it('maps to palette colors in color mode', () => {
+    const pixels: PixelBuffer = {
+      width: 4,
+      height: 4,
+      channels: 3,
+      data: new Uint8Array(48).fill(180),
+    }
+
+    const result = strategy.diffuse(pixels, {
+      mode: 'color',
+      palette: ['#000000', '#FFFFFF', '#FF0000'],
+    })
+
+    expect(result.data.every((v) => v === 0 || v === 255)).toBe(true)
+  })
+})
@@ -0,0 +1,438 @@
+/**
+ * Unit tests for the in-process image pipeline
+ *
+ * Covers the pixel operations, resampling, the timestamp overlay, the BMP
+ * encoder and processImageNative(), none of which need ImageMagick.
+ *
+ * @module tests/unit/native-pipeline
+ */
+
+import { describe, it, expect } from 'bun:test'
+import { processImage } from '../../lib/dithering.js'
+import { encodeBmp } from '../../lib/dithering/bmp.js'
+import {
+  prepareCaptureNative,
+  processImageNative,
+} from '../../lib/dithering/native-pipeline.js'
+import {
+  invertPixels,
+  mapToPalette,
+  orderedDither,
+  remapColors,
+  rotatePixels,
+  toGrayscale,
+} from '../../lib/dithering/pixel-ops.js'
+import { decodePng, encodePng } from '../../lib/dithering/png.js'
+import { fitPixels, resamplePixels } from '../../lib/dithering/resample.js'
+import { stampText } from '../../lib/dithering/text-overlay.js'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+
+/** Horizontal gray ramp as an RGB image */
+function ramp(width: number, height: number): PixelBuffer {
+  const data = new Uint8Array(width * height * 3)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 3
+      data.fill(Math.round((x * 255) / (width - 1)), i, i + 3)
+    }
+  }
+  return { width, height, channels: 3, data }
+}
+
+describe('pixel operations', () => {
+  const pixels: PixelBuffer = {
+    width: 3,
+    height: 2,
+    channels: 1,
+    data: new Uint8Array([1, 2, 3, 4, 5, 6]),
+  }
+
+  it('rotates clockwise', () => {
+    expect(rotatePixels(pixels, 90)).toMatchObject({
+      width: 2,
+      height: 3,
+      data: new Uint8Array([4, 1, 5, 2, 6, 3]),
+    })
+    expect(rotatePixels(pixels, 180).data).toEqual(
+      new Uint8Array([6, 5, 4, 3, 2, 1]),
+    )
+    expect(rotatePixels(pixels, 270).data).toEqual(
+      new Uint8Array([3, 6, 2, 5, 1, 4]),
+    )
+  })
+
+  it('converts to grayscale and inverts', () => {
+    const rgb: PixelBuffer = {
+      width: 2,
+      height: 1,
+      channels: 3,
+      data: new Uint8Array([255, 255, 255, 0, 255, 0]),
+    }
+
+    expect(toGrayscale(rgb).data).toEqual(new Uint8Array([255, 182]))
+    expect(invertPixels(toGrayscale(rgb)).data).toEqual(
+      new Uint8Array([0, 73]),
+    )
+  })
+
+  it('ordered dithers a flat mid-gray to an even mix of two levels', () => {
+    const flat: PixelBuffer = {
+      width: 8,
+      height: 8,
+      channels: 1,
+      data: new Uint8Array(64).fill(128),
+    }
+    const { data } = orderedDither(flat, '8x8', 2)
+
+    expect(new Set(data)).toEqual(new Set([0, 255]))
+    expect(data.filter((v) => v === 255).length).toBe(32)
+  })
+
+  it('maps colors to the nearest palette entry', () => {
+    const rgb: PixelBuffer = {
+      width: 2,
+      height: 1,
+      channels: 3,
+      data: new Uint8Array([200, 30, 20, 240, 240, 230]),
+    }
+
+    expect(
+      mapToPalette(rgb, [
+        [0, 0, 0],
+        [255, 255, 255],
+        [255, 0, 0],
+      ]).data,
+    ).toEqual(new Uint8Array([255, 0, 0, 255, 255, 255]))
+  })
+})
+
+describe('resampling', () => {
+  it('keeps flat areas flat with every filter', () => {
+    const gray: PixelBuffer = {
+      width: 30,
+      height: 20,
+      channels: 1,
+      data: new Uint8Array(600).fill(128),
+    }
+
+    for (const filter of ['lanczos', 'mitchell', 'box'] as const) {
+      const out = resamplePixels(gray, 10, 7, filter)
+      expect(out).toMatchObject({ width: 10, height: 7, channels: 1 })
+      expect(new Set(out.data)).toEqual(new Set([128]))
+    }
+  })
+
+  it('averages blocks when shrinking with the box filter', () => {
+    const checker: PixelBuffer = {
+      width: 4,
+      height: 2,
+      channels: 1,
+      data: new Uint8Array([0, 255, 0, 0, 255, 0, 0, 0]),
+    }
+
+    expect(Array.from(resamplePixels(checker, 2, 1, 'box').data)).toEqual([
+      128, 0,
+    ])
+  })
+
+  it('follows a ramp when halving a supersampled capture', () => {
+    const out = resamplePixels(ramp(256, 4), 128, 2)
+
+    // Each output pixel covers source pixels 2x and 2x + 1
+    for (let x = 1; x < 127; x++) {
+      expect(Math.abs(out.data[x * 3]! - (x * 2 + 0.5))).toBeLessThan(3)
+    }
+  })
+
+  it('fits a tall page onto a white canvas of the display size', () => {
+    const black: PixelBuffer = {
+      width: 100,
+      height: 400,
+      channels: 1,
+      data: new Uint8Array(40000),
+    }
+
+    const out = fitPixels(black, { width: 100, height: 100 }, 'box')
+
+    expect(out).toMatchObject({ width: 100, height: 100 })
+    // 25 px wide, from column 37 to 61
+    expect(out.data[50 * 100 + 37]).toBe(0)
+    expect(out.data[50 * 100 + 61]).toBe(0)
+    expect(out.data[50 * 100 + 36]).toBe(255)
+    expect(out.data[50 * 100 + 62]).toBe(255)
+  })
+
+  it('never enlarges a small capture when fitting', () => {
+    const out = fitPixels(ramp(10, 10), { width: 20, height: 20 })
+
+    expect(out.data[0]).toBe(255)
+    expect(out.data[(5 * 20 + 5) * 3]).toBe(0)
+  })
+})
+
+describe('stampText', () => {
+  const white = (): PixelBuffer => ({
+    width: 200,
+    height: 40,
+    channels: 3,
+    data: new Uint8Array(200 * 40 * 3).fill(255),
+  })
+
+  it('draws black text in the bottom-right corner', () => {
+    const out = stampText(white(), '2026-10-19 14:05')
+    const dark = (x: number, y: number) => out.data[(y * 200 + x) * 3] === 0
+
+    let darkPixels = 0
+    let leftmost = 200
+    for (let y = 0; y < 40; y++) {
+      for (let x = 0; x < 200; x++) {
+        if (!dark(x, y)) continue
+        darkPixels++
+        leftmost = Math.min(leftmost, x)
+      }
+    }
+
+    expect(darkPixels).toBeGreaterThan(100)
+    expect(leftmost).toBeGreaterThan(0)
+    // The margin stays untouched
+    for (let x = 0; x < 200; x++) expect(dark(x, 39)).toBe(false)
+  })
+
+  it('draws on a white box over dark content', () => {
+    const black: PixelBuffer = { ...white(), data: new Uint8Array(200 * 40 * 3) }
+
+    const out = stampText(black, ' ')
+
+    expect(out.data[(30 * 200 + 190) * 3]).toBe(255)
+    expect(out.data[0]).toBe(0)
+  })
+})
+
+describe('prepareCaptureNative', () => {
+  it('resamples and stamps in one pass', () => {
+    const png = encodePng(ramp(400, 200))
+
+    const prepared = decodePng(
+      prepareCaptureNative(png, {
+        resample: { width: 200, height: 100 },
+        timestamp: '12:00',
+      })!,
+    )
+
+    expect(prepared).toMatchObject({ width: 200, height: 100 })
+    expect(prepared.data[(95 * 200 + 190) * 3]).toBe(255)
+  })
+
+  it('leaves input it cannot decode to ImageMagick', () => {
+    expect(prepareCaptureNative(Buffer.from('jpeg'), { timestamp: '1' })).toBe(
+      null,
+    )
+  })
+
+  it('lets processImage fit and stamp without ImageMagick', async () => {
+    const image = await processImage(encodePng(ramp(160, 480)), {
+      native: true,
+      format: 'png',
+      fit: { width: 160, height: 120 },
+      timestamp: true,
+    })
+
+    expect(decodePng(image)).toMatchObject({ width: 160, height: 120 })
+  })
+})
+
+describe('encodeBmp', () => {
+  it('writes a 1-bit bottom-up bitmap with padded rows', () => {
+    const pixels: PixelBuffer = {
+      width: 3,
+      height: 2,
+      channels: 1,
+      data: new Uint8Array([0, 255, 0, 255, 255, 255]),
+    }
+    const bmp = encodeBmp(pixels, { bitDepth: 1 })
+
+    expect(bmp.toString('ascii', 0, 2)).toBe('BM')
+    expect(bmp.readUInt32LE(2)).toBe(bmp.length)
+    expect(bmp.readUInt16LE(28)).toBe(1) // bits per pixel
+    expect(bmp.readUInt32LE(46)).toBe(2) // palette entries
+    const pixelOffset = bmp.readUInt32LE(10)
+    expect(pixelOffset).toBe(14 + 40 + 8)
+    // Bottom row first, each padded to 4 bytes
+    expect([...bmp.subarray(pixelOffset)]).toEqual([
+      0b11100000, 0, 0, 0, 0b01000000, 0, 0, 0,
+    ])
+  })
+
+  it('writes 2-bit gray with a four-entry ramp', () => {
+    const pixels: PixelBuffer = {
+      width: 4,
+      height: 1,
+      channels: 1,
+      data: new Uint8Array([0, 85, 170, 255]),
+    }
+    const bmp = encodeBmp(pixels, { bitDepth: 2 })
+
+    expect(bmp.readUInt16LE(28)).toBe(2)
+    expect(bmp.readUInt32LE(46)).toBe(4)
+    expect(bmp[14 + 40 + 4]).toBe(85)
+    expect(bmp[bmp.readUInt32LE(10)]).toBe(0b00011011)
+  })
+
+  it('orders the color table like the given palette', () => {
+    const palette = [
+      [0, 0, 0],
+      [255, 255, 255],
+      [255, 0, 0],
+    ]
+    const bmp = encodeBmp(
+      { width: 1, height: 1, channels: 3, data: new Uint8Array([255, 0, 0]) },
+      { palette },
+    )
+
+    expect(bmp.readUInt16LE(28)).toBe(2)
+    expect(bmp.readUInt32LE(46)).toBe(3)
+    // BGRX entries
+    expect([...bmp.subarray(54, 66)]).toEqual([
+      0, 0, 0, 0, 255, 255, 255, 0, 0, 0, 255, 0,
+    ])
+    expect(bmp[bmp.readUInt32LE(10)]! >> 6).toBe(2)
+  })
+
+  it('falls back to 24-bit BGR when there are too many colors', () => {
+    const data = new Uint8Array(300 * 3)
+    for (let i = 0; i < 300; i++) data.set([i & 0xff, i >> 8, 7], i * 3)
+    const bmp = encodeBmp({ width: 300, height: 1, channels: 3, data })
+
+    expect(bmp.readUInt16LE(28)).toBe(24)
+    expect([...bmp.subarray(54, 57)]).toEqual([7, 0, 0])
+  })
+})
+
+describe('processImageNative', () => {
+  const capture = encodePng(ramp(16, 8))
+
+  it('dithers a bw capture to a 1-bit PNG', () => {
+    const png = processImageNative(capture, {
+      format: 'png',
+      dithering: { enabled: true, palette: 'bw', method: 'atkinson' },
+    })!
+
+    expect(png[24]).toBe(1)
+    expect(png[25]).toBe(0)
+    expect(new Set(decodePng(png).data)).toEqual(new Set([0, 255]))
+  })
+
+  it('rotates and writes BMP', () => {
+    const bmp = processImageNative(capture, {
+      format: 'bmp',
+      rotate: 90,
+      dithering: { enabled: true, palette: 'gray-4', method: 'ordered' },
+    })!
+
+    expect(bmp.readInt32LE(18)).toBe(8)
+    expect(bmp.readInt32LE(22)).toBe(16)
+    expect(bmp.readUInt16LE(28)).toBe(2)
+  })
+
+  it('limits color output to the palette', () => {
+    const png = processImageNative(capture, {
+      format: 'png',
+      dithering: {
+        enabled: true,
+        palette: 'color-6a',
+        method: 'floyd-steinberg',
+      },
+    })!
+    const { data } = decodePng(png)
+    const colors = new Set<string>()
+    for (let i = 0; i < data.length; i += 3) {
+      colors.add([...data.subarray(i, i + 3)].join(','))
+    }
+
+    expect(colors.size).toBeLessThanOrEqual(6)
+  })
+
+  it('writes color palettes as indexed PNG in palette order', () => {
+    const png = processImageNative(capture, {
+      format: 'png',
+      invert: true,
+      dithering: { enabled: true, palette: 'color-3bwr', method: 'ordered' },
+    })!
+
+    expect(png[25]).toBe(3)
+    const plte = png.indexOf('PLTE')
+    // Black, red and white, inverted
+    expect([...png.subarray(plte + 4, plte + 13)]).toEqual([
+      255, 255, 255, 0, 255, 255, 0, 0, 0,
+    ])
+  })
+
+  it('applies enhancement before quantizing', () => {
+    const whites = (enhance?: { gamma: number }) => {
+      const png = processImageNative(capture, {
+        format: 'png',
+        dithering: {
+          enabled: true,
+          palette: 'bw',
+          method: 'threshold',
+          normalize: false,
+          enhance,
+        },
+      })!
+      return decodePng(png).data.filter((v) => v === 255).length
+    }
+
+    expect(whites({ gamma: 2 })).toBeGreaterThan(whites())
+  })
+
+  it('leaves JPEG and undecodable input to ImageMagick', () => {
+    expect(processImageNative(capture, { format: 'jpeg' })).toBeNull()
+    expect(
+      processImageNative(Buffer.from('not an image'), { format: 'png' }),
+    ).toBeNull()
+  })
+})
+
+describe('custom palettes', () => {
+  it('dithers to perceived colors and writes output colors', () => {
+    const png = processImageNative(encodePng(ramp(16, 4)), {
+      format: 'png',
+      dithering: {
+        enabled: true,
+        palette: 'custom-1',
+        method: 'floyd-steinberg',
+        saturationBoost: false,
+        customColors: [
+          { perceived: '#303030', output: '#000000' },
+          { perceived: '#C0C0C0', output: '#FFFFFF' },
+        ],
+      },
+    })!
+    const { data } = decodePng(png)
+
+    expect(new Set(data)).toEqual(new Set([0, 255]))
+  })
+
+  it('maps each pixel to the output color of its nearest perceived color', () => {
+    const rgb: PixelBuffer = {
+      width: 2,
+      height: 1,
+      channels: 3,
+      data: new Uint8Array([40, 40, 40, 200, 190, 180]),
+    }
+
+    expect(
+      remapColors(
+        rgb,
+        [
+          [48, 48, 48],
+          [192, 192, 192],
+        ],
+        [
+          [0, 0, 0],
+          [255, 255, 255],
+        ],
+      ).data,
+    ).toEqual(new Uint8Array([0, 0, 0, 255, 255, 255]))
+  })
+})
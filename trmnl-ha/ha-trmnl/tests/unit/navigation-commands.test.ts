@@ -15,14 +15,23 @@ import {
   WaitForPaintStability,
   WaitForWebSocketIdle,
   WaitForHassReady,
+  WaitForEntityCondition,
+  entityConditionHolds,
   UpdateLanguage,
   UpdateTheme,
+  InjectStyles,
+  buildInjectedCss,
+  injectStylesheet,
   isPageReadyForCapture,
   readinessInternalsPresent,
   type AuthStorage,
 } from '../../lib/browser/navigation-commands.js'
-import { CannotOpenPageError } from '../../error.js'
-import type { Page } from 'puppeteer'
+import {
+  CannotOpenPageError,
+  EntityConditionTimeoutError,
+} from '../../error.js'
+import { TimeoutError, type Page } from 'puppeteer'
+import type { EntityCondition } from '../../types/domain.js'
 
 // =============================================================================
 // MOCK HELPERS
@@ -652,6 +661,44 @@ describe('DismissToasts', () => {
   })
 })
 
+// =============================================================================
+// InjectStyles
+// =============================================================================
+
+describe('InjectStyles', () => {
+  it('evaluates injectStylesheet with the css', async () => {
+    const mockPage = createMockPage({ evaluateResult: 3 })
+    const cmd = new InjectStyles(mockPage)
+
+    const result = await cmd.call('ha-card { border: none; }')
+
+    expect(mockPage.calls.evaluate[0]!.fn).toBe(injectStylesheet)
+    expect(mockPage.calls.evaluate[0]!.args).toEqual([
+      'ha-card { border: none; }',
+    ])
+    expect(result).toBe(3)
+  })
+})
+
+describe('buildInjectedCss', () => {
+  it('gives each hidden selector its own rule', () => {
+    expect(buildInjectedCss(undefined, ['.header', ' ha-sidebar '])).toBe(
+      '.header { display: none !important; }\n' +
+        'ha-sidebar { display: none !important; }',
+    )
+  })
+
+  it('puts custom css before the hide rules', () => {
+    expect(buildInjectedCss('ha-card { border: none; }', ['.header'])).toBe(
+      'ha-card { border: none; }\n.header { display: none !important; }',
+    )
+  })
+
+  it('is empty when there is nothing to inject', () => {
+    expect(buildInjectedCss('  ', ['', ' '])).toBe('')
+  })
+})
+
 // =============================================================================
 // WaitForPaintStability
 // =============================================================================
@@ -867,6 +914,130 @@ describe('WaitForHassReady', () => {
 
 })
 
+// =============================================================================
+// WaitForEntityCondition
+// =============================================================================
+
+describe('WaitForEntityCondition', () => {
+  const condition: EntityCondition = {
+    entity_id: 'camera.driveway',
+    operator: 'updated_within',
+    seconds: 60,
+  }
+
+  it('polls the condition in the page with its timeout', async () => {
+    let captured: unknown[] = []
+    const mockPage = {
+      waitForFunction: async (...args: unknown[]) => {
+        captured = args
+      },
+    } as unknown as Page
+
+    await new WaitForEntityCondition(mockPage).call({
+      ...condition,
+      timeout: 10000,
+    })
+
+    expect(captured[0]).toBe(entityConditionHolds)
+    expect(captured[1]).toEqual({ timeout: 10000, polling: 500 })
+  })
+
+  it('captures anyway on timeout by default', async () => {
+    const mockPage = createMockPage({
+      waitForFunctionError: new TimeoutError('Waiting failed'),
+    })
+
+    await new WaitForEntityCondition(mockPage).call(condition)
+  })
+
+  it('throws EntityConditionTimeoutError when told to skip', async () => {
+    const mockPage = createMockPage({
+      waitForFunctionError: new TimeoutError('Waiting failed'),
+    })
+
+    const wait = new WaitForEntityCondition(mockPage).call({
+      ...condition,
+      on_timeout: 'skip',
+    })
+
+    await expect(wait).rejects.toBeInstanceOf(EntityConditionTimeoutError)
+  })
+
+  it('passes other errors through', async () => {
+    const mockPage = createMockPage({
+      waitForFunctionError: new Error('Target closed'),
+    })
+
+    const wait = new WaitForEntityCondition(mockPage).call(condition)
+
+    await expect(wait).rejects.toThrow('Target closed')
+  })
+})
+
+// =============================================================================
+// entityConditionHolds
+// =============================================================================
+
+describe('entityConditionHolds', () => {
+  function installStates(states: Record<string, unknown>): void {
+    const globals = globalThis as unknown as { document: unknown }
+    globals.document = {
+      querySelector: (sel: string) =>
+        sel === 'home-assistant' ? { hass: { states } } : null,
+    }
+  }
+
+  const secondsAgo = (seconds: number) =>
+    new Date(Date.now() - seconds * 1000).toISOString()
+
+  it('compares the state for eq and neq', () => {
+    installStates({ 'binary_sensor.door': { state: 'off' } })
+
+    expect(
+      entityConditionHolds({
+        entity_id: 'binary_sensor.door',
+        operator: 'eq',
+        value: 'off',
+      }),
+    ).toBe(true)
+    expect(
+      entityConditionHolds({
+        entity_id: 'binary_sensor.door',
+        operator: 'neq',
+        value: 'off',
+      }),
+    ).toBe(false)
+  })
+
+  it('checks how recently the entity updated', () => {
+    installStates({
+      'camera.driveway': { state: 'idle', last_updated: secondsAgo(30) },
+    })
+
+    const within = (seconds: number) =>
+      entityConditionHolds({
+        entity_id: 'camera.driveway',
+        operator: 'updated_within',
+        seconds,
+      })
+
+    expect(within(60)).toBe(true)
+    expect(within(10)).toBe(false)
+  })
+
+  it('fails while the entity is missing', () => {
+    installStates({})
+
+    expect(
+      entityConditionHolds({
+        entity_id: 'sensor.unknown',
+        operator: 'neq',
+        value: 'unavailable',
+      }),
+    ).toBe(false)
+  })
+})
+
 // =============================================================================
 // UpdateLanguage
 // =============================================================================
@@ -945,6 +1116,7 @@ interface FakeEl {
 }
 
 interface FakeNode extends FakeEl {
+  adoptedStyleSheets: unknown[]
   shadowRoot: FakeNode | null
   firstElementChild: FakeNode | null
   querySelector: (s: string) => FakeNode | null
@@ -968,6 +1140,7 @@ function node(el: FakeEl): FakeNode {
     children,
     shadowRoot: el.shadowRoot ? node(el.shadowRoot) : null,
     firstElementChild: children[0] ?? null,
+    adoptedStyleSheets: [],
     querySelectorAll,
     querySelector: (sel) => querySelectorAll(sel)[0] ?? null,
   }
@@ -1217,3 +1390,46 @@ describe('readinessInternalsPresent', () => {
     expect(readinessInternalsPresent()).toBe(false)
   })
 })
+
+// =============================================================================
+// injectStylesheet
+// =============================================================================
+
+describe('injectStylesheet', () => {
+  class FakeSheet {
+    css = ''
+    replaceSync(css: string): void {
+      this.css = css
+    }
+  }
+
+  let doc: FakeNode
+
+  beforeEach(() => {
+    doc = node({ tagName: '#document', children: [lovelaceWith([])] })
+    const globals = globalThis as unknown as {
+      document: unknown
+      window: unknown
+      CSSStyleSheet: unknown
+    }
+    globals.document = doc
+    globals.window = {}
+    globals.CSSStyleSheet = FakeSheet
+  })
+
+  it('adopts the sheet into the document and every shadow root', () => {
+    expect(injectStylesheet('.header { display: none; }')).toBe(3)
+
+    const sheet = doc.adoptedStyleSheets[0] as FakeSheet
+    expect(sheet.css).toBe('.header { display: none; }')
+    const ha = doc.querySelector('*')!
+    expect(ha.shadowRoot!.adoptedStyleSheets).toEqual([sheet])
+  })
+
+  it('only reaches new roots when called again', () => {
+    injectStylesheet('.header { display: none; }')
+
+    expect(injectStylesheet('.header { display: none; }')).toBe(0)
+    expect(doc.adoptedStyleSheets.length).toBe(1)
+  })
+})
@@ -0,0 +1,95 @@
+/**
+ * Unit tests for OrderedStrategy
+ *
+ * Pure unit tests — no ImageMagick required. A chainable spy records the
+ * arguments the strategy queues via .out(), which is exactly what ImageMagick
+ * would receive at stream time.
+ *
+ * @module tests/unit/ordered-strategy
+ */
+
+import { describe, it, expect } from 'bun:test'
+import type { State } from 'gm'
+import { OrderedStrategy } from '../../lib/dithering/ordered-strategy.js'
+
+function createStateSpy() {
+  const calls: string[][] = []
+  const spy: Pick<State, 'out'> = {
+    out(...args: string[]) {
+      calls.push(args)
+      return spy as State
+    },
+  }
+  return { spy: spy as State, calls }
+}
+
+describe('OrderedStrategy', () => {
+  const strategy = new OrderedStrategy()
+
+  describe('#call (grayscale mode)', () => {
+    it('dithers to the palette size with the 8x8 Bayer matrix by default', () => {
+      const { spy, calls } = createStateSpy()
+
+      strategy.call(spy, { mode: 'grayscale', colors: 4 })
+
+      expect(calls).toEqual([['-ordered-dither', 'o8x8,4']])
+    })
+
+    it('keeps a 2-color threshold pattern instead of -monochrome', () => {
+      const { spy, calls } = createStateSpy()
+
+      strategy.call(spy, { mode: 'grayscale', colors: 2 })
+
+      expect(calls).toContainEqual(['-ordered-dither', 'o8x8,2'])
+      expect(calls.flat()).not.toContain('-monochrome')
+    })
+
+    it('uses the requested matrix', () => {
+      const cases = [
+        ['2x2', 'o2x2'],
+        ['4x4', 'o4x4'],
+        ['halftone-4x4', 'h4x4a'],
+        ['halftone-6x6', 'h6x6a'],
+        ['halftone-8x8', 'h8x8a'],
+      ] as const
+
+      for (const [matrix, map] of cases) {
+        const { spy, calls } = createStateSpy()
+        strategy.call(spy, { mode: 'grayscale', colors: 2, matrix })
+        expect(calls).toEqual([['-ordered-dither', `${map},2`]])
+      }
+    })
+  })
+
+  describe('#call (color mode)', () => {
+    it('dithers each channel, then disables dithering for the remap', () => {
+      const { spy, calls } = createStateSpy()
+
+      strategy.call(spy, { mode: 'color', levels: 3, matrix: '4x4' })
+
+      expect(calls).toEqual([
+        ['-ordered-dither', 'o4x4,3'],
+        ['-dither', 'None'],
+      ])
+    })
+
+    it('falls back to 2 levels per channel', () => {
+      const { spy, calls } = createStateSpy()
+
+      strategy.call(spy, { mode: 'color' })
+
+      expect(calls).toContainEqual(['-ordered-dither', 'o8x8,2'])
+    })
+  })
+
+  describe('#call (unsupported input)', () => {
+    it('returns the image unchanged when grayscale colors is missing', () => {
+      const { spy, calls } = createStateSpy()
+
+      const result = strategy.call(spy, { mode: 'grayscale' })
+
+      expect(calls).toHaveLength(0)
+      expect(result).toBe(spy)
+    })
+  })
+})
@@ -0,0 +1,195 @@
+/**
+ * Unit tests for scripted page actions
+ *
+ * Verifies each action type, per-step timeouts and error classification.
+ *
+ * @module tests/unit/page-actions
+ */
+
+import { describe, it, expect, mock } from 'bun:test'
+import {
+  RunPageActions,
+  toPageSelector,
+  type RunPageActionsOptions,
+} from '../../lib/browser/page-actions.js'
+import { PageActionError } from '../../error.js'
+import type { PageAction } from '../../types/domain.js'
+import type { Page } from 'puppeteer'
+
+// =============================================================================
+// MOCK HELPERS
+// =============================================================================
+
+function createMockElement() {
+  return {
+    click: mock(async () => {}),
+    type: mock(async (_text: string) => {}),
+    scrollIntoView: mock(async () => {}),
+    dispose: mock(async () => {}),
+  }
+}
+
+function createMockPage(
+  options: {
+    waitForSelectorError?: Error
+    evaluate?: (expression: string) => Promise<unknown>
+  } = {},
+) {
+  const element = createMockElement()
+  const page = {
+    element,
+    waitForSelector: mock(async (_selector: string, _opts?: unknown) => {
+      if (options.waitForSelectorError) throw options.waitForSelectorError
+      return element
+    }),
+    evaluate: mock(options.evaluate ?? (async () => undefined)),
+  }
+  return page
+}
+
+const run = (
+  page: ReturnType<typeof createMockPage>,
+  actions: PageAction[],
+  options: RunPageActionsOptions = { allowScripts: true },
+): Promise<void> =>
+  new RunPageActions(page as unknown as Page, options).call(actions)
+
+// =============================================================================
+// toPageSelector
+// =============================================================================
+
+describe('toPageSelector', () => {
+  it('pierces shadow roots for plain CSS', () => {
+    expect(toPageSelector('paper-tab:nth-of-type(2)')).toBe(
+      'pierce/paper-tab:nth-of-type(2)',
+    )
+  })
+
+  it('leaves Puppeteer selector syntax alone', () => {
+    expect(toPageSelector('::-p-text(Energy)')).toBe('::-p-text(Energy)')
+    expect(toPageSelector('hui-root >>> .header')).toBe(
+      'hui-root >>> .header',
+    )
+    expect(toPageSelector('xpath///button')).toBe('xpath///button')
+  })
+})
+
+// =============================================================================
+// RunPageActions
+// =============================================================================
+
+describe('RunPageActions', () => {
+  it('clicks a visible element found through shadow roots', async () => {
+    const page = createMockPage()
+
+    await run(page, [{ type: 'click', selector: 'paper-tab' }])
+
+    expect(page.waitForSelector).toHaveBeenCalledWith('pierce/paper-tab', {
+      visible: true,
+      timeout: 5000,
+    })
+    expect(page.element.click).toHaveBeenCalled()
+    expect(page.element.dispose).toHaveBeenCalled()
+  })
+
+  it('types text and scrolls', async () => {
+    const page = createMockPage()
+
+    await run(page, [
+      { type: 'type', selector: 'input', text: 'kitchen' },
+      { type: 'scroll', selector: 'hui-energy-card' },
+    ])
+
+    expect(page.element.type).toHaveBeenCalledWith('kitchen')
+    expect(page.element.scrollIntoView).toHaveBeenCalled()
+  })
+
+  it('passes each step its own timeout', async () => {
+    const page = createMockPage()
+
+    await run(page, [
+      { type: 'wait_for', selector: 'ha-card', timeout: 12000 },
+    ])
+
+    expect(page.waitForSelector).toHaveBeenCalledWith('pierce/ha-card', {
+      visible: true,
+      timeout: 12000,
+    })
+  })
+
+  it('evaluates expressions in the page', async () => {
+    const page = createMockPage()
+
+    await run(page, [
+      { type: 'evaluate', expression: 'window.scrollTo(0, 0)' },
+    ])
+
+    expect(page.evaluate).toHaveBeenCalledWith('window.scrollTo(0, 0)')
+  })
+
+  it('refuses expressions unless scripts are allowed', async () => {
+    const page = createMockPage()
+
+    const result = run(page, [{ type: 'evaluate', expression: '1' }], {
+      allowScripts: false,
+    })
+
+    const err = await result.catch((e: unknown) => e)
+    expect(err).toBeInstanceOf(PageActionError)
+    expect((err as PageActionError).message).toContain('allow_script_actions')
+    expect(page.evaluate).not.toHaveBeenCalled()
+  })
+
+  it('times out a slow expression', async () => {
+    const page = createMockPage({
+      evaluate: () => new Promise(() => {}),
+    })
+
+    const result = run(page, [
+      { type: 'evaluate', expression: 'new Promise(() => {})', timeout: 20 },
+    ])
+
+    await expect(result).rejects.toThrow('timed out after 20ms')
+  })
+
+  it('runs steps in order and stops at the first failure', async () => {
+    const page = createMockPage({
+      waitForSelectorError: new Error('Waiting for selector failed'),
+    })
+
+    const result = run(page, [
+      { type: 'wait', ms: 1 },
+      { type: 'click', selector: 'paper-tab' },
+      { type: 'evaluate', expression: '1' },
+    ])
+
+    const err = await result.catch((e: unknown) => e)
+    expect(err).toBeInstanceOf(PageActionError)
+    expect((err as PageActionError).step).toBe(1)
+    expect((err as PageActionError).action).toBe('click')
+    expect(page.evaluate).not.toHaveBeenCalled()
+  })
+
+  it('rejects steps with no selector or an unknown type', async () => {
+    const page = createMockPage()
+
+    await expect(run(page, [{ type: 'click' } as PageAction])).rejects.toThrow(
+      'selector is required',
+    )
+    await expect(
+      run(page, [{ type: 'hover' } as unknown as PageAction]),
+    ).rejects.toThrow('unknown action type "hover"')
+  })
+
+  it('leaves browser failures unclassified', async () => {
+    const page = createMockPage({
+      waitForSelectorError: new Error('Protocol error: Target closed'),
+    })
+
+    const err = await run(page, [{ type: 'click', selector: 'a' }]).catch(
+      (e: unknown) => e,
+    )
+
+    expect(err).not.toBeInstanceOf(PageActionError)
+  })
+})
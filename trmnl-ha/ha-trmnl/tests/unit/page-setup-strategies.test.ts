@@ -13,6 +13,7 @@ import {
   getPageSetupStrategy,
   type PageSetupOptions,
 } from '../../lib/browser/page-setup-strategies.js'
+import { injectStylesheet } from '../../lib/browser/navigation-commands.js'
 
 /** Creates a mock Page object with configurable behavior */
 function createMockPage(options: { hasHAElements?: boolean } = {}) {
@@ -110,6 +111,18 @@ describe('Page Setup Strategies', () => {
 
       expect(mockPage.waitForFunction).not.toHaveBeenCalled()
     })
+
+    it('injects custom styles when given', async () => {
+      await strategy.setup(
+        mockPage as never,
+        defaultOptions({ css: 'body { margin: 0; }' }),
+      )
+
+      const styleCall = mockPage.evaluateCalls.find(
+        (call) => call.fn === injectStylesheet,
+      )
+      expect(styleCall?.args).toEqual(['body { margin: 0; }'])
+    })
   })
 
   // ==========================================================================
@@ -143,6 +156,31 @@ describe('Page Setup Strategies', () => {
       })
     })
 
+    describe('style injection', () => {
+      it('injects styles after the panel has loaded', async () => {
+        await strategy.setup(
+          mockPage as never,
+          defaultOptions({ css: '.header { display: none !important; }' }),
+        )
+
+        const styleCall = mockPage.evaluateCalls.find(
+          (call) => call.fn === injectStylesheet,
+        )
+        expect(styleCall?.args).toEqual([
+          '.header { display: none !important; }',
+        ])
+        expect(mockPage.waitForFunctionCalls.length).toBe(1)
+      })
+
+      it('injects nothing without css', async () => {
+        await strategy.setup(mockPage as never, defaultOptions())
+
+        expect(
+          mockPage.evaluateCalls.some((call) => call.fn === injectStylesheet),
+        ).toBe(false)
+      })
+    })
+
     describe('theme changes', () => {
       it('returns themeChanged true when theme differs from last', async () => {
         const result = await strategy.setup(
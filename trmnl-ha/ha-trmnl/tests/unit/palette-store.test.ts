@@ -0,0 +1,151 @@
+/**
+ * Tests for the custom palette store and the editor's color parsing.
+ *
+ * Uses temp files (passed via filePath overload) so no module mocking is needed.
+ *
+ * @see lib/paletteStore.ts
+ * @module tests/unit/palette-store
+ */
+
+import { describe, it, expect, afterAll } from 'bun:test'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import {
+  createPalette,
+  deletePalette,
+  getPalette,
+  loadPalettes,
+  updatePalette,
+  validatePaletteInput,
+} from '../../lib/paletteStore.js'
+import {
+  formatPaletteColors,
+  parsePaletteColors,
+} from '../../html/shared/custom-palettes.js'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const tmpFiles: string[] = []
+
+function tmpFile(): string {
+  const file = path.join(
+    os.tmpdir(),
+    `trmnl-test-palettes-${Date.now()}-${Math.random().toString(36).slice(2)}.json`,
+  )
+  tmpFiles.push(file)
+  return file
+}
+
+afterAll(async () => {
+  await Promise.all(tmpFiles.map((f) => fs.unlink(f).catch(() => {})))
+})
+
+const SPECTRA = {
+  name: 'Spectra (measured)',
+  colors: [
+    { perceived: '#1f1a24', output: '#000000' },
+    { perceived: '#B8B3A8', output: '#FFFFFF' },
+  ],
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('paletteStore', () => {
+  describe('#validatePaletteInput', () => {
+    it('uppercases colors and defaults output to perceived', () => {
+      expect(
+        validatePaletteInput({
+          name: ' Mine ',
+          colors: [{ perceived: '#abcdef' }, { perceived: '#000000' }],
+        }),
+      ).toEqual({
+        name: 'Mine',
+        colors: [
+          { perceived: '#ABCDEF', output: '#ABCDEF' },
+          { perceived: '#000000', output: '#000000' },
+        ],
+      })
+    })
+
+    it('rejects a missing name, too few colors and bad hex values', () => {
+      expect(() => validatePaletteInput({ colors: SPECTRA.colors })).toThrow(
+        'name is required',
+      )
+      expect(() =>
+        validatePaletteInput({ name: 'x', colors: [SPECTRA.colors[0]] }),
+      ).toThrow('2-16 colors')
+      expect(() =>
+        validatePaletteInput({
+          name: 'x',
+          colors: [{ perceived: 'red' }, { perceived: '#000000' }],
+        }),
+      ).toThrow('Color 1')
+    })
+  })
+
+  describe('#createPalette', () => {
+    it('stores the palette under a custom- id', async () => {
+      const file = tmpFile()
+
+      const palette = await createPalette(file, SPECTRA)
+
+      expect(palette.id).toMatch(/^custom-/)
+      expect(palette.colors[0]).toEqual({
+        perceived: '#1F1A24',
+        output: '#000000',
+      })
+      expect(await getPalette(palette.id, file)).toEqual(palette)
+    })
+  })
+
+  describe('#updatePalette', () => {
+    it('replaces the name and colors', async () => {
+      const file = tmpFile()
+      const palette = await createPalette(file, SPECTRA)
+
+      const updated = await updatePalette(file, palette.id, {
+        ...SPECTRA,
+        name: 'Renamed',
+      })
+
+      expect(updated!.name).toBe('Renamed')
+      expect(updated!.createdAt).toBe(palette.createdAt)
+    })
+
+    it('returns null for an unknown palette', async () => {
+      expect(await updatePalette(tmpFile(), 'custom-x', SPECTRA)).toBeNull()
+    })
+  })
+
+  describe('#deletePalette', () => {
+    it('removes the palette', async () => {
+      const file = tmpFile()
+      const palette = await createPalette(file, SPECTRA)
+
+      expect(await deletePalette(file, palette.id)).toBe(true)
+      expect(await loadPalettes(file)).toEqual([])
+      expect(await deletePalette(file, palette.id)).toBe(false)
+    })
+  })
+})
+
+describe('parsePaletteColors', () => {
+  it('reads one or two colors per line and round-trips', () => {
+    const colors = parsePaletteColors('#1f1a24 #000000\n\n  #FFFFFF  \n')
+
+    expect(colors).toEqual([
+      { perceived: '#1F1A24', output: '#000000' },
+      { perceived: '#FFFFFF', output: '#FFFFFF' },
+    ])
+    expect(parsePaletteColors(formatPaletteColors(colors))).toEqual(colors)
+  })
+
+  it('names the line that is not a color', () => {
+    expect(() => parsePaletteColors('#000000\nred')).toThrow('Line 2')
+  })
+})
@@ -70,6 +70,61 @@ describe('params-builder', () => {
       expect(params.format).toBe('bmp')
     })
 
+    it('passes the raw layout for raw format', () => {
+      const schedule = buildSchedule({
+        format: 'raw',
+        raw_bit_order: 'lsb',
+        raw_planes: true,
+      })
+
+      const params = buildParams(schedule)
+
+      expect(params.format).toBe('raw')
+      expect(params.raw).toEqual({ bitOrder: 'lsb', planes: true })
+    })
+
+    it('passes the array name for h format', () => {
+      const schedule = buildSchedule({ format: 'h', header_symbol: 'kitchen' })
+
+      const params = buildParams(schedule)
+
+      expect(params.raw).toEqual({
+        bitOrder: undefined,
+        planes: false,
+        symbol: 'kitchen',
+      })
+    })
+
+    it('keys changed regions on the schedule', () => {
+      const schedule = buildSchedule({ changed_region: 'report' })
+
+      const params = buildParams(schedule)
+
+      expect(params.changedRegion).toBe('report')
+      expect(params.frameKey).toBe(`schedule:${schedule.id}`)
+      expect(buildParams(buildSchedule()).frameKey).toBeUndefined()
+    })
+
+    it('asks for the frame when an unchanged tolerance needs it', () => {
+      const tolerant = buildSchedule({
+        skip_unchanged: true,
+        unchanged_tolerance: 1,
+      })
+
+      expect(buildParams(tolerant).keepFrame).toBe(true)
+      expect(
+        buildParams(buildSchedule({ skip_unchanged: true })).keepFrame,
+      ).toBeUndefined()
+    })
+
+    it('leaves out the raw layout for other formats', () => {
+      const schedule = buildSchedule({ format: 'bmp', raw_planes: true })
+
+      const params = buildParams(schedule)
+
+      expect(params.raw).toBeUndefined()
+    })
+
     it('defaults to png when undefined', () => {
       const schedule = buildSchedule({ format: undefined })
 
@@ -117,6 +172,51 @@ describe('params-builder', () => {
 
       expect(params.crop).toBeNull()
     })
+
+    it('includes selector and padding', () => {
+      const schedule = buildSchedule({
+        selector: 'title=Living Room',
+        selector_padding: 4,
+      })
+
+      const params = buildParams(schedule)
+
+      expect(params.selector).toBe('title=Living Room')
+      expect(params.selectorPadding).toBe(4)
+    })
+
+    it('includes the full-page mode and tile', () => {
+      const params = buildParams(
+        buildSchedule({ full_page: 'tile', full_page_tile: 3 }),
+      )
+
+      expect(params.fullPage).toBe('tile')
+      expect(params.fullPageTile).toBe(3)
+    })
+
+    it('drops the tile outside tile mode', () => {
+      const params = buildParams(
+        buildSchedule({ full_page: 'scale', full_page_tile: 3 }),
+      )
+
+      expect(params.fullPage).toBe('scale')
+      expect(params.fullPageTile).toBeUndefined()
+    })
+
+    it('includes supersampling and its filter', () => {
+      const params = buildParams(
+        buildSchedule({ scale_factor: 3, resample_filter: 'mitchell' }),
+      )
+
+      expect(params.scaleFactor).toBe(3)
+      expect(params.resampleFilter).toBe('mitchell')
+    })
+
+    it('leaves selector undefined when null', () => {
+      const params = buildParams(buildSchedule({ selector: null }))
+
+      expect(params.selector).toBeUndefined()
+    })
   })
 
   // ==========================================================================
@@ -196,6 +296,64 @@ describe('params-builder', () => {
       expect(params.zoom).toBe(0.8)
     })
 
+    it('includes custom css and hidden selectors', () => {
+      const schedule = buildSchedule({
+        custom_css: 'ha-card { border: none; }',
+        hide_selectors: ['.header'],
+      })
+
+      const params = buildParams(schedule)
+
+      expect(params.css).toBe('ha-card { border: none; }')
+      expect(params.hide).toEqual(['.header'])
+    })
+
+    it('includes page actions', () => {
+      const actions = [{ type: 'wait' as const, ms: 500 }]
+
+      const params = buildParams(buildSchedule({ actions }))
+
+      expect(params.actions).toEqual(actions)
+    })
+
+    it('includes an entity condition that names an entity', () => {
+      const condition = {
+        entity_id: 'camera.driveway',
+        operator: 'updated_within' as const,
+        seconds: 60,
+      }
+
+      expect(
+        buildParams(buildSchedule({ entity_condition: condition }))
+          .entityCondition,
+      ).toEqual(condition)
+      expect(
+        buildParams(
+          buildSchedule({
+            entity_condition: { entity_id: '', operator: 'eq' },
+          }),
+        ).entityCondition,
+      ).toBeUndefined()
+    })
+
+    it('converts max_unavailable from a percent to a ratio', () => {
+      expect(
+        buildParams(buildSchedule({ max_unavailable: 20 })).maxUnavailable,
+      ).toBe(0.2)
+      expect(
+        buildParams(buildSchedule({ max_unavailable: 0 })).maxUnavailable,
+      ).toBe(0)
+      expect(
+        buildParams(buildSchedule({ max_unavailable: null })).maxUnavailable,
+      ).toBeUndefined()
+    })
+
+    it('leaves hide undefined for an empty list', () => {
+      const params = buildParams(buildSchedule({ hide_selectors: [] }))
+
+      expect(params.hide).toBeUndefined()
+    })
+
     it('defaults zoom to 1', () => {
       const schedule = buildSchedule({ zoom: undefined })
 
@@ -0,0 +1,85 @@
+/**
+ * Unit tests for PGM/PPM pixel buffers and palette indexing
+ *
+ * @module tests/unit/pixel-buffer
+ */
+
+import { describe, it, expect } from 'bun:test'
+import {
+  decodePnm,
+  encodePnm,
+  indexColors,
+} from '../../lib/dithering/pixel-buffer.js'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+
+const rgb = (...colors: number[][]): PixelBuffer => ({
+  width: colors.length,
+  height: 1,
+  channels: 3,
+  data: new Uint8Array(colors.flat()),
+})
+
+describe('decodePnm', () => {
+  it('reads an 8-bit PGM with a comment in the header', () => {
+    const pnm = Buffer.concat([
+      Buffer.from('P5\n# written by ImageMagick\n3 2\n255\n', 'latin1'),
+      Buffer.from([0, 64, 128, 192, 255, 10]),
+    ])
+
+    expect(decodePnm(pnm)).toEqual({
+      width: 3,
+      height: 2,
+      channels: 1,
+      data: new Uint8Array([0, 64, 128, 192, 255, 10]),
+    })
+  })
+
+  it('round-trips an RGB image through encodePnm', () => {
+    const pixels = {
+      width: 2,
+      height: 1,
+      channels: 3 as const,
+      data: new Uint8Array([255, 0, 0, 10, 20, 30]),
+    }
+
+    expect(decodePnm(encodePnm(pixels))).toEqual(pixels)
+  })
+
+  it('rejects other formats, 16-bit samples and truncated data', () => {
+    expect(() => decodePnm(Buffer.from('\x89PNG'))).toThrow('Unsupported PNM')
+    expect(() => decodePnm(Buffer.from('P5 1 1 65535\n\0\0'))).toThrow('maxval')
+    expect(() => decodePnm(Buffer.from('P6 2 2 255\n\0\0\0'))).toThrow(
+      'truncated',
+    )
+  })
+})
+
+describe('indexColors', () => {
+  it('follows the palette order and snaps stray colors to the nearest', () => {
+    const palette = [
+      [0, 0, 0],
+      [255, 255, 255],
+      [255, 0, 0],
+    ]
+    const indexed = indexColors(
+      rgb([255, 0, 0], [255, 255, 255], [240, 10, 10], [0, 0, 0]),
+      palette,
+    )
+
+    expect(indexed!.colors).toEqual([0x000000, 0xffffff, 0xff0000])
+    expect([...indexed!.indices]).toEqual([2, 1, 2, 0])
+  })
+
+  it('numbers colors as they first appear without a palette', () => {
+    const indexed = indexColors(rgb([9, 9, 9], [1, 2, 3], [9, 9, 9]))
+
+    expect(indexed!.colors).toEqual([0x090909, 0x010203])
+    expect([...indexed!.indices]).toEqual([0, 1, 0])
+  })
+
+  it('gives up beyond 256 colors', () => {
+    const colors = Array.from({ length: 257 }, (_, i) => [i & 0xff, i >> 8, 0])
+
+    expect(indexColors(rgb(...colors))).toBeNull()
+  })
+})
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for the in-process PNG codec
+ *
+ * @module tests/unit/png
+ */
+
+import { describe, it, expect } from 'bun:test'
+import { deflateSync } from 'zlib'
+import { decodePng, encodePng, isPng } from '../../lib/dithering/png.js'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+
+/** Lists chunk types in file order */
+function chunkTypes(png: Buffer): string[] {
+  const types: string[] = []
+  for (let offset = 8; offset < png.length; ) {
+    const length = png.readUInt32BE(offset)
+    types.push(png.toString('ascii', offset + 4, offset + 8))
+    offset += 12 + length
+  }
+  return types
+}
+
+const gray = (values: number[], width = values.length): PixelBuffer => ({
+  width,
+  height: values.length / width,
+  channels: 1,
+  data: new Uint8Array(values),
+})
+
+describe('encodePng', () => {
+  it('writes grayscale at the requested bit depth', () => {
+    for (const bitDepth of [1, 2, 4, 8]) {
+      const png = encodePng(gray([0, 255, 255, 0, 0]), { bitDepth })
+
+      expect(isPng(png)).toBe(true)
+      expect(png[24]).toBe(bitDepth) // IHDR bit depth
+      expect(png[25]).toBe(0) // IHDR color type: grayscale
+      expect(decodePng(png).data.filter((_, i) => i % 3 === 0)).toEqual(
+        new Uint8Array([0, 255, 255, 0, 0]),
+      )
+    }
+  })
+
+  it('writes color images with few colors as indexed', () => {
+    const pixels: PixelBuffer = {
+      width: 3,
+      height: 1,
+      channels: 3,
+      data: new Uint8Array([255, 0, 0, 255, 255, 255, 255, 0, 0]),
+    }
+    const png = encodePng(pixels)
+
+    expect(png[24]).toBe(1)
+    expect(png[25]).toBe(3) // indexed
+    expect(chunkTypes(png)).toContain('PLTE')
+    expect(decodePng(png)).toEqual(pixels)
+  })
+
+  it('writes the PLTE chunk in the order of the given palette', () => {
+    const pixels: PixelBuffer = {
+      width: 2,
+      height: 1,
+      channels: 3,
+      data: new Uint8Array([255, 0, 0, 0, 0, 0]),
+    }
+    const png = encodePng(pixels, {
+      palette: [
+        [0, 0, 0],
+        [255, 255, 255],
+        [255, 0, 0],
+        [0, 255, 0],
+      ],
+    })
+
+    expect(png[24]).toBe(2) // four entries fit in 2 bits
+    expect(png[25]).toBe(3)
+    const plte = png.indexOf('PLTE')
+    expect(png.readUInt32BE(plte - 4)).toBe(12)
+    expect([...png.subarray(plte + 4, plte + 16)]).toEqual([
+      0, 0, 0, 255, 255, 255, 255, 0, 0, 0, 255, 0,
+    ])
+    expect(decodePng(png)).toEqual(pixels)
+  })
+
+  it('always includes a bKGD chunk (issue #47)', () => {
+    expect(chunkTypes(encodePng(gray([128]), { bitDepth: 8 }))).toEqual([
+      'IHDR',
+      'bKGD',
+      'IDAT',
+      'IEND',
+    ])
+  })
+})
+
+describe('decodePng', () => {
+  it('reverses every row filter and composites alpha onto white', () => {
+    // 2x5 RGBA, one row per filter type; the last pixel is transparent
+    const width = 2
+    const image = Array.from({ length: 5 }, (_, y) =>
+      Array.from({ length: width }, (_, x) =>
+        y === 4 && x === 1 ? [0, 0, 0, 0] : [100 + y * 10, 50 + x * 20, 0, 255],
+      ).flat(),
+    )
+
+    const paeth = (a: number, b: number, c: number): number => {
+      const p = a + b - c
+      const [pa, pb, pc] = [a, b, c].map((v) => Math.abs(p - v))
+      if (pa! <= pb! && pa! <= pc!) return a
+      return pb! <= pc! ? b : c
+    }
+    const raw = image.flatMap((row, y) => [
+      y,
+      ...row.map((value, i) => {
+        const a = i >= 4 ? row[i - 4]! : 0
+        const b = y > 0 ? image[y - 1]![i]! : 0
+        const c = y > 0 && i >= 4 ? image[y - 1]![i - 4]! : 0
+        const predictor = [0, a, b, (a + b) >> 1, paeth(a, b, c)][y]!
+        return (value - predictor) & 0xff
+      }),
+    ])
+
+    const ihdr = Buffer.alloc(13)
+    ihdr.writeUInt32BE(width, 0)
+    ihdr.writeUInt32BE(5, 4)
+    ihdr[8] = 8
+    ihdr[9] = 6
+    const chunk = (type: string, data: Buffer): Buffer => {
+      const out = Buffer.alloc(data.length + 12)
+      out.writeUInt32BE(data.length, 0)
+      out.write(type, 4, 'ascii')
+      data.copy(out, 8)
+      return out // CRC isn't checked on decode
+    }
+    const png = Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      chunk('IHDR', ihdr),
+      chunk('IDAT', deflateSync(Buffer.from(raw))),
+      chunk('IEND', Buffer.alloc(0)),
+    ])
+
+    const decoded = decodePng(png)
+    expect([decoded.width, decoded.height]).toEqual([2, 5])
+    const expected = image.flatMap((row) =>
+      [0, 4].flatMap((i) =>
+        row[i + 3] === 0 ? [255, 255, 255] : row.slice(i, i + 3),
+      ),
+    )
+    expect([...decoded.data]).toEqual(expected)
+  })
+
+  it('rejects data that is not a PNG', () => {
+    expect(() => decodePng(Buffer.from('GIF89a'))).toThrow('Not a PNG')
+  })
+})
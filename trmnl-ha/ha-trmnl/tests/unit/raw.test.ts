@@ -0,0 +1,149 @@
+/**
+ * Unit tests for the raw framebuffer encoder
+ *
+ * @module tests/unit/raw
+ */
+
+import { describe, it, expect } from 'bun:test'
+import { encodeRaw, rawHeaders } from '../../lib/dithering/raw.js'
+import type { PixelBuffer } from '../../types/dithering-strategy.js'
+import type { RawLayout } from '../../types/domain.js'
+
+const gray = (width: number, values: number[]): PixelBuffer => ({
+  width,
+  height: values.length / width,
+  channels: 1,
+  data: Uint8Array.from(values),
+})
+
+const rgb = (width: number, colors: number[][]): PixelBuffer => ({
+  width,
+  height: colors.length / width,
+  channels: 3,
+  data: Uint8Array.from(colors.flat()),
+})
+
+const BLACK = [0, 0, 0]
+const WHITE = [255, 255, 255]
+const RED = [255, 0, 0]
+
+describe('encodeRaw', () => {
+  it('packs 1-bit rows most significant bit first, padding each row', () => {
+    // 10 pixels wide: two bytes per row, the last 6 bits padding
+    const pixels = gray(10, [
+      255, 0, 255, 0, 0, 0, 0, 0, 255, 255,
+      0, 0, 0, 0, 0, 0, 0, 255, 0, 0,
+    ])
+
+    const out = encodeRaw(pixels, { bitDepth: 1 })
+
+    expect([...out]).toEqual([0b10100000, 0b11000000, 0b00000001, 0])
+  })
+
+  it('puts the first pixel in the low bits with lsb order', () => {
+    const pixels = gray(8, [255, 0, 0, 0, 0, 0, 0, 0])
+
+    expect([...encodeRaw(pixels, { bitDepth: 1, bitOrder: 'lsb' })]).toEqual([
+      0b00000001,
+    ])
+  })
+
+  it('packs 2-bit gray levels four to a byte', () => {
+    const pixels = gray(4, [0, 85, 170, 255])
+    const layouts: RawLayout[] = []
+
+    const out = encodeRaw(pixels, {
+      bitDepth: 2,
+      onLayout: (layout) => layouts.push(layout),
+    })
+
+    expect([...out]).toEqual([0b00011011])
+    expect(layouts[0]).toEqual({
+      width: 4,
+      height: 1,
+      bitsPerPixel: 2,
+      bitOrder: 'msb',
+      planes: 1,
+      colors: ['#000000', '#555555', '#AAAAAA', '#FFFFFF'],
+    })
+  })
+
+  it('splits gray levels into bit planes, most significant first', () => {
+    const pixels = gray(4, [0, 85, 170, 255])
+
+    const out = encodeRaw(pixels, { bitDepth: 2, planes: true })
+
+    expect([...out]).toEqual([0b00110000, 0b01010000])
+  })
+
+  it('writes palette indices for discrete color palettes', () => {
+    const pixels = rgb(4, [BLACK, WHITE, RED, BLACK])
+
+    const out = encodeRaw(pixels, { palette: [BLACK, WHITE, RED] })
+
+    expect([...out]).toEqual([0b00011000])
+  })
+
+  it('writes one plane per non-white color for color-3bwr', () => {
+    const pixels = rgb(4, [BLACK, WHITE, RED, BLACK])
+    const layouts: RawLayout[] = []
+
+    const out = encodeRaw(pixels, {
+      palette: [BLACK, RED, WHITE],
+      planes: true,
+      onLayout: (layout) => layouts.push(layout),
+    })
+
+    // Black plane, then red plane
+    expect([...out]).toEqual([0b10010000, 0b00100000])
+    expect(layouts[0]).toMatchObject({
+      bitsPerPixel: 1,
+      planes: 2,
+      colors: ['#000000', '#FF0000'],
+    })
+  })
+
+  it('falls back to 24-bit RGB without a palette', () => {
+    const pixels = rgb(2, [RED, [1, 2, 3]])
+    const layouts: RawLayout[] = []
+
+    const out = encodeRaw(pixels, {
+      planes: true,
+      onLayout: (layout) => layouts.push(layout),
+    })
+
+    expect([...out]).toEqual([255, 0, 0, 1, 2, 3])
+    expect(layouts[0]).toEqual({
+      width: 2,
+      height: 1,
+      bitsPerPixel: 24,
+      bitOrder: 'msb',
+      planes: 1,
+    })
+  })
+})
+
+describe('rawHeaders', () => {
+  it('describes the layout, with the palette when there is one', () => {
+    const layout: RawLayout = {
+      width: 800,
+      height: 480,
+      bitsPerPixel: 1,
+      bitOrder: 'lsb',
+      planes: 2,
+      colors: ['#000000', '#FF0000'],
+    }
+
+    expect(rawHeaders(layout)).toEqual({
+      'X-Image-Width': '800',
+      'X-Image-Height': '480',
+      'X-Bits-Per-Pixel': '1',
+      'X-Bit-Order': 'lsb',
+      'X-Planes': '2',
+      'X-Palette': '#000000,#FF0000',
+    })
+    expect(
+      rawHeaders({ ...layout, colors: undefined })['X-Palette'],
+    ).toBeUndefined()
+  })
+})
@@ -0,0 +1,164 @@
+/**
+ * Unit tests for the in-memory render cache.
+ *
+ * @module tests/unit/render-cache
+ */
+
+import { describe, it, expect } from 'bun:test'
+import { RenderCache, renderCacheKey } from '../../lib/render-cache.js'
+import type { ParsedScreenshotParams } from '../../lib/screenshot-params-parser.js'
+
+const baseParams: ParsedScreenshotParams = {
+  pagePath: '/lovelace/0',
+  viewport: { width: 800, height: 480 },
+  zoom: 1,
+  crop: null,
+  invert: false,
+  timestamp: false,
+  format: 'png',
+  dark: false,
+}
+
+describe('renderCacheKey', () => {
+  it('ignores next and max_age', () => {
+    const key = renderCacheKey(baseParams)
+
+    expect(renderCacheKey({ ...baseParams, next: 60, maxAge: 30 })).toBe(key)
+  })
+
+  it('is independent of property order', () => {
+    const reordered: ParsedScreenshotParams = {
+      dark: false,
+      format: 'png',
+      timestamp: false,
+      invert: false,
+      crop: null,
+      zoom: 1,
+      viewport: { height: 480, width: 800 },
+      pagePath: '/lovelace/0',
+    }
+
+    expect(renderCacheKey(reordered)).toBe(renderCacheKey(baseParams))
+  })
+
+  it('differs when a rendering param differs', () => {
+    expect(renderCacheKey({ ...baseParams, format: 'bmp' })).not.toBe(
+      renderCacheKey(baseParams),
+    )
+  })
+})
+
+describe('RenderCache', () => {
+  it('returns null on a miss', () => {
+    expect(new RenderCache(1024).get('k', 1000)).toBeNull()
+  })
+
+  it('serves a fresh entry within max age', () => {
+    const cache = new RenderCache(1024)
+    cache.set('k', Buffer.from('img'), {}, 0)
+
+    const hit = cache.get('k', 1000, 500)
+
+    expect(hit).toEqual({
+      image: Buffer.from('img'),
+      headers: {},
+      stale: false,
+    })
+  })
+
+  it('keeps the output headers of a render', () => {
+    const cache = new RenderCache(1024)
+    const headers = { 'X-Image-Width': '800', 'X-Bits-Per-Pixel': '1' }
+    cache.set('k', Buffer.from('img'), headers, 0)
+
+    expect(cache.get('k', 1000, 500)!.headers).toEqual(headers)
+  })
+
+  it('serves a stale entry up to twice the max age', () => {
+    const cache = new RenderCache(1024)
+    cache.set('k', Buffer.from('img'), {}, 0)
+
+    expect(cache.get('k', 1000, 1500)!.stale).toBe(true)
+  })
+
+  it('misses once the entry is older than twice the max age', () => {
+    const cache = new RenderCache(1024)
+    cache.set('k', Buffer.from('img'), {}, 0)
+
+    expect(cache.get('k', 1000, 2500)).toBeNull()
+  })
+
+  it('evicts least recently used entries past the byte bound', () => {
+    const cache = new RenderCache(10)
+    cache.set('a', Buffer.alloc(4), {}, 0)
+    cache.set('b', Buffer.alloc(4), {}, 0)
+    cache.get('a', 1000, 0) // touch a so b is the oldest
+    cache.set('c', Buffer.alloc(4), {}, 0)
+
+    expect(cache.get('b', 1000, 0)).toBeNull()
+    expect(cache.get('a', 1000, 0)).not.toBeNull()
+    expect(cache.bytes).toBe(8)
+  })
+
+  it('does not cache an image larger than the whole budget', () => {
+    const cache = new RenderCache(4)
+    cache.set('k', Buffer.alloc(8), {}, 0)
+
+    expect(cache.get('k', 1000, 0)).toBeNull()
+    expect(cache.bytes).toBe(0)
+  })
+
+  it('replaces an entry without double-counting its bytes', () => {
+    const cache = new RenderCache(1024)
+    cache.set('k', Buffer.alloc(4), {}, 0)
+    cache.set('k', Buffer.alloc(6), {}, 0)
+
+    expect(cache.bytes).toBe(6)
+  })
+
+  it('allows one background refresh per key at a time', () => {
+    const cache = new RenderCache(1024)
+
+    expect(cache.beginRefresh('k')).toBe(true)
+    expect(cache.beginRefresh('k')).toBe(false)
+    cache.endRefresh('k')
+    expect(cache.beginRefresh('k')).toBe(true)
+  })
+})
+
+describe('RenderCache.replyToRejected', () => {
+  const login = {
+    problem: 'login' as const,
+    detail: 'redirected to the Home Assistant login page',
+  }
+
+  it('answers with the last good render, however old', () => {
+    const cache = new RenderCache(1024)
+    cache.set('k', Buffer.from('good'), { 'X-Image-Width': '800' }, 0)
+
+    const reply = cache.replyToRejected('k', login)
+
+    expect(reply).toEqual({
+      status: 200,
+      image: Buffer.from('good'),
+      headers: { 'X-Image-Width': '800', 'X-Capture-Problem': 'login' },
+    })
+  })
+
+  it('asks the client to retry when there is no good render', () => {
+    const reply = new RenderCache(1024).replyToRejected('k', login)
+
+    expect(reply.status).toBe(503)
+    expect(reply.headers).toMatchObject({
+      'Retry-After': '60',
+      'X-Capture-Problem': 'login',
+    })
+  })
+
+  it('never falls back for a request that is not cached', () => {
+    const cache = new RenderCache(1024)
+    cache.set('k', Buffer.from('good'), {}, 0)
+
+    expect(cache.replyToRejected(null, login).status).toBe(503)
+  })
+})
@@ -1,5 +1,5 @@
 /**
- * Tests for the request queue serializing browser access.
+ * Tests for the request queue handing out browser workers.
  *
  * @see lib/request-queue.ts
  * @module tests/unit/request-queue
@@ -7,6 +7,8 @@
 
 import { describe, it, expect, beforeEach } from 'bun:test'
 import { RequestQueue } from '../../lib/request-queue.js'
+import { QueueFullError } from '../../error.js'
+import { metricsSummary, resetMetrics } from '../../lib/metrics.js'
 
 describe('RequestQueue', () => {
   let queue: RequestQueue
@@ -16,13 +18,14 @@ describe('RequestQueue', () => {
   })
 
   it('acquires immediately when free', async () => {
-    await queue.acquire()
+    const worker = await queue.acquire()
 
+    expect(worker).toBe(0)
     expect(queue.busy).toBe(true)
   })
 
   it('makes a second acquire wait until release', async () => {
-    await queue.acquire()
+    const worker = await queue.acquire()
     let secondAcquired = false
     const second = queue.acquire().then(() => {
       secondAcquired = true
@@ -31,7 +34,7 @@ describe('RequestQueue', () => {
 
     expect(secondAcquired).toBe(false)
 
-    queue.release()
+    queue.release(worker)
     await second
 
     expect(secondAcquired).toBe(true)
@@ -39,44 +42,174 @@ describe('RequestQueue', () => {
   })
 
   it('wakes waiters in arrival order', async () => {
-    await queue.acquire()
+    const worker = await queue.acquire()
     const order: number[] = []
     const first = queue.acquire().then(() => order.push(1))
     const second = queue.acquire().then(() => order.push(2))
 
-    queue.release()
+    queue.release(worker)
     await first
-    queue.release()
+    queue.release(worker)
     await second
 
     expect(order).toEqual([1, 2])
   })
 
   it('frees the queue on release with no waiters', async () => {
-    await queue.acquire()
-    queue.release()
+    const worker = await queue.acquire()
+    queue.release(worker)
 
     expect(queue.busy).toBe(false)
   })
 
   it('tryAcquire holds the queue only when free', async () => {
-    expect(queue.tryAcquire()).toBe(true)
-    expect(queue.tryAcquire()).toBe(false)
+    expect(queue.tryAcquire()).toBe(0)
+    expect(queue.tryAcquire()).toBeNull()
 
-    queue.release()
+    queue.release(0)
 
-    expect(queue.tryAcquire()).toBe(true)
+    expect(queue.tryAcquire()).toBe(0)
   })
 
   it('hands the queue to a waiter before a new caller can take it', async () => {
-    await queue.acquire()
+    const worker = await queue.acquire()
     const waiter = queue.acquire()
 
-    queue.release()
+    queue.release(worker)
 
     // The queue belongs to the waiter from the moment of release
-    expect(queue.tryAcquire()).toBe(false)
-    await waiter
+    expect(queue.tryAcquire()).toBeNull()
+    expect(await waiter).toBe(worker)
     expect(queue.busy).toBe(true)
   })
+
+  describe('with a pool of workers', () => {
+    beforeEach(() => {
+      queue = new RequestQueue(3)
+    })
+
+    it('hands out distinct workers until the pool is exhausted', async () => {
+      const workers = [
+        await queue.acquire(),
+        await queue.acquire(),
+        await queue.acquire(),
+      ]
+
+      expect(workers).toEqual([0, 1, 2])
+      expect(queue.busy).toBe(true)
+      expect(queue.tryAcquire()).toBeNull()
+    })
+
+    it('is not busy while any worker is free', async () => {
+      await queue.acquire()
+
+      expect(queue.busy).toBe(false)
+      expect(queue.active).toBe(1)
+    })
+
+    it('hands the released worker to the next waiter', async () => {
+      await queue.acquire()
+      await queue.acquire()
+      await queue.acquire()
+      const waiter = queue.acquire()
+
+      queue.release(1)
+
+      expect(await waiter).toBe(1)
+    })
+
+    it('prefers the lowest-numbered free worker', async () => {
+      await queue.acquire()
+      await queue.acquire()
+      queue.release(1)
+      queue.release(0)
+
+      expect(await queue.acquire()).toBe(0)
+    })
+  })
+
+  describe('priority classes', () => {
+    it('serves scheduler, then interactive, then preload waiters', async () => {
+      const worker = await queue.acquire()
+      const order: string[] = []
+      const waiters = [
+        queue.acquire('preload').then(() => order.push('preload')),
+        queue.acquire('interactive').then(() => order.push('interactive')),
+        queue.acquire('scheduler').then(() => order.push('scheduler')),
+      ]
+
+      for (let i = 0; i < 3; i++) {
+        queue.release(worker)
+        await Bun.sleep(1)
+      }
+      await Promise.all(waiters)
+
+      expect(order).toEqual(['scheduler', 'interactive', 'preload'])
+    })
+
+    it('records wait time per class', async () => {
+      resetMetrics()
+      const worker = await queue.acquire('interactive')
+      const waiter = queue.acquire('scheduler')
+      await Bun.sleep(5)
+
+      queue.release(worker)
+      await waiter
+
+      const summary = metricsSummary()
+      expect(summary['queue.wait.interactive']!.count).toBe(1)
+      expect(summary['queue.wait.scheduler']!.lastMs).toBeGreaterThanOrEqual(4)
+    })
+  })
+
+  describe('maximum depth', () => {
+    beforeEach(() => {
+      queue = new RequestQueue(1, { maxDepth: 1 })
+    })
+
+    it('rejects with QueueFullError once the depth is reached', async () => {
+      await queue.acquire()
+      void queue.acquire()
+
+      const rejected = queue.acquire()
+
+      const err = await rejected.catch((e: unknown) => e)
+      expect(err).toBeInstanceOf(QueueFullError)
+      expect((err as QueueFullError).retryAfterSeconds).toBeGreaterThanOrEqual(1)
+    })
+
+    it('always queues scheduled captures', async () => {
+      await queue.acquire()
+      void queue.acquire()
+
+      void queue.acquire('scheduler')
+
+      expect(queue.depth).toBe(2)
+    })
+  })
+
+  describe('abort', () => {
+    it('removes a waiter whose signal aborts', async () => {
+      const worker = await queue.acquire()
+      const controller = new AbortController()
+      const aborted = queue.acquire('interactive', controller.signal)
+
+      controller.abort()
+
+      await expect(aborted).rejects.toThrow()
+      expect(queue.depth).toBe(0)
+      queue.release(worker)
+      expect(queue.busy).toBe(false)
+    })
+
+    it('rejects immediately for an already aborted signal', async () => {
+      const controller = new AbortController()
+      controller.abort()
+
+      await expect(
+        queue.acquire('interactive', controller.signal),
+      ).rejects.toThrow()
+      expect(queue.busy).toBe(false)
+    })
+  })
 })
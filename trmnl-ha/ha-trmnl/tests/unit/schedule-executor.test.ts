@@ -25,7 +25,10 @@ import {
 import fs from 'node:fs'
 import os from 'node:os'
 import path from 'node:path'
-import { ScheduleExecutor } from '../../lib/scheduler/schedule-executor.js'
+import {
+  ScheduleExecutor,
+  type ScreenshotFunction,
+} from '../../lib/scheduler/schedule-executor.js'
 import * as sleepModule from '../../lib/sleep.js'
 import {
   captureFetch,
@@ -36,6 +39,11 @@ import {
   buildSchedule,
   buildByosSchedule,
 } from '../helpers/schedule-fixtures.js'
+import {
+  CaptureRejectedError,
+  EntityConditionTimeoutError,
+} from '../../error.js'
+import type { Schedule } from '../../types/domain.js'
 
 afterAll(restoreFetch)
 
@@ -44,7 +52,10 @@ function createExecutor(
   screenshotFn: () => Promise<Buffer>,
 ): ScheduleExecutor {
   const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'trmnl-executor-'))
-  return new ScheduleExecutor(screenshotFn, outputDir)
+  return new ScheduleExecutor(
+    async () => ({ image: await screenshotFn(), time: 0 }),
+    outputDir,
+  )
 }
 
 describe('ScheduleExecutor — BYOS URI delivery', () => {
@@ -55,7 +66,7 @@ describe('ScheduleExecutor — BYOS URI delivery', () => {
   beforeEach(() => {
     outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'trmnl-executor-'))
     executor = new ScheduleExecutor(
-      async () => Buffer.from('fake-png'),
+      async () => ({ image: Buffer.from('fake-png'), time: 0 }),
       outputDir,
     )
     requests = captureFetch()
@@ -136,6 +147,45 @@ describe('ScheduleExecutor — network retry', () => {
   })
 })
 
+describe('ScheduleExecutor — entity condition skip', () => {
+  it('skips delivery when the entity condition times out', async () => {
+    const requests = captureFetch()
+    const executor = createExecutor(async () => {
+      throw new EntityConditionTimeoutError('camera.driveway', 30000)
+    })
+
+    const result = await executor.call(
+      buildSchedule({ webhook_url: 'https://byos.example.com/api/screens' }),
+    )
+
+    expect(result.success).toBe(true)
+    expect(result.skipped).toContain('camera.driveway')
+    expect(result.webhook).toBeUndefined()
+    expect(requests).toHaveLength(0)
+  })
+})
+
+describe('ScheduleExecutor — rejected captures', () => {
+  it('fails the run without saving or delivering', async () => {
+    const requests = captureFetch()
+    const executor = createExecutor(async () => {
+      throw new CaptureRejectedError({
+        problem: 'login',
+        detail: 'redirected to the Home Assistant login page',
+      })
+    })
+
+    const result = await executor.call(
+      buildSchedule({ webhook_url: 'https://byos.example.com/api/screens' }),
+    )
+
+    expect(result).toMatchObject({ success: false, savedPath: '' })
+    expect(result.rejected).toBe('login')
+    expect(result.error).toContain('login page')
+    expect(requests).toHaveLength(0)
+  })
+})
+
 describe('ScheduleExecutor — webhook failure reporting', () => {
   const webhookSchedule = () =>
     buildSchedule({ webhook_url: 'https://byos.example.com/api/screens' })
@@ -175,3 +225,275 @@ describe('ScheduleExecutor — webhook failure reporting', () => {
     expect(result.webhook!.retryAfterMs).toBeUndefined()
   })
 })
+
+describe('ScheduleExecutor — unchanged frames', () => {
+  const unchangedSchedule = (overrides: Partial<Schedule> = {}) =>
+    buildSchedule({
+      webhook_url: 'https://byos.example.com/api/screens',
+      skip_unchanged: true,
+      ...overrides,
+    })
+
+  it('skips the webhook when the capture matches the last delivery', async () => {
+    const requests = captureFetch()
+    const executor = createExecutor(async () => Buffer.from('fake-png'))
+
+    const first = await executor.call(unchangedSchedule())
+    const second = await executor.call(unchangedSchedule())
+
+    expect(first.webhook?.success).toBe(true)
+    expect(second.unchanged).toContain('identical')
+    expect(second.webhook).toBeUndefined()
+    expect(second.savedPath).not.toBe('')
+    expect(requests).toHaveLength(1)
+  })
+
+  it('delivers a changed capture', async () => {
+    const requests = captureFetch()
+    let run = 0
+    const executor = createExecutor(async () => Buffer.from(`frame-${run++}`))
+
+    await executor.call(unchangedSchedule())
+    const second = await executor.call(unchangedSchedule())
+
+    expect(second.unchanged).toBeUndefined()
+    expect(requests).toHaveLength(2)
+  })
+
+  it('delivers anyway every force_every runs', async () => {
+    const requests = captureFetch()
+    const executor = createExecutor(async () => Buffer.from('fake-png'))
+    const schedule = unchangedSchedule({ force_every: 3 })
+
+    for (let run = 0; run < 7; run++) await executor.call(schedule)
+
+    // Runs 1, 4 and 7 deliver
+    expect(requests).toHaveLength(3)
+  })
+
+  it('compares the frames of non-PNG output within the tolerance', async () => {
+    const requests = captureFetch()
+    let run = 0
+    const executor = new ScheduleExecutor(
+      async (params) => {
+        expect(params.keepFrame).toBe(true)
+        const data = new Uint8Array(100).fill(255)
+        data.fill(0, 0, run)
+        return {
+          image: Buffer.from(`bmp-${run++}`),
+          time: 0,
+          frame: { width: 10, height: 10, channels: 1, data },
+        }
+      },
+      fs.mkdtempSync(path.join(os.tmpdir(), 'trmnl-executor-')),
+    )
+    const schedule = unchangedSchedule({
+      format: 'bmp',
+      unchanged_tolerance: 2,
+    })
+
+    await executor.call(schedule)
+    const second = await executor.call(schedule)
+
+    expect(second.unchanged).toBe('1.00% of pixels differ (tolerance 2%)')
+    expect(requests).toHaveLength(1)
+  })
+
+  it('always delivers when forced', async () => {
+    const requests = captureFetch()
+    const executor = createExecutor(async () => Buffer.from('fake-png'))
+
+    await executor.call(unchangedSchedule())
+    const forced = await executor.call(unchangedSchedule(), { force: true })
+
+    expect(forced.unchanged).toBeUndefined()
+    expect(requests).toHaveLength(2)
+  })
+})
+
+describe('ScheduleExecutor — changed regions', () => {
+  it('sends the changed region with the webhook and returns it', async () => {
+    const requests = captureFetch()
+    const region = { x: 8, y: 40, width: 120, height: 24 }
+    const changes = {
+      width: 800,
+      height: 480,
+      regions: [region],
+      bounds: region,
+      full: false,
+    }
+    const executor = new ScheduleExecutor(
+      async () => ({ image: Buffer.from('fake-png'), time: 0, changes }),
+      fs.mkdtempSync(path.join(os.tmpdir(), 'trmnl-executor-')),
+    )
+
+    const result = await executor.call(
+      buildSchedule({
+        webhook_url: 'https://byos.example.com/api/screens',
+        changed_region: 'report',
+      }),
+    )
+
+    expect(result.changes).toEqual(changes)
+    expect(requests[0]!.init?.headers).toMatchObject({
+      'X-Frame-Size': '800x480',
+      'X-Changed-Region': '8,40,120,24',
+    })
+  })
+})
+
+describe('ScheduleExecutor — changed windows', () => {
+  const region = { x: 8, y: 40, width: 120, height: 24 }
+  const windowed = (recordFrame = mock(() => {})): ScreenshotFunction =>
+    async () => ({
+      image: Buffer.from('full-frame'),
+      time: 0,
+      changes: {
+        width: 800,
+        height: 480,
+        regions: [region],
+        bounds: region,
+        full: false,
+        window: region,
+      },
+      window: { image: Buffer.from('window') },
+      recordFrame,
+    })
+  const windowSchedule = (overrides: Partial<Schedule> = {}) =>
+    buildSchedule({
+      webhook_url: 'https://byos.example.com/api/screens',
+      changed_region: 'window',
+      ...overrides,
+    })
+  const createWindowExecutor = (screenshotFn: ScreenshotFunction) =>
+    new ScheduleExecutor(
+      screenshotFn,
+      fs.mkdtempSync(path.join(os.tmpdir(), 'trmnl-executor-')),
+    )
+
+  it('saves the full frame and sends only the window', async () => {
+    const requests = captureFetch()
+    const executor = createWindowExecutor(windowed())
+
+    const result = await executor.call(windowSchedule())
+
+    expect(fs.readFileSync(result.savedPath, 'utf-8')).toBe('full-frame')
+    expect(
+      Buffer.from(requests[0]!.init?.body as Uint8Array).toString(),
+    ).toBe('window')
+    expect(requests[0]!.init?.headers).toMatchObject({
+      'X-Frame-Window': '8,40,120,24',
+    })
+  })
+
+  it('points BYOS URI delivery at the full frame, without a window', async () => {
+    const requests = captureFetch()
+    const executor = createWindowExecutor(windowed())
+
+    const result = await executor.call(buildByosSchedule())
+
+    expect(result.changes?.window).toBeUndefined()
+    expect(requests[0]!.init?.headers).not.toHaveProperty('X-Frame-Window')
+  })
+
+  it('records the frame once the webhook accepts it', async () => {
+    captureFetch()
+    const recordFrame = mock(() => {})
+    const executor = createWindowExecutor(windowed(recordFrame))
+
+    await executor.call(windowSchedule())
+
+    expect(recordFrame).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps the last frame when the webhook fails', async () => {
+    mockFetch({ ok: false, status: 503, statusText: 'Service Unavailable' })
+    const recordFrame = mock(() => {})
+    const executor = createWindowExecutor(windowed(recordFrame))
+
+    const result = await executor.call(windowSchedule())
+
+    expect(result.webhook?.success).toBe(false)
+    expect(recordFrame).not.toHaveBeenCalled()
+  })
+
+  it('keeps the last frame when an unchanged capture is skipped', async () => {
+    captureFetch()
+    const recordFrame = mock(() => {})
+    const executor = createWindowExecutor(windowed(recordFrame))
+    const schedule = windowSchedule({ skip_unchanged: true })
+
+    await executor.call(schedule)
+    const second = await executor.call(schedule)
+
+    expect(second.unchanged).toBeDefined()
+    expect(recordFrame).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('ScheduleExecutor — full-page tiles', () => {
+  it('tells the webhook which tile it got and how many there are', async () => {
+    const requests = captureFetch()
+    const executor = new ScheduleExecutor(
+      async () => ({
+        image: Buffer.from('fake-png'),
+        time: 0,
+        tiles: { tile: 1, count: 3 },
+      }),
+      fs.mkdtempSync(path.join(os.tmpdir(), 'trmnl-executor-')),
+    )
+
+    await executor.call(
+      buildSchedule({
+        webhook_url: 'https://byos.example.com/api/screens',
+        full_page: 'tile',
+      }),
+    )
+
+    expect(requests[0]!.init?.headers).toMatchObject({
+      'X-Tile': '1',
+      'X-Tile-Count': '3',
+    })
+  })
+
+  /** Executor capturing whichever of `count` tiles it is asked for */
+  const tiledExecutor = (count: number) => {
+    const asked: (number | undefined)[] = []
+    const executor = new ScheduleExecutor(
+      async (params) => {
+        asked.push(params.fullPageTile)
+        const tile = Math.min(params.fullPageTile ?? 1, count)
+        return {
+          image: Buffer.from(`tile-${tile}`),
+          time: 0,
+          tiles: { tile, count },
+        }
+      },
+      fs.mkdtempSync(path.join(os.tmpdir(), 'trmnl-executor-')),
+    )
+    return { executor, asked }
+  }
+
+  it('moves on one page per run and wraps after the last', async () => {
+    const { executor, asked } = tiledExecutor(3)
+    const schedule = buildSchedule({ full_page: 'tile', full_page_tile: 2 })
+
+    for (let run = 0; run < 4; run++) await executor.call(schedule)
+
+    expect(asked).toEqual([2, 3, 1, 2])
+  })
+
+  it('retries the same page when the webhook fails', async () => {
+    mockFetch({ ok: false, status: 503, statusText: 'Service Unavailable' })
+    const { executor, asked } = tiledExecutor(3)
+    const schedule = buildSchedule({
+      webhook_url: 'https://byos.example.com/api/screens',
+      full_page: 'tile',
+    })
+
+    await executor.call(schedule)
+    await executor.call(schedule)
+
+    expect(asked).toEqual([undefined, undefined])
+  })
+})
@@ -19,6 +19,7 @@
 import { mock, describe, it, expect, beforeEach } from 'bun:test'
 import type { BrowserDeps } from '../../screenshot.js'
 import { readinessInternalsPresent } from '../../lib/browser/navigation-commands.js'
+import { ElementNotFoundError, PageActionError } from '../../error.js'
 
 // Safety: const.ts needs these env vars at module load time (no options-dev.json in CI)
 process.env['HOME_ASSISTANT_URL'] = 'http://localhost:8123'
@@ -110,6 +111,11 @@ function createMockPage(): MockPage {
 const mockBrowserInstance = {
   connected: true,
   newPage: mock(async () => createMockPage()),
+  // Contexts open their pages through newPage so tests can swap the page
+  createBrowserContext: mock(async () => ({
+    newPage: () => mockBrowserInstance.newPage(),
+    close: mock(async () => {}),
+  })),
   close: mock(async () => {}),
   on: mock(() => {}),
 }
@@ -159,6 +165,108 @@ describe('Browser', () => {
     })
   })
 
+  // -------------------------------------------------------------------------
+  // Worker pool: per-worker pages and busy guards
+  // -------------------------------------------------------------------------
+
+  describe('worker pool', () => {
+    const poolDeps = { ...mockDeps, poolSize: 2 } as BrowserDeps
+
+    it('navigates two workers concurrently', async () => {
+      const browser = new Browser(BASE_URL, TOKEN, poolDeps)
+
+      await Promise.all([
+        browser.navigatePage(
+          { pagePath: '/lovelace/0', viewport: DEFAULT_VIEWPORT },
+          0,
+        ),
+        browser.navigatePage(
+          { pagePath: '/lovelace/1', viewport: DEFAULT_VIEWPORT },
+          1,
+        ),
+      ])
+
+      expect(browser.busy).toBe(false)
+    })
+
+    it('keeps the busy guard per worker', async () => {
+      const browser = new Browser(BASE_URL, TOKEN, poolDeps)
+
+      const pending = browser.navigatePage(
+        { pagePath: '/lovelace/0', viewport: DEFAULT_VIEWPORT },
+        1,
+      )
+      const second = browser.navigatePage(
+        { pagePath: '/lovelace/1', viewport: DEFAULT_VIEWPORT },
+        1,
+      )
+
+      await expect(second).rejects.toThrow('Browser is busy')
+      await pending
+    })
+
+    it('captures from the page its worker navigated', async () => {
+      const browser = new Browser(BASE_URL, TOKEN, poolDeps)
+      await browser.navigatePage(
+        { pagePath: '/lovelace/0', viewport: DEFAULT_VIEWPORT },
+        0,
+      )
+      const workerZeroPage = currentMockPage
+      await browser.navigatePage(
+        { pagePath: '/lovelace/1', viewport: DEFAULT_VIEWPORT },
+        1,
+      )
+
+      await browser.screenshotPage({ viewport: DEFAULT_VIEWPORT }, 0)
+
+      expect(workerZeroPage.screenshot).toHaveBeenCalledTimes(1)
+      expect(currentMockPage.screenshot).not.toHaveBeenCalled()
+    })
+
+    it('gives each worker its own browser context', async () => {
+      const browser = new Browser(BASE_URL, TOKEN, poolDeps)
+      mockBrowserInstance.createBrowserContext.mockClear()
+
+      for (const worker of [0, 1, 0]) {
+        await browser.navigatePage(
+          { pagePath: '/lovelace/0', viewport: DEFAULT_VIEWPORT },
+          worker,
+        )
+      }
+
+      expect(mockBrowserInstance.createBrowserContext).toHaveBeenCalledTimes(2)
+    })
+
+    it('recycles one worker without touching the other', async () => {
+      const browser = new Browser(BASE_URL, TOKEN, poolDeps)
+      mockBrowserInstance.close.mockClear()
+      await browser.navigatePage(
+        { pagePath: '/lovelace/0', viewport: DEFAULT_VIEWPORT },
+        0,
+      )
+      const workerZeroPage = currentMockPage
+      await browser.navigatePage(
+        { pagePath: '/lovelace/1', viewport: DEFAULT_VIEWPORT },
+        1,
+      )
+      const workerOnePage = currentMockPage
+
+      await browser.recycleWorker(0)
+
+      expect(workerZeroPage.close).toHaveBeenCalled()
+      expect(workerOnePage.close).not.toHaveBeenCalled()
+      expect(mockBrowserInstance.close).not.toHaveBeenCalled()
+    })
+
+    it('rejects an unknown worker index', async () => {
+      const browser = new Browser(BASE_URL, TOKEN, poolDeps)
+
+      await expect(
+        browser.screenshotPage({ viewport: DEFAULT_VIEWPORT }, 2),
+      ).rejects.toThrow('Unknown browser worker 2')
+    })
+  })
+
   // -------------------------------------------------------------------------
   // Lifecycle: #isConnected
   // -------------------------------------------------------------------------
@@ -247,7 +355,25 @@ describe('Browser', () => {
         viewport: DEFAULT_VIEWPORT,
       })
 
-      expect(currentMockPage.setViewport).toHaveBeenCalledWith(DEFAULT_VIEWPORT)
+      expect(currentMockPage.setViewport).toHaveBeenCalledWith({
+        ...DEFAULT_VIEWPORT,
+        deviceScaleFactor: 1,
+      })
+    })
+
+    it('renders at the requested scale factor', async () => {
+      const browser = new Browser(BASE_URL, TOKEN, mockDeps)
+
+      await browser.navigatePage({
+        pagePath: '/lovelace/0',
+        viewport: DEFAULT_VIEWPORT,
+        scaleFactor: 2,
+      })
+
+      expect(currentMockPage.setViewport).toHaveBeenCalledWith({
+        ...DEFAULT_VIEWPORT,
+        deviceScaleFactor: 2,
+      })
     })
 
     it('does not add scaled header offset when zoom is set', async () => {
@@ -262,7 +388,10 @@ describe('Browser', () => {
 
       // Before: height would be 825 + Math.round(56 * 1.5) = 825 + 84 = 909
       // After: height stays 825
-      expect(currentMockPage.setViewport).toHaveBeenCalledWith(viewport)
+      expect(currentMockPage.setViewport).toHaveBeenCalledWith({
+        ...viewport,
+        deviceScaleFactor: 1,
+      })
     })
 
     it('rejects concurrent calls with busy error', async () => {
@@ -346,6 +475,39 @@ describe('Browser', () => {
         createMockPage(),
       )
     })
+
+    it('runs page actions last and reports their failures', async () => {
+      const browser = new Browser(BASE_URL, TOKEN, mockDeps)
+      mockBrowserInstance.newPage.mockImplementation(async () => {
+        const page = createMockPage()
+        page.evaluate.mockImplementation(async (fn: unknown) => {
+          if (fn === 'document.querySelector("paper-tab").click()') {
+            throw new Error('Cannot read properties of null')
+          }
+          return fn === readinessInternalsPresent ? true : 0
+        })
+        return page
+      })
+
+      const navigation = browser.navigatePage({
+        pagePath: '/lovelace/0',
+        viewport: DEFAULT_VIEWPORT,
+        actions: [
+          {
+            type: 'evaluate',
+            expression: 'document.querySelector("paper-tab").click()',
+          },
+        ],
+      })
+
+      await expect(navigation).rejects.toBeInstanceOf(PageActionError)
+      expect(currentMockPage.waitForFunction).toHaveBeenCalled()
+      expect(browser.busy).toBe(false)
+
+      mockBrowserInstance.newPage.mockImplementation(async () =>
+        createMockPage(),
+      )
+    })
   })
 
   // -------------------------------------------------------------------------
@@ -427,6 +589,85 @@ describe('Browser', () => {
       })
     })
 
+    it('clips to the selected element instead of the crop', async () => {
+      currentMockPage.evaluate.mockImplementation(async () => ({
+        x: 20.5,
+        y: 100,
+        width: 300,
+        height: 150.2,
+      }))
+
+      await browser.screenshotPage({
+        viewport: DEFAULT_VIEWPORT,
+        crop: { x: 0, y: 0, width: 800, height: 480 },
+        selector: 'hui-entities-card',
+        selectorPadding: 10,
+      })
+
+      expect(currentMockPage.screenshot).toHaveBeenCalledWith({
+        type: 'png',
+        clip: { x: 10, y: 90, width: 321, height: 171 },
+      })
+    })
+
+    it('throws ElementNotFoundError when the selector matches nothing', async () => {
+      currentMockPage.evaluate.mockImplementation(async () => null)
+
+      const capture = browser.screenshotPage({
+        viewport: DEFAULT_VIEWPORT,
+        selector: 'hui-missing-card',
+      })
+
+      await expect(capture).rejects.toBeInstanceOf(ElementNotFoundError)
+      expect(currentMockPage.screenshot).not.toHaveBeenCalled()
+    })
+
+    it('stretches the viewport for a full-page capture, then restores it', async () => {
+      currentMockPage.evaluate.mockImplementation(async () => 1200)
+      currentMockPage.setViewport.mockClear()
+      const processImage = mockDeps.processImage as unknown as MockFn
+      processImage.mockClear()
+
+      await browser.screenshotPage({
+        viewport: DEFAULT_VIEWPORT,
+        crop: { x: 0, y: 0, width: 100, height: 100 },
+        fullPage: 'scale',
+      })
+
+      expect(currentMockPage.setViewport.mock.calls).toEqual([
+        [{ width: 800, height: 1200, deviceScaleFactor: 1 }],
+        [{ ...DEFAULT_VIEWPORT, deviceScaleFactor: 1 }],
+      ])
+      expect(currentMockPage.screenshot).toHaveBeenCalledWith({
+        type: 'png',
+        clip: { x: 0, y: 0, width: 800, height: 1200 },
+      })
+      expect(processImage.mock.calls[0]![1]).toMatchObject({
+        fit: DEFAULT_VIEWPORT,
+      })
+    })
+
+    it('resamples a supersampled capture to the clip size in CSS pixels', async () => {
+      const processImage = mockDeps.processImage as unknown as MockFn
+      processImage.mockClear()
+
+      await browser.screenshotPage({
+        viewport: DEFAULT_VIEWPORT,
+        crop: { x: 10, y: 20, width: 300, height: 200 },
+        scaleFactor: 2,
+        resampleFilter: 'box',
+      })
+
+      expect(currentMockPage.screenshot).toHaveBeenCalledWith({
+        type: 'png',
+        clip: { x: 10, y: 20, width: 300, height: 200 },
+      })
+      expect(processImage.mock.calls[0]![1]).toMatchObject({
+        resample: { width: 300, height: 200 },
+        filter: 'box',
+      })
+    })
+
     it('returns image as Buffer', async () => {
       const result = await browser.screenshotPage({
         viewport: DEFAULT_VIEWPORT,
@@ -436,6 +677,16 @@ describe('Browser', () => {
       expect(result.image).toBeInstanceOf(Buffer)
     })
 
+    it('reports a capture of the login page as rejected', async () => {
+      currentMockPage.url = () => 'http://localhost:8123/auth/authorize'
+
+      const result = await browser.screenshotPage({
+        viewport: DEFAULT_VIEWPORT,
+      })
+
+      expect(result.rejection?.problem).toBe('login')
+    })
+
     it('returns timing as number', async () => {
       const result = await browser.screenshotPage({
         viewport: DEFAULT_VIEWPORT,
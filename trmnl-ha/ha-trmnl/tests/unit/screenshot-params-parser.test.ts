@@ -211,6 +211,92 @@ describe('ScreenshotParamsParser', () => {
       expect(result!.format).toBe('jpeg')
     })
 
+    it('parses raw layout options for raw format', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x600',
+        format: 'raw',
+        bit_order: 'lsb',
+        planes: true,
+      })
+
+      const result = parser.call(url)
+
+      expect(result!.format).toBe('raw')
+      expect(result!.raw).toEqual({ bitOrder: 'lsb', planes: true })
+    })
+
+    it('defaults raw bit order to msb and ignores raw options for other formats', () => {
+      const raw = parser.call(
+        createUrl('/lovelace/0', {
+          viewport: '800x600',
+          format: 'raw',
+          bit_order: 'middle',
+        })
+      )
+      const png = parser.call(
+        createUrl('/lovelace/0', { viewport: '800x600', planes: true })
+      )
+
+      expect(raw!.raw).toEqual({ bitOrder: 'msb', planes: false })
+      expect(png!.raw).toBeUndefined()
+    })
+
+    it('parses the array name for h format', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x600',
+        format: 'h',
+        symbol: 'living room',
+        planes: true,
+      })
+
+      const result = parser.call(url)
+
+      expect(result!.format).toBe('h')
+      expect(result!.raw).toEqual({
+        bitOrder: 'msb',
+        planes: true,
+        symbol: 'living_room',
+      })
+    })
+
+    it('keys changed regions on the request URL', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x600',
+        changed_region: 'window',
+      })
+
+      const result = parser.call(url)
+
+      expect(result!.changedRegion).toBe('window')
+      expect(result!.frameKey).toBe(url.pathname + url.search)
+      expect(result!.pagePath).toBe('/lovelace/0')
+    })
+
+    it('keeps the frames of each device apart', () => {
+      const url = (device: string) =>
+        new URL(
+          `http://localhost/lovelace/0?viewport=800x480&changed_region=window&device=${device}`,
+        )
+
+      const kitchen = parser.call(url('kitchen'))
+      const hallway = parser.call(url('hallway'))
+
+      expect(kitchen!.frameKey).not.toBe(hallway!.frameKey)
+      expect(kitchen!.pagePath).toBe('/lovelace/0')
+    })
+
+    it('ignores unknown changed region modes', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x600',
+        changed_region: 'partial',
+      })
+
+      const result = parser.call(url)
+
+      expect(result!.changedRegion).toBeUndefined()
+      expect(result!.frameKey).toBeUndefined()
+    })
+
     it('defaults format to png when invalid', () => {
       const url = createUrl('/lovelace/0', {
         viewport: '800x600',
@@ -350,6 +436,175 @@ describe('ScreenshotParamsParser', () => {
     })
   })
 
+  // ==========================================================================
+  // Element Selector - selector, selector_padding
+  // ==========================================================================
+
+  describe('Element Selector', () => {
+    it('parses selector and padding', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x600',
+        selector: 'hui-entities-card:nth-of-type(2)',
+        selector_padding: '8',
+      })
+
+      const result = parser.call(url)
+
+      expect(result!.selector).toBe('hui-entities-card:nth-of-type(2)')
+      expect(result!.selectorPadding).toBe(8)
+      expect(result!.pagePath).toBe('/lovelace/0')
+    })
+
+    it('ignores padding without a selector', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x600',
+        selector: '  ',
+        selector_padding: '8',
+      })
+
+      const result = parser.call(url)
+
+      expect(result!.selector).toBeUndefined()
+      expect(result!.selectorPadding).toBeUndefined()
+    })
+  })
+
+  // ==========================================================================
+  // Full Page - full_page, tile
+  // ==========================================================================
+
+  describe('Full Page', () => {
+    it('parses tile mode and the page to capture', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x480',
+        full_page: 'tile',
+        tile: '2',
+      })
+
+      const result = parser.call(url)
+
+      expect(result!.fullPage).toBe('tile')
+      expect(result!.fullPageTile).toBe(2)
+      expect(result!.pagePath).toBe('/lovelace/0')
+    })
+
+    it('treats a bare flag as scale and ignores tile', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x480',
+        full_page: '',
+        tile: '2',
+      })
+
+      const result = parser.call(url)
+
+      expect(result!.fullPage).toBe('scale')
+      expect(result!.fullPageTile).toBeUndefined()
+    })
+
+    it('is off by default', () => {
+      const result = parser.call(
+        createUrl('/lovelace/0', { viewport: '800x480' }),
+      )
+
+      expect(result!.fullPage).toBeUndefined()
+    })
+  })
+
+  // ==========================================================================
+  // Supersampling - scale_factor, resample
+  // ==========================================================================
+
+  describe('Supersampling', () => {
+    it('parses the scale factor and filter', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x480',
+        scale_factor: '2',
+        resample: 'box',
+      })
+
+      const result = parser.call(url)
+
+      expect(result!.scaleFactor).toBe(2)
+      expect(result!.resampleFilter).toBe('box')
+    })
+
+    it('ignores unsupported factors and filters', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x480',
+        scale_factor: '4',
+        resample: 'box',
+      })
+
+      const result = parser.call(url)
+
+      expect(result!.scaleFactor).toBeUndefined()
+      expect(result!.resampleFilter).toBeUndefined()
+      expect(
+        parser.call(
+          createUrl('/lovelace/0', {
+            viewport: '800x480',
+            scale_factor: '3',
+            resample: 'sinc',
+          }),
+        )!.resampleFilter,
+      ).toBeUndefined()
+    })
+  })
+
+  // ==========================================================================
+  // Injected Styles - css, hide
+  // ==========================================================================
+
+  describe('Injected Styles', () => {
+    it('parses css and repeated hide params', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x600',
+        css: 'ha-card { border: none; }',
+      })
+      url.searchParams.append('hide', '.header')
+      url.searchParams.append('hide', 'ha-sidebar')
+
+      const result = parser.call(url)
+
+      expect(result!.css).toBe('ha-card { border: none; }')
+      expect(result!.hide).toEqual(['.header', 'ha-sidebar'])
+      expect(result!.pagePath).toBe('/lovelace/0')
+    })
+
+    it('leaves css and hide undefined when absent or blank', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x600',
+        css: ' ',
+        hide: '',
+      })
+
+      const result = parser.call(url)
+
+      expect(result!.css).toBeUndefined()
+      expect(result!.hide).toBeUndefined()
+    })
+  })
+
+  // ==========================================================================
+  // Page Actions - schedule-only
+  // ==========================================================================
+
+  describe('Page Actions', () => {
+    it('ignores actions in the URL', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x600',
+        actions: JSON.stringify([
+          { type: 'evaluate', expression: 'localStorage.hassTokens' },
+        ]),
+      })
+
+      const result = parser.call(url)
+
+      expect(result).not.toBeNull()
+      expect(result).not.toHaveProperty('actions')
+    })
+  })
+
   // ==========================================================================
   // Home Assistant Parameters - lang, theme, dark mode
   // ==========================================================================
@@ -429,6 +684,40 @@ describe('ScreenshotParamsParser', () => {
     })
   })
 
+  // ==========================================================================
+  // Render Cache Parameter - max_age
+  // ==========================================================================
+
+  describe('Render Cache Parameter', () => {
+    it('parses max_age in seconds', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x600',
+        max_age: '30',
+      })
+
+      const result = parser.call(url)
+
+      expect(result!.maxAge).toBe(30)
+    })
+
+    it('sets maxAge to undefined when zero or invalid', () => {
+      const zero = createUrl('/lovelace/0', { viewport: '800x600', max_age: '0' })
+      const bad = createUrl('/lovelace/0', { viewport: '800x600', max_age: 'x' })
+
+      expect(parser.call(zero)!.maxAge).toBeUndefined()
+      expect(parser.call(bad)!.maxAge).toBeUndefined()
+    })
+
+    it('does not forward max_age to the page', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x600',
+        max_age: '30',
+      })
+
+      expect(parser.call(url)!.pagePath).toBe('/lovelace/0')
+    })
+  })
+
   // ==========================================================================
   // Dithering Parameters - Only parsed when dithering flag present
   // ==========================================================================
@@ -484,6 +773,133 @@ describe('ScreenshotParamsParser', () => {
       expect(result!.dithering!.method).toBe('ordered')
     })
 
+    it('parses dither matrix for the ordered method', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x600',
+        dithering: true,
+        dither_method: 'ordered',
+        dither_matrix: 'halftone-6x6',
+      })
+
+      const result = parser.call(url)
+
+      expect(result!.dithering!.matrix).toBe('halftone-6x6')
+    })
+
+    it('ignores dither matrix for other methods or unknown values', () => {
+      const other = parser.call(
+        createUrl('/lovelace/0', {
+          viewport: '800x600',
+          dithering: true,
+          dither_matrix: '4x4',
+        }),
+      )
+      const unknown = parser.call(
+        createUrl('/lovelace/0', {
+          viewport: '800x600',
+          dithering: true,
+          dither_method: 'ordered',
+          dither_matrix: '16x16',
+        }),
+      )
+
+      expect(other!.dithering!.matrix).toBeUndefined()
+      expect(unknown!.dithering!.matrix).toBeUndefined()
+    })
+
+    it('parses error-diffusion tuning', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x600',
+        dithering: true,
+        dither_method: 'atkinson',
+        no_serpentine: true,
+        error_clamp: '96',
+      })
+
+      const result = parser.call(url)
+
+      expect(result!.dithering).toMatchObject({
+        method: 'atkinson',
+        serpentine: false,
+        errorClamp: 96,
+      })
+    })
+
+    it('defaults to serpentine scanning with no error clamp', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x600',
+        dithering: true,
+        error_clamp: '0',
+      })
+
+      const result = parser.call(url)
+
+      expect(result!.dithering!.serpentine).toBe(true)
+      expect(result!.dithering!.errorClamp).toBeUndefined()
+    })
+
+    it('parses color distance', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x600',
+        dithering: true,
+        palette: 'color-7a',
+        color_distance: 'ciede2000',
+      })
+
+      const result = parser.call(url)
+
+      expect(result!.dithering!.colorDistance).toBe('ciede2000')
+    })
+
+    it('ignores unknown color distances', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x600',
+        dithering: true,
+        color_distance: 'cmc',
+      })
+
+      const result = parser.call(url)
+
+      expect(result!.dithering!.colorDistance).toBeUndefined()
+    })
+
+    it('parses enhancement parameters', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x600',
+        dithering: true,
+        sharpen: '0.8',
+        sharpen_radius: '1.5',
+        gamma: '1.2',
+        contrast: '3',
+        contrast_midpoint: '40',
+        clahe: true,
+      })
+
+      const result = parser.call(url)
+
+      expect(result!.dithering!.enhance).toEqual({
+        sharpenAmount: 0.8,
+        sharpenRadius: 1.5,
+        gamma: 1.2,
+        contrast: 3,
+        contrastMidpoint: 40,
+        clahe: true,
+      })
+    })
+
+    it('ignores enhancement values out of range', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x600',
+        dithering: true,
+        sharpen: '50',
+        gamma: '0',
+      })
+
+      const result = parser.call(url)
+
+      expect(result!.dithering!.enhance).toBeUndefined()
+    })
+
     it('parses palette parameter', () => {
       const url = createUrl('/lovelace/0', {
         viewport: '800x600',
@@ -649,6 +1065,33 @@ describe('ScreenshotParamsParser', () => {
       expect(forCompression('10')).toBeUndefined()
     })
 
+    it('parses a positive max_bytes budget', () => {
+      const url = createUrl('/lovelace/0', {
+        viewport: '800x600',
+        dithering: true,
+        max_bytes: '50000',
+      })
+
+      const result = parser.call(url)
+
+      expect(result!.dithering!.maxBytes).toBe(50000)
+    })
+
+    it('drops non-positive max_bytes', () => {
+      const forMaxBytes = (max_bytes: string) =>
+        parser.call(
+          createUrl('/lovelace/0', {
+            viewport: '800x600',
+            dithering: true,
+            max_bytes,
+          }),
+        )!.dithering!.maxBytes
+
+      expect(forMaxBytes('0')).toBeUndefined()
+      expect(forMaxBytes('-5')).toBeUndefined()
+      expect(forMaxBytes('abc')).toBeUndefined()
+    })
+
     it('defaults normalize to true when no_normalize is absent', () => {
       const url = createUrl('/lovelace/0', {
         viewport: '800x600',
@@ -0,0 +1,199 @@
+/**
+ * Unit tests for the output size budget
+ *
+ * The retry loop runs against a fake encoder; the end-to-end case uses the
+ * in-process pipeline, so no ImageMagick is required.
+ *
+ * @module tests/unit/size-budget
+ */
+
+import { describe, it, expect } from 'bun:test'
+import { processImage, type DitheringOptions } from '../../lib/dithering.js'
+import { encodePng } from '../../lib/dithering/png.js'
+import {
+  budgetHeaders,
+  budgetSteps,
+  fitToBudget,
+} from '../../lib/dithering/size-budget.js'
+import type { SizeBudgetResult } from '../../types/domain.js'
+
+/** Deterministic noise, which compresses badly at every setting */
+function noiseCapture(width: number, height: number): Buffer {
+  const data = new Uint8Array(width * height * 3)
+  let seed = 1
+  for (let i = 0; i < data.length; i++) {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31
+    data[i] = seed >> 23
+  }
+  return encodePng({ width, height, channels: 3, data })
+}
+
+describe('budgetSteps', () => {
+  it('raises compression, lowers grays, then simplifies the dither', () => {
+    const steps = budgetSteps(
+      {
+        enabled: true,
+        palette: 'gray-16',
+        method: 'floyd-steinberg',
+        compressionLevel: 6,
+      },
+      'png',
+    )
+
+    expect(steps.map((s) => s.change)).toEqual([
+      'compression=9',
+      'palette=gray-4',
+      'palette=bw',
+      'method=ordered',
+      'method=threshold',
+    ])
+    expect(steps.at(-1)!.dithering).toMatchObject({
+      compressionLevel: 9,
+      palette: 'bw',
+      method: 'threshold',
+    })
+  })
+
+  it('skips steps that would change nothing', () => {
+    const steps = budgetSteps(
+      { enabled: true, palette: 'bw', method: 'none' },
+      'bmp',
+    )
+
+    expect(steps).toEqual([])
+  })
+
+  it('drops a bit depth override and steps 24-bit color down to 12-bit', () => {
+    const steps = budgetSteps(
+      {
+        enabled: true,
+        palette: 'color-24bit',
+        method: 'ordered',
+        bitDepth: 8,
+      },
+      'png',
+    )
+
+    expect(steps.map((s) => s.change)).toEqual([
+      'bit_depth=auto',
+      'palette=color-12bit',
+      'method=threshold',
+    ])
+  })
+})
+
+describe('fitToBudget', () => {
+  const dithering: DitheringOptions = {
+    enabled: true,
+    palette: 'gray-4',
+    method: 'floyd-steinberg',
+  }
+
+  /** Encoder whose output shrinks by 100 bytes per setting changed */
+  const shrinking =
+    (tried: DitheringOptions[]) => async (d: DitheringOptions) => {
+      tried.push(d)
+      return Buffer.alloc(500 - 100 * (tried.length - 1))
+    }
+
+  it('keeps the requested settings when they fit', async () => {
+    const tried: DitheringOptions[] = []
+    const { image, budget } = await fitToBudget(
+      1000,
+      dithering,
+      'png',
+      shrinking(tried),
+    )
+
+    expect(image.length).toBe(500)
+    expect(tried).toHaveLength(1)
+    expect(budget).toEqual({
+      maxBytes: 1000,
+      bytes: 500,
+      fits: true,
+      changes: [],
+      attempts: 1,
+    })
+  })
+
+  it('stops at the first step that fits', async () => {
+    const tried: DitheringOptions[] = []
+    const { image, budget } = await fitToBudget(
+      350,
+      dithering,
+      'png',
+      shrinking(tried),
+    )
+
+    expect(image.length).toBe(300)
+    expect(tried).toHaveLength(3)
+    expect(budget.fits).toBe(true)
+    expect(budget.changes).toEqual(['palette=bw', 'method=ordered'])
+  })
+
+  it('returns the smallest result when nothing fits', async () => {
+    const sizes = [900, 700, 800, 750]
+    const { image, budget } = await fitToBudget(
+      100,
+      dithering,
+      'png',
+      async () => Buffer.alloc(sizes.shift()!),
+    )
+
+    expect(image.length).toBe(700)
+    expect(budget.fits).toBe(false)
+    expect(budget.attempts).toBe(4)
+    expect(budget.changes).toEqual(['palette=bw'])
+  })
+})
+
+describe('budgetHeaders', () => {
+  it('reports the budget, size and settings used', () => {
+    const budget: SizeBudgetResult = {
+      maxBytes: 50000,
+      bytes: 41234,
+      fits: true,
+      changes: ['compression=9', 'palette=bw'],
+      attempts: 3,
+    }
+
+    expect(budgetHeaders(budget)).toEqual({
+      'X-Max-Bytes': '50000',
+      'X-Output-Bytes': '41234',
+      'X-Output-Settings': 'compression=9, palette=bw',
+    })
+    expect(
+      budgetHeaders({ ...budget, changes: [] })['X-Output-Settings'],
+    ).toBe('requested')
+  })
+})
+
+describe('processImage with maxBytes', () => {
+  const capture = noiseCapture(64, 64)
+  const options = (maxBytes?: number) => ({
+    format: 'png' as const,
+    native: true,
+    dithering: {
+      enabled: true,
+      palette: 'gray-256' as const,
+      method: 'floyd-steinberg' as const,
+      maxBytes,
+    },
+  })
+
+  it('encodes with cheaper settings until the output fits', async () => {
+    const full = await processImage(capture, options())
+    const budgets: SizeBudgetResult[] = []
+
+    const fitted = await processImage(capture, {
+      ...options(full.length / 2),
+      onBudget: (budget) => budgets.push(budget),
+    })
+
+    expect(fitted.length).toBeLessThanOrEqual(full.length / 2)
+    expect(budgets).toHaveLength(1)
+    expect(budgets[0]!.fits).toBe(true)
+    expect(budgets[0]!.bytes).toBe(fitted.length)
+    expect(budgets[0]!.changes[0]).toBe('palette=gray-16')
+  })
+})
@@ -8,6 +8,7 @@
  */
 
 import type { State } from 'gm'
+import type { ColorDistance, DitherMatrix } from './domain.js'
 
 /** Dithering mode determining color handling */
 export type DitheringMode = 'grayscale' | 'color'
@@ -19,6 +20,35 @@ export interface DitheringStrategyOptions {
 
   /** Number of colors for grayscale mode (2, 4, 16, 256) */
   colors?: number
+
+  /** Levels per channel for color mode, before remapping to the palette */
+  levels?: number
+
+  /** Threshold matrix for ordered dithering (default: 8x8) */
+  matrix?: DitherMatrix
+
+  /** Hex colors for color mode when a pixel strategy maps to them directly */
+  palette?: readonly string[]
+
+  /** Alternate scan direction per row (pixel strategies, default: true) */
+  serpentine?: boolean
+
+  /** Largest error per channel one pixel passes on (pixel strategies) */
+  errorClamp?: number
+
+  /** Match `palette` colors in CIELAB instead of RGB (pixel strategies) */
+  colorDistance?: ColorDistance
+
+  /** Per-pixel flags for pixels to threshold rather than diffuse (pixel strategies) */
+  crisp?: Uint8Array
+}
+
+/** Decoded 8-bit pixels, row-major, 1 (gray) or 3 (RGB) channels per pixel */
+export interface PixelBuffer {
+  width: number
+  height: number
+  channels: 1 | 3
+  data: Uint8Array
 }
 
 /**
@@ -36,3 +66,21 @@ export interface DitheringStrategy {
    */
   call(image: State, options: DitheringStrategyOptions): State
 }
+
+/**
+ * Interface for strategies that dither decoded pixels in process
+ *
+ * Used for algorithms ImageMagick doesn't offer. The pipeline runs every
+ * step before quantization in ImageMagick, hands the pixels to the
+ * strategy, then continues with the result.
+ */
+export interface PixelDitheringStrategy {
+  /**
+   * Quantizes pixels to the target gray levels or palette
+   *
+   * @param pixels - Prepared grayscale or sRGB pixels
+   * @param options - Dithering configuration
+   * @returns New pixel buffer holding only target colors
+   */
+  diffuse(pixels: PixelBuffer, options: DitheringStrategyOptions): PixelBuffer
+}
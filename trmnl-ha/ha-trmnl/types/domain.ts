@@ -7,6 +7,8 @@
  * @module types/domain
  */
 
+import type { PixelBuffer } from './dithering-strategy.js'
+
 // =============================================================================
 // VIEWPORT & DIMENSIONS
 // =============================================================================
@@ -17,6 +19,21 @@ export interface Viewport {
   height: number
 }
 
+/**
+ * Capturing a page taller than the display:
+ * - `scale`: capture all of it and shrink it to the display
+ * - `tile`: cut it into display-sized pages and capture one
+ */
+export type FullPageMode = 'scale' | 'tile'
+
+/** Where a tile-mode capture sits among the pages of the dashboard */
+export interface FullPageTiles {
+  /** 1-based tile captured */
+  tile: number
+  /** Display-sized tiles the content spans */
+  count: number
+}
+
 /** Crop region for partial screenshots */
 export interface CropRegion {
   x: number
@@ -29,12 +46,83 @@ export interface CropRegion {
 // IMAGE PROCESSING
 // =============================================================================
 
-/** Valid output image formats */
-export type ImageFormat = 'png' | 'jpeg' | 'bmp'
+/**
+ * Valid output image formats (`raw` is packed panel bytes, no header; `h`
+ * is the same bytes as a C array for Arduino sketches)
+ */
+export type ImageFormat = 'png' | 'jpeg' | 'bmp' | 'raw' | 'h'
+
+/** Which end of each byte of raw output holds the leftmost pixel */
+export type RawBitOrder = 'msb' | 'lsb'
+
+/** How raw output is laid out */
+export interface RawOptions {
+  /** Bit order within each byte (default: msb) */
+  bitOrder?: RawBitOrder
+  /** Write one 1-bit plane after another instead of packed pixels */
+  planes?: boolean
+  /** C identifier for the array in `h` output (default: image) */
+  symbol?: string
+}
+
+/** Shape of raw output, reported alongside its bytes */
+export interface RawLayout {
+  width: number
+  height: number
+  /** Bits per pixel within each plane */
+  bitsPerPixel: number
+  bitOrder: RawBitOrder
+  /** Number of planes, stored one after the other (1 when packed) */
+  planes: number
+  /** `#RRGGBB` per palette index, or per plane for color planes */
+  colors?: string[]
+}
+
+/** A rectangle of an output frame, in output pixels */
+export interface FrameRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * What to do with the parts of a frame that changed since the last one:
+ * - `report`: send the full frame and describe the changed regions
+ * - `window`: send only the window around the changes, for partial refresh
+ */
+export type ChangedRegionMode = 'report' | 'window'
+
+/** How a frame differs from the previous one for the same schedule or URL */
+export interface FrameChanges {
+  width: number
+  height: number
+  /** Changed rectangles, top to bottom; empty when nothing changed */
+  regions: FrameRegion[]
+  /** One rectangle covering every region, null when nothing changed */
+  bounds: FrameRegion | null
+  /** No earlier frame of this size to compare with, so all of it changed */
+  full: boolean
+  /** Part of the frame the image holds, when only the window was sent */
+  window?: FrameRegion
+}
+
+/** The changed window of a frame, encoded on its own */
+export interface FrameWindow {
+  image: Buffer
+  /** Layout of the window's bytes, for `raw` and `h` output */
+  raw?: RawLayout
+}
 
 /** Valid rotation angles in degrees */
 export type RotationAngle = 90 | 180 | 270
 
+/** Supersampling factor: the page renders at this multiple of its viewport */
+export type ScaleFactor = 1 | 2 | 3
+
+/** Filter used to resample a supersampled capture back to its CSS size */
+export type ResampleFilter = 'lanczos' | 'mitchell' | 'box'
+
 /** Grayscale palette types for e-ink displays */
 export type GrayscalePalette = 'bw' | 'gray-4' | 'gray-16' | 'gray-256'
 
@@ -53,8 +141,39 @@ export type ColorPalette =
 /** All supported palettes */
 export type Palette = GrayscalePalette | ColorPalette
 
+/**
+ * How the nearest palette color is chosen: RGB distance, or CIE94 /
+ * CIEDE2000 in CIELAB, which track what the eye sees
+ */
+export type ColorDistance = 'rgb' | 'cie94' | 'ciede2000'
+
+/** Id of a user-defined palette, assigned when it is created */
+export type CustomPaletteId = `custom-${string}`
+
+/** Error-diffusion kernels run by the in-process diffusion engine */
+export type ErrorDiffusionMethod =
+  | 'atkinson'
+  | 'stucki'
+  | 'sierra'
+  | 'burkes'
+  | 'jarvis'
+
 /** Dithering algorithm methods */
-export type DitheringMethod = 'floyd-steinberg' | 'ordered' | 'threshold'
+export type DitheringMethod =
+  | 'floyd-steinberg'
+  | 'ordered'
+  | 'threshold'
+  | 'hybrid'
+  | ErrorDiffusionMethod
+
+/** Threshold matrix for ordered dithering: Bayer or clustered-dot halftone */
+export type DitherMatrix =
+  | '2x2'
+  | '4x4'
+  | '8x8'
+  | 'halftone-4x4'
+  | 'halftone-6x6'
+  | 'halftone-8x8'
 
 /** Valid bit depth values for PNG output */
 export type BitDepth = 1 | 2 | 4 | 8
@@ -62,11 +181,38 @@ export type BitDepth = 1 | 2 | 4 | 8
 /** Valid PNG compression levels (1-9, higher = smaller files but slower) */
 export type CompressionLevel = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9
 
+/**
+ * Image adjustments applied after normalize and levels, right before
+ * quantization. Every field is optional; unset fields change nothing.
+ */
+export interface EnhanceConfig {
+  /** Unsharp mask strength, 0-5 (0 = off) */
+  sharpenAmount?: number
+  /** Unsharp mask radius (Gaussian sigma) in pixels, 0.1-10 (default: 1) */
+  sharpenRadius?: number
+  /** Gamma, 0.1-5: above 1 brightens midtones, below 1 darkens them */
+  gamma?: number
+  /** Sigmoidal contrast strength, 0-20 (0 = off) */
+  contrast?: number
+  /** Brightness, 0-100%, that the contrast curve pivots around (default: 50) */
+  contrastMidpoint?: number
+  /** Local contrast equalization (CLAHE) */
+  clahe?: boolean
+}
+
 /** Dithering configuration for e-ink optimization */
 export interface DitheringConfig {
   enabled: boolean
   method: DitheringMethod
-  palette: Palette
+  /** Threshold matrix for the ordered method (default: 8x8) */
+  matrix?: DitherMatrix
+  /** Alternate scan direction per row for error-diffusion kernels (default: true) */
+  serpentine?: boolean
+  /** Largest error per channel one pixel passes on (default: unlimited) */
+  errorClamp?: number
+  palette: Palette | CustomPaletteId
+  /** Color matching for discrete color palettes (default: rgb) */
+  colorDistance?: ColorDistance
   gammaCorrection: boolean
   /** Enable manual black/white level adjustments (default: false) */
   levelsEnabled?: boolean
@@ -78,6 +224,61 @@ export interface DitheringConfig {
   bitDepth?: BitDepth
   /** PNG compression level 1-9 (default: 9, max compression) */
   compressionLevel?: CompressionLevel
+  /** Retry with cheaper settings until the output fits (bytes, default: no limit) */
+  maxBytes?: number
+  /** Sharpening and tone adjustments before quantization */
+  enhance?: EnhanceConfig
+}
+
+// =============================================================================
+// PAGE ACTIONS
+// =============================================================================
+
+/**
+ * A scripted step run after the page is ready and before capture.
+ * Selectors reach into shadow roots; `timeout` caps the step (milliseconds).
+ */
+export type PageAction =
+  | { type: 'click'; selector: string; timeout?: number }
+  | { type: 'type'; selector: string; text: string; timeout?: number }
+  | { type: 'scroll'; selector: string; timeout?: number }
+  | { type: 'wait_for'; selector: string; timeout?: number }
+  | { type: 'wait'; ms: number }
+  | { type: 'evaluate'; expression: string; timeout?: number }
+
+/** Page action type names */
+export type PageActionType = PageAction['type']
+
+// =============================================================================
+// ENTITY CONDITIONS
+// =============================================================================
+
+/**
+ * Comparison applied to an entity:
+ * - `eq` / `neq`: state equals / differs from `value`
+ * - `updated_within`: `last_updated` is at most `seconds` old
+ */
+export type EntityConditionOperator = 'eq' | 'neq' | 'updated_within'
+
+/** What a schedule does when its entity condition never holds */
+export type EntityConditionTimeoutAction = 'capture' | 'skip'
+
+/**
+ * Home Assistant state a schedule waits for before capture, e.g. a sensor
+ * holding a fresh value or a camera having updated.
+ */
+export interface EntityCondition {
+  /** Entity to watch (e.g., "sensor.outdoor_temperature") */
+  entity_id: string
+  operator: EntityConditionOperator
+  /** State compared against (`eq` / `neq`) */
+  value?: string
+  /** Maximum age of the last update (`updated_within`) */
+  seconds?: number
+  /** How long to wait for the condition (milliseconds) */
+  timeout?: number
+  /** Capture anyway (default) or skip the delivery when the wait times out */
+  on_timeout?: EntityConditionTimeoutAction
 }
 
 // =============================================================================
@@ -105,9 +306,42 @@ export interface ScreenshotParams {
   /** Browser zoom level (1.0 = 100%) */
   zoom: number
 
+  /** Custom stylesheet injected into the page and its shadow roots */
+  css?: string
+
+  /** Selectors of elements to hide before capture */
+  hide?: string[]
+
+  /** Steps run after the page is ready, before capture */
+  actions?: PageAction[]
+
+  /** Home Assistant state to wait for before capture */
+  entityCondition?: EntityCondition
+
+  /** Share of the dashboard's entities (0-1) that may be unavailable */
+  maxUnavailable?: number
+
   /** Crop region for partial screenshots */
   crop: CropRegion | null
 
+  /** Capture only the element matching this selector (takes precedence over crop) */
+  selector?: string
+
+  /** Pixels captured around the selected element */
+  selectorPadding?: number
+
+  /** Capture the whole page, not just the viewport */
+  fullPage?: FullPageMode
+
+  /** 1-based page to capture in tile mode */
+  fullPageTile?: number
+
+  /** Render at this multiple of the viewport, then resample down */
+  scaleFactor?: ScaleFactor
+
+  /** Filter for resampling a supersampled capture (default: lanczos) */
+  resampleFilter?: ResampleFilter
+
   /** Invert colors (for e-ink displays) */
   invert: boolean
 
@@ -117,6 +351,18 @@ export interface ScreenshotParams {
   /** Output image format */
   format: ImageFormat
 
+  /** Layout of `raw` output */
+  raw?: RawOptions
+
+  /** Diff against the previous frame: report what changed, or send only that */
+  changedRegion?: ChangedRegionMode
+
+  /** Which previous frame to diff against: the schedule or request URL */
+  frameKey?: string
+
+  /** Return the processed pixels with the capture, as `frame` */
+  keepFrame?: boolean
+
   /** Rotation angle */
   rotate?: RotationAngle
 
@@ -224,6 +470,15 @@ export interface Schedule {
   /** Webhook payload format configuration (null/undefined = 'raw' for backward compat) */
   webhook_format?: WebhookFormatConfig | null
 
+  /** Skip the webhook when the capture matches the last one delivered */
+  skip_unchanged?: boolean
+
+  /** Percent of pixels that may differ and still count as unchanged (null = exact match) */
+  unchanged_tolerance?: number | null
+
+  /** Deliver at least once every this many runs, changed or not (null = never force) */
+  force_every?: number | null
+
   /** Whether to use Home Assistant mode (true) or generic URL mode (false) */
   ha_mode: boolean
 
@@ -242,15 +497,60 @@ export interface Schedule {
   /** Crop region configuration */
   crop: CropRegion & { enabled: boolean }
 
+  /** CSS selector or `title=<card title>` of the element to capture (null = whole page) */
+  selector?: string | null
+
+  /** Pixels captured around the selected element */
+  selector_padding?: number
+
+  /** Capture the whole page, scaled or tiled (null = viewport only) */
+  full_page?: FullPageMode | null
+
+  /** 1-based page a tile-mode schedule starts at; each run takes the next */
+  full_page_tile?: number
+
+  /** Supersampling factor (null = render at 1x) */
+  scale_factor?: ScaleFactor | null
+
+  /** Filter for resampling a supersampled capture */
+  resample_filter?: ResampleFilter | null
+
   /** Output image format */
   format: ImageFormat
 
+  /** Bit order of `raw` and `h` output (null = msb) */
+  raw_bit_order?: RawBitOrder | null
+
+  /** Write `raw` and `h` output as separate 1-bit planes */
+  raw_planes?: boolean
+
+  /** C array name for `h` output (null = image) */
+  header_symbol?: string | null
+
+  /** Diff each frame against the last: report changes or send only the window (null = off) */
+  changed_region?: ChangedRegionMode | null
+
   /** Rotation angle (null for no rotation) */
   rotate: RotationAngle | null
 
   /** Browser zoom level */
   zoom: number
 
+  /** Custom stylesheet injected into the page and its shadow roots (null = none) */
+  custom_css?: string | null
+
+  /** Selectors of elements to hide before capture (e.g. the HA header) */
+  hide_selectors?: string[]
+
+  /** Steps run in order after the page is ready, before capture */
+  actions?: PageAction[]
+
+  /** Entity state to wait for before capture (null for none) */
+  entity_condition?: EntityCondition | null
+
+  /** Percent of the dashboard's entities that may be unavailable before the capture is rejected (null = default) */
+  max_unavailable?: number | null
+
   /** Extra wait time (null for default) */
   wait: number | null
 
@@ -307,12 +607,79 @@ export interface SendScheduleResponse {
   success: boolean
   /** Path where screenshot was saved (if successful) */
   savedPath?: string
+  /** Why delivery was skipped (entity condition timed out) */
+  skipped?: string
+  /** What was wrong with a capture that wasn't delivered */
+  rejected?: CaptureProblem
+  /** How the frame differs from the last run, with changed_region set */
+  changes?: FrameChanges
   /** Error message (if screenshot capture failed) */
   error?: string
   /** Webhook execution details (if webhook was configured) */
   webhook?: WebhookResult
 }
 
+// =============================================================================
+// DEVICES (built-in BYOS device API)
+// =============================================================================
+
+/**
+ * TRMNL device that polls the add-on directly via /api/setup and /api/display
+ *
+ * Persisted to JSON file via deviceStore module
+ */
+export interface Device {
+  /** Unique identifier */
+  id: string
+
+  /** Device MAC address (ID header), normalized to upper case */
+  mac: string
+
+  /** Key the device sends back in the Access-Token header */
+  api_key: string
+
+  /** Short human-friendly code shown on the device during setup */
+  friendly_id: string
+
+  /** Human-readable name */
+  name: string
+
+  /** Schedule whose captures this device displays (null = first enabled schedule) */
+  schedule_id: string | null
+
+  /** ISO timestamp of the last /api/display poll */
+  last_seen_at: string | null
+
+  /** Battery voltage reported by the device */
+  battery_voltage: number | null
+
+  /** Wi-Fi signal strength (dBm) reported by the device */
+  rssi: number | null
+
+  /** Firmware version reported by the device */
+  firmware_version: string | null
+
+  /** ISO timestamp of creation */
+  createdAt: string
+
+  /** ISO timestamp of last update */
+  updatedAt: string
+}
+
+/** Fields set once at registration, never by an update */
+export type DeviceIdentityField =
+  | 'id'
+  | 'mac'
+  | 'api_key'
+  | 'friendly_id'
+  | 'createdAt'
+
+/** Device fields editable through the API */
+export type DeviceUpdate = Partial<Omit<Device, DeviceIdentityField>>
+
+/** A device as the devices API shows it: never with its API key */
+export type DeviceView = Omit<Device, 'api_key'>
+
 // =============================================================================
 // NAVIGATION & BROWSER
 // =============================================================================
@@ -330,6 +697,71 @@ export interface ScreenshotResult {
 
   /** Total processing time (milliseconds) */
   time: number
+
+  /** How the image was fitted to dithering's maxBytes, when set */
+  budget?: SizeBudgetResult
+
+  /** Layout of the bytes, for `raw` and `h` output */
+  raw?: RawLayout
+
+  /** How the frame differs from the previous one, when changedRegion is set */
+  changes?: FrameChanges
+
+  /**
+   * Just the changed window, in `window` mode. `image` is always the full
+   * frame, which is what gets saved and cached.
+   */
+  window?: FrameWindow
+
+  /**
+   * Keeps this frame as the one the next capture for its frameKey is
+   * compared with. Call it once the capture has been delivered, so the
+   * next diff starts from what the device actually shows.
+   */
+  recordFrame?: () => void
+
+  /** Processed pixels before encoding, when keepFrame is set */
+  frame?: PixelBuffer
+
+  /** Tile captured and tiles the page spans, in full-page tile mode */
+  tiles?: FullPageTiles
+
+  /** Set when the capture looks like a login, error or blank page */
+  rejection?: CaptureRejection
+}
+
+/**
+ * Why a capture is unfit to deliver:
+ * - `blank`: nearly every pixel is the same color
+ * - `login`: Home Assistant redirected to its login page
+ * - `error-page`: the browser showed its own error page
+ * - `unavailable`: too many Home Assistant entities are unavailable
+ */
+export type CaptureProblem = 'blank' | 'login' | 'error-page' | 'unavailable'
+
+/** A capture that failed validation */
+export interface CaptureRejection {
+  problem: CaptureProblem
+  /** What was found, for logs and run results */
+  detail: string
+}
+
+/** How an image was fitted to its output size budget */
+export interface SizeBudgetResult {
+  /** Budget the image had to fit (bytes) */
+  maxBytes: number
+
+  /** Size of the image used (bytes) */
+  bytes: number
+
+  /** Whether the image used is within budget */
+  fits: boolean
+
+  /** Changes from the requested settings, in order; empty when they fit */
+  changes: string[]
+
+  /** Encodings tried, including the requested one */
+  attempts: number
 }
 
 // =============================================================================
@@ -382,6 +814,33 @@ export const isGrayscalePalette = (
   c: PaletteConfig,
 ): c is GrayscalePaletteConfig => 'levels' in c
 
+/**
+ * One color of a custom palette. Real panels show duller colors than the
+ * ideal values their firmware expects, so dithering works with the color
+ * the panel actually shows and the file gets the value it expects.
+ */
+export interface CustomPaletteColor {
+  /** Color as it appears on the panel (#RRGGBB), used for dithering */
+  perceived: string
+  /** Color written to the output image (#RRGGBB) */
+  output: string
+}
+
+/** User-defined palette, stored in the data directory */
+export interface CustomPalette {
+  id: CustomPaletteId
+  name: string
+  colors: CustomPaletteColor[]
+  createdAt: string
+  updatedAt: string
+}
+
+/** Fields accepted when creating or updating a custom palette */
+export interface CustomPaletteInput {
+  name: string
+  colors: CustomPaletteColor[]
+}
+
 /** Color palette definitions (hex color arrays) - derived from PALETTES */
 export type ColorPaletteDefinition = Record<ColorPalette, string[]>
 
@@ -400,6 +859,7 @@ export interface GrayscaleDitheringPreset {
   gammaCorrection: boolean
   blackLevel: number
   whiteLevel: number
+  enhance?: EnhanceConfig
 }
 
 /** Color dithering config (uses palette) */
@@ -412,6 +872,7 @@ export interface ColorDitheringPreset {
   whiteLevel: number
   normalize: boolean
   saturationBoost: boolean
+  enhance?: EnhanceConfig
 }
 
 /** Combined dithering preset type */